@@ -1,6 +1,9 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
-    /* config options here */
+    experimental: {
+      // tesseract.js starts its worker from files in its package, so it must not be bundled
+      serverComponentsExternalPackages: ['tesseract.js'],
+    },
   };
   
   module.exports = nextConfig;
\ No newline at end of file
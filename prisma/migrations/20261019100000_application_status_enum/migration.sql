@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "ApplicationStatus" AS ENUM ('APPLIED', 'REVIEWING', 'INTERVIEWED', 'OFFERED', 'REJECTED', 'WITHDRAWN');
+
+-- Convert existing free-text statuses, covering both the values written by
+-- POST /api/applications and the ones accepted by the old PATCH handler
+ALTER TABLE "Application" ALTER COLUMN "status" TYPE "ApplicationStatus" USING (
+  CASE upper(trim("status"))
+    WHEN 'APPLIED' THEN 'APPLIED'
+    WHEN 'PENDING' THEN 'APPLIED'
+    WHEN 'REVIEWING' THEN 'REVIEWING'
+    WHEN 'APPROVED' THEN 'REVIEWING'
+    WHEN 'INTERVIEWED' THEN 'INTERVIEWED'
+    WHEN 'SELECTED_FOR_INTERVIEW' THEN 'INTERVIEWED'
+    WHEN 'OFFERED' THEN 'OFFERED'
+    WHEN 'REJECTED' THEN 'REJECTED'
+    WHEN 'WITHDRAWN' THEN 'WITHDRAWN'
+    ELSE 'APPLIED'
+  END
+)::"ApplicationStatus";
+
+-- AlterTable
+ALTER TABLE "Application" ALTER COLUMN "status" SET DEFAULT 'APPLIED';
@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "ApplicationEventType" AS ENUM ('CREATED', 'STATUS_CHANGED', 'FEEDBACK_UPDATED', 'WITHDRAWN', 'DELETED');
+
+-- CreateTable
+CREATE TABLE "ApplicationEvent" (
+    "id" TEXT NOT NULL,
+    "applicationId" TEXT NOT NULL,
+    "type" "ApplicationEventType" NOT NULL,
+    "actorId" TEXT,
+    "fromValue" TEXT,
+    "toValue" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ApplicationEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ApplicationEvent_applicationId_createdAt_idx" ON "ApplicationEvent"("applicationId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ApplicationEvent" ADD CONSTRAINT "ApplicationEvent_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill a creation event for existing applications
+INSERT INTO "ApplicationEvent" ("id", "applicationId", "type", "toValue", "createdAt")
+SELECT 'evt_' || "id", "id", 'CREATED', 'APPLIED', "appliedAt" FROM "Application";
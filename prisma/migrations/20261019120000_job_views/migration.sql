@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "JobView" (
+    "id" TEXT NOT NULL,
+    "jobPostingId" TEXT NOT NULL,
+    "visitorId" TEXT NOT NULL,
+    "viewedOn" DATE NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "JobView_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "JobView_jobPostingId_visitorId_viewedOn_key" ON "JobView"("jobPostingId", "visitorId", "viewedOn");
+
+-- CreateIndex
+CREATE INDEX "JobView_jobPostingId_viewedOn_idx" ON "JobView"("jobPostingId", "viewedOn");
+
+-- AddForeignKey
+ALTER TABLE "JobView" ADD CONSTRAINT "JobView_jobPostingId_fkey" FOREIGN KEY ("jobPostingId") REFERENCES "JobPosting"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,67 @@
+-- CreateEnum
+CREATE TYPE "SalaryPeriod" AS ENUM ('HOURLY', 'MONTHLY', 'YEARLY');
+
+-- AlterTable
+ALTER TABLE "JobPosting" ADD COLUMN "salaryMin" INTEGER,
+ADD COLUMN "salaryMax" INTEGER,
+ADD COLUMN "currency" TEXT NOT NULL DEFAULT 'USD',
+ADD COLUMN "period" "SalaryPeriod" NOT NULL DEFAULT 'YEARLY';
+
+-- Parse the free-text salaries, e.g. "$80,000 - $100,000", "80-100k", "90k+" or "€25/hour".
+-- Amounts are the first two numbers in the text, with an optional k/m suffix. In a
+-- range like "80-100k" the suffix of the second number also applies to the first.
+WITH "numbers" AS (
+    SELECT "id", "salary",
+        ARRAY(
+            SELECT replace(m[1], ',', '')::NUMERIC
+            FROM regexp_matches("salary", '(\d[\d,]*(?:\.\d+)?)\s*([kKmM](?![a-zA-Z]))?', 'g') WITH ORDINALITY AS t(m, n)
+            ORDER BY n
+            LIMIT 2
+        ) AS "values",
+        ARRAY(
+            SELECT CASE lower(m[2]) WHEN 'k' THEN 1000 WHEN 'm' THEN 1000000 ELSE 1 END
+            FROM regexp_matches("salary", '(\d[\d,]*(?:\.\d+)?)\s*([kKmM](?![a-zA-Z]))?', 'g') WITH ORDINALITY AS t(m, n)
+            ORDER BY n
+            LIMIT 2
+        ) AS "multipliers"
+    FROM "JobPosting"
+    WHERE "salary" IS NOT NULL
+), "parsed" AS (
+    SELECT "id", "salary",
+        ARRAY(
+            SELECT v * CASE
+                WHEN i = 1 AND "multipliers"[1] = 1 AND cardinality("values") = 2 AND v <= "values"[2] THEN "multipliers"[2]
+                ELSE "multipliers"[i]
+            END
+            FROM unnest("values") WITH ORDINALITY AS u(v, i)
+            ORDER BY i
+        ) AS "amounts"
+    FROM "numbers"
+)
+UPDATE "JobPosting" AS j SET
+    "salaryMin" = CASE
+        WHEN p."salary" ~* '(up to|max)' AND cardinality(p."amounts") = 1 THEN NULL
+        ELSE round(LEAST(p."amounts"[1], COALESCE(p."amounts"[2], p."amounts"[1])))
+    END,
+    "salaryMax" = CASE
+        WHEN p."salary" ~* '(\+|from|at least|min)' AND cardinality(p."amounts") = 1 THEN NULL
+        ELSE round(GREATEST(p."amounts"[1], COALESCE(p."amounts"[2], p."amounts"[1])))
+    END,
+    "currency" = CASE
+        WHEN p."salary" ~* '(€|eur)' THEN 'EUR'
+        WHEN p."salary" ~* '(£|gbp)' THEN 'GBP'
+        WHEN p."salary" ~* '(₹|inr|rs\.?\s)' THEN 'INR'
+        WHEN p."salary" ~* '(cad|c\$)' THEN 'CAD'
+        WHEN p."salary" ~* '(aud|a\$)' THEN 'AUD'
+        ELSE 'USD'
+    END,
+    "period" = CASE
+        WHEN p."salary" ~* '(/\s*h|hour|\mhrs?\M)' THEN 'HOURLY'::"SalaryPeriod"
+        WHEN p."salary" ~* '(/\s*mo|month)' THEN 'MONTHLY'::"SalaryPeriod"
+        ELSE 'YEARLY'::"SalaryPeriod"
+    END
+FROM "parsed" AS p
+WHERE j."id" = p."id" AND cardinality(p."amounts") > 0;
+
+-- Keep the original text; postings without amounts (e.g. "Competitive") still show it
+ALTER TABLE "JobPosting" RENAME COLUMN "salary" TO "salaryText";
@@ -0,0 +1,11 @@
+-- AlterTable
+-- Title matches rank above company, then description and requirements
+ALTER TABLE "JobPosting" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("company", '')), 'B') ||
+    setweight(to_tsvector('english', coalesce("description", '')), 'C') ||
+    setweight(to_tsvector('english', coalesce("requirements", '')), 'D')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "JobPosting_searchVector_idx" ON "JobPosting" USING GIN ("searchVector");
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "JobSeekerProfile" RENAME COLUMN "resumeUrl" TO "resumeKey";
+
+-- Files used to live under public/uploads/resumes; keep their file name as the storage key
+UPDATE "JobSeekerProfile"
+SET "resumeKey" = regexp_replace("resumeKey", '^/?(public/)?uploads/resumes/', '')
+WHERE "resumeKey" IS NOT NULL;
@@ -0,0 +1,48 @@
+-- CreateEnum
+CREATE TYPE "ResumeImportStatus" AS ENUM ('PENDING', 'IMPORTED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "ProposedExperience" (
+    "id" TEXT NOT NULL,
+    "jobSeekerProfileId" TEXT NOT NULL,
+    "company" TEXT NOT NULL,
+    "position" TEXT NOT NULL,
+    "dates" TEXT,
+    "startDate" TIMESTAMP(3),
+    "endDate" TIMESTAMP(3),
+    "current" BOOLEAN NOT NULL DEFAULT false,
+    "description" TEXT,
+    "status" "ResumeImportStatus" NOT NULL DEFAULT 'PENDING',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProposedExperience_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ProposedEducation" (
+    "id" TEXT NOT NULL,
+    "jobSeekerProfileId" TEXT NOT NULL,
+    "institution" TEXT NOT NULL,
+    "degree" TEXT NOT NULL,
+    "field" TEXT,
+    "dates" TEXT,
+    "startDate" TIMESTAMP(3),
+    "endDate" TIMESTAMP(3),
+    "current" BOOLEAN NOT NULL DEFAULT false,
+    "status" "ResumeImportStatus" NOT NULL DEFAULT 'PENDING',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProposedEducation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProposedExperience_jobSeekerProfileId_status_idx" ON "ProposedExperience"("jobSeekerProfileId", "status");
+
+-- CreateIndex
+CREATE INDEX "ProposedEducation_jobSeekerProfileId_status_idx" ON "ProposedEducation"("jobSeekerProfileId", "status");
+
+-- AddForeignKey
+ALTER TABLE "ProposedExperience" ADD CONSTRAINT "ProposedExperience_jobSeekerProfileId_fkey" FOREIGN KEY ("jobSeekerProfileId") REFERENCES "JobSeekerProfile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProposedEducation" ADD CONSTRAINT "ProposedEducation_jobSeekerProfileId_fkey" FOREIGN KEY ("jobSeekerProfileId") REFERENCES "JobSeekerProfile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
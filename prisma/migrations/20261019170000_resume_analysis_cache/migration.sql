@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "ResumeAnalysis" (
+    "id" TEXT NOT NULL,
+    "parsedResumeId" TEXT NOT NULL,
+    "textHash" TEXT NOT NULL,
+    "analyzerVersion" TEXT NOT NULL,
+    "result" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ResumeAnalysis_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ResumeAnalysis_parsedResumeId_key" ON "ResumeAnalysis"("parsedResumeId");
+
+-- AddForeignKey
+ALTER TABLE "ResumeAnalysis" ADD CONSTRAINT "ResumeAnalysis_parsedResumeId_fkey" FOREIGN KEY ("parsedResumeId") REFERENCES "ParsedResume"("id") ON DELETE CASCADE ON UPDATE CASCADE;
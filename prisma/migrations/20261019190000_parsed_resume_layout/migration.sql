@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ParsedResume" ADD COLUMN "layout" JSONB;
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "ResumeExtractionFailure" AS ENUM ('ENCRYPTED', 'IMAGE_ONLY', 'CORRUPT', 'EMPTY', 'UNSUPPORTED');
+
+-- AlterTable
+ALTER TABLE "ParsedResume" ADD COLUMN "extractionFailure" "ResumeExtractionFailure";
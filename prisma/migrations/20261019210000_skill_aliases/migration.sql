@@ -0,0 +1,57 @@
+-- AlterTable
+ALTER TABLE "Skill" ADD COLUMN "normalizedName" TEXT;
+
+-- Same rule as normalizeSkillName: NFKC, leading bullets and dashes and trailing ",;:"
+-- trimmed as in cleanSkillName, then lower case without spaces, dots, dashes or underscores
+UPDATE "Skill" SET "normalizedName" = lower(regexp_replace(
+  regexp_replace(normalize("name", NFKC), '^[[:space:],;:•·*-]+|[[:space:],;:]+$', '', 'g'),
+  '[[:space:]._-]+', '', 'g'
+));
+
+-- Merge skills that only differed in case or punctuation into the first of them
+CREATE TEMP TABLE "SkillMerge" AS
+SELECT "id", first_value("id") OVER (PARTITION BY "normalizedName" ORDER BY "id") AS "keepId"
+FROM "Skill";
+
+INSERT INTO "_JobSeekerProfileToSkill" ("A", "B")
+SELECT link."A", merge."keepId"
+FROM "_JobSeekerProfileToSkill" link
+JOIN "SkillMerge" merge ON merge."id" = link."B"
+WHERE merge."id" <> merge."keepId"
+ON CONFLICT DO NOTHING;
+
+INSERT INTO "_JobPostingToSkill" ("A", "B")
+SELECT link."A", merge."keepId"
+FROM "_JobPostingToSkill" link
+JOIN "SkillMerge" merge ON merge."id" = link."B"
+WHERE merge."id" <> merge."keepId"
+ON CONFLICT DO NOTHING;
+
+DELETE FROM "Skill" USING "SkillMerge" merge
+WHERE "Skill"."id" = merge."id" AND merge."id" <> merge."keepId";
+
+DROP TABLE "SkillMerge";
+
+ALTER TABLE "Skill" ALTER COLUMN "normalizedName" SET NOT NULL;
+
+-- CreateTable
+CREATE TABLE "SkillAlias" (
+    "id" TEXT NOT NULL,
+    "skillId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "normalizedName" TEXT NOT NULL,
+
+    CONSTRAINT "SkillAlias_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Skill_normalizedName_key" ON "Skill"("normalizedName");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SkillAlias_normalizedName_key" ON "SkillAlias"("normalizedName");
+
+-- CreateIndex
+CREATE INDEX "SkillAlias_skillId_idx" ON "SkillAlias"("skillId");
+
+-- AddForeignKey
+ALTER TABLE "SkillAlias" ADD CONSTRAINT "SkillAlias_skillId_fkey" FOREIGN KEY ("skillId") REFERENCES "Skill"("id") ON DELETE CASCADE ON UPDATE CASCADE;
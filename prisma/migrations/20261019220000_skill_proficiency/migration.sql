@@ -0,0 +1,75 @@
+-- CreateEnum
+CREATE TYPE "SkillLevel" AS ENUM ('BEGINNER', 'INTERMEDIATE', 'ADVANCED', 'EXPERT');
+
+-- CreateEnum
+CREATE TYPE "SkillSource" AS ENUM ('SELF_DECLARED', 'RESUME');
+
+-- CreateTable
+CREATE TABLE "JobSeekerSkill" (
+    "id" TEXT NOT NULL,
+    "jobSeekerProfileId" TEXT NOT NULL,
+    "skillId" TEXT NOT NULL,
+    "level" "SkillLevel",
+    "yearsOfExperience" DOUBLE PRECISION,
+    "lastUsed" TIMESTAMP(3),
+    "source" "SkillSource" NOT NULL DEFAULT 'SELF_DECLARED',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "JobSeekerSkill_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "JobPostingSkill" (
+    "id" TEXT NOT NULL,
+    "jobPostingId" TEXT NOT NULL,
+    "skillId" TEXT NOT NULL,
+    "required" BOOLEAN NOT NULL DEFAULT true,
+    "minimumLevel" "SkillLevel",
+
+    CONSTRAINT "JobPostingSkill_pkey" PRIMARY KEY ("id")
+);
+
+-- Profile skills so far were all set from resume analysis. The shared Skill.level
+-- was never set per candidate, so it is not carried over.
+INSERT INTO "JobSeekerSkill" ("id", "jobSeekerProfileId", "skillId", "source", "updatedAt")
+SELECT gen_random_uuid()::text, "A", "B", 'RESUME', CURRENT_TIMESTAMP
+FROM "_JobSeekerProfileToSkill";
+
+-- Every existing job skill was required
+INSERT INTO "JobPostingSkill" ("id", "jobPostingId", "skillId", "required")
+SELECT gen_random_uuid()::text, "A", "B", true
+FROM "_JobPostingToSkill";
+
+-- DropTable
+DROP TABLE "_JobSeekerProfileToSkill";
+
+-- DropTable
+DROP TABLE "_JobPostingToSkill";
+
+-- AlterTable
+ALTER TABLE "Skill" DROP COLUMN "level";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "JobSeekerSkill_jobSeekerProfileId_skillId_key" ON "JobSeekerSkill"("jobSeekerProfileId", "skillId");
+
+-- CreateIndex
+CREATE INDEX "JobSeekerSkill_skillId_idx" ON "JobSeekerSkill"("skillId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "JobPostingSkill_jobPostingId_skillId_key" ON "JobPostingSkill"("jobPostingId", "skillId");
+
+-- CreateIndex
+CREATE INDEX "JobPostingSkill_skillId_idx" ON "JobPostingSkill"("skillId");
+
+-- AddForeignKey
+ALTER TABLE "JobSeekerSkill" ADD CONSTRAINT "JobSeekerSkill_jobSeekerProfileId_fkey" FOREIGN KEY ("jobSeekerProfileId") REFERENCES "JobSeekerProfile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "JobSeekerSkill" ADD CONSTRAINT "JobSeekerSkill_skillId_fkey" FOREIGN KEY ("skillId") REFERENCES "Skill"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "JobPostingSkill" ADD CONSTRAINT "JobPostingSkill_jobPostingId_fkey" FOREIGN KEY ("jobPostingId") REFERENCES "JobPosting"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "JobPostingSkill" ADD CONSTRAINT "JobPostingSkill_skillId_fkey" FOREIGN KEY ("skillId") REFERENCES "Skill"("id") ON DELETE CASCADE ON UPDATE CASCADE;
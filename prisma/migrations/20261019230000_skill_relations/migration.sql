@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "SkillRelationType" AS ENUM ('PARENT', 'RELATED');
+
+-- CreateTable
+CREATE TABLE "SkillRelation" (
+    "id" TEXT NOT NULL,
+    "fromSkillId" TEXT NOT NULL,
+    "toSkillId" TEXT NOT NULL,
+    "type" "SkillRelationType" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SkillRelation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SkillRelation_fromSkillId_toSkillId_key" ON "SkillRelation"("fromSkillId", "toSkillId");
+
+-- CreateIndex
+CREATE INDEX "SkillRelation_toSkillId_idx" ON "SkillRelation"("toSkillId");
+
+-- AddForeignKey
+ALTER TABLE "SkillRelation" ADD CONSTRAINT "SkillRelation_fromSkillId_fkey" FOREIGN KEY ("fromSkillId") REFERENCES "Skill"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SkillRelation" ADD CONSTRAINT "SkillRelation_toSkillId_fkey" FOREIGN KEY ("toSkillId") REFERENCES "Skill"("id") ON DELETE CASCADE ON UPDATE CASCADE;
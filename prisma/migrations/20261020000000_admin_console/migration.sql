@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "AdminAction" AS ENUM ('USER_SUSPENDED', 'USER_REINSTATED', 'JOB_POSTING_DEACTIVATED', 'JOB_POSTING_REACTIVATED', 'SKILLS_MERGED', 'SKILL_RELATION_ADDED', 'SKILL_RELATION_REMOVED');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "suspendedAt" TIMESTAMP(3),
+ADD COLUMN "suspensionReason" TEXT;
+
+-- AlterTable
+ALTER TABLE "JobPosting" ADD COLUMN "moderatedAt" TIMESTAMP(3),
+ADD COLUMN "moderationReason" TEXT;
+
+-- CreateTable
+CREATE TABLE "AdminAuditLog" (
+    "id" TEXT NOT NULL,
+    "actorId" TEXT,
+    "action" "AdminAction" NOT NULL,
+    "targetType" TEXT NOT NULL,
+    "targetId" TEXT NOT NULL,
+    "details" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AdminAuditLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LlmFailure" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "operation" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LlmFailure_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AdminAuditLog_createdAt_idx" ON "AdminAuditLog"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "AdminAuditLog_targetType_targetId_idx" ON "AdminAuditLog"("targetType", "targetId");
+
+-- CreateIndex
+CREATE INDEX "LlmFailure_createdAt_idx" ON "LlmFailure"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "AdminAuditLog" ADD CONSTRAINT "AdminAuditLog_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
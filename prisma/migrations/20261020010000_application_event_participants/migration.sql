@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "ApplicationEvent" ADD COLUMN "candidateUserId" TEXT,
+ADD COLUMN "recruiterUserId" TEXT;
+
+-- Backfill the participants of applications that still exist
+UPDATE "ApplicationEvent" e
+SET "candidateUserId" = jsp."userId",
+    "recruiterUserId" = rp."userId"
+FROM "Application" a
+JOIN "JobSeekerProfile" jsp ON jsp."id" = a."jobSeekerProfileId"
+JOIN "JobPosting" jp ON jp."id" = a."jobPostingId"
+JOIN "RecruiterProfile" rp ON rp."id" = jp."recruiterProfileId"
+WHERE e."applicationId" = a."id";
+
+-- Deleted applications: only their candidate can delete them, so the actor
+-- of the deletion is the candidate; the recruiter is no longer known
+UPDATE "ApplicationEvent" e
+SET "candidateUserId" = d."actorId"
+FROM "ApplicationEvent" d
+WHERE d."applicationId" = e."applicationId"
+  AND d."type" = 'DELETED'
+  AND e."candidateUserId" IS NULL;
@@ -0,0 +1,37 @@
+/**
+ * Database seed: loads the skill taxonomy and skill graph (src/lib/skills/taxonomy.ts),
+ * and makes the user registered with `ADMIN_EMAIL`, if set, an admin.
+ * Run with `npx prisma db seed`; it is safe to run again after editing the taxonomy.
+ */
+
+import { prisma } from '../src/lib/db/prisma';
+import { seedSkillTaxonomy } from '../src/lib/skills/catalog';
+
+async function promoteAdmin(email: string) {
+  const { count } = await prisma.user.updateMany({
+    where: { email },
+    data: { role: 'ADMIN' },
+  });
+
+  if (count === 0) {
+    console.warn(`[Seed] No user registered with ${email}; register the account, then seed again`);
+  } else {
+    console.log(`[Seed] ${email} is an admin`);
+  }
+}
+
+async function main() {
+  const result = await seedSkillTaxonomy();
+  console.log(`[Seed] Loaded ${result.skills} skills and ${result.aliases} aliases, merged ${result.merged} duplicate skills, added ${result.relations} skill relations`);
+
+  if (process.env.ADMIN_EMAIL) {
+    await promoteAdmin(process.env.ADMIN_EMAIL);
+  }
+}
+
+main()
+  .catch(error => {
+    console.error('[Seed] Failed to seed the database:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
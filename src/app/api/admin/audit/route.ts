@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getAdminAuditLog } from '@/lib/admin/audit';
+import { ADMIN_ACTIONS } from '@/lib/admin/actions';
+import { withAuth } from '@/lib/auth/with-auth';
+
+// Query string accepted by GET /api/admin/audit
+const auditQuerySchema = z.object({
+  action: z.enum(ADMIN_ACTIONS).optional(),
+  targetId: z.string().trim().min(1).optional(),
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(50),
+});
+
+// GET the admin audit log, newest first (admins only)
+export const GET = withAuth({ roles: ['ADMIN'] }, async (request) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const result = auditQuerySchema.safeParse({
+      action: searchParams.get('action') || undefined,
+      targetId: searchParams.get('targetId') || undefined,
+      page: searchParams.get('page') || undefined,
+      limit: searchParams.get('limit') || undefined,
+    });
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error.errors }, { status: 400 });
+    }
+
+    const { action, targetId, page, limit } = result.data;
+    const auditLog = await getAdminAuditLog({ action, targetId }, { page, limit });
+
+    return NextResponse.json(auditLog);
+  } catch (error) {
+    console.error('Error fetching audit log:', error);
+    return NextResponse.json({ error: 'Failed to fetch audit log' }, { status: 500 });
+  }
+});
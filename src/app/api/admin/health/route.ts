@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { getSystemHealth } from '@/lib/admin/health';
+import { withAuth } from '@/lib/auth/with-auth';
+
+// GET the queue depth and recent failures (admins only)
+export const GET = withAuth({ roles: ['ADMIN'] }, async () => {
+  try {
+    const health = await getSystemHealth();
+    return NextResponse.json(health);
+  } catch (error) {
+    console.error('Error fetching system health:', error);
+    return NextResponse.json({ error: 'Failed to fetch system health' }, { status: 500 });
+  }
+});
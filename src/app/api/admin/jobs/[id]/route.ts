@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/db/prisma';
+import { withAuth } from '@/lib/auth/with-auth';
+import { recordAdminAction } from '@/lib/admin/audit';
+
+// Schema for deactivating or reactivating a job posting
+const jobModerationSchema = z.object({
+  isActive: z.boolean(),
+  reason: z.string().trim().max(500, 'Reason must be less than 500 characters').optional(),
+});
+
+// PATCH - deactivate an abusive job posting, or reactivate one (admins only)
+export const PATCH = withAuth({ roles: ['ADMIN'] }, async (request, { user, params }) => {
+  try {
+    const body = await request.json();
+    const result = jobModerationSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error.errors }, { status: 400 });
+    }
+
+    const { isActive, reason } = result.data;
+
+    const job = await prisma.jobPosting.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!job) {
+      return NextResponse.json({ error: 'Job posting not found' }, { status: 404 });
+    }
+
+    // Deactivating marks the posting as moderated, so its recruiter cannot turn it back on
+    const updatedJob = await prisma.$transaction(async (tx) => {
+      const updated = await tx.jobPosting.update({
+        where: { id: job.id },
+        data: {
+          isActive,
+          moderatedAt: isActive ? null : new Date(),
+          moderationReason: isActive ? null : reason || null,
+        },
+        select: {
+          id: true,
+          title: true,
+          isActive: true,
+          moderatedAt: true,
+          moderationReason: true,
+        },
+      });
+
+      await recordAdminAction(tx, {
+        actorId: user.id,
+        action: isActive ? 'JOB_POSTING_REACTIVATED' : 'JOB_POSTING_DEACTIVATED',
+        targetType: 'JobPosting',
+        targetId: job.id,
+        details: { title: job.title, company: job.company, ...(reason && { reason }) },
+      });
+
+      return updated;
+    });
+
+    return NextResponse.json({ job: updatedJob });
+  } catch (error) {
+    console.error('Error moderating job posting:', error);
+    return NextResponse.json({ error: 'Failed to update job posting' }, { status: 500 });
+  }
+});
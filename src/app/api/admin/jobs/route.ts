@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '@/lib/db/prisma';
+import { withAuth } from '@/lib/auth/with-auth';
+
+// Query string accepted by GET /api/admin/jobs
+const jobSearchSchema = z.object({
+  search: z.string().trim().optional(),
+  status: z.enum(['active', 'inactive', 'moderated']).optional(),
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+});
+
+// GET job postings of every recruiter, searched by title or company (admins only)
+export const GET = withAuth({ roles: ['ADMIN'] }, async (request) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const result = jobSearchSchema.safeParse({
+      search: searchParams.get('search') || undefined,
+      status: searchParams.get('status') || undefined,
+      page: searchParams.get('page') || undefined,
+      limit: searchParams.get('limit') || undefined,
+    });
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error.errors }, { status: 400 });
+    }
+
+    const { search, status, page, limit } = result.data;
+    const where: Prisma.JobPostingWhereInput = {
+      ...(search && {
+        OR: [
+          { title: { contains: search, mode: 'insensitive' } },
+          { company: { contains: search, mode: 'insensitive' } },
+        ],
+      }),
+      ...(status === 'active' && { isActive: true }),
+      ...(status === 'inactive' && { isActive: false }),
+      ...(status === 'moderated' && { moderatedAt: { not: null } }),
+    };
+
+    const [jobs, total] = await Promise.all([
+      prisma.jobPosting.findMany({
+        where,
+        select: {
+          id: true,
+          title: true,
+          company: true,
+          location: true,
+          isActive: true,
+          moderatedAt: true,
+          moderationReason: true,
+          createdAt: true,
+          recruiterProfile: {
+            select: {
+              user: {
+                select: {
+                  name: true,
+                  email: true,
+                },
+              },
+            },
+          },
+          _count: {
+            select: { applications: true },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.jobPosting.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      jobs,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching job postings:', error);
+    return NextResponse.json({ error: 'Failed to fetch job postings' }, { status: 500 });
+  }
+});
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/db/prisma';
+import { withAuth } from '@/lib/auth/with-auth';
+import { mergeSkills } from '@/lib/skills/catalog';
+import { recordAdminAction } from '@/lib/admin/audit';
+
+// Schema for merging a duplicate skill into the one to keep
+const skillMergeSchema = z.object({
+  sourceId: z.string().min(1, 'Choose the skill to merge'),
+  targetId: z.string().min(1, 'Choose the skill to keep'),
+});
+
+// POST - merge a duplicate skill into another (admins only)
+export const POST = withAuth({ roles: ['ADMIN'] }, async (request, { user }) => {
+  try {
+    const body = await request.json();
+    const result = skillMergeSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error.errors }, { status: 400 });
+    }
+
+    const { sourceId, targetId } = result.data;
+
+    if (sourceId === targetId) {
+      return NextResponse.json({ error: 'Cannot merge a skill into itself' }, { status: 400 });
+    }
+
+    const source = await prisma.skill.findUnique({ where: { id: sourceId } });
+    const target = await prisma.skill.findUnique({ where: { id: targetId } });
+
+    if (!source || !target) {
+      return NextResponse.json({ error: 'Skill not found' }, { status: 404 });
+    }
+
+    const skill = await prisma.$transaction(async (tx) => {
+      const kept = await mergeSkills(source.id, target.id, tx);
+
+      // The source is gone, so the entry is filed under the skill that was kept
+      await recordAdminAction(tx, {
+        actorId: user.id,
+        action: 'SKILLS_MERGED',
+        targetType: 'Skill',
+        targetId: kept.id,
+        details: { mergedSkillId: source.id, mergedSkillName: source.name, keptSkillName: kept.name },
+      });
+
+      return kept;
+    });
+
+    return NextResponse.json({ skill });
+  } catch (error) {
+    console.error('Error merging skills:', error);
+    return NextResponse.json({ error: 'Failed to merge skills' }, { status: 500 });
+  }
+});
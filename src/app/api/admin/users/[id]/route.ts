@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/db/prisma';
+import { withAuth } from '@/lib/auth/with-auth';
+import { recordAdminAction } from '@/lib/admin/audit';
+
+// Schema for suspending or reinstating a user
+const userModerationSchema = z.object({
+  suspended: z.boolean(),
+  reason: z.string().trim().max(500, 'Reason must be less than 500 characters').optional(),
+});
+
+// PATCH - suspend or reinstate a user (admins only)
+export const PATCH = withAuth({ roles: ['ADMIN'] }, async (request, { user: admin, params }) => {
+  try {
+    const body = await request.json();
+    const result = userModerationSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error.errors }, { status: 400 });
+    }
+
+    const { suspended, reason } = result.data;
+
+    if (params.id === admin.id) {
+      return NextResponse.json({ error: 'You cannot suspend your own account' }, { status: 400 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (suspended === !!user.suspendedAt) {
+      return NextResponse.json({ error: suspended ? 'User is already suspended' : 'User is not suspended' }, { status: 400 });
+    }
+
+    // Update the user and record the action in the audit log
+    const updatedUser = await prisma.$transaction(async (tx) => {
+      const updated = await tx.user.update({
+        where: { id: user.id },
+        data: {
+          suspendedAt: suspended ? new Date() : null,
+          suspensionReason: suspended ? reason || null : null,
+        },
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          role: true,
+          suspendedAt: true,
+          suspensionReason: true,
+        },
+      });
+
+      await recordAdminAction(tx, {
+        actorId: admin.id,
+        action: suspended ? 'USER_SUSPENDED' : 'USER_REINSTATED',
+        targetType: 'User',
+        targetId: user.id,
+        details: { email: user.email, ...(reason && { reason }) },
+      });
+
+      return updated;
+    });
+
+    return NextResponse.json({ user: updatedUser });
+  } catch (error) {
+    console.error('Error updating user:', error);
+    return NextResponse.json({ error: 'Failed to update user' }, { status: 500 });
+  }
+});
@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '@/lib/db/prisma';
+import { withAuth } from '@/lib/auth/with-auth';
+import { USER_ROLES } from '@/lib/auth/roles';
+
+// Query string accepted by GET /api/admin/users
+const userSearchSchema = z.object({
+  search: z.string().trim().optional(),
+  role: z.enum(USER_ROLES).optional(),
+  status: z.enum(['active', 'suspended']).optional(),
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+});
+
+// GET users, searched by name or email (admins only)
+export const GET = withAuth({ roles: ['ADMIN'] }, async (request) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const result = userSearchSchema.safeParse({
+      search: searchParams.get('search') || undefined,
+      role: searchParams.get('role') || undefined,
+      status: searchParams.get('status') || undefined,
+      page: searchParams.get('page') || undefined,
+      limit: searchParams.get('limit') || undefined,
+    });
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error.errors }, { status: 400 });
+    }
+
+    const { search, role, status, page, limit } = result.data;
+    const where: Prisma.UserWhereInput = {
+      ...(search && {
+        OR: [
+          { email: { contains: search, mode: 'insensitive' } },
+          { name: { contains: search, mode: 'insensitive' } },
+        ],
+      }),
+      ...(role && { role }),
+      ...(status && { suspendedAt: status === 'suspended' ? { not: null } : null }),
+    };
+
+    const [users, total] = await Promise.all([
+      prisma.user.findMany({
+        where,
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          role: true,
+          suspendedAt: true,
+          suspensionReason: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.user.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      users,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    return NextResponse.json({ error: 'Failed to fetch users' }, { status: 500 });
+  }
+});
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { getRecruiterAnalytics, isAnalyticsRange } from '@/lib/analytics/recruiter';
+import { withAuth } from '@/lib/auth/with-auth';
+
+// GET hiring analytics for the authenticated recruiter's job postings
+export const GET = withAuth({ roles: ['RECRUITER'], load: 'recruiterProfile' }, async (request, { recruiterProfile }) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const days = parseInt(searchParams.get('days') || '30');
+
+    if (!isAnalyticsRange(days)) {
+      return NextResponse.json({ error: 'days must be one of 7, 30 or 90' }, { status: 400 });
+    }
+
+    const analytics = await getRecruiterAnalytics(recruiterProfile.id, days);
+
+    return NextResponse.json(analytics);
+  } catch (error) {
+    console.error('Error fetching recruiter analytics:', error);
+    return NextResponse.json({ error: 'Failed to fetch analytics' }, { status: 500 });
+  }
+});
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getApplicationTimeline } from '@/lib/applications/events';
+import { withAuth } from '@/lib/auth/with-auth';
+import { canAccessApplication, isApplicationParticipant } from '@/lib/auth/policies';
+
+// GET the status and feedback history of an application
+export const GET = withAuth({ roles: ['RECRUITER', 'JOBSEEKER'] }, async (request, { user, params }) => {
+  try {
+    const applicationId = params.id;
+
+    // Get the application to check permissions
+    const application = await prisma.application.findUnique({
+      where: { id: applicationId },
+      include: {
+        jobPosting: {
+          include: {
+            recruiterProfile: true,
+          },
+        },
+        jobSeekerProfile: true,
+      },
+    });
+
+    // Only the recruiter who owns the job and the applicant can see the history
+    if (application && !canAccessApplication(user, application)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
+    }
+
+    const events = await getApplicationTimeline(applicationId);
+
+    // A deleted application is only known from its history, which records who took part in it
+    if (!application) {
+      const latest = events[events.length - 1];
+
+      if (!latest) {
+        return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+      }
+
+      if (!isApplicationParticipant(user, latest)) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
+      }
+    }
+
+    return NextResponse.json({ events });
+  } catch (error) {
+    console.error('Error fetching application events:', error);
+    return NextResponse.json({ error: 'Failed to fetch application history' }, { status: 500 });
+  }
+});
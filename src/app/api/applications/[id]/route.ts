@@ -1,20 +1,16 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/app/api/auth/[...nextauth]/auth-options';
+import { canTransition, getAllowedTransitions, isApplicationStatus } from '@/lib/applications/status';
+import { recordApplicationEvent } from '@/lib/applications/events';
+import { toJobSkill, toProfileSkill } from '@/lib/skills/proficiency';
+import { matchSkills } from '@/lib/skills/match';
+import { loadSkillGraph } from '@/lib/skills/graph';
+import { withAuth } from '@/lib/auth/with-auth';
+import { canAccessApplication, candidateOwnsApplication, recruiterOwnsApplication } from '@/lib/auth/policies';
 
 // GET a specific application
-export async function GET(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+export const GET = withAuth({ roles: ['RECRUITER', 'JOBSEEKER'] }, async (request, { user, params }) => {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-    
     const applicationId = params.id;
     
     if (!applicationId) {
@@ -32,13 +28,13 @@ export async function GET(
                 user: true,
               },
             },
-            requiredSkills: true,
+            skills: { include: { skill: true } },
           },
         },
         jobSeekerProfile: {
           include: {
             user: true,
-            skills: true,
+            skills: { include: { skill: true } },
             parsedResume: true
           },
         },
@@ -52,10 +48,6 @@ export async function GET(
       }, { status: 404 });
     }
     
-    // Check permissions
-    const isRecruiter = session.user.role === 'RECRUITER';
-    const isJobSeeker = session.user.role === 'JOBSEEKER';
-    
     // Verify the application data is complete
     if (!application.jobPosting || 
         !application.jobPosting.recruiterProfile || 
@@ -70,22 +62,29 @@ export async function GET(
     }
     
     // Only allow access if user is either the recruiter or the job seeker
-    const isAuthorized = 
-      (isRecruiter && application.jobPosting.recruiterProfile.user.email === session.user.email) ||
-      (isJobSeeker && application.jobSeekerProfile.user.email === session.user.email);
-    
-    if (!isAuthorized) {
+    if (!canAccessApplication(user, application)) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
     }
     
     // Transform the response to handle nulls more gracefully
+    const { skills: jobSkills, ...jobPosting } = application.jobPosting;
+    
+    // Which skills the candidate has directly, which through a related skill, and which they lack
+    const graph = await loadSkillGraph(jobSkills.map(jobSkill => jobSkill.skillId));
+    const skillMatch = matchSkills(
+      application.jobSeekerProfile.skills.map(toProfileSkill),
+      jobSkills.map(toJobSkill),
+      graph
+    );
+    
     const responseData = {
       application: {
         ...application,
-        // Ensure we always have required skills array even if null
+        skillMatch,
+        // Required and nice-to-have skills, each with the minimum level asked for
         jobPosting: {
-          ...application.jobPosting,
-          requiredSkills: application.jobPosting.requiredSkills || []
+          ...jobPosting,
+          requiredSkills: jobSkills.map(toJobSkill)
         },
         // Ensure we handle null parsedResume gracefully
         jobSeekerProfile: {
@@ -100,8 +99,8 @@ export async function GET(
             skills: [], // This will be populated later
             rawText: null
           },
-          // Keep a reference to the actual skills for the frontend
-          skills: application.jobSeekerProfile.skills || []
+          // Keep a reference to the actual skills, with the candidate's proficiency, for the frontend
+          skills: application.jobSeekerProfile.skills.map(toProfileSkill)
         }
       }
     };
@@ -114,28 +113,27 @@ export async function GET(
       message: error instanceof Error ? error.message : 'An unexpected error occurred'
     }, { status: 500 });
   }
-}
+});
 
-// Update application status
-export async function PATCH(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+// Update application status and/or recruiter feedback
+export const PATCH = withAuth({ roles: ['RECRUITER', 'JOBSEEKER'] }, async (request, { user, params }) => {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-    
     const applicationId = params.id;
     const body = await request.json();
     
     // Validate input
-    if (!body.status || !['PENDING', 'APPROVED', 'REJECTED', 'WITHDRAWN', 'SELECTED_FOR_INTERVIEW'].includes(body.status)) {
+    if (body.status === undefined && body.feedback === undefined) {
+      return NextResponse.json({ error: 'Nothing to update' }, { status: 400 });
+    }
+    
+    if (body.status !== undefined && !isApplicationStatus(body.status)) {
       return NextResponse.json({ error: 'Invalid status value' }, { status: 400 });
     }
     
+    if (body.feedback !== undefined && body.feedback !== null && typeof body.feedback !== 'string') {
+      return NextResponse.json({ error: 'Invalid feedback value' }, { status: 400 });
+    }
+    
     // Get the application to check permissions
     const application = await prisma.application.findUnique({
       where: { id: applicationId },
@@ -161,48 +159,76 @@ export async function PATCH(
       return NextResponse.json({ error: 'Application not found' }, { status: 404 });
     }
     
-    // Check permissions
-    const isRecruiter = session.user.role === 'RECRUITER';
-    const isJobSeeker = session.user.role === 'JOBSEEKER';
-    
-    // Recruiters can change to APPROVED, REJECTED, or SELECTED_FOR_INTERVIEW
-    // Job seekers can only change to WITHDRAWN
-    if (
-      (isRecruiter && 
-       application.jobPosting.recruiterProfile.user.email === session.user.email &&
-       ['APPROVED', 'REJECTED', 'SELECTED_FOR_INTERVIEW'].includes(body.status)) ||
-      (isJobSeeker && 
-       application.jobSeekerProfile.user.email === session.user.email &&
-       body.status === 'WITHDRAWN')
-    ) {
-      // Update the application
-      const updatedApplication = await prisma.application.update({
+    // Check permissions - recruiters act on applications to their own jobs,
+    // job seekers on their own applications
+    if (!canAccessApplication(user, application)) {
+      return NextResponse.json({ error: 'Unauthorized action' }, { status: 403 });
+    }
+    
+    const statusChanged = body.status !== undefined && body.status !== application.status;
+    const feedback = body.feedback === undefined ? undefined : (body.feedback || null);
+    const feedbackChanged = feedback !== undefined && feedback !== application.feedback;
+    
+    // Validate the transition against the status state machine
+    if (statusChanged && !canTransition(user.role, application.status, body.status)) {
+      return NextResponse.json({ 
+        error: `Cannot change status from ${application.status} to ${body.status}`,
+        allowedStatuses: getAllowedTransitions(user.role, application.status),
+      }, { status: 400 });
+    }
+    
+    // Only the recruiter gives feedback
+    if (feedbackChanged && !recruiterOwnsApplication(user, application)) {
+      return NextResponse.json({ error: 'Only recruiters can leave feedback' }, { status: 403 });
+    }
+    
+    // Update the application and record each change in the audit trail
+    const updatedApplication = await prisma.$transaction(async (tx) => {
+      const updated = await tx.application.update({
         where: { id: applicationId },
-        data: { status: body.status },
+        data: {
+          ...(statusChanged && { status: body.status }),
+          ...(feedbackChanged && { feedback }),
+        },
       });
       
-      return NextResponse.json({ application: updatedApplication });
-    } else {
-      return NextResponse.json({ error: 'Unauthorized action' }, { status: 403 });
-    }
+      if (statusChanged) {
+        await recordApplicationEvent(tx, {
+          applicationId,
+          type: body.status === 'WITHDRAWN' ? 'WITHDRAWN' : 'STATUS_CHANGED',
+          actorId: user.id,
+          candidateUserId: application.jobSeekerProfile.userId,
+          recruiterUserId: application.jobPosting.recruiterProfile.userId,
+          fromValue: application.status,
+          toValue: body.status,
+        });
+      }
+      
+      if (feedbackChanged) {
+        await recordApplicationEvent(tx, {
+          applicationId,
+          type: 'FEEDBACK_UPDATED',
+          actorId: user.id,
+          candidateUserId: application.jobSeekerProfile.userId,
+          recruiterUserId: application.jobPosting.recruiterProfile.userId,
+          fromValue: application.feedback,
+          toValue: feedback,
+        });
+      }
+      
+      return updated;
+    });
+    
+    return NextResponse.json({ application: updatedApplication });
   } catch (error) {
     console.error('Error updating application:', error);
     return NextResponse.json({ error: 'Failed to update application' }, { status: 500 });
   }
-}
+});
 
 // Delete application
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+export const DELETE = withAuth({ roles: ['JOBSEEKER'] }, async (request, { user, params }) => {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-    
     const applicationId = params.id;
     
     // Get the application to check permissions
@@ -231,12 +257,21 @@ export async function DELETE(
     }
     
     // Check permissions - only job seekers can delete their own applications
-    const isJobSeeker = session.user.role === 'JOBSEEKER';
-    
-    if (isJobSeeker && application.jobSeekerProfile.user.email === session.user.email) {
-      // Delete the application
-      await prisma.application.delete({
-        where: { id: applicationId },
+    if (candidateOwnsApplication(user, application)) {
+      // Delete the application, keeping a record of it in the audit trail
+      await prisma.$transaction(async (tx) => {
+        await tx.application.delete({
+          where: { id: applicationId },
+        });
+        
+        await recordApplicationEvent(tx, {
+          applicationId,
+          type: 'DELETED',
+          actorId: user.id,
+          candidateUserId: application.jobSeekerProfile.userId,
+          recruiterUserId: application.jobPosting.recruiterProfile.userId,
+          fromValue: application.status,
+        });
       });
       
       return NextResponse.json({ success: true });
@@ -247,4 +282,4 @@ export async function DELETE(
     console.error('Error deleting application:', error);
     return NextResponse.json({ error: 'Failed to delete application' }, { status: 500 });
   }
-} 
\ No newline at end of file
+}); 
\ No newline at end of file
@@ -1,8 +1,12 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/app/api/auth/[...nextauth]/auth-options';
+import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
 import { z } from 'zod';
+import { INITIAL_APPLICATION_STATUS, isApplicationStatus } from '@/lib/applications/status';
+import { recordApplicationEvent } from '@/lib/applications/events';
+import { matchSkills } from '@/lib/skills/match';
+import { loadSkillGraph } from '@/lib/skills/graph';
+import { toJobSkill, toProfileSkill } from '@/lib/skills/proficiency';
+import { withAuth } from '@/lib/auth/with-auth';
 
 // Schema for application validation
 const applicationSchema = z.object({
@@ -16,11 +20,6 @@ interface JobPostingWithId {
   [key: string]: any;
 }
 
-interface SkillWithName {
-  name: string;
-  [key: string]: any;
-}
-
 interface Experience {
   startDate: string | Date;
   endDate: string | Date | null;
@@ -28,14 +27,8 @@ interface Experience {
 }
 
 // GET applications for the authenticated user
-export async function GET(request: NextRequest) {
+export const GET = withAuth({ roles: ['JOBSEEKER', 'RECRUITER'] }, async (request, { user }) => {
   try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-    
     const { searchParams } = new URL(request.url);
     const limit = parseInt(searchParams.get('limit') || '10');
     const page = parseInt(searchParams.get('page') || '1');
@@ -43,6 +36,10 @@ export async function GET(request: NextRequest) {
     const status = searchParams.get('status');
     const jobPostingId = searchParams.get('jobPostingId');
     
+    if (status && !isApplicationStatus(status)) {
+      return NextResponse.json({ error: 'Invalid status value' }, { status: 400 });
+    }
+    
     // Base query
     let whereClause: any = {};
     
@@ -52,10 +49,10 @@ export async function GET(request: NextRequest) {
     }
     
     // Different queries based on user role
-    if (session.user.role === 'JOBSEEKER') {
+    if (user.role === 'JOBSEEKER') {
       // Get the job seeker profile
       const jobSeekerProfile = await prisma.jobSeekerProfile.findUnique({
-        where: { userId: session.user.id },
+        where: { userId: user.id },
       });
       
       if (!jobSeekerProfile) {
@@ -96,10 +93,10 @@ export async function GET(request: NextRequest) {
           totalPages: Math.ceil(total / limit),
         },
       });
-    } else if (session.user.role === 'RECRUITER') {
+    } else if (user.role === 'RECRUITER') {
       // Get the recruiter profile
       const recruiterProfile = await prisma.recruiterProfile.findUnique({
-        where: { userId: session.user.id },
+        where: { userId: user.id },
       });
       
       if (!recruiterProfile) {
@@ -154,7 +151,7 @@ export async function GET(request: NextRequest) {
                   email: true,
                 },
               },
-              skills: true,
+              skills: { include: { skill: true } },
             },
           },
         },
@@ -171,7 +168,13 @@ export async function GET(request: NextRequest) {
       });
       
       return NextResponse.json({
-        applications,
+        applications: applications.map(application => ({
+          ...application,
+          jobSeekerProfile: {
+            ...application.jobSeekerProfile,
+            skills: application.jobSeekerProfile.skills.map(toProfileSkill),
+          },
+        })),
         pagination: {
           total,
           page,
@@ -186,31 +189,11 @@ export async function GET(request: NextRequest) {
     console.error('Error fetching applications:', error);
     return NextResponse.json({ error: 'Failed to fetch applications' }, { status: 500 });
   }
-}
+});
 
 // POST - create a new job application
-export async function POST(request: NextRequest) {
+export const POST = withAuth({ roles: ['JOBSEEKER'], load: 'jobSeekerProfile' }, async (request, { user, jobSeekerProfile }) => {
   try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-    
-    // Verify user is a job seeker
-    if (session.user.role !== 'JOBSEEKER') {
-      return NextResponse.json({ error: 'Only job seekers can apply for jobs' }, { status: 403 });
-    }
-    
-    // Get the job seeker profile
-    const jobSeekerProfile = await prisma.jobSeekerProfile.findUnique({
-      where: { userId: session.user.id },
-    });
-    
-    if (!jobSeekerProfile) {
-      return NextResponse.json({ error: 'Job seeker profile not found' }, { status: 404 });
-    }
-    
     // Parse request body
     const body = await request.json();
     
@@ -225,12 +208,18 @@ export async function POST(request: NextRequest) {
     // Check if the job posting exists
     const jobPosting = await prisma.jobPosting.findUnique({
       where: { id: applicationData.jobPostingId },
+      include: { recruiterProfile: { select: { userId: true } } },
     });
     
     if (!jobPosting) {
       return NextResponse.json({ error: 'Job posting not found' }, { status: 404 });
     }
     
+    // Closed postings, and postings an admin took down, take no applications
+    if (!jobPosting.isActive) {
+      return NextResponse.json({ error: 'This job is no longer accepting applications' }, { status: 400 });
+    }
+    
     // Check if an application already exists
     const existingApplication = await prisma.application.findFirst({
       where: {
@@ -246,15 +235,28 @@ export async function POST(request: NextRequest) {
     // Calculate match score between job and candidate
     const matchScore = await calculateMatchScore(jobSeekerProfile.id, applicationData.jobPostingId);
     
-    // Create the application
-    const application = await prisma.application.create({
-      data: {
-        jobPostingId: applicationData.jobPostingId,
-        jobSeekerProfileId: jobSeekerProfile.id,
-        status: 'Applied',
-        coverLetter: applicationData.coverLetter,
-        matchScore,
-      },
+    // Create the application and start its audit trail
+    const application = await prisma.$transaction(async (tx) => {
+      const created = await tx.application.create({
+        data: {
+          jobPostingId: applicationData.jobPostingId,
+          jobSeekerProfileId: jobSeekerProfile.id,
+          status: INITIAL_APPLICATION_STATUS,
+          coverLetter: applicationData.coverLetter,
+          matchScore,
+        },
+      });
+      
+      await recordApplicationEvent(tx, {
+        applicationId: created.id,
+        type: 'CREATED',
+        actorId: user.id,
+        candidateUserId: user.id,
+        recruiterUserId: jobPosting.recruiterProfile.userId,
+        toValue: created.status,
+      });
+      
+      return created;
     });
     
     return NextResponse.json({ 
@@ -267,7 +269,7 @@ export async function POST(request: NextRequest) {
     console.error('Error creating job application:', error);
     return NextResponse.json({ error: 'Failed to submit application' }, { status: 500 });
   }
-}
+});
 
 // Calculate match score between job and candidate
 async function calculateMatchScore(jobSeekerProfileId: string, jobPostingId: string): Promise<number> {
@@ -276,17 +278,17 @@ async function calculateMatchScore(jobSeekerProfileId: string, jobPostingId: str
     const jobSeekerProfile = await prisma.jobSeekerProfile.findUnique({
       where: { id: jobSeekerProfileId },
       include: {
-        skills: true,
+        skills: { include: { skill: true } },
         experiences: true,
         educations: true,
       },
     });
     
-    // Get job posting with required skills
+    // Get job posting with its required and nice-to-have skills
     const jobPosting = await prisma.jobPosting.findUnique({
       where: { id: jobPostingId },
       include: {
-        requiredSkills: true,
+        skills: { include: { skill: true } },
       },
     });
     
@@ -296,18 +298,17 @@ async function calculateMatchScore(jobSeekerProfileId: string, jobPostingId: str
     
     let score = 50; // Base score
     
-    // Match skills
-    const candidateSkills = jobSeekerProfile.skills.map((skill: SkillWithName) => skill.name.toLowerCase());
-    const requiredSkills = jobPosting.requiredSkills.map((skill: SkillWithName) => skill.name.toLowerCase());
+    // Match skills, weighing required skills over nice-to-have ones and
+    // giving partial credit below the minimum level or for a related skill
+    const candidateSkills = jobSeekerProfile.skills.map(toProfileSkill);
+    const graph = await loadSkillGraph(jobPosting.skills.map(jobSkill => jobSkill.skillId));
+    const skillMatch = matchSkills(candidateSkills, jobPosting.skills.map(toJobSkill), graph);
     
-    if (requiredSkills.length > 0) {
-      const matchedSkills = candidateSkills.filter((skill: string) => requiredSkills.includes(skill));
-      const skillMatchPercentage = (matchedSkills.length / requiredSkills.length) * 100;
-      
+    if (skillMatch) {
       // Skills contribute up to 30 points
-      score += Math.min(skillMatchPercentage * 0.3, 30);
+      score += skillMatch.score * 30;
     } else {
-      // If no required skills specified, give some points for having any skills
+      // If no skills specified, give some points for having any skills
       score += Math.min(candidateSkills.length * 2, 15);
     }
     
@@ -36,6 +36,10 @@ export const authOptions: NextAuthOptions = {
           throw new Error('Invalid password');
         }
 
+        if (user.suspendedAt) {
+          throw new Error('This account has been suspended');
+        }
+
         return {
           id: user.id,
           email: user.email,
@@ -59,7 +63,23 @@ export const authOptions: NextAuthOptions = {
           jobSeekerProfileId: user.jobSeekerProfileId,
         };
       }
-      return token;
+
+      // Re-read the account on every session check, so a suspension or role
+      // change applies to sessions signed in before it. Throwing ends the session.
+      const account = await prisma.user.findUnique({
+        where: { id: token.id as string },
+        select: { role: true, suspendedAt: true },
+      });
+
+      if (!account) {
+        throw new Error('This account no longer exists');
+      }
+
+      if (account.suspendedAt) {
+        throw new Error('This account has been suspended');
+      }
+
+      return { ...token, role: account.role };
     },
     async session({ session, token }) {
       return {
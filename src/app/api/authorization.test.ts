@@ -0,0 +1,383 @@
+/**
+ * Unauthorized access to the API routes: each handler is called without a
+ * session, from a suspended account, with a role the route does not allow,
+ * and, for routes on a particular record, by someone who does not own it.
+ * The session and the database are faked, so only the authorization paths
+ * run; nothing here reaches PostgreSQL.
+ */
+
+import { before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRequire } from 'module';
+import { NextRequest } from 'next/server';
+import type * as NextAuth from 'next-auth/next';
+
+type Role = 'JOBSEEKER' | 'RECRUITER' | 'ADMIN';
+
+type RouteHandler = (request: NextRequest, context: { params: Record<string, string> }) => Promise<Response>;
+
+interface TestUser {
+  id: string;
+  role: Role;
+  suspendedAt: Date | null;
+}
+
+const USERS: Record<string, TestUser> = {
+  seeker: { id: 'seeker-1', role: 'JOBSEEKER', suspendedAt: null },
+  otherSeeker: { id: 'seeker-2', role: 'JOBSEEKER', suspendedAt: null },
+  recruiter: { id: 'recruiter-1', role: 'RECRUITER', suspendedAt: null },
+  otherRecruiter: { id: 'recruiter-2', role: 'RECRUITER', suspendedAt: null },
+  admin: { id: 'admin-1', role: 'ADMIN', suspendedAt: null },
+  suspended: { id: 'suspended-1', role: 'JOBSEEKER', suspendedAt: new Date('2026-01-01') },
+};
+
+const USER_FOR_ROLE: Record<Role, TestUser> = {
+  JOBSEEKER: USERS.seeker,
+  RECRUITER: USERS.recruiter,
+  ADMIN: USERS.admin,
+};
+
+// Records owned by seeker-1 and recruiter-1
+const JOB = {
+  id: 'job-1',
+  recruiterProfileId: 'rp-recruiter-1',
+  recruiterProfile: { id: 'rp-recruiter-1', userId: 'recruiter-1', user: { id: 'recruiter-1', email: 'recruiter@example.com' } },
+  isActive: true,
+  moderatedAt: null,
+  moderationReason: null,
+  skills: [],
+  applications: [{ id: 'application-1', status: 'APPLIED', appliedAt: new Date('2026-01-02') }],
+};
+
+// A posting of recruiter-1 that an admin took down
+const TAKEN_DOWN_JOB = {
+  ...JOB,
+  id: 'job-2',
+  isActive: false,
+  moderatedAt: new Date('2026-01-03'),
+  moderationReason: 'Misleading salary',
+  applications: [],
+};
+
+const APPLICATION = {
+  id: 'application-1',
+  status: 'APPLIED',
+  feedback: null,
+  jobPosting: JOB,
+  jobSeekerProfile: { id: 'jsp-seeker-1', userId: 'seeker-1', user: { id: 'seeker-1', email: 'seeker@example.com' }, skills: [] },
+};
+
+// The audit trail left behind by an application seeker-1 deleted
+const DELETED_APPLICATION_EVENTS = [
+  { id: 'event-1', applicationId: 'deleted-application-1', type: 'CREATED', candidateUserId: 'seeker-1', recruiterUserId: 'recruiter-1' },
+  { id: 'event-2', applicationId: 'deleted-application-1', type: 'DELETED', candidateUserId: 'seeker-1', recruiterUserId: 'recruiter-1' },
+];
+
+const RESUME_PROFILE = { id: 'jsp-seeker-1', userId: 'seeker-1', resumeKey: 'resumes/seeker-1.pdf' };
+
+let currentUser: TestUser | null = null;
+
+function profileFor(user: TestUser, model: 'recruiterProfile' | 'jobSeekerProfile') {
+  const prefix = model === 'recruiterProfile' ? 'rp' : 'jsp';
+  return { id: `${prefix}-${user.id}`, userId: user.id, resumeKey: null };
+}
+
+// Answers the queries the routes make before they authorize; everything else finds nothing
+async function query(model: string, method: string, args: unknown): Promise<unknown> {
+  const where = (args as { where?: Record<string, unknown> } | undefined)?.where || {};
+
+  switch (`${model}.${method}`) {
+    case 'user.findUnique': {
+      const user = Object.values(USERS).find(candidate => candidate.id === where.id);
+      if (!user) return null;
+      return {
+        ...user,
+        recruiterProfile: user.role === 'RECRUITER' ? profileFor(user, 'recruiterProfile') : null,
+      };
+    }
+    case 'jobSeekerProfile.findUnique':
+      if (where.id === RESUME_PROFILE.id) return RESUME_PROFILE;
+      if (where.userId) {
+        const user = Object.values(USERS).find(candidate => candidate.id === where.userId);
+        return user?.role === 'JOBSEEKER' ? profileFor(user, 'jobSeekerProfile') : null;
+      }
+      return null;
+    case 'jobPosting.findUnique':
+      return [JOB, TAKEN_DOWN_JOB].find(job => job.id === where.id) || null;
+    case 'application.findUnique':
+      return where.id === APPLICATION.id ? APPLICATION : null;
+    case 'applicationEvent.findMany':
+      return DELETED_APPLICATION_EVENTS.filter(event => event.applicationId === where.applicationId);
+  }
+
+  if (method === 'findMany' || method === 'groupBy') return [];
+  if (method === 'count') return 0;
+  return null;
+}
+
+const fakePrisma: unknown = new Proxy({}, {
+  get(_target, model: string) {
+    if (model === '$transaction') return async (callback: (tx: unknown) => unknown) => callback(fakePrisma);
+    if (model === 'then') return undefined;
+    return new Proxy({}, {
+      get: (_model, method: string) => (args: unknown) => query(model, method, args),
+    });
+  },
+});
+
+// The app's Prisma client reuses the one on `global`, so routes loaded after this use the fake
+(global as unknown as { prisma: unknown }).prisma = fakePrisma;
+
+// `getServerSession` from 'next-auth' reads this module's export on every call.
+// The namespace of an import is a read-only copy of it, so the module object
+// itself is loaded to be mocked, typed as the namespace.
+const nextAuth: typeof NextAuth = createRequire(__filename)('next-auth/next');
+
+mock.method(nextAuth, 'getServerSession', async () =>
+  currentUser ? { user: { id: currentUser.id, email: `${currentUser.id}@example.com`, role: currentUser.role }, expires: '' } : null
+);
+
+async function call(
+  handler: RouteHandler,
+  user: TestUser | null,
+  { url = 'http://localhost/api/test', method = 'GET', body, params = {} }: RequestOptions = {}
+) {
+  currentUser = user;
+  const request = new NextRequest(url, {
+    method,
+    ...(body !== undefined && { body: JSON.stringify(body), headers: { 'Content-Type': 'application/json' } }),
+  });
+  return await handler(request, { params });
+}
+
+interface RequestOptions {
+  url?: string;
+  method?: string;
+  body?: unknown;
+  params?: Record<string, string>;
+}
+
+interface RouteCase extends RequestOptions {
+  route: string;
+  load: () => Promise<RouteHandler>;
+  // Roles allowed to call the route; any signed-in user when omitted
+  roles?: Role[];
+}
+
+function route(path: string, verb: string, options: Omit<RouteCase, 'route' | 'load' | 'method'> = {}): RouteCase {
+  return {
+    route: `${verb} ${path}`,
+    method: verb,
+    load: async () => (await import(`@/app/api${path}/route`))[verb],
+    ...options,
+  };
+}
+
+const ROUTES: RouteCase[] = [
+  route('/admin/audit', 'GET', { roles: ['ADMIN'] }),
+  route('/admin/health', 'GET', { roles: ['ADMIN'] }),
+  route('/admin/jobs', 'GET', { roles: ['ADMIN'] }),
+  route('/admin/jobs/[id]', 'PATCH', { roles: ['ADMIN'], params: { id: 'job-1' }, body: { isActive: false } }),
+  route('/admin/skills/merge', 'POST', { roles: ['ADMIN'], body: { sourceId: 'a', targetId: 'b' } }),
+  route('/admin/users', 'GET', { roles: ['ADMIN'] }),
+  route('/admin/users/[id]', 'PATCH', { roles: ['ADMIN'], params: { id: 'seeker-1' }, body: { suspended: true } }),
+  route('/analytics/recruiter', 'GET', { roles: ['RECRUITER'] }),
+  route('/applications', 'GET', { roles: ['JOBSEEKER', 'RECRUITER'] }),
+  route('/applications', 'POST', { roles: ['JOBSEEKER'], body: { jobPostingId: 'job-1' } }),
+  route('/applications/[id]', 'GET', { roles: ['JOBSEEKER', 'RECRUITER'], params: { id: 'application-1' } }),
+  route('/applications/[id]', 'PATCH', { roles: ['JOBSEEKER', 'RECRUITER'], params: { id: 'application-1' }, body: { status: 'WITHDRAWN' } }),
+  route('/applications/[id]', 'DELETE', { roles: ['JOBSEEKER'], params: { id: 'application-1' } }),
+  route('/applications/[id]/events', 'GET', { roles: ['JOBSEEKER', 'RECRUITER'], params: { id: 'application-1' } }),
+  route('/jobs', 'GET', { roles: ['RECRUITER'], url: 'http://localhost/api/jobs?recruiter_only=true' }),
+  route('/jobs', 'POST', { roles: ['RECRUITER'], body: {} }),
+  route('/jobs/[id]', 'PATCH', { roles: ['RECRUITER'], params: { id: 'job-1' }, body: { isActive: false } }),
+  route('/jobs/[id]', 'DELETE', { roles: ['RECRUITER'], params: { id: 'job-1' } }),
+  route('/profile', 'GET'),
+  route('/profile', 'PUT', { body: { name: 'Someone' } }),
+  route('/profile/educations', 'GET', { roles: ['JOBSEEKER'] }),
+  route('/profile/educations', 'POST', { roles: ['JOBSEEKER'], body: {} }),
+  route('/profile/educations/[id]', 'PUT', { roles: ['JOBSEEKER'], params: { id: 'education-1' }, body: {} }),
+  route('/profile/educations/[id]', 'DELETE', { roles: ['JOBSEEKER'], params: { id: 'education-1' } }),
+  route('/profile/experiences', 'GET', { roles: ['JOBSEEKER'] }),
+  route('/profile/experiences', 'POST', { roles: ['JOBSEEKER'], body: {} }),
+  route('/profile/experiences/[id]', 'PUT', { roles: ['JOBSEEKER'], params: { id: 'experience-1' }, body: {} }),
+  route('/profile/experiences/[id]', 'DELETE', { roles: ['JOBSEEKER'], params: { id: 'experience-1' } }),
+  route('/profile/skills', 'GET', { roles: ['JOBSEEKER'] }),
+  route('/profile/skills', 'POST', { roles: ['JOBSEEKER'], body: {} }),
+  route('/profile/skills/[id]', 'PUT', { roles: ['JOBSEEKER'], params: { id: 'skill-1' }, body: {} }),
+  route('/profile/skills/[id]', 'DELETE', { roles: ['JOBSEEKER'], params: { id: 'skill-1' } }),
+  route('/recommendations', 'GET', { roles: ['JOBSEEKER'] }),
+  route('/resume/analyze', 'GET'),
+  route('/resume/download', 'GET'),
+  route('/resume/import', 'GET', { roles: ['JOBSEEKER'] }),
+  route('/resume/import/educations/[id]', 'POST', { roles: ['JOBSEEKER'], params: { id: 'proposal-1' }, body: {} }),
+  route('/resume/import/educations/[id]', 'DELETE', { roles: ['JOBSEEKER'], params: { id: 'proposal-1' } }),
+  route('/resume/import/experiences/[id]', 'POST', { roles: ['JOBSEEKER'], params: { id: 'proposal-1' }, body: {} }),
+  route('/resume/import/experiences/[id]', 'DELETE', { roles: ['JOBSEEKER'], params: { id: 'proposal-1' } }),
+  route('/resume/status', 'GET', { roles: ['JOBSEEKER'] }),
+  route('/resume/upload', 'POST', { roles: ['JOBSEEKER'] }),
+  route('/skills', 'POST', { body: { name: 'Rust' } }),
+  route('/skills/relations', 'POST', { roles: ['ADMIN'], body: { fromSkill: 'SQL', toSkill: 'PostgreSQL', type: 'PARENT' } }),
+  route('/skills/relations/[id]', 'DELETE', { roles: ['ADMIN'], params: { id: 'relation-1' } }),
+];
+
+async function errorOf(response: Response): Promise<string> {
+  const body = await response.json();
+  return body.error;
+}
+
+describe('API route authorization', () => {
+  before(() => {
+    // Expected failures are logged by the routes; keep the test output readable
+    mock.method(console, 'error', () => {});
+    mock.method(console, 'log', () => {});
+  });
+
+  for (const testCase of ROUTES) {
+    describe(testCase.route, () => {
+      it('rejects requests without a session', async () => {
+        const response = await call(await testCase.load(), null, testCase);
+        assert.equal(response.status, 401);
+        assert.equal(await errorOf(response), 'Unauthorized');
+      });
+
+      it('rejects suspended accounts', async () => {
+        const response = await call(await testCase.load(), USERS.suspended, testCase);
+        assert.equal(response.status, 403);
+        assert.equal(await errorOf(response), 'This account has been suspended');
+      });
+
+      const { roles } = testCase;
+      const deniedRoles = roles ? (['JOBSEEKER', 'RECRUITER', 'ADMIN'] as Role[]).filter(role => !roles.includes(role)) : [];
+
+      for (const role of deniedRoles) {
+        it(`rejects the ${role} role`, async () => {
+          const response = await call(await testCase.load(), USER_FOR_ROLE[role], testCase);
+          assert.equal(response.status, 403);
+        });
+      }
+    });
+  }
+});
+
+describe('API resource policies', () => {
+  async function handler(path: string, verb: string): Promise<RouteHandler> {
+    return (await import(`@/app/api${path}/route`))[verb];
+  }
+
+  const application = { params: { id: 'application-1' } };
+
+  it('hides the applications of a job posting from everyone but its recruiter', async () => {
+    const GET = await handler('/jobs/[id]', 'GET');
+    const params = { id: 'job-1' };
+
+    for (const user of [null, USERS.seeker, USERS.otherRecruiter]) {
+      const response = await call(GET, user, { params });
+      assert.equal(response.status, 200);
+      assert.equal('applications' in (await response.json()), false);
+    }
+
+    const ownerResponse = await call(GET, USERS.recruiter, { params });
+    assert.equal((await ownerResponse.json()).applications.length, 1);
+  });
+
+  it('hides postings that were taken down from everyone but their recruiter and admins', async () => {
+    const GET = await handler('/jobs/[id]', 'GET');
+
+    for (const user of [null, USERS.seeker, USERS.otherRecruiter]) {
+      assert.equal((await call(GET, user, { params: { id: 'job-2' } })).status, 404);
+
+      const live = await (await call(GET, user, { params: { id: 'job-1' } })).json();
+      assert.equal('moderationReason' in live, false);
+      assert.equal('moderatedAt' in live, false);
+    }
+
+    for (const user of [USERS.recruiter, USERS.admin]) {
+      const response = await call(GET, user, { params: { id: 'job-2' } });
+      assert.equal(response.status, 200);
+      assert.equal((await response.json()).moderationReason, 'Misleading salary');
+    }
+  });
+
+  it('takes no applications to inactive postings', async () => {
+    const POST = await handler('/applications', 'POST');
+    const response = await call(POST, USERS.seeker, { method: 'POST', body: { jobPostingId: 'job-2' } });
+    assert.equal(response.status, 400);
+  });
+
+  it('only lets the recruiter who posted a job change or delete it', async () => {
+    const PATCH = await handler('/jobs/[id]', 'PATCH');
+    const DELETE = await handler('/jobs/[id]', 'DELETE');
+    const params = { id: 'job-1' };
+
+    assert.equal((await call(PATCH, USERS.otherRecruiter, { method: 'PATCH', params, body: { isActive: false } })).status, 403);
+    assert.equal((await call(DELETE, USERS.otherRecruiter, { method: 'DELETE', params })).status, 403);
+  });
+
+  it('only lets the candidate and the recruiter see an application and its history', async () => {
+    const GET = await handler('/applications/[id]', 'GET');
+    const events = await handler('/applications/[id]/events', 'GET');
+
+    for (const user of [USERS.otherSeeker, USERS.otherRecruiter]) {
+      assert.equal((await call(GET, user, application)).status, 403);
+      assert.equal((await call(events, user, application)).status, 403);
+    }
+  });
+
+  it('keeps the history of a deleted application readable by the candidate and the recruiter only', async () => {
+    const events = await handler('/applications/[id]/events', 'GET');
+    const deleted = { params: { id: 'deleted-application-1' } };
+
+    for (const user of [USERS.seeker, USERS.recruiter]) {
+      const response = await call(events, user, deleted);
+      assert.equal(response.status, 200);
+      assert.equal((await response.json()).events.length, 2);
+    }
+
+    for (const user of [USERS.otherSeeker, USERS.otherRecruiter]) {
+      assert.equal((await call(events, user, deleted)).status, 403);
+    }
+
+    assert.equal((await call(events, USERS.seeker, { params: { id: 'missing-application' } })).status, 404);
+  });
+
+  it('only lets the candidate and the recruiter update an application', async () => {
+    const PATCH = await handler('/applications/[id]', 'PATCH');
+
+    assert.equal((await call(PATCH, USERS.otherSeeker, { ...application, method: 'PATCH', body: { status: 'WITHDRAWN' } })).status, 403);
+    assert.equal((await call(PATCH, USERS.otherRecruiter, { ...application, method: 'PATCH', body: { status: 'REVIEWING' } })).status, 403);
+  });
+
+  it('only lets the candidate delete their application', async () => {
+    const DELETE = await handler('/applications/[id]', 'DELETE');
+    assert.equal((await call(DELETE, USERS.otherSeeker, { ...application, method: 'DELETE' })).status, 403);
+  });
+
+  it('keeps resumes from users the candidate did not apply to', async () => {
+    const download = await handler('/resume/download', 'GET');
+    const analyze = await handler('/resume/analyze', 'GET');
+
+    for (const user of [USERS.otherSeeker, USERS.recruiter]) {
+      assert.equal((await call(download, user, { url: 'http://localhost/api/resume/download?profileId=jsp-seeker-1' })).status, 403);
+      assert.equal((await call(analyze, user, { url: 'http://localhost/api/resume/analyze?resumeId=jsp-seeker-1' })).status, 403);
+    }
+  });
+
+  it("answers 404 for another job seeker's profile entries", async () => {
+    const cases: Array<[string, string]> = [
+      ['/profile/educations/[id]', 'PUT'],
+      ['/profile/educations/[id]', 'DELETE'],
+      ['/profile/experiences/[id]', 'PUT'],
+      ['/profile/experiences/[id]', 'DELETE'],
+      ['/profile/skills/[id]', 'PUT'],
+      ['/profile/skills/[id]', 'DELETE'],
+      ['/resume/import/educations/[id]', 'POST'],
+      ['/resume/import/experiences/[id]', 'DELETE'],
+    ];
+
+    for (const [path, verb] of cases) {
+      const response = await call(await handler(path, verb), USERS.otherSeeker, { method: verb, params: { id: 'owned-by-seeker-1' }, body: verb === 'DELETE' ? undefined : {} });
+      assert.equal(response.status, 404, `${verb} ${path}`);
+    }
+  });
+});
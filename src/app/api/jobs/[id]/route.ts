@@ -1,8 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/app/api/auth/[...nextauth]/auth-options';
 import { prisma } from '@/lib/db/prisma';
 import { z } from 'zod';
+import { randomUUID } from 'crypto';
+import { getVisitorId, recordJobView, VISITOR_COOKIE } from '@/lib/jobs/views';
+import { isValidSalaryRange, SALARY_PERIODS } from '@/lib/jobs/salary';
+import { setJobPostingSkills } from '@/lib/skills/catalog';
+import { jobSkillSchema, toJobSkill } from '@/lib/skills/proficiency';
+import { authorize, withAuth } from '@/lib/auth/with-auth';
+import { recruiterOwnsJob } from '@/lib/auth/policies';
 
 // Schema for job posting updates
 const jobUpdateSchema = z.object({
@@ -11,9 +16,12 @@ const jobUpdateSchema = z.object({
   type: z.string().optional(),
   description: z.string().min(20, 'Description must be at least 20 characters').optional(),
   requirements: z.string().optional(),
-  salary: z.string().optional(),
+  salaryMin: z.number().int().nonnegative().nullable().optional(),
+  salaryMax: z.number().int().nonnegative().nullable().optional(),
+  currency: z.string().length(3, 'Currency must be a 3-letter code').toUpperCase().optional(),
+  period: z.enum(SALARY_PERIODS).optional(),
   isActive: z.boolean().optional(),
-  skills: z.array(z.string()).optional(),
+  skills: z.array(jobSkillSchema).optional(),
 });
 
 // GET a specific job posting
@@ -38,7 +46,7 @@ export async function GET(
             },
           },
         },
-        requiredSkills: true,
+        skills: { include: { skill: true } },
         applications: {
           select: {
             id: true,
@@ -53,7 +61,49 @@ export async function GET(
       return NextResponse.json({ error: 'Job posting not found' }, { status: 404 });
     }
     
-    return NextResponse.json(jobPosting);
+    // The posting is public; signed-in viewers are identified for the view count
+    const viewer = await authorize();
+    const user = viewer.success ? viewer.user : null;
+    const isOwner = user !== null && recruiterOwnsJob(user, jobPosting);
+    const isAdmin = user?.role === 'ADMIN';
+    
+    // Inactive postings, including ones an admin took down, are gone for everyone else
+    if (!jobPosting.isActive && !isOwner && !isAdmin) {
+      return NextResponse.json({ error: 'Job posting not found' }, { status: 404 });
+    }
+    
+    // Only the recruiter who posted the job sees its applications, and only
+    // they and admins see why a posting was taken down
+    const { skills, applications, moderatedAt, moderationReason, ...job } = jobPosting;
+    const response = NextResponse.json({
+      ...job,
+      ...((isOwner || isAdmin) && { moderatedAt, moderationReason }),
+      ...(isOwner && { applications }),
+      requiredSkills: skills.map(toJobSkill),
+    });
+    
+    // Record the view, except when the recruiter looks at their own posting
+    if (jobPosting.recruiterProfile.userId !== user?.id) {
+      let anonymousId = request.cookies.get(VISITOR_COOKIE)?.value;
+      if (!user && !anonymousId) {
+        anonymousId = randomUUID();
+        response.cookies.set(VISITOR_COOKIE, anonymousId, {
+          httpOnly: true,
+          sameSite: 'lax',
+          maxAge: 60 * 60 * 24 * 365,
+          path: '/',
+        });
+      }
+      
+      try {
+        await recordJobView(id, getVisitorId(user?.id, anonymousId || ''));
+      } catch (viewError) {
+        // A missed view must not break the job page
+        console.error('Error recording job view:', viewError);
+      }
+    }
+    
+    return response;
   } catch (error) {
     console.error('Error fetching job posting:', error);
     return NextResponse.json({ error: 'Failed to fetch job posting' }, { status: 500 });
@@ -61,19 +111,10 @@ export async function GET(
 }
 
 // PATCH - update a job posting
-export async function PATCH(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+export const PATCH = withAuth({ roles: ['RECRUITER'] }, async (request, { user, params }) => {
   try {
     const id = params.id;
     
-    // Verify authentication
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-    
     // Get the job posting
     const jobPosting = await prisma.jobPosting.findUnique({
       where: { id },
@@ -87,7 +128,7 @@ export async function PATCH(
     }
     
     // Verify ownership - only the recruiter who created the job can update it
-    if (jobPosting.recruiterProfile.userId !== session.user.id) {
+    if (!recruiterOwnsJob(user, jobPosting)) {
       return NextResponse.json({ error: 'You do not have permission to update this job posting' }, { status: 403 });
     }
     
@@ -102,6 +143,18 @@ export async function PATCH(
     
     const updateData = result.data;
     
+    // A posting an admin deactivated stays inactive until an admin reactivates it
+    if (updateData.isActive && jobPosting.moderatedAt) {
+      return NextResponse.json({ error: 'This job posting was deactivated by an administrator and cannot be reactivated' }, { status: 403 });
+    }
+    
+    // Check the salary range against the stored values for fields not being changed
+    const salaryMin = updateData.salaryMin !== undefined ? updateData.salaryMin : jobPosting.salaryMin;
+    const salaryMax = updateData.salaryMax !== undefined ? updateData.salaryMax : jobPosting.salaryMax;
+    if (!isValidSalaryRange(salaryMin, salaryMax)) {
+      return NextResponse.json({ error: 'Minimum salary cannot be higher than the maximum salary' }, { status: 400 });
+    }
+    
     // Update job posting
     const updatedJob = await prisma.jobPosting.update({
       where: { id },
@@ -111,7 +164,12 @@ export async function PATCH(
         ...(updateData.type && { type: updateData.type }),
         ...(updateData.description && { description: updateData.description }),
         ...(updateData.requirements !== undefined && { requirements: updateData.requirements }),
-        ...(updateData.salary !== undefined && { salary: updateData.salary }),
+        ...(updateData.salaryMin !== undefined && { salaryMin: updateData.salaryMin }),
+        ...(updateData.salaryMax !== undefined && { salaryMax: updateData.salaryMax }),
+        // New amounts replace the legacy free-text salary
+        ...((updateData.salaryMin !== undefined || updateData.salaryMax !== undefined) && { salaryText: null }),
+        ...(updateData.currency && { currency: updateData.currency }),
+        ...(updateData.period && { period: updateData.period }),
         ...(updateData.isActive !== undefined && { isActive: updateData.isActive }),
         updatedAt: new Date(),
       },
@@ -119,40 +177,7 @@ export async function PATCH(
     
     // Update skills if provided
     if (updateData.skills && updateData.skills.length > 0) {
-      // First remove all existing skills
-      await prisma.jobPosting.update({
-        where: { id },
-        data: {
-          requiredSkills: {
-            set: [],
-          },
-        },
-      });
-      
-      // Add new skills
-      for (const skillName of updateData.skills) {
-        // First try to find the skill by name
-        let skill = await prisma.skill.findFirst({
-          where: { name: skillName }
-        });
-
-        // If skill doesn't exist, create it
-        if (!skill) {
-          skill = await prisma.skill.create({
-            data: { name: skillName }
-          });
-        }
-        
-        // Connect skill to job posting
-        await prisma.jobPosting.update({
-          where: { id },
-          data: {
-            requiredSkills: {
-              connect: { id: skill.id },
-            },
-          },
-        });
-      }
+      await setJobPostingSkills(id, updateData.skills);
     }
     
     return NextResponse.json({ 
@@ -164,22 +189,13 @@ export async function PATCH(
     console.error('Error updating job posting:', error);
     return NextResponse.json({ error: 'Failed to update job posting' }, { status: 500 });
   }
-}
+});
 
 // DELETE - remove a job posting
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+export const DELETE = withAuth({ roles: ['RECRUITER'] }, async (request, { user, params }) => {
   try {
     const id = params.id;
     
-    // Verify authentication
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-    
     // Get the job posting
     const jobPosting = await prisma.jobPosting.findUnique({
       where: { id },
@@ -193,7 +209,7 @@ export async function DELETE(
     }
     
     // Verify ownership - only the recruiter who created the job can delete it
-    if (jobPosting.recruiterProfile.userId !== session.user.id) {
+    if (!recruiterOwnsJob(user, jobPosting)) {
       return NextResponse.json({ error: 'You do not have permission to delete this job posting' }, { status: 403 });
     }
     
@@ -213,4 +229,4 @@ export async function DELETE(
     console.error('Error deleting job posting:', error);
     return NextResponse.json({ error: 'Failed to delete job posting' }, { status: 500 });
   }
-} 
\ No newline at end of file
+}); 
\ No newline at end of file
@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/app/api/auth/[...nextauth]/auth-options';
 import { prisma } from '@/lib/db/prisma';
 import { z } from 'zod';
+import { getConversionRate, getJobViewCounts } from '@/lib/jobs/views';
+import { parseJobSearchParams, searchJobs } from '@/lib/jobs/search';
+import { setJobPostingSkills } from '@/lib/skills/catalog';
+import { jobSkillSchema, toJobSkill } from '@/lib/skills/proficiency';
+import { DEFAULT_SALARY_CURRENCY, DEFAULT_SALARY_PERIOD, isValidSalaryRange, SALARY_PERIODS } from '@/lib/jobs/salary';
+import { authorize, withAuth } from '@/lib/auth/with-auth';
 
 // Schema for job posting validation
 const jobPostingSchema = z.object({
@@ -12,40 +16,37 @@ const jobPostingSchema = z.object({
   type: z.string(),
   description: z.string().min(20, 'Description must be at least 20 characters'),
   requirements: z.string().optional(),
-  salary: z.string().optional(),
-  skills: z.array(z.string()).optional(),
+  salaryMin: z.number().int().nonnegative().optional(),
+  salaryMax: z.number().int().nonnegative().optional(),
+  currency: z.string().length(3, 'Currency must be a 3-letter code').toUpperCase().default(DEFAULT_SALARY_CURRENCY),
+  period: z.enum(SALARY_PERIODS).default(DEFAULT_SALARY_PERIOD),
+  skills: z.array(jobSkillSchema).optional(),
+}).refine(data => isValidSalaryRange(data.salaryMin, data.salaryMax), {
+  message: 'Minimum salary cannot be higher than the maximum salary',
+  path: ['salaryMax'],
+});
+
+// Pages of the job search accepted by GET /api/jobs
+const jobPageSchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(10),
 });
 
 // GET all job postings
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const search = searchParams.get('search');
-    const limit = parseInt(searchParams.get('limit') || '10');
-    const page = parseInt(searchParams.get('page') || '1');
-    const skip = (page - 1) * limit;
     const recruiterOnly = searchParams.get('recruiter_only') === 'true';
     
     // Check if it's a recruiter-only request
     if (recruiterOnly) {
-      const session = await getServerSession(authOptions);
-      
-      if (!session) {
-        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-      }
+      const auth = await authorize({ roles: ['RECRUITER'], load: 'recruiterProfile' });
       
-      if (session.user.role !== 'RECRUITER') {
-        return NextResponse.json({ error: 'Only recruiters can access this data' }, { status: 403 });
+      if (!auth.success) {
+        return auth.response;
       }
       
-      // Get the recruiter profile
-      const recruiterProfile = await prisma.recruiterProfile.findUnique({
-        where: { userId: session.user.id },
-      });
-      
-      if (!recruiterProfile) {
-        return NextResponse.json({ error: 'Recruiter profile not found' }, { status: 404 });
-      }
+      const { recruiterProfile } = auth;
       
       // Get job postings for this recruiter
       const jobPostings = await prisma.jobPosting.findMany({
@@ -53,7 +54,7 @@ export async function GET(request: NextRequest) {
           recruiterProfileId: recruiterProfile.id,
         },
         include: {
-          requiredSkills: true,
+          skills: { include: { skill: true } },
           applications: {
             select: {
               id: true,
@@ -66,6 +67,8 @@ export async function GET(request: NextRequest) {
         },
       });
       
+      const viewCounts = await getJobViewCounts(jobPostings.map(job => job.id));
+      
       // Format the response
       const jobs = jobPostings.map(job => ({
         id: job.id,
@@ -76,65 +79,37 @@ export async function GET(request: NextRequest) {
         createdAt: job.createdAt,
         status: job.isActive ? 'active' : 'inactive',
         applicantCount: job.applications.length,
+        viewCount: viewCounts.get(job.id) || 0,
+        conversionRate: getConversionRate(job.applications.length, viewCounts.get(job.id) || 0),
         type: job.type,
-        salary: job.salary,
-        skills: job.requiredSkills,
+        salaryMin: job.salaryMin,
+        salaryMax: job.salaryMax,
+        currency: job.currency,
+        period: job.period,
+        salaryText: job.salaryText,
+        skills: job.skills.map(toJobSkill),
       }));
       
       return NextResponse.json({ jobs });
     }
     
-    // Base query for regular job listings
-    const whereClause: any = {
-      isActive: true,
-    };
-    
-    // Add search filter if provided
-    if (search) {
-      whereClause.OR = [
-        { title: { contains: search, mode: 'insensitive' } },
-        { description: { contains: search, mode: 'insensitive' } },
-        { company: { contains: search, mode: 'insensitive' } },
-      ];
+    // Regular job listings with search filters and facet counts
+    const filters = parseJobSearchParams(searchParams);
+    if (!filters.success) {
+      return NextResponse.json({ error: filters.error.errors }, { status: 400 });
     }
     
-    // Get active job postings with recruiter info
-    const jobPostings = await prisma.jobPosting.findMany({
-      where: whereClause,
-      include: {
-        recruiterProfile: {
-          include: {
-            user: {
-              select: {
-                name: true,
-                email: true,
-              },
-            },
-          },
-        },
-        requiredSkills: true,
-      },
-      orderBy: {
-        createdAt: 'desc',
-      },
-      skip,
-      take: limit,
+    const pagination = jobPageSchema.safeParse({
+      page: searchParams.get('page') || undefined,
+      limit: searchParams.get('limit') || undefined,
     });
+    if (!pagination.success) {
+      return NextResponse.json({ error: pagination.error.errors }, { status: 400 });
+    }
     
-    // Get total count for pagination
-    const total = await prisma.jobPosting.count({
-      where: whereClause,
-    });
+    const results = await searchJobs(filters.data, pagination.data);
     
-    return NextResponse.json({
-      jobs: jobPostings,
-      pagination: {
-        total,
-        page,
-        limit,
-        totalPages: Math.ceil(total / limit),
-      },
-    });
+    return NextResponse.json(results);
   } catch (error) {
     console.error('Error fetching job postings:', error);
     return NextResponse.json({ error: 'Failed to fetch job postings' }, { status: 500 });
@@ -142,28 +117,8 @@ export async function GET(request: NextRequest) {
 }
 
 // POST - create a new job posting
-export async function POST(request: NextRequest) {
+export const POST = withAuth({ roles: ['RECRUITER'], load: 'recruiterProfile' }, async (request, { recruiterProfile }) => {
   try {
-    // Verify authentication
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-    
-    // Verify user is a recruiter
-    if (session.user.role !== 'RECRUITER') {
-      return NextResponse.json({ error: 'Only recruiters can create job postings' }, { status: 403 });
-    }
-    
-    // Get recruiter profile
-    const recruiterProfile = await prisma.recruiterProfile.findUnique({
-      where: { userId: session.user.id },
-    });
-    
-    if (!recruiterProfile) {
-      return NextResponse.json({ error: 'Recruiter profile not found' }, { status: 404 });
-    }
-    
     // Parse request body
     const body = await request.json();
     
@@ -184,36 +139,17 @@ export async function POST(request: NextRequest) {
         type: jobData.type,
         description: jobData.description,
         requirements: jobData.requirements,
-        salary: jobData.salary,
+        salaryMin: jobData.salaryMin,
+        salaryMax: jobData.salaryMax,
+        currency: jobData.currency,
+        period: jobData.period,
         recruiterProfileId: recruiterProfile.id,
       },
     });
     
     // Add skills if provided
     if (jobData.skills && jobData.skills.length > 0) {
-      for (const skillName of jobData.skills) {
-        // First try to find the skill by name
-        let skill = await prisma.skill.findFirst({
-          where: { name: skillName }
-        });
-
-        // If skill doesn't exist, create it
-        if (!skill) {
-          skill = await prisma.skill.create({
-            data: { name: skillName }
-          });
-        }
-        
-        // Connect skill to job posting
-        await prisma.jobPosting.update({
-          where: { id: jobPosting.id },
-          data: {
-            requiredSkills: {
-              connect: { id: skill.id },
-            },
-          },
-        });
-      }
+      await setJobPostingSkills(jobPosting.id, jobData.skills);
     }
     
     return NextResponse.json({ 
@@ -225,4 +161,4 @@ export async function POST(request: NextRequest) {
     console.error('Error creating job posting:', error);
     return NextResponse.json({ error: 'Failed to create job posting' }, { status: 500 });
   }
-} 
\ No newline at end of file
+});
@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { withAuth } from '@/lib/auth/with-auth';
+import { educationSchema, toHistoryDates } from '@/lib/profile/history';
+
+// Find an education entry owned by the given user
+async function findOwnEducation(id: string, userId: string) {
+  return await prisma.education.findFirst({
+    where: {
+      id,
+      jobSeekerProfile: { userId },
+    },
+  });
+}
+
+// PUT (replace) an education entry
+export const PUT = withAuth({ roles: ['JOBSEEKER'] }, async (request, { user, params }) => {
+  try {
+    const existing = await findOwnEducation(params.id, user.id);
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Education not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const result = educationSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error.errors }, { status: 400 });
+    }
+
+    const { institution, degree, field, description } = result.data;
+
+    const education = await prisma.education.update({
+      where: { id: existing.id },
+      data: {
+        institution,
+        degree,
+        field: field || null,
+        description: description || null,
+        ...toHistoryDates(result.data),
+      },
+    });
+
+    return NextResponse.json({ education });
+  } catch (error) {
+    console.error('Error updating education:', error);
+    return NextResponse.json({ error: 'Failed to update education' }, { status: 500 });
+  }
+});
+
+// DELETE an education entry
+export const DELETE = withAuth({ roles: ['JOBSEEKER'] }, async (request, { user, params }) => {
+  try {
+    const existing = await findOwnEducation(params.id, user.id);
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Education not found' }, { status: 404 });
+    }
+
+    await prisma.education.delete({
+      where: { id: existing.id },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting education:', error);
+    return NextResponse.json({ error: 'Failed to delete education' }, { status: 500 });
+  }
+});
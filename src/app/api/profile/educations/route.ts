@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { withAuth } from '@/lib/auth/with-auth';
+import { educationSchema, toHistoryDates } from '@/lib/profile/history';
+
+// GET the education of the current job seeker
+export const GET = withAuth({ roles: ['JOBSEEKER'] }, async (request, { user }) => {
+  try {
+    const educations = await prisma.education.findMany({
+      where: { jobSeekerProfile: { userId: user.id } },
+      orderBy: [{ current: 'desc' }, { startDate: 'desc' }],
+    });
+
+    return NextResponse.json({ educations });
+  } catch (error) {
+    console.error('Error fetching educations:', error);
+    return NextResponse.json({ error: 'Failed to fetch educations' }, { status: 500 });
+  }
+});
+
+// POST a new education
+export const POST = withAuth({ roles: ['JOBSEEKER'], load: 'jobSeekerProfile' }, async (request, { jobSeekerProfile: profile }) => {
+  try {
+    const body = await request.json();
+    const result = educationSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error.errors }, { status: 400 });
+    }
+
+    const { institution, degree, field, description } = result.data;
+
+    const education = await prisma.education.create({
+      data: {
+        institution,
+        degree,
+        field: field || null,
+        description: description || null,
+        ...toHistoryDates(result.data),
+        jobSeekerProfileId: profile.id,
+      },
+    });
+
+    return NextResponse.json({ education }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating education:', error);
+    return NextResponse.json({ error: 'Failed to create education' }, { status: 500 });
+  }
+});
@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { withAuth } from '@/lib/auth/with-auth';
+import { experienceSchema, toHistoryDates } from '@/lib/profile/history';
+
+// Find an experience owned by the given user
+async function findOwnExperience(id: string, userId: string) {
+  return await prisma.experience.findFirst({
+    where: {
+      id,
+      jobSeekerProfile: { userId },
+    },
+  });
+}
+
+// PUT (replace) a work experience
+export const PUT = withAuth({ roles: ['JOBSEEKER'] }, async (request, { user, params }) => {
+  try {
+    const existing = await findOwnExperience(params.id, user.id);
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Experience not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const result = experienceSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error.errors }, { status: 400 });
+    }
+
+    const { company, position, description } = result.data;
+
+    const experience = await prisma.experience.update({
+      where: { id: existing.id },
+      data: {
+        company,
+        position,
+        description: description || null,
+        ...toHistoryDates(result.data),
+      },
+    });
+
+    return NextResponse.json({ experience });
+  } catch (error) {
+    console.error('Error updating experience:', error);
+    return NextResponse.json({ error: 'Failed to update experience' }, { status: 500 });
+  }
+});
+
+// DELETE a work experience
+export const DELETE = withAuth({ roles: ['JOBSEEKER'] }, async (request, { user, params }) => {
+  try {
+    const existing = await findOwnExperience(params.id, user.id);
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Experience not found' }, { status: 404 });
+    }
+
+    await prisma.experience.delete({
+      where: { id: existing.id },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting experience:', error);
+    return NextResponse.json({ error: 'Failed to delete experience' }, { status: 500 });
+  }
+});
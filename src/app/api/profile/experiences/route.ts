@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { withAuth } from '@/lib/auth/with-auth';
+import { experienceSchema, toHistoryDates } from '@/lib/profile/history';
+
+// GET the work experience of the current job seeker
+export const GET = withAuth({ roles: ['JOBSEEKER'] }, async (request, { user }) => {
+  try {
+    const experiences = await prisma.experience.findMany({
+      where: { jobSeekerProfile: { userId: user.id } },
+      orderBy: [{ current: 'desc' }, { startDate: 'desc' }],
+    });
+
+    return NextResponse.json({ experiences });
+  } catch (error) {
+    console.error('Error fetching experiences:', error);
+    return NextResponse.json({ error: 'Failed to fetch experiences' }, { status: 500 });
+  }
+});
+
+// POST a new work experience
+export const POST = withAuth({ roles: ['JOBSEEKER'], load: 'jobSeekerProfile' }, async (request, { jobSeekerProfile: profile }) => {
+  try {
+    const body = await request.json();
+    const result = experienceSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error.errors }, { status: 400 });
+    }
+
+    const { company, position, description } = result.data;
+
+    const experience = await prisma.experience.create({
+      data: {
+        company,
+        position,
+        description: description || null,
+        ...toHistoryDates(result.data),
+        jobSeekerProfileId: profile.id,
+      },
+    });
+
+    return NextResponse.json({ experience }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating experience:', error);
+    return NextResponse.json({ error: 'Failed to create experience' }, { status: 500 });
+  }
+});
@@ -1,20 +1,14 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/app/api/auth/[...nextauth]/auth-options';
+import { toProfileSkill } from '@/lib/skills/proficiency';
+import { withAuth } from '@/lib/auth/with-auth';
 
 // GET user profile data
-export async function GET(request: NextRequest) {
+export const GET = withAuth({}, async (request, { user: sessionUser }) => {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-    
     // Get the user from the database
     const user = await prisma.user.findUnique({
-      where: { email: session.user.email! },
+      where: { id: sessionUser.id },
     });
     
     if (!user) {
@@ -25,15 +19,15 @@ export async function GET(request: NextRequest) {
     let profile;
     let resumeData = null;
     
-    if (session.user.role === 'RECRUITER') {
+    if (user.role === 'RECRUITER') {
       profile = await prisma.recruiterProfile.findUnique({
         where: { userId: user.id },
       });
-    } else if (session.user.role === 'JOBSEEKER') {
+    } else if (user.role === 'JOBSEEKER') {
       profile = await prisma.jobSeekerProfile.findUnique({
         where: { userId: user.id },
         include: {
-          skills: true,
+          skills: { include: { skill: true } },
           experiences: true,
           educations: true,
         }
@@ -55,7 +49,7 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Profile not found' }, { status: 404 });
     }
     
-    // Return user profile data
+    // Return user profile data, with a job seeker's skills flattened
     return NextResponse.json({
       user: {
         id: user.id,
@@ -63,24 +57,18 @@ export async function GET(request: NextRequest) {
         name: user.name,
         role: user.role,
       },
-      profile,
+      profile: 'experiences' in profile ? { ...profile, skills: profile.skills.map(toProfileSkill) } : profile,
       resumeData,
     });
   } catch (error) {
     console.error('Error fetching profile:', error);
     return NextResponse.json({ error: 'Failed to fetch profile' }, { status: 500 });
   }
-}
+});
 
 // Update user profile
-export async function PUT(request: NextRequest) {
+export const PUT = withAuth({}, async (request, { user: sessionUser }) => {
   try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-    
     const body = await request.json();
     
     // Validate required fields
@@ -90,7 +78,7 @@ export async function PUT(request: NextRequest) {
     
     // Find the user
     const user = await prisma.user.findUnique({
-      where: { id: session.user.id },
+      where: { id: sessionUser.id },
     });
     
     if (!user) {
@@ -106,7 +94,7 @@ export async function PUT(request: NextRequest) {
     });
     
     // Update profile data based on role
-    if (session.user.role === 'RECRUITER') {
+    if (user.role === 'RECRUITER') {
       // Get or create the recruiter profile
       let recruiterProfile = await prisma.recruiterProfile.findUnique({
         where: { userId: user.id },
@@ -131,7 +119,7 @@ export async function PUT(request: NextRequest) {
           bio: body.bio || null,
         },
       });
-    } else if (session.user.role === 'JOBSEEKER') {
+    } else if (user.role === 'JOBSEEKER') {
       // Get or create the job seeker profile
       let jobSeekerProfile = await prisma.jobSeekerProfile.findUnique({
         where: { userId: user.id },
@@ -170,4 +158,4 @@ export async function PUT(request: NextRequest) {
     console.error('Error updating profile:', error);
     return NextResponse.json({ error: 'Failed to update profile' }, { status: 500 });
   }
-} 
\ No newline at end of file
+}); 
\ No newline at end of file
@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { withAuth } from '@/lib/auth/with-auth';
+import { profileSkillSchema, toProfileSkill } from '@/lib/skills/proficiency';
+
+// The skill is already chosen by the URL
+const profileSkillUpdateSchema = profileSkillSchema.omit({ name: true });
+
+// Find the given user's link to a skill; the id is the skill's, as the API returns it
+async function findOwnSkill(skillId: string, userId: string) {
+  return await prisma.jobSeekerSkill.findFirst({
+    where: {
+      skillId,
+      jobSeekerProfile: { userId },
+    },
+  });
+}
+
+// PUT (replace) the job seeker's proficiency in a skill
+export const PUT = withAuth({ roles: ['JOBSEEKER'] }, async (request, { user, params }) => {
+  try {
+    const existing = await findOwnSkill(params.id, user.id);
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Skill not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const result = profileSkillUpdateSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error.errors }, { status: 400 });
+    }
+
+    const { level, yearsOfExperience, lastUsed } = result.data;
+
+    // Once edited, the details are the job seeker's, and resume analysis leaves them alone
+    const profileSkill = await prisma.jobSeekerSkill.update({
+      where: { id: existing.id },
+      data: {
+        level: level ?? null,
+        yearsOfExperience: yearsOfExperience ?? null,
+        lastUsed: lastUsed ? new Date(lastUsed) : null,
+        source: 'SELF_DECLARED',
+      },
+      include: { skill: true },
+    });
+
+    return NextResponse.json({ skill: toProfileSkill(profileSkill) });
+  } catch (error) {
+    console.error('Error updating profile skill:', error);
+    return NextResponse.json({ error: 'Failed to update skill' }, { status: 500 });
+  }
+});
+
+// DELETE a skill from the job seeker's profile
+export const DELETE = withAuth({ roles: ['JOBSEEKER'] }, async (request, { user, params }) => {
+  try {
+    const existing = await findOwnSkill(params.id, user.id);
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Skill not found' }, { status: 404 });
+    }
+
+    await prisma.jobSeekerSkill.delete({
+      where: { id: existing.id },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting profile skill:', error);
+    return NextResponse.json({ error: 'Failed to delete skill' }, { status: 500 });
+  }
+});
@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { withAuth } from '@/lib/auth/with-auth';
+import { resolveSkill } from '@/lib/skills/catalog';
+import { profileSkillSchema, toProfileSkill } from '@/lib/skills/proficiency';
+
+// GET the skills of the current job seeker
+export const GET = withAuth({ roles: ['JOBSEEKER'] }, async (request, { user }) => {
+  try {
+    const skills = await prisma.jobSeekerSkill.findMany({
+      where: { jobSeekerProfile: { userId: user.id } },
+      include: { skill: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json({ skills: skills.map(toProfileSkill) });
+  } catch (error) {
+    console.error('Error fetching profile skills:', error);
+    return NextResponse.json({ error: 'Failed to fetch skills' }, { status: 500 });
+  }
+});
+
+// POST a skill with the job seeker's proficiency. Declaring a skill already
+// found in the resume replaces the estimate with the job seeker's own details.
+export const POST = withAuth({ roles: ['JOBSEEKER'], load: 'jobSeekerProfile' }, async (request, { jobSeekerProfile: profile }) => {
+  try {
+    const body = await request.json();
+    const result = profileSkillSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error.errors }, { status: 400 });
+    }
+
+    const { name, level, yearsOfExperience, lastUsed } = result.data;
+    const skill = await resolveSkill(name);
+
+    if (!skill) {
+      return NextResponse.json({ error: 'Skill name is required' }, { status: 400 });
+    }
+
+    const details = {
+      level: level ?? null,
+      yearsOfExperience: yearsOfExperience ?? null,
+      lastUsed: lastUsed ? new Date(lastUsed) : null,
+      source: 'SELF_DECLARED' as const,
+    };
+
+    const profileSkill = await prisma.jobSeekerSkill.upsert({
+      where: { jobSeekerProfileId_skillId: { jobSeekerProfileId: profile.id, skillId: skill.id } },
+      create: { jobSeekerProfileId: profile.id, skillId: skill.id, ...details },
+      update: details,
+      include: { skill: true },
+    });
+
+    return NextResponse.json({ skill: toProfileSkill(profileSkill) }, { status: 201 });
+  } catch (error) {
+    console.error('Error saving profile skill:', error);
+    return NextResponse.json({ error: 'Failed to save skill' }, { status: 500 });
+  }
+});
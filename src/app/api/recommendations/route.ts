@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getRecommendations } from '@/lib/jobs/recommendations';
+import { withAuth } from '@/lib/auth/with-auth';
+
+// Query string accepted by GET /api/recommendations; every active job is scored per request, so pages stay small
+const recommendationQuerySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(50).default(10),
+});
+
+// GET ranked job recommendations for the authenticated job seeker
+export const GET = withAuth({ roles: ['JOBSEEKER'], load: 'jobSeekerProfile' }, async (request, { jobSeekerProfile }) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = recommendationQuerySchema.safeParse({
+      page: searchParams.get('page') || undefined,
+      limit: searchParams.get('limit') || undefined,
+    });
+
+    if (!query.success) {
+      return NextResponse.json({ error: query.error.errors }, { status: 400 });
+    }
+
+    const { page, limit } = query.data;
+    const includeApplied = searchParams.get('include_applied') === 'true';
+
+    const result = await getRecommendations(jobSeekerProfile.id, { page, limit, includeApplied });
+
+    if (!result) {
+      return NextResponse.json({ error: 'Job seeker profile not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error fetching job recommendations:', error);
+    return NextResponse.json({ error: 'Failed to fetch job recommendations' }, { status: 500 });
+  }
+});
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { getResumeStorage } from '@/lib/storage';
+import { getResumeExtractor } from '@/lib/resume/extractors';
+import { withAuth } from '@/lib/auth/with-auth';
+import { canViewResume } from '@/lib/auth/policies';
+
+// GET the uploaded resume file of a job seeker
+export const GET = withAuth({}, async (request, { user }) => {
+  try {
+    // Job seekers download their own resume unless a profile is given
+    const { searchParams } = new URL(request.url);
+    const profileId = searchParams.get('profileId');
+
+    const profile = profileId
+      ? await prisma.jobSeekerProfile.findUnique({ where: { id: profileId } })
+      : await prisma.jobSeekerProfile.findUnique({ where: { userId: user.id } });
+
+    if (!profile?.resumeKey) {
+      return NextResponse.json({ error: 'Resume not found' }, { status: 404 });
+    }
+
+    // Only the candidate and recruiters whose jobs they applied to can download it
+    if (!(await canViewResume(user, profile))) {
+      return NextResponse.json({ error: 'You do not have permission to view this resume' }, { status: 403 });
+    }
+
+    const file = await getResumeStorage().get(profile.resumeKey);
+
+    if (!file) {
+      return NextResponse.json({ error: 'Resume file not found' }, { status: 404 });
+    }
+
+    // Serve the file as the format it actually is
+    const extractor = getResumeExtractor(file);
+    const format = extractor?.format || 'pdf';
+    const disposition = format === 'pdf' || format === 'txt' ? 'inline' : 'attachment';
+
+    return new NextResponse(file, {
+      headers: {
+        'Content-Type': extractor?.mimeType || 'application/octet-stream',
+        'Content-Disposition': `${disposition}; filename="resume.${format}"`,
+        'Cache-Control': 'private, no-store',
+        // Browsers must not sniff an inline text file into HTML
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error) {
+    console.error('Error downloading resume:', error);
+    return NextResponse.json({ error: 'Failed to download resume' }, { status: 500 });
+  }
+});
@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+import { ResumeImportStatus } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { withAuth } from '@/lib/auth/with-auth';
+import { educationSchema } from '@/lib/profile/history';
+import { importProposedEducation } from '@/lib/resume/history-import';
+
+// Find a pending proposal owned by the given user
+async function findPendingProposal(id: string, userId: string) {
+  return await prisma.proposedEducation.findFirst({
+    where: {
+      id,
+      status: ResumeImportStatus.PENDING,
+      jobSeekerProfile: { userId },
+    },
+  });
+}
+
+// POST to confirm an extracted education entry, with any edits, and add it to the profile
+export const POST = withAuth({ roles: ['JOBSEEKER'] }, async (request, { user, params }) => {
+  try {
+    const proposal = await findPendingProposal(params.id, user.id);
+
+    if (!proposal) {
+      return NextResponse.json({ error: 'Proposed education not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const result = educationSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error.errors }, { status: 400 });
+    }
+
+    const education = await importProposedEducation(proposal.id, result.data);
+
+    if (!education) {
+      return NextResponse.json({ error: 'This proposed education has already been reviewed' }, { status: 409 });
+    }
+
+    return NextResponse.json({ education }, { status: 201 });
+  } catch (error) {
+    console.error('Error importing education:', error);
+    return NextResponse.json({ error: 'Failed to import education' }, { status: 500 });
+  }
+});
+
+// DELETE to reject an extracted education entry
+export const DELETE = withAuth({ roles: ['JOBSEEKER'] }, async (request, { user, params }) => {
+  try {
+    const proposal = await findPendingProposal(params.id, user.id);
+
+    if (!proposal) {
+      return NextResponse.json({ error: 'Proposed education not found' }, { status: 404 });
+    }
+
+    // Kept as rejected so re-analysing the resume does not propose it again
+    const rejected = await prisma.proposedEducation.updateMany({
+      where: { id: proposal.id, status: ResumeImportStatus.PENDING },
+      data: { status: ResumeImportStatus.REJECTED },
+    });
+
+    if (rejected.count === 0) {
+      return NextResponse.json({ error: 'This proposed education has already been reviewed' }, { status: 409 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error rejecting education:', error);
+    return NextResponse.json({ error: 'Failed to reject education' }, { status: 500 });
+  }
+});
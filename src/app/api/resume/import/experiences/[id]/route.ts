@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+import { ResumeImportStatus } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { withAuth } from '@/lib/auth/with-auth';
+import { experienceSchema } from '@/lib/profile/history';
+import { importProposedExperience } from '@/lib/resume/history-import';
+
+// Find a pending proposal owned by the given user
+async function findPendingProposal(id: string, userId: string) {
+  return await prisma.proposedExperience.findFirst({
+    where: {
+      id,
+      status: ResumeImportStatus.PENDING,
+      jobSeekerProfile: { userId },
+    },
+  });
+}
+
+// POST to confirm an extracted experience, with any edits, and add it to the profile
+export const POST = withAuth({ roles: ['JOBSEEKER'] }, async (request, { user, params }) => {
+  try {
+    const proposal = await findPendingProposal(params.id, user.id);
+
+    if (!proposal) {
+      return NextResponse.json({ error: 'Proposed experience not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const result = experienceSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error.errors }, { status: 400 });
+    }
+
+    const experience = await importProposedExperience(proposal.id, result.data);
+
+    if (!experience) {
+      return NextResponse.json({ error: 'This proposed experience has already been reviewed' }, { status: 409 });
+    }
+
+    return NextResponse.json({ experience }, { status: 201 });
+  } catch (error) {
+    console.error('Error importing experience:', error);
+    return NextResponse.json({ error: 'Failed to import experience' }, { status: 500 });
+  }
+});
+
+// DELETE to reject an extracted experience
+export const DELETE = withAuth({ roles: ['JOBSEEKER'] }, async (request, { user, params }) => {
+  try {
+    const proposal = await findPendingProposal(params.id, user.id);
+
+    if (!proposal) {
+      return NextResponse.json({ error: 'Proposed experience not found' }, { status: 404 });
+    }
+
+    // Kept as rejected so re-analysing the resume does not propose it again
+    const rejected = await prisma.proposedExperience.updateMany({
+      where: { id: proposal.id, status: ResumeImportStatus.PENDING },
+      data: { status: ResumeImportStatus.REJECTED },
+    });
+
+    if (rejected.count === 0) {
+      return NextResponse.json({ error: 'This proposed experience has already been reviewed' }, { status: 409 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error rejecting experience:', error);
+    return NextResponse.json({ error: 'Failed to reject experience' }, { status: 500 });
+  }
+});
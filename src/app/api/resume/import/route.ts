@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { withAuth } from '@/lib/auth/with-auth';
+import { getPendingResumeHistory } from '@/lib/resume/history-import';
+
+// GET the experience and education extracted from the resume that await review
+export const GET = withAuth({ roles: ['JOBSEEKER'] }, async (request, { user }) => {
+  try {
+    const profile = await prisma.jobSeekerProfile.findUnique({
+      where: { userId: user.id },
+    });
+
+    if (!profile) {
+      return NextResponse.json({ experiences: [], educations: [] });
+    }
+
+    const pending = await getPendingResumeHistory(profile.id);
+
+    return NextResponse.json(pending);
+  } catch (error) {
+    console.error('Error fetching resume import:', error);
+    return NextResponse.json({ error: 'Failed to fetch extracted history' }, { status: 500 });
+  }
+});
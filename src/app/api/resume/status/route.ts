@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { BackgroundJobStatus } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { withAuth } from '@/lib/auth/with-auth';
+import { getLatestResumeJob, processQueuedJobs } from '@/lib/queue';
+
+// GET the processing status of the current job seeker's latest resume upload
+export const GET = withAuth({ roles: ['JOBSEEKER'] }, async (request, { user }) => {
+  try {
+    const profile = await prisma.jobSeekerProfile.findUnique({
+      where: { userId: user.id },
+    });
+
+    const job = profile ? await getLatestResumeJob(profile.id) : null;
+
+    if (!job) {
+      return NextResponse.json({ job: null });
+    }
+
+    // Make sure a due job gets picked up even if this server restarted since it was queued
+    if (job.status === BackgroundJobStatus.QUEUED && job.runAt <= new Date()) {
+      processQueuedJobs();
+    }
+
+    return NextResponse.json({
+      job: {
+        id: job.id,
+        status: job.status,
+        attempts: job.attempts,
+        maxAttempts: job.maxAttempts,
+        error: job.lastError,
+        nextAttemptAt: job.status === BackgroundJobStatus.QUEUED ? job.runAt : null,
+        createdAt: job.createdAt,
+        finishedAt: job.finishedAt,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching resume status:', error);
+    return NextResponse.json({ error: 'Failed to fetch resume status' }, { status: 500 });
+  }
+});
@@ -1,39 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/app/api/auth/[...nextauth]/auth-options';
+import { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/db/prisma';
-import fs from 'fs';
-import { mkdir, writeFile } from 'fs/promises';
-import path from 'path';
-import { v4 as uuidv4 } from 'uuid';
+import { createResumeKey, getResumeStorage } from '@/lib/storage';
+import { getResumeFormatOfFile, RESUME_FORMATS_DESCRIPTION } from '@/lib/resume/formats';
+import { getResumeExtractor } from '@/lib/resume/extractors';
+import { enqueueResumeProcessing } from '@/lib/queue';
+import { withAuth } from '@/lib/auth/with-auth';
 
 // Maximum file size (5MB)
 const MAX_FILE_SIZE = 5 * 1024 * 1024;
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth({ roles: ['JOBSEEKER'], load: 'jobSeekerProfile' }, async (request, { user, jobSeekerProfile: profile }) => {
   try {
-    // Check user authentication
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return NextResponse.json({ 
-        success: false, 
-        error: 'Unauthorized' 
-      }, { status: 401 });
-    }
-
-    // Make sure user is a job seeker
-    const user = await prisma.user.findUnique({
-      where: { id: session.user.id },
-      include: { jobSeekerProfile: true },
-    });
-
-    if (user?.role !== 'JOBSEEKER') {
-      return NextResponse.json({ 
-        success: false, 
-        error: 'Only job seekers can upload resumes' 
-      }, { status: 403 });
-    }
-
     // Parse form data
     const formData = await request.formData();
     const file = formData.get('file') as File;
@@ -54,48 +32,38 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    // Check file type
-    if (file.type !== 'application/pdf') {
+    // Check file type, first by MIME type or name, then by the file contents
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const extractor = getResumeFormatOfFile(file) ? getResumeExtractor(buffer) : null;
+    if (!extractor) {
       return NextResponse.json({ 
         success: false, 
-        error: 'Only PDF files are supported' 
+        error: `Only ${RESUME_FORMATS_DESCRIPTION} files are supported` 
       }, { status: 400 });
     }
 
-    // Create directory if it doesn't exist
-    const uploadDir = path.join(process.cwd(), 'public', 'uploads', 'resumes');
-    if (!fs.existsSync(uploadDir)) {
-      await mkdir(uploadDir, { recursive: true });
-    }
+    // Store the file privately under a fresh key
+    const storage = getResumeStorage();
+    const resumeKey = createResumeKey(user.id, extractor.format);
+    await storage.put(resumeKey, buffer, extractor.mimeType);
 
-    // Generate unique filename
-    const uniqueId = uuidv4();
-    const fileName = `${user.id}_${uniqueId}.pdf`;
-    const filePath = path.join(uploadDir, fileName);
-    const relativePath = path.join('public', 'uploads', 'resumes', fileName);
+    const previousResumeKey = profile.resumeKey;
 
-    // Convert file to buffer and save to disk
-    const buffer = Buffer.from(await file.arrayBuffer());
-    await writeFile(filePath, buffer);
+    // Point the JobSeekerProfile at the new file
+    const jobSeekerProfile = await prisma.jobSeekerProfile.update({
+      where: { id: profile.id },
+      data: { resumeKey },
+    });
 
-    // Get or create JobSeekerProfile
-    let jobSeekerProfile = user.jobSeekerProfile;
-    
-    if (!jobSeekerProfile) {
-      jobSeekerProfile = await prisma.jobSeekerProfile.create({
-        data: {
-          userId: user.id,
-          bio: '',
-        },
-      });
+    // Remove the file this upload replaced
+    if (previousResumeKey && previousResumeKey !== resumeKey) {
+      try {
+        await storage.delete(previousResumeKey);
+      } catch (deleteError) {
+        console.error('Error deleting replaced resume:', deleteError);
+      }
     }
 
-    // Update JobSeekerProfile with the resume URL
-    jobSeekerProfile = await prisma.jobSeekerProfile.update({
-      where: { id: jobSeekerProfile.id },
-      data: { resumeUrl: relativePath },
-    });
-
     // Create or update ParsedResume
     let parsedResume = await prisma.parsedResume.findUnique({
       where: { jobSeekerProfileId: jobSeekerProfile.id },
@@ -108,6 +76,8 @@ export async function POST(request: NextRequest) {
         data: {
           // Clear the text so it will be re-parsed on next analysis
           rawText: '',
+          layout: Prisma.DbNull,
+          extractionFailure: null,
           lastUpdated: new Date(),
         },
       });
@@ -122,13 +92,16 @@ export async function POST(request: NextRequest) {
       });
     }
 
+    // Extract and analyze the resume in the background
+    const job = await enqueueResumeProcessing(jobSeekerProfile.id);
+
     // Return successful response
     return NextResponse.json({
       success: true,
       message: 'Resume uploaded successfully',
-      resumeUrl: relativePath,
       resumeId: parsedResume.id,
-      profileId: jobSeekerProfile.id
+      profileId: jobSeekerProfile.id,
+      jobId: job.id
     });
   } catch (error) {
     console.error('Resume upload error:', error);
@@ -138,4 +111,4 @@ export async function POST(request: NextRequest) {
       message: error instanceof Error ? error.message : 'An unexpected error occurred'
     }, { status: 500 });
   }
-} 
\ No newline at end of file
+});
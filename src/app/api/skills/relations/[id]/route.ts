@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { withAuth } from '@/lib/auth/with-auth';
+import { removeSkillRelation } from '@/lib/skills/graph';
+import { recordAdminAction } from '@/lib/admin/audit';
+
+// DELETE an edge of the skill graph (admins only)
+export const DELETE = withAuth({ roles: ['ADMIN'] }, async (request, { user, params }) => {
+  try {
+    // Read the edge first, so the audit log can name its skills
+    const relation = await prisma.skillRelation.findUnique({
+      where: { id: params.id },
+      include: {
+        fromSkill: { select: { name: true } },
+        toSkill: { select: { name: true } },
+      },
+    });
+
+    if (!relation) {
+      return NextResponse.json({ error: 'Skill relation not found' }, { status: 404 });
+    }
+
+    const removed = await prisma.$transaction(async (tx) => {
+      if (!await removeSkillRelation(relation.id, tx)) {
+        return false;
+      }
+
+      await recordAdminAction(tx, {
+        actorId: user.id,
+        action: 'SKILL_RELATION_REMOVED',
+        targetType: 'SkillRelation',
+        targetId: relation.id,
+        details: { fromSkill: relation.fromSkill.name, toSkill: relation.toSkill.name, type: relation.type },
+      });
+
+      return true;
+    });
+
+    // Someone else removed it in the meantime
+    if (!removed) {
+      return NextResponse.json({ error: 'Skill relation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting skill relation:', error);
+    return NextResponse.json({ error: 'Failed to delete skill relation' }, { status: 500 });
+  }
+});
@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { findSkill } from '@/lib/skills/catalog';
+import { prisma } from '@/lib/db/prisma';
+import { withAuth } from '@/lib/auth/with-auth';
+import { addSkillRelation, getSkillRelations, SKILL_RELATION_TYPES } from '@/lib/skills/graph';
+import { recordAdminAction } from '@/lib/admin/audit';
+
+// Schema for a new edge; PARENT makes the "from" skill the parent of the "to" skill
+const skillRelationSchema = z.object({
+  fromSkill: z.string().trim().min(1, 'Skill name is required'),
+  toSkill: z.string().trim().min(1, 'Skill name is required'),
+  type: z.enum(SKILL_RELATION_TYPES),
+});
+
+// GET the edges of the skill graph
+export async function GET() {
+  try {
+    const relations = await getSkillRelations();
+    return NextResponse.json({ relations });
+  } catch (error) {
+    console.error('Error fetching skill relations:', error);
+    return NextResponse.json({ error: 'Failed to fetch skill relations' }, { status: 500 });
+  }
+}
+
+// POST a new edge between two existing skills (admins only)
+export const POST = withAuth({ roles: ['ADMIN'] }, async (request, { user }) => {
+  try {
+    const body = await request.json();
+    const result = skillRelationSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error.errors }, { status: 400 });
+    }
+
+    // Names are looked up through aliases too, so "Postgres" finds PostgreSQL
+    const fromSkill = await findSkill(result.data.fromSkill);
+    const toSkill = await findSkill(result.data.toSkill);
+
+    if (!fromSkill || !toSkill) {
+      return NextResponse.json({ error: 'Skill not found' }, { status: 404 });
+    }
+
+    const added = await prisma.$transaction(async (tx) => {
+      const outcome = await addSkillRelation(fromSkill.id, toSkill.id, result.data.type, tx);
+
+      if (outcome.success) {
+        await recordAdminAction(tx, {
+          actorId: user.id,
+          action: 'SKILL_RELATION_ADDED',
+          targetType: 'SkillRelation',
+          targetId: outcome.relation.id,
+          details: { fromSkill: fromSkill.name, toSkill: toSkill.name, type: result.data.type },
+        });
+      }
+
+      return outcome;
+    });
+
+    if (!added.success) {
+      return NextResponse.json({ error: added.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ relation: added.relation }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating skill relation:', error);
+    return NextResponse.json({ error: 'Failed to create skill relation' }, { status: 500 });
+  }
+});
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
+import { findSkill, resolveSkill } from '@/lib/skills/catalog';
+import { withAuth } from '@/lib/auth/with-auth';
 
 // GET all skills
 export async function GET(request: NextRequest) {
@@ -11,12 +13,12 @@ export async function GET(request: NextRequest) {
     // Base query
     const whereClause: any = {};
     
-    // Add search filter if provided
+    // Add search filter if provided, matching aliases too ("JS" finds JavaScript)
     if (search) {
-      whereClause.name = {
-        contains: search,
-        mode: 'insensitive',
-      };
+      whereClause.OR = [
+        { name: { contains: search, mode: 'insensitive' } },
+        { aliases: { some: { name: { contains: search, mode: 'insensitive' } } } },
+      ];
     }
     
     // Get skills
@@ -35,8 +37,8 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST - create a new skill (used when there's no matching skill)
-export async function POST(request: NextRequest) {
+// POST - create a new skill (used when there's no matching skill); signed-in users only
+export const POST = withAuth({}, async (request) => {
   try {
     // Parse request body
     const body = await request.json();
@@ -45,30 +47,23 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Skill name is required' }, { status: 400 });
     }
     
-    // Check if skill already exists
-    const existingSkill = await prisma.skill.findFirst({
-      where: {
-        name: {
-          equals: body.name,
-          mode: 'insensitive',
-        },
-      },
-    });
+    // Return the existing skill for the name or one of its aliases
+    const existingSkill = await findSkill(body.name);
     
     if (existingSkill) {
       return NextResponse.json({ skill: existingSkill });
     }
     
     // Create new skill
-    const skill = await prisma.skill.create({
-      data: {
-        name: body.name,
-      },
-    });
+    const skill = await resolveSkill(body.name);
+    
+    if (!skill) {
+      return NextResponse.json({ error: 'Skill name is required' }, { status: 400 });
+    }
     
     return NextResponse.json({ skill }, { status: 201 });
   } catch (error) {
     console.error('Error creating skill:', error);
     return NextResponse.json({ error: 'Failed to create skill' }, { status: 500 });
   }
-} 
\ No newline at end of file
+});
@@ -0,0 +1,151 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { toast } from 'react-hot-toast';
+import { getDashboardPath } from '@/lib/auth/roles';
+import { ADMIN_ACTION_LABELS, ADMIN_ACTIONS, AdminAction } from '@/lib/admin/actions';
+
+type AuditEntry = {
+  id: string;
+  action: AdminAction;
+  targetType: string;
+  targetId: string;
+  details: Record<string, unknown> | null;
+  createdAt: string;
+  actor: {
+    name: string | null;
+    email: string;
+  } | null;
+};
+
+// The details of an entry as "key: value" pairs
+function formatDetails(details: AuditEntry['details']): string {
+  if (!details) return '';
+  return Object.entries(details)
+    .map(([key, value]) => `${key}: ${String(value)}`)
+    .join(' · ');
+}
+
+export default function AdminAuditPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [action, setAction] = useState('');
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login?callbackUrl=/dashboard/admin/audit');
+      return;
+    }
+
+    if (status === 'authenticated' && session?.user.role !== 'ADMIN') {
+      router.push(getDashboardPath(session.user.role));
+      return;
+    }
+
+    if (status === 'authenticated') {
+      fetchEntries();
+    }
+  }, [status, session, router, page, action]);
+
+  const fetchEntries = async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({ page: String(page) });
+      if (action) params.set('action', action);
+
+      const response = await fetch(`/api/admin/audit?${params}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch audit log');
+      }
+      const data = await response.json();
+      setEntries(data.entries || []);
+      setTotalPages(data.pagination?.totalPages || 1);
+    } catch (error) {
+      console.error('Error fetching audit log:', error);
+      toast.error('Failed to load audit log');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-semibold">Audit Log</h1>
+        <Link href="/dashboard/admin" className="text-sm text-blue-600 hover:text-blue-500">
+          Back to Admin Console
+        </Link>
+      </div>
+
+      <select
+        value={action}
+        onChange={(e) => {
+          setAction(e.target.value);
+          setPage(1);
+        }}
+        className="mb-6 rounded-md border border-gray-300 px-3 py-2 text-sm"
+      >
+        <option value="">All actions</option>
+        {ADMIN_ACTIONS.map((value) => (
+          <option key={value} value={value}>{ADMIN_ACTION_LABELS[value]}</option>
+        ))}
+      </select>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading audit log...</p>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-gray-500">No admin actions recorded</p>
+      ) : (
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">When</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Admin</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Action</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Details</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {entries.map((entry) => (
+              <tr key={entry.id}>
+                <td className="px-4 py-2 whitespace-nowrap">{new Date(entry.createdAt).toLocaleString()}</td>
+                <td className="px-4 py-2">{entry.actor ? entry.actor.name || entry.actor.email : 'Deleted user'}</td>
+                <td className="px-4 py-2">{ADMIN_ACTION_LABELS[entry.action] || entry.action}</td>
+                <td className="px-4 py-2 text-gray-500">
+                  {formatDetails(entry.details) || `${entry.targetType} ${entry.targetId}`}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex justify-between items-center mt-6 text-sm">
+          <button
+            onClick={() => setPage(page - 1)}
+            disabled={page <= 1}
+            className="px-3 py-1 rounded-md border border-gray-300 disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <span className="text-gray-500">Page {page} of {totalPages}</span>
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={page >= totalPages}
+            className="px-3 py-1 rounded-md border border-gray-300 disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
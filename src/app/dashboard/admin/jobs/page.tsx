@@ -0,0 +1,247 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { toast } from 'react-hot-toast';
+import { getDashboardPath } from '@/lib/auth/roles';
+
+type AdminJobPosting = {
+  id: string;
+  title: string;
+  company: string;
+  location: string | null;
+  isActive: boolean;
+  moderatedAt: string | null;
+  moderationReason: string | null;
+  createdAt: string;
+  recruiterProfile: {
+    user: {
+      name: string | null;
+      email: string;
+    };
+  };
+  _count: {
+    applications: number;
+  };
+};
+
+const STATUS_FILTERS = [
+  { value: '', label: 'All postings' },
+  { value: 'active', label: 'Active' },
+  { value: 'inactive', label: 'Inactive' },
+  { value: 'moderated', label: 'Deactivated by an admin' },
+];
+
+export default function AdminJobsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [jobs, setJobs] = useState<AdminJobPosting[]>([]);
+  const [search, setSearch] = useState('');
+  const [statusFilter, setStatusFilter] = useState('');
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login?callbackUrl=/dashboard/admin/jobs');
+      return;
+    }
+
+    if (status === 'authenticated' && session?.user.role !== 'ADMIN') {
+      router.push(getDashboardPath(session.user.role));
+      return;
+    }
+
+    if (status === 'authenticated') {
+      fetchJobs();
+    }
+  }, [status, session, router, page, statusFilter]);
+
+  const fetchJobs = async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({ page: String(page) });
+      if (search) params.set('search', search);
+      if (statusFilter) params.set('status', statusFilter);
+
+      const response = await fetch(`/api/admin/jobs?${params}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch job postings');
+      }
+      const data = await response.json();
+      setJobs(data.jobs || []);
+      setTotalPages(data.pagination?.totalPages || 1);
+    } catch (error) {
+      console.error('Error fetching job postings:', error);
+      toast.error('Failed to load job postings');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (page === 1) {
+      fetchJobs();
+    } else {
+      setPage(1);
+    }
+  };
+
+  const handleModeration = async (job: AdminJobPosting, isActive: boolean) => {
+    let reason: string | undefined;
+    if (!isActive) {
+      const answer = prompt(`Why are you deactivating "${job.title}"?`);
+      if (answer === null) return;
+      reason = answer.trim() || undefined;
+    } else if (!confirm(`Reactivate "${job.title}"?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/jobs/${job.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ isActive, reason }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(typeof data.error === 'string' ? data.error : 'Failed to update job posting');
+      }
+
+      const data = await response.json();
+      setJobs(prevJobs => prevJobs.map(j => (j.id === job.id ? { ...j, ...data.job } : j)));
+      toast.success(isActive ? 'Job posting reactivated' : 'Job posting deactivated');
+    } catch (error) {
+      console.error('Error moderating job posting:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update job posting');
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-semibold">Job Postings</h1>
+        <Link href="/dashboard/admin" className="text-sm text-blue-600 hover:text-blue-500">
+          Back to Admin Console
+        </Link>
+      </div>
+
+      <form onSubmit={handleSearch} className="flex flex-wrap gap-3 mb-6">
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search by title or company"
+          className="flex-1 min-w-[200px] rounded-md border border-gray-300 px-3 py-2 text-sm"
+        />
+        <select
+          value={statusFilter}
+          onChange={(e) => {
+            setStatusFilter(e.target.value);
+            setPage(1);
+          }}
+          className="rounded-md border border-gray-300 px-3 py-2 text-sm"
+        >
+          {STATUS_FILTERS.map((filter) => (
+            <option key={filter.value} value={filter.value}>{filter.label}</option>
+          ))}
+        </select>
+        <button type="submit" className="px-4 py-2 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-500">
+          Search
+        </button>
+      </form>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading job postings...</p>
+      ) : jobs.length === 0 ? (
+        <p className="text-sm text-gray-500">No job postings found</p>
+      ) : (
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Job</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Recruiter</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Applications</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Status</th>
+              <th className="px-4 py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {jobs.map((job) => (
+              <tr key={job.id}>
+                <td className="px-4 py-2">
+                  <Link href={`/jobs/${job.id}`} className="font-medium text-gray-900 hover:text-blue-600">
+                    {job.title}
+                  </Link>
+                  <div className="text-gray-500">
+                    {job.company}{job.location ? ` · ${job.location}` : ''} · {new Date(job.createdAt).toLocaleDateString()}
+                  </div>
+                </td>
+                <td className="px-4 py-2">
+                  <div>{job.recruiterProfile.user.name || 'No name'}</div>
+                  <div className="text-gray-500">{job.recruiterProfile.user.email}</div>
+                </td>
+                <td className="px-4 py-2">{job._count.applications}</td>
+                <td className="px-4 py-2">
+                  {job.moderatedAt ? (
+                    <span className="text-red-700" title={job.moderationReason || undefined}>
+                      Deactivated by an admin
+                    </span>
+                  ) : job.isActive ? (
+                    <span className="text-green-700">Active</span>
+                  ) : (
+                    <span className="text-gray-500">Inactive</span>
+                  )}
+                </td>
+                <td className="px-4 py-2 text-right">
+                  {job.isActive ? (
+                    <button
+                      onClick={() => handleModeration(job, false)}
+                      className="text-sm font-medium text-red-600 hover:text-red-500"
+                    >
+                      Deactivate
+                    </button>
+                  ) : job.moderatedAt ? (
+                    <button
+                      onClick={() => handleModeration(job, true)}
+                      className="text-sm font-medium text-blue-600 hover:text-blue-500"
+                    >
+                      Reactivate
+                    </button>
+                  ) : null}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex justify-between items-center mt-6 text-sm">
+          <button
+            onClick={() => setPage(page - 1)}
+            disabled={page <= 1}
+            className="px-3 py-1 rounded-md border border-gray-300 disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <span className="text-gray-500">Page {page} of {totalPages}</span>
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={page >= totalPages}
+            className="px-3 py-1 rounded-md border border-gray-300 disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { requireAdminRole } from '@/lib/auth/session';
+import { getSystemHealth } from '@/lib/admin/health';
+import Link from 'next/link';
+
+const SECTIONS = [
+  { href: '/dashboard/admin/users', title: 'Users', description: 'Search users and suspend or reinstate accounts.', action: 'Manage Users' },
+  { href: '/dashboard/admin/jobs', title: 'Job Postings', description: 'Deactivate abusive job postings.', action: 'Moderate Jobs' },
+  { href: '/dashboard/admin/skills', title: 'Skills', description: 'Merge duplicate skills and edit the skill graph.', action: 'Manage Skills' },
+  { href: '/dashboard/admin/audit', title: 'Audit Log', description: 'Review every action taken by admins.', action: 'View Audit Log' },
+];
+
+function formatWait(ms: number | null): string {
+  if (ms === null) return 'None waiting';
+  const minutes = Math.round(ms / 60000);
+  return minutes < 1 ? 'Under a minute' : `${minutes} min`;
+}
+
+export default async function AdminDashboard() {
+  await requireAdminRole();
+  const health = await getSystemHealth();
+
+  return (
+    <div>
+      <h1 className="text-2xl font-semibold mb-6">Admin Console</h1>
+
+      <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-4">
+        {SECTIONS.map((section) => (
+          <div key={section.href} className="bg-white overflow-hidden shadow rounded-lg">
+            <div className="px-4 py-5 sm:p-6">
+              <h3 className="text-lg font-medium leading-6 text-gray-900">{section.title}</h3>
+              <p className="mt-1 text-sm text-gray-500">{section.description}</p>
+              <div className="mt-4">
+                <Link
+                  href={section.href}
+                  className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-500"
+                >
+                  {section.action}
+                </Link>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <h2 className="text-xl font-semibold mt-10 mb-4">System Health</h2>
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        <div className="bg-white shadow rounded-lg p-6">
+          <h3 className="text-lg font-medium text-gray-900">Background Queue</h3>
+          <dl className="mt-4 grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <dt className="text-gray-500">Queued</dt>
+              <dd className="text-2xl font-semibold">{health.queue.counts.QUEUED}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Running</dt>
+              <dd className="text-2xl font-semibold">{health.queue.counts.RUNNING}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Failed</dt>
+              <dd className={`text-2xl font-semibold ${health.queue.counts.FAILED > 0 ? 'text-red-600' : ''}`}>
+                {health.queue.counts.FAILED}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Longest wait</dt>
+              <dd className="text-2xl font-semibold">{formatWait(health.queue.oldestDueWaitMs)}</dd>
+            </div>
+          </dl>
+          <h4 className="mt-6 text-sm font-medium text-gray-700">Recently failed jobs</h4>
+          {health.queue.failedJobs.length > 0 ? (
+            <ul className="mt-2 divide-y divide-gray-100 text-sm">
+              {health.queue.failedJobs.map((job) => (
+                <li key={job.id} className="py-2">
+                  <span className="font-medium">{job.type}</span>
+                  <span className="text-gray-500"> after {job.attempts} attempts</span>
+                  {job.finishedAt && <span className="text-gray-500"> · {job.finishedAt.toLocaleString()}</span>}
+                  {job.lastError && <p className="text-red-600 truncate">{job.lastError}</p>}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="mt-2 text-sm text-gray-500">No failed jobs</p>
+          )}
+        </div>
+
+        <div className="bg-white shadow rounded-lg p-6">
+          <h3 className="text-lg font-medium text-gray-900">LLM Provider</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            {health.llm.provider ? `Using ${health.llm.provider}` : 'No provider configured; resumes are analyzed by the rule-based parser'}
+          </p>
+          <dl className="mt-4 grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <dt className="text-gray-500">Failures, last 24 hours</dt>
+              <dd className={`text-2xl font-semibold ${health.llm.failuresLastDay > 0 ? 'text-red-600' : ''}`}>
+                {health.llm.failuresLastDay}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Failures, last 7 days</dt>
+              <dd className="text-2xl font-semibold">{health.llm.failuresLastWeek}</dd>
+            </div>
+          </dl>
+          <h4 className="mt-6 text-sm font-medium text-gray-700">Recent failures</h4>
+          {health.llm.recentFailures.length > 0 ? (
+            <ul className="mt-2 divide-y divide-gray-100 text-sm">
+              {health.llm.recentFailures.map((failure) => (
+                <li key={failure.id} className="py-2">
+                  <span className="font-medium">{failure.provider}</span>
+                  <span className="text-gray-500"> · {failure.operation} · {failure.createdAt.toLocaleString()}</span>
+                  <p className="text-red-600 truncate">{failure.message}</p>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="mt-2 text-sm text-gray-500">No failures recorded</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
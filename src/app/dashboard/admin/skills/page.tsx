@@ -0,0 +1,285 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { toast } from 'react-hot-toast';
+import { getDashboardPath } from '@/lib/auth/roles';
+
+type Skill = {
+  id: string;
+  name: string;
+};
+
+type SkillRelation = {
+  id: string;
+  type: 'PARENT' | 'RELATED';
+  fromSkill: Skill;
+  toSkill: Skill;
+};
+
+// Search box that picks one existing skill
+function SkillPicker({ label, value, onChange }: { label: string; value: Skill | null; onChange: (skill: Skill | null) => void }) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<Skill[]>([]);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/skills?search=${encodeURIComponent(query)}&limit=8`);
+        const data = await response.json();
+        setResults(data.skills || []);
+      } catch (error) {
+        console.error('Error searching skills:', error);
+      }
+    }, 250);
+
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  if (value) {
+    return (
+      <div>
+        <p className="text-sm text-gray-500 mb-1">{label}</p>
+        <div className="flex items-center gap-2">
+          <span className="px-2 py-1 bg-blue-100 text-blue-800 rounded-full text-sm">{value.name}</span>
+          <button type="button" onClick={() => onChange(null)} className="text-xs text-gray-500 hover:text-gray-700">
+            Change
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <p className="text-sm text-gray-500 mb-1">{label}</p>
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search skills"
+        className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+      />
+      {results.length > 0 && (
+        <ul className="mt-1 border border-gray-200 rounded-md divide-y divide-gray-100 text-sm">
+          {results.map((skill) => (
+            <li key={skill.id}>
+              <button
+                type="button"
+                onClick={() => {
+                  onChange(skill);
+                  setQuery('');
+                }}
+                className="w-full text-left px-3 py-1 hover:bg-gray-50"
+              >
+                {skill.name}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default function AdminSkillsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [source, setSource] = useState<Skill | null>(null);
+  const [target, setTarget] = useState<Skill | null>(null);
+  const [merging, setMerging] = useState(false);
+  const [relations, setRelations] = useState<SkillRelation[]>([]);
+  const [relationFrom, setRelationFrom] = useState<Skill | null>(null);
+  const [relationTo, setRelationTo] = useState<Skill | null>(null);
+  const [relationType, setRelationType] = useState<SkillRelation['type']>('PARENT');
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login?callbackUrl=/dashboard/admin/skills');
+      return;
+    }
+
+    if (status === 'authenticated' && session?.user.role !== 'ADMIN') {
+      router.push(getDashboardPath(session.user.role));
+      return;
+    }
+
+    if (status === 'authenticated') {
+      fetchRelations();
+    }
+  }, [status, session, router]);
+
+  const fetchRelations = async () => {
+    try {
+      const response = await fetch('/api/skills/relations');
+      if (!response.ok) {
+        throw new Error('Failed to fetch skill relations');
+      }
+      const data = await response.json();
+      setRelations(data.relations || []);
+    } catch (error) {
+      console.error('Error fetching skill relations:', error);
+      toast.error('Failed to load skill relations');
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!source || !target) return;
+    if (!confirm(`Merge "${source.name}" into "${target.name}"? "${source.name}" becomes an alias and cannot be restored.`)) {
+      return;
+    }
+
+    setMerging(true);
+    try {
+      const response = await fetch('/api/admin/skills/merge', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ sourceId: source.id, targetId: target.id }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(typeof data.error === 'string' ? data.error : 'Failed to merge skills');
+      }
+
+      toast.success(`Merged "${source.name}" into "${target.name}"`);
+      setSource(null);
+      setTarget(null);
+      fetchRelations();
+    } catch (error) {
+      console.error('Error merging skills:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to merge skills');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const handleAddRelation = async () => {
+    if (!relationFrom || !relationTo) return;
+
+    try {
+      const response = await fetch('/api/skills/relations', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ fromSkill: relationFrom.name, toSkill: relationTo.name, type: relationType }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(typeof data.error === 'string' ? data.error : 'Failed to add skill relation');
+      }
+
+      toast.success('Skill relation added');
+      setRelationFrom(null);
+      setRelationTo(null);
+      fetchRelations();
+    } catch (error) {
+      console.error('Error adding skill relation:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add skill relation');
+    }
+  };
+
+  const handleRemoveRelation = async (relation: SkillRelation) => {
+    try {
+      const response = await fetch(`/api/skills/relations/${relation.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error('Failed to remove skill relation');
+      }
+      setRelations(prevRelations => prevRelations.filter(r => r.id !== relation.id));
+    } catch (error) {
+      console.error('Error removing skill relation:', error);
+      toast.error('Failed to remove skill relation');
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-semibold">Skills</h1>
+        <Link href="/dashboard/admin" className="text-sm text-blue-600 hover:text-blue-500">
+          Back to Admin Console
+        </Link>
+      </div>
+
+      <section className="mb-10">
+        <h2 className="text-lg font-semibold mb-2">Merge Duplicate Skills</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Profiles, job postings and relations of the duplicate move to the skill you keep, and the duplicate&apos;s name becomes one of its aliases.
+        </p>
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <SkillPicker label="Duplicate to merge" value={source} onChange={setSource} />
+          <SkillPicker label="Skill to keep" value={target} onChange={setTarget} />
+        </div>
+        <button
+          onClick={handleMerge}
+          disabled={!source || !target || source.id === target.id || merging}
+          className="mt-4 px-4 py-2 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-500 disabled:opacity-50"
+        >
+          {merging ? 'Merging...' : 'Merge Skills'}
+        </button>
+      </section>
+
+      <section>
+        <h2 className="text-lg font-semibold mb-2">Skill Graph</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Candidates get partial credit for a job&apos;s skill when they have its parent, one of its children or a related skill.
+        </p>
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-3 items-start">
+          <SkillPicker label={relationType === 'PARENT' ? 'Parent (broader) skill' : 'Skill'} value={relationFrom} onChange={setRelationFrom} />
+          <div>
+            <p className="text-sm text-gray-500 mb-1">Relation</p>
+            <select
+              value={relationType}
+              onChange={(e) => setRelationType(e.target.value as SkillRelation['type'])}
+              className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+            >
+              <option value="PARENT">is the parent of</option>
+              <option value="RELATED">is related to</option>
+            </select>
+          </div>
+          <SkillPicker label={relationType === 'PARENT' ? 'Child (more specific) skill' : 'Related skill'} value={relationTo} onChange={setRelationTo} />
+        </div>
+        <button
+          onClick={handleAddRelation}
+          disabled={!relationFrom || !relationTo}
+          className="mt-4 px-4 py-2 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-500 disabled:opacity-50"
+        >
+          Add Relation
+        </button>
+
+        {relations.length > 0 ? (
+          <ul className="mt-6 divide-y divide-gray-200 text-sm">
+            {relations.map((relation) => (
+              <li key={relation.id} className="flex items-center justify-between py-2">
+                <span>
+                  <span className="font-medium">{relation.fromSkill.name}</span>
+                  <span className="text-gray-500">{relation.type === 'PARENT' ? ' is the parent of ' : ' is related to '}</span>
+                  <span className="font-medium">{relation.toSkill.name}</span>
+                </span>
+                <button
+                  onClick={() => handleRemoveRelation(relation)}
+                  className="text-sm font-medium text-red-600 hover:text-red-500"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="mt-6 text-sm text-gray-500">No skill relations yet</p>
+        )}
+      </section>
+    </div>
+  );
+}
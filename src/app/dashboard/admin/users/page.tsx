@@ -0,0 +1,228 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { toast } from 'react-hot-toast';
+import { getDashboardPath, USER_ROLE_LABELS, USER_ROLES, UserRole } from '@/lib/auth/roles';
+
+type AdminUser = {
+  id: string;
+  email: string;
+  name: string | null;
+  role: UserRole;
+  suspendedAt: string | null;
+  suspensionReason: string | null;
+  createdAt: string;
+};
+
+export default function AdminUsersPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [search, setSearch] = useState('');
+  const [role, setRole] = useState('');
+  const [suspendedOnly, setSuspendedOnly] = useState(false);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login?callbackUrl=/dashboard/admin/users');
+      return;
+    }
+
+    if (status === 'authenticated' && session?.user.role !== 'ADMIN') {
+      router.push(getDashboardPath(session.user.role));
+      return;
+    }
+
+    if (status === 'authenticated') {
+      fetchUsers();
+    }
+  }, [status, session, router, page, role, suspendedOnly]);
+
+  const fetchUsers = async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({ page: String(page) });
+      if (search) params.set('search', search);
+      if (role) params.set('role', role);
+      if (suspendedOnly) params.set('status', 'suspended');
+
+      const response = await fetch(`/api/admin/users?${params}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch users');
+      }
+      const data = await response.json();
+      setUsers(data.users || []);
+      setTotalPages(data.pagination?.totalPages || 1);
+    } catch (error) {
+      console.error('Error fetching users:', error);
+      toast.error('Failed to load users');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (page === 1) {
+      fetchUsers();
+    } else {
+      setPage(1);
+    }
+  };
+
+  const handleSuspension = async (user: AdminUser, suspended: boolean) => {
+    let reason: string | undefined;
+    if (suspended) {
+      const answer = prompt(`Why are you suspending ${user.email}?`);
+      if (answer === null) return;
+      reason = answer.trim() || undefined;
+    } else if (!confirm(`Reinstate ${user.email}?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/users/${user.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ suspended, reason }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(typeof data.error === 'string' ? data.error : 'Failed to update user');
+      }
+
+      const data = await response.json();
+      setUsers(prevUsers => prevUsers.map(u => (u.id === user.id ? { ...u, ...data.user } : u)));
+      toast.success(suspended ? 'User suspended' : 'User reinstated');
+    } catch (error) {
+      console.error('Error updating user:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update user');
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-semibold">Users</h1>
+        <Link href="/dashboard/admin" className="text-sm text-blue-600 hover:text-blue-500">
+          Back to Admin Console
+        </Link>
+      </div>
+
+      <form onSubmit={handleSearch} className="flex flex-wrap gap-3 mb-6">
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search by name or email"
+          className="flex-1 min-w-[200px] rounded-md border border-gray-300 px-3 py-2 text-sm"
+        />
+        <select
+          value={role}
+          onChange={(e) => {
+            setRole(e.target.value);
+            setPage(1);
+          }}
+          className="rounded-md border border-gray-300 px-3 py-2 text-sm"
+        >
+          <option value="">All roles</option>
+          {USER_ROLES.map((value) => (
+            <option key={value} value={value}>{USER_ROLE_LABELS[value]}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={suspendedOnly}
+            onChange={(e) => {
+              setSuspendedOnly(e.target.checked);
+              setPage(1);
+            }}
+          />
+          Suspended only
+        </label>
+        <button type="submit" className="px-4 py-2 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-500">
+          Search
+        </button>
+      </form>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading users...</p>
+      ) : users.length === 0 ? (
+        <p className="text-sm text-gray-500">No users found</p>
+      ) : (
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">User</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Role</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Joined</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">Status</th>
+              <th className="px-4 py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {users.map((user) => (
+              <tr key={user.id}>
+                <td className="px-4 py-2">
+                  <div className="font-medium text-gray-900">{user.name || 'No name'}</div>
+                  <div className="text-gray-500">{user.email}</div>
+                </td>
+                <td className="px-4 py-2">{USER_ROLE_LABELS[user.role] || user.role}</td>
+                <td className="px-4 py-2">{new Date(user.createdAt).toLocaleDateString()}</td>
+                <td className="px-4 py-2">
+                  {user.suspendedAt ? (
+                    <span className="text-red-700" title={user.suspensionReason || undefined}>
+                      Suspended {new Date(user.suspendedAt).toLocaleDateString()}
+                    </span>
+                  ) : (
+                    <span className="text-green-700">Active</span>
+                  )}
+                </td>
+                <td className="px-4 py-2 text-right">
+                  {user.id !== session?.user.id && (
+                    <button
+                      onClick={() => handleSuspension(user, !user.suspendedAt)}
+                      className={`text-sm font-medium ${user.suspendedAt ? 'text-blue-600 hover:text-blue-500' : 'text-red-600 hover:text-red-500'}`}
+                    >
+                      {user.suspendedAt ? 'Reinstate' : 'Suspend'}
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex justify-between items-center mt-6 text-sm">
+          <button
+            onClick={() => setPage(page - 1)}
+            disabled={page <= 1}
+            className="px-3 py-1 rounded-md border border-gray-300 disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <span className="text-gray-500">Page {page} of {totalPages}</span>
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={page >= totalPages}
+            className="px-3 py-1 rounded-md border border-gray-300 disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,12 +5,16 @@ import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
 import { toast } from 'react-hot-toast';
 import Link from 'next/link';
+import { ApplicationStatusBadge } from '@/components/applications/ApplicationStatusBadge';
+import { ApplicationTimeline } from '@/components/applications/ApplicationTimeline';
+import { APPLICATION_STATUSES, APPLICATION_STATUS_LABELS, canTransition } from '@/lib/applications/status';
 
 type Application = {
   id: string;
   status: string;
   matchScore: number;
   coverLetter: string | null;
+  feedback: string | null;
   createdAt: string;
   jobPosting: {
     id: string;
@@ -26,6 +30,7 @@ export default function JobSeekerApplicationsPage() {
   const [applications, setApplications] = useState<Application[]>([]);
   const [loading, setLoading] = useState(true);
   const [statusFilter, setStatusFilter] = useState('ALL');
+  const [expandedApplicationId, setExpandedApplicationId] = useState<string | null>(null);
 
   useEffect(() => {
     if (status === 'unauthenticated') {
@@ -135,46 +140,19 @@ export default function JobSeekerApplicationsPage() {
         >
           All ({applications.length})
         </button>
-        <button
-          onClick={() => setStatusFilter('PENDING')}
-          className={`px-3 py-1.5 rounded-md text-sm font-medium ${
-            statusFilter === 'PENDING' 
-              ? 'bg-yellow-500 text-white' 
-              : 'bg-yellow-100 text-yellow-800 hover:bg-yellow-200'
-          }`}
-        >
-          Pending ({getStatusCount('PENDING')})
-        </button>
-        <button
-          onClick={() => setStatusFilter('APPROVED')}
-          className={`px-3 py-1.5 rounded-md text-sm font-medium ${
-            statusFilter === 'APPROVED' 
-              ? 'bg-green-600 text-white' 
-              : 'bg-green-100 text-green-800 hover:bg-green-200'
-          }`}
-        >
-          Approved ({getStatusCount('APPROVED')})
-        </button>
-        <button
-          onClick={() => setStatusFilter('REJECTED')}
-          className={`px-3 py-1.5 rounded-md text-sm font-medium ${
-            statusFilter === 'REJECTED' 
-              ? 'bg-red-600 text-white' 
-              : 'bg-red-100 text-red-800 hover:bg-red-200'
-          }`}
-        >
-          Rejected ({getStatusCount('REJECTED')})
-        </button>
-        <button
-          onClick={() => setStatusFilter('WITHDRAWN')}
-          className={`px-3 py-1.5 rounded-md text-sm font-medium ${
-            statusFilter === 'WITHDRAWN' 
-              ? 'bg-gray-600 text-white' 
-              : 'bg-gray-100 text-gray-800 hover:bg-gray-200'
-          }`}
-        >
-          Withdrawn ({getStatusCount('WITHDRAWN')})
-        </button>
+        {APPLICATION_STATUSES.map((applicationStatus) => (
+          <button
+            key={applicationStatus}
+            onClick={() => setStatusFilter(applicationStatus)}
+            className={`px-3 py-1.5 rounded-md text-sm font-medium ${
+              statusFilter === applicationStatus 
+                ? 'bg-indigo-600 text-white' 
+                : 'bg-gray-100 text-gray-800 hover:bg-gray-200'
+            }`}
+          >
+            {APPLICATION_STATUS_LABELS[applicationStatus]} ({getStatusCount(applicationStatus)})
+          </button>
+        ))}
       </div>
 
       {loading ? (
@@ -209,13 +187,7 @@ export default function JobSeekerApplicationsPage() {
                   </p>
                 </div>
                 <div className="flex flex-col sm:flex-row items-start sm:items-center gap-3">
-                  <span className={`px-3 py-1 rounded-full text-xs font-medium 
-                    ${application.status === 'PENDING' ? 'bg-yellow-100 text-yellow-800' : 
-                    application.status === 'APPROVED' ? 'bg-green-100 text-green-800' : 
-                    application.status === 'REJECTED' ? 'bg-red-100 text-red-800' : 
-                    'bg-gray-100 text-gray-800'}`}>
-                    {application.status}
-                  </span>
+                  <ApplicationStatusBadge status={application.status} className="px-3 py-1 text-xs" />
                   {application.matchScore !== null && (
                     <span className="px-3 py-1 bg-indigo-100 text-indigo-800 rounded-full text-xs font-medium">
                       {Math.round(application.matchScore)}% Match
@@ -232,7 +204,16 @@ export default function JobSeekerApplicationsPage() {
                   View Job
                 </Link>
                 
-                {application.status === 'PENDING' && (
+                <button
+                  onClick={() => setExpandedApplicationId(
+                    expandedApplicationId === application.id ? null : application.id
+                  )}
+                  className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200"
+                >
+                  {expandedApplicationId === application.id ? 'Hide History' : 'History'}
+                </button>
+                
+                {canTransition('JOBSEEKER', application.status, 'WITHDRAWN') && (
                   <button
                     onClick={() => handleWithdrawApplication(application.id)}
                     className="px-3 py-1.5 text-sm bg-yellow-100 text-yellow-700 rounded-md hover:bg-yellow-200"
@@ -248,6 +229,18 @@ export default function JobSeekerApplicationsPage() {
                   Delete
                 </button>
               </div>
+              
+              {expandedApplicationId === application.id && (
+                <div className="mt-4 pt-4 border-t border-gray-200">
+                  {application.feedback && (
+                    <div className="mb-4">
+                      <p className="text-sm font-medium text-gray-900">Feedback from the recruiter</p>
+                      <p className="mt-1 text-sm text-gray-600 whitespace-pre-wrap">{application.feedback}</p>
+                    </div>
+                  )}
+                  <ApplicationTimeline applicationId={application.id} refreshKey={application.status} />
+                </div>
+              )}
             </div>
           ))}
         </div>
@@ -5,6 +5,7 @@ import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
 import { toast } from 'react-hot-toast';
 import Link from 'next/link';
+import { formatSalary, SalaryPeriod } from '@/lib/jobs/salary';
 
 type Job = {
   id: string;
@@ -12,18 +13,43 @@ type Job = {
   company: string;
   location: string | null;
   type: string;
-  salary: string | null;
+  salaryMin: number | null;
+  salaryMax: number | null;
+  currency: string;
+  period: SalaryPeriod;
+  salaryText: string | null;
   matchScore: number;
+  scoreBreakdown: {
+    skills: number;
+    experience: number;
+    education: number;
+    resume: number;
+  };
+  matchedSkills: string[];
+  missingSkills: string[];
   skills: Array<{ id: string; name: string }>;
   createdAt: string;
 };
 
+type Pagination = {
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+};
+
 export default function JobRecommendationsPage() {
   const { data: session, status } = useSession();
   const router = useRouter();
   const [recommendations, setRecommendations] = useState<Job[]>([]);
   const [loading, setLoading] = useState(true);
   const [hasResume, setHasResume] = useState(false);
+  const [pagination, setPagination] = useState<Pagination>({
+    total: 0,
+    page: 1,
+    limit: 10,
+    totalPages: 1,
+  });
 
   useEffect(() => {
     if (status === 'unauthenticated') {
@@ -35,7 +61,7 @@ export default function JobRecommendationsPage() {
     }
   }, [status, session, router]);
 
-  const fetchRecommendations = async () => {
+  const fetchRecommendations = async (page = 1) => {
     setLoading(true);
     try {
       // Check if the user has a resume uploaded
@@ -53,26 +79,16 @@ export default function JobRecommendationsPage() {
         return;
       }
       
-      // Fetch job recommendations - in a real app, this would be a separate API endpoint
-      // for demo purposes, we're using the regular job search API with some filters
-      const jobsResponse = await fetch('/api/jobs?limit=10');
-      if (!jobsResponse.ok) {
-        throw new Error('Failed to fetch jobs');
+      // Fetch ranked job recommendations for this profile
+      const recommendationsResponse = await fetch(`/api/recommendations?page=${page}&limit=10`);
+      if (!recommendationsResponse.ok) {
+        throw new Error('Failed to fetch recommendations');
       }
       
-      const jobsData = await jobsResponse.json();
+      const recommendationsData = await recommendationsResponse.json();
       
-      // Add mock match scores to jobs
-      // In a real application, this would be calculated by the backend
-      const jobsWithScores = jobsData.jobs.map((job: any) => ({
-        ...job,
-        matchScore: Math.floor(Math.random() * 100) // Mock score between 0-100
-      }));
-      
-      // Sort by match score (highest first)
-      const sortedJobs = jobsWithScores.sort((a: Job, b: Job) => b.matchScore - a.matchScore);
-      
-      setRecommendations(sortedJobs);
+      setRecommendations(recommendationsData.recommendations);
+      setPagination(recommendationsData.pagination);
       setLoading(false);
     } catch (error) {
       console.error('Error fetching job recommendations:', error);
@@ -145,7 +161,7 @@ export default function JobRecommendationsPage() {
                     {job.company} {job.location && `• ${job.location}`}
                   </p>
                   <p className="text-sm text-gray-500 mt-1">
-                    {job.type} {job.salary && `• ${job.salary}`}
+                    {job.type} {formatSalary(job) && `• ${formatSalary(job)}`}
                   </p>
                 </div>
                 <div className="text-center">
@@ -162,12 +178,20 @@ export default function JobRecommendationsPage() {
                   {job.skills?.map((skill) => (
                     <span 
                       key={skill.id} 
-                      className="px-2 py-1 bg-gray-100 text-gray-800 rounded-full text-xs"
+                      className={`px-2 py-1 rounded-full text-xs ${
+                        job.matchedSkills.includes(skill.name)
+                          ? 'bg-green-100 text-green-800'
+                          : 'bg-gray-100 text-gray-800'
+                      }`}
                     >
                       {skill.name}
                     </span>
                   ))}
                 </div>
+                <p className="text-xs text-gray-500 mt-2">
+                  Skills {job.scoreBreakdown.skills}/50 • Experience {job.scoreBreakdown.experience}/20 • 
+                  Education {job.scoreBreakdown.education}/10 • Resume {job.scoreBreakdown.resume}/20
+                </p>
               </div>
               
               <div className="mt-4 flex justify-between items-center">
@@ -185,6 +209,28 @@ export default function JobRecommendationsPage() {
           ))}
         </div>
       )}
+      
+      {pagination.totalPages > 1 && (
+        <div className="mt-6 flex justify-between items-center">
+          <button
+            onClick={() => fetchRecommendations(pagination.page - 1)}
+            disabled={pagination.page === 1}
+            className="px-3 py-1 rounded-md border border-gray-300 bg-white text-sm text-gray-700 hover:bg-gray-50 disabled:bg-gray-100 disabled:text-gray-400"
+          >
+            Previous
+          </button>
+          <span className="text-sm text-gray-500">
+            Page {pagination.page} of {pagination.totalPages}
+          </span>
+          <button
+            onClick={() => fetchRecommendations(pagination.page + 1)}
+            disabled={pagination.page === pagination.totalPages}
+            className="px-3 py-1 rounded-md border border-gray-300 bg-white text-sm text-gray-700 hover:bg-gray-50 disabled:bg-gray-100 disabled:text-gray-400"
+          >
+            Next
+          </button>
+        </div>
+      )}
     </div>
   );
 } 
\ No newline at end of file
@@ -1,16 +1,20 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { Fragment, useState, useEffect } from 'react';
 import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
 import { toast } from 'react-hot-toast';
 import Link from 'next/link';
+import { ApplicationStatusBadge } from '@/components/applications/ApplicationStatusBadge';
+import { ApplicationTimeline } from '@/components/applications/ApplicationTimeline';
+import { APPLICATION_STATUSES, APPLICATION_STATUS_LABELS, canTransition } from '@/lib/applications/status';
 
 type Application = {
   id: string;
   status: string;
   matchScore: number;
   coverLetter: string | null;
+  feedback: string | null;
   createdAt: string;
   jobPosting: {
     id: string;
@@ -26,6 +30,7 @@ export default function JobSeekerApplicationsPage() {
   const [applications, setApplications] = useState<Application[]>([]);
   const [loading, setLoading] = useState(true);
   const [statusFilter, setStatusFilter] = useState('ALL');
+  const [expandedApplicationId, setExpandedApplicationId] = useState<string | null>(null);
 
   useEffect(() => {
     if (status === 'unauthenticated') {
@@ -64,7 +69,7 @@ export default function JobSeekerApplicationsPage() {
   const handleWithdrawApplication = async (applicationId: string) => {
     try {
       const response = await fetch(`/api/applications/${applicationId}`, {
-        method: 'PUT',
+        method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
         },
@@ -132,56 +137,19 @@ export default function JobSeekerApplicationsPage() {
         >
           All ({getStatusCount('ALL')})
         </button>
-        <button
-          onClick={() => setStatusFilter('APPLIED')}
-          className={`px-4 py-2 rounded-md ${
-            statusFilter === 'APPLIED'
-              ? 'bg-blue-600 text-white'
-              : 'bg-gray-200 text-gray-800'
-          }`}
-        >
-          Applied ({getStatusCount('APPLIED')})
-        </button>
-        <button
-          onClick={() => setStatusFilter('REVIEWING')}
-          className={`px-4 py-2 rounded-md ${
-            statusFilter === 'REVIEWING'
-              ? 'bg-blue-600 text-white'
-              : 'bg-gray-200 text-gray-800'
-          }`}
-        >
-          Reviewing ({getStatusCount('REVIEWING')})
-        </button>
-        <button
-          onClick={() => setStatusFilter('INTERVIEWED')}
-          className={`px-4 py-2 rounded-md ${
-            statusFilter === 'INTERVIEWED'
-              ? 'bg-blue-600 text-white'
-              : 'bg-gray-200 text-gray-800'
-          }`}
-        >
-          Interviewed ({getStatusCount('INTERVIEWED')})
-        </button>
-        <button
-          onClick={() => setStatusFilter('OFFERED')}
-          className={`px-4 py-2 rounded-md ${
-            statusFilter === 'OFFERED'
-              ? 'bg-blue-600 text-white'
-              : 'bg-gray-200 text-gray-800'
-          }`}
-        >
-          Offered ({getStatusCount('OFFERED')})
-        </button>
-        <button
-          onClick={() => setStatusFilter('REJECTED')}
-          className={`px-4 py-2 rounded-md ${
-            statusFilter === 'REJECTED'
-              ? 'bg-blue-600 text-white'
-              : 'bg-gray-200 text-gray-800'
-          }`}
-        >
-          Rejected ({getStatusCount('REJECTED')})
-        </button>
+        {APPLICATION_STATUSES.map((applicationStatus) => (
+          <button
+            key={applicationStatus}
+            onClick={() => setStatusFilter(applicationStatus)}
+            className={`px-4 py-2 rounded-md ${
+              statusFilter === applicationStatus
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-200 text-gray-800'
+            }`}
+          >
+            {APPLICATION_STATUS_LABELS[applicationStatus]} ({getStatusCount(applicationStatus)})
+          </button>
+        ))}
       </div>
       
       {loading ? (
@@ -240,67 +208,72 @@ export default function JobSeekerApplicationsPage() {
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
               {applications.map((application) => (
-                <tr key={application.id}>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="text-sm font-medium text-gray-900">
-                      <Link
-                        href={`/jobs/${application.jobPosting.id}`}
-                        className="hover:text-blue-600"
-                      >
-                        {application.jobPosting.title}
-                      </Link>
-                    </div>
-                    <div className="text-sm text-gray-500">
-                      {application.jobPosting.company}
-                      {application.jobPosting.location && ` • ${application.jobPosting.location}`}
-                    </div>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                    {formatDate(application.createdAt)}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <span
-                      className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
-                        application.status === 'APPLIED'
-                          ? 'bg-blue-100 text-blue-800'
-                          : application.status === 'REVIEWING'
-                          ? 'bg-yellow-100 text-yellow-800'
-                          : application.status === 'INTERVIEWED'
-                          ? 'bg-purple-100 text-purple-800'
-                          : application.status === 'OFFERED'
-                          ? 'bg-green-100 text-green-800'
-                          : application.status === 'REJECTED'
-                          ? 'bg-red-100 text-red-800'
-                          : application.status === 'WITHDRAWN'
-                          ? 'bg-gray-100 text-gray-800'
-                          : 'bg-gray-100 text-gray-800'
-                      }`}
-                    >
-                      {application.status}
-                    </span>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                    {application.matchScore ? `${application.matchScore}%` : 'N/A'}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                    <div className="flex space-x-2">
-                      {application.status !== 'WITHDRAWN' && application.status !== 'REJECTED' && (
+                <Fragment key={application.id}>
+                  <tr>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">
+                        <Link
+                          href={`/jobs/${application.jobPosting.id}`}
+                          className="hover:text-blue-600"
+                        >
+                          {application.jobPosting.title}
+                        </Link>
+                      </div>
+                      <div className="text-sm text-gray-500">
+                        {application.jobPosting.company}
+                        {application.jobPosting.location && ` • ${application.jobPosting.location}`}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatDate(application.createdAt)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <ApplicationStatusBadge status={application.status} />
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {application.matchScore ? `${application.matchScore}%` : 'N/A'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <div className="flex space-x-2">
+                        <button
+                          onClick={() => setExpandedApplicationId(
+                            expandedApplicationId === application.id ? null : application.id
+                          )}
+                          className="text-gray-600 hover:text-gray-900"
+                        >
+                          {expandedApplicationId === application.id ? 'Hide History' : 'History'}
+                        </button>
+                        {canTransition('JOBSEEKER', application.status, 'WITHDRAWN') && (
+                          <button
+                            onClick={() => handleWithdrawApplication(application.id)}
+                            className="text-blue-600 hover:text-blue-900"
+                          >
+                            Withdraw
+                          </button>
+                        )}
                         <button
-                          onClick={() => handleWithdrawApplication(application.id)}
-                          className="text-blue-600 hover:text-blue-900"
+                          onClick={() => handleDeleteApplication(application.id)}
+                          className="text-red-600 hover:text-red-900"
                         >
-                          Withdraw
+                          Delete
                         </button>
-                      )}
-                      <button
-                        onClick={() => handleDeleteApplication(application.id)}
-                        className="text-red-600 hover:text-red-900"
-                      >
-                        Delete
-                      </button>
-                    </div>
-                  </td>
-                </tr>
+                      </div>
+                    </td>
+                  </tr>
+                  {expandedApplicationId === application.id && (
+                    <tr>
+                      <td colSpan={5} className="px-6 py-4 bg-gray-50">
+                        {application.feedback && (
+                          <div className="mb-4">
+                            <p className="text-sm font-medium text-gray-900">Feedback from the recruiter</p>
+                            <p className="mt-1 text-sm text-gray-600 whitespace-pre-wrap">{application.feedback}</p>
+                          </div>
+                        )}
+                        <ApplicationTimeline applicationId={application.id} refreshKey={application.status} />
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
               ))}
             </tbody>
           </table>
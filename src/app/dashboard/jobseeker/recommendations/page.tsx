@@ -5,6 +5,7 @@ import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
 import { toast } from 'react-hot-toast';
 import Link from 'next/link';
+import { formatSalary, SalaryPeriod } from '@/lib/jobs/salary';
 
 type Job = {
   id: string;
@@ -12,18 +13,43 @@ type Job = {
   company: string;
   location: string | null;
   type: string;
-  salary: string | null;
+  salaryMin: number | null;
+  salaryMax: number | null;
+  currency: string;
+  period: SalaryPeriod;
+  salaryText: string | null;
   matchScore: number;
+  scoreBreakdown: {
+    skills: number;
+    experience: number;
+    education: number;
+    resume: number;
+  };
+  matchedSkills: string[];
+  missingSkills: string[];
   skills: Array<{ id: string; name: string }>;
   createdAt: string;
 };
 
+type Pagination = {
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+};
+
 export default function JobRecommendationsPage() {
   const { data: session, status } = useSession();
   const router = useRouter();
   const [recommendations, setRecommendations] = useState<Job[]>([]);
   const [loading, setLoading] = useState(true);
   const [hasResume, setHasResume] = useState(false);
+  const [pagination, setPagination] = useState<Pagination>({
+    total: 0,
+    page: 1,
+    limit: 10,
+    totalPages: 1,
+  });
 
   useEffect(() => {
     if (status === 'unauthenticated') {
@@ -35,7 +61,7 @@ export default function JobRecommendationsPage() {
     }
   }, [status, session, router]);
 
-  const fetchRecommendations = async () => {
+  const fetchRecommendations = async (page = 1) => {
     setLoading(true);
     try {
       // Check if the user has a resume uploaded
@@ -53,26 +79,16 @@ export default function JobRecommendationsPage() {
         return;
       }
       
-      // Fetch job recommendations - in a real app, this would be a separate API endpoint
-      // for demo purposes, we're using the regular job search API with some filters
-      const jobsResponse = await fetch('/api/jobs?limit=10');
-      if (!jobsResponse.ok) {
-        throw new Error('Failed to fetch jobs');
+      // Fetch ranked job recommendations for this profile
+      const recommendationsResponse = await fetch(`/api/recommendations?page=${page}&limit=10`);
+      if (!recommendationsResponse.ok) {
+        throw new Error('Failed to fetch recommendations');
       }
       
-      const jobsData = await jobsResponse.json();
+      const recommendationsData = await recommendationsResponse.json();
       
-      // Add mock match scores to jobs
-      // In a real application, this would be calculated by the backend
-      const jobsWithScores = jobsData.jobs.map((job: any) => ({
-        ...job,
-        matchScore: Math.floor(Math.random() * 100) // Mock score between 0-100
-      }));
-      
-      // Sort by match score (highest first)
-      const sortedJobs = jobsWithScores.sort((a: Job, b: Job) => b.matchScore - a.matchScore);
-      
-      setRecommendations(sortedJobs);
+      setRecommendations(recommendationsData.recommendations);
+      setPagination(recommendationsData.pagination);
       setLoading(false);
     } catch (error) {
       console.error('Error fetching job recommendations:', error);
@@ -164,7 +180,7 @@ export default function JobRecommendationsPage() {
                   </div>
                   <div className="sm:col-span-1">
                     <dt className="text-sm font-medium text-gray-500">Salary</dt>
-                    <dd className="mt-1 text-sm text-gray-900">{job.salary || 'Not specified'}</dd>
+                    <dd className="mt-1 text-sm text-gray-900">{formatSalary(job) || 'Not specified'}</dd>
                   </div>
                   <div className="sm:col-span-3">
                     <dt className="text-sm font-medium text-gray-500">Skills Match</dt>
@@ -173,7 +189,11 @@ export default function JobRecommendationsPage() {
                         {job.skills && job.skills.map((skill) => (
                           <span
                             key={skill.id}
-                            className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800"
+                            className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                              job.matchedSkills.includes(skill.name)
+                                ? 'bg-green-100 text-green-800'
+                                : 'bg-gray-100 text-gray-600'
+                            }`}
                           >
                             {skill.name}
                           </span>
@@ -184,6 +204,17 @@ export default function JobRecommendationsPage() {
                       </div>
                     </dd>
                   </div>
+                  <div className="sm:col-span-3">
+                    <dt className="text-sm font-medium text-gray-500">Score Breakdown</dt>
+                    <dd className="mt-1 text-sm text-gray-900">
+                      <div className="flex flex-wrap gap-4">
+                        <span>Skills: {job.scoreBreakdown.skills}/50</span>
+                        <span>Experience: {job.scoreBreakdown.experience}/20</span>
+                        <span>Education: {job.scoreBreakdown.education}/10</span>
+                        <span>Resume: {job.scoreBreakdown.resume}/20</span>
+                      </div>
+                    </dd>
+                  </div>
                 </dl>
               </div>
               <div className="bg-gray-50 px-4 py-4 sm:px-6">
@@ -198,6 +229,28 @@ export default function JobRecommendationsPage() {
               </div>
             </div>
           ))}
+          
+          {pagination.totalPages > 1 && (
+            <div className="flex justify-between items-center">
+              <button
+                onClick={() => fetchRecommendations(pagination.page - 1)}
+                disabled={pagination.page === 1}
+                className="px-3 py-1 rounded-md border border-gray-300 bg-white text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:bg-gray-100 disabled:text-gray-400"
+              >
+                Previous
+              </button>
+              <span className="text-sm text-gray-500">
+                Page {pagination.page} of {pagination.totalPages}
+              </span>
+              <button
+                onClick={() => fetchRecommendations(pagination.page + 1)}
+                disabled={pagination.page === pagination.totalPages}
+                className="px-3 py-1 rounded-md border border-gray-300 bg-white text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:bg-gray-100 disabled:text-gray-400"
+              >
+                Next
+              </button>
+            </div>
+          )}
         </div>
       )}
     </div>
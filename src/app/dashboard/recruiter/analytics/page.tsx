@@ -8,39 +8,80 @@ import {
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer,
   PieChart, Pie, Cell, LineChart, Line
 } from 'recharts';
+import { ApplicationStatus, getStatusLabel } from '@/lib/applications/status';
 
 type JobStats = {
   id: string;
   title: string;
+  isActive: boolean;
+  openDays: number;
   views: number;
   applications: number;
-  matchScore: number;
-  openDays: number;
+  conversionRate: number;
+  averageMatchScore: number;
+  offers: number;
+  offerRate: number;
 };
 
 type ApplicationStatusData = {
   name: string;
+  status: ApplicationStatus;
   value: number;
 };
 
+type FunnelStage = {
+  name: string;
+  count: number;
+  rate: number;
+};
+
 type TimeSeriesData = {
   date: string;
   applications: number;
   views: number;
 };
 
+type AnalyticsSummary = {
+  totalJobs: number;
+  activeJobs: number;
+  totalViews: number;
+  totalApplications: number;
+  conversionRate: number;
+  averageMatchScore: number;
+  offers: number;
+  offerRate: number;
+};
+
+const EMPTY_SUMMARY: AnalyticsSummary = {
+  totalJobs: 0,
+  activeJobs: 0,
+  totalViews: 0,
+  totalApplications: 0,
+  conversionRate: 0,
+  averageMatchScore: 0,
+  offers: 0,
+  offerRate: 0,
+};
+
+const STATUS_CHART_COLORS: Record<ApplicationStatus, string> = {
+  APPLIED: '#3b82f6',
+  REVIEWING: '#facc15',
+  INTERVIEWED: '#a855f7',
+  OFFERED: '#22c55e',
+  REJECTED: '#ef4444',
+  WITHDRAWN: '#94a3b8',
+};
+
 export default function RecruiterAnalyticsDashboard() {
   const { data: session, status } = useSession();
   const router = useRouter();
   const [loading, setLoading] = useState(true);
   const [jobStats, setJobStats] = useState<JobStats[]>([]);
   const [statusData, setStatusData] = useState<ApplicationStatusData[]>([]);
+  const [funnelData, setFunnelData] = useState<FunnelStage[]>([]);
   const [timeSeriesData, setTimeSeriesData] = useState<TimeSeriesData[]>([]);
-  const [totalApplications, setTotalApplications] = useState(0);
-  const [totalViews, setTotalViews] = useState(0);
-  const [averageMatchScore, setAverageMatchScore] = useState(0);
-  const [conversionRate, setConversionRate] = useState(0);
-  const [selectedTimeRange, setSelectedTimeRange] = useState('30days');
+  const [summary, setSummary] = useState<AnalyticsSummary>(EMPTY_SUMMARY);
+  const [selectedTimeRange, setSelectedTimeRange] = useState('30');
 
   useEffect(() => {
     if (status === 'unauthenticated') {
@@ -55,62 +96,45 @@ export default function RecruiterAnalyticsDashboard() {
   const fetchAnalyticsData = async () => {
     setLoading(true);
     try {
-      // In a real implementation, this would fetch actual data from the API
-      // For this example, we'll use mock data
-      
-      // Generate mock job stats data
-      const mockJobStats: JobStats[] = [
-        { id: '1', title: 'Senior Full Stack Developer', views: 245, applications: 32, matchScore: 78, openDays: 14 },
-        { id: '2', title: 'UX/UI Designer', views: 189, applications: 25, matchScore: 82, openDays: 10 },
-        { id: '3', title: 'DevOps Engineer', views: 156, applications: 18, matchScore: 74, openDays: 21 },
-        { id: '4', title: 'Product Manager', views: 210, applications: 27, matchScore: 68, openDays: 17 },
-        { id: '5', title: 'Data Scientist', views: 178, applications: 22, matchScore: 85, openDays: 12 },
-      ];
-      setJobStats(mockJobStats);
-      
-      // Generate mock application status data
-      const mockStatusData: ApplicationStatusData[] = [
-        { name: 'Pending', value: 45 },
-        { name: 'Approved', value: 35 },
-        { name: 'Rejected', value: 20 },
-        { name: 'Withdrawn', value: 10 },
-      ];
-      setStatusData(mockStatusData);
-      
-      // Generate mock time series data
-      const now = new Date();
-      const mockTimeSeriesData: TimeSeriesData[] = [];
-      
-      // Number of days based on selected time range
-      const days = selectedTimeRange === '7days' ? 7 : 
-                  selectedTimeRange === '30days' ? 30 : 
-                  selectedTimeRange === '90days' ? 90 : 30;
-      
-      for (let i = days - 1; i >= 0; i--) {
-        const date = new Date(now);
-        date.setDate(date.getDate() - i);
-        
-        // Generate random data with some trend
-        const baseApplications = Math.round(Math.random() * 5) + 1;
-        const baseViews = baseApplications * (Math.round(Math.random() * 5) + 3);
-        
-        mockTimeSeriesData.push({
-          date: date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
-          applications: baseApplications,
-          views: baseViews,
-        });
-      }
-      setTimeSeriesData(mockTimeSeriesData);
-      
-      // Calculate summary metrics
-      const totalApps = mockJobStats.reduce((sum, job) => sum + job.applications, 0);
-      const totalJobViews = mockJobStats.reduce((sum, job) => sum + job.views, 0);
-      const avgScore = mockJobStats.reduce((sum, job) => sum + job.matchScore, 0) / mockJobStats.length;
-      
-      setTotalApplications(totalApps);
-      setTotalViews(totalJobViews);
-      setAverageMatchScore(Math.round(avgScore));
-      setConversionRate(Math.round((totalApps / totalJobViews) * 100));
+      const response = await fetch(`/api/analytics/recruiter?days=${selectedTimeRange}`);
+      if (!response.ok) throw new Error('Failed to fetch analytics data');
+
+      const data = await response.json();
+
+      setSummary(data.summary);
+      setJobStats(data.jobs);
+
+      // Leave empty statuses out of the pie chart
+      setStatusData(
+        data.statusDistribution
+          .filter((entry: { status: ApplicationStatus; count: number }) => entry.count > 0)
+          .map((entry: { status: ApplicationStatus; count: number }) => ({
+            name: getStatusLabel(entry.status),
+            status: entry.status,
+            value: entry.count,
+          }))
+      );
+
+      setFunnelData(
+        data.funnel.map((stage: { status: ApplicationStatus; count: number; rate: number }) => ({
+          name: getStatusLabel(stage.status),
+          count: stage.count,
+          rate: stage.rate,
+        }))
+      );
+
+      setTimeSeriesData(
+        data.activityPerDay.map((day: { date: string; applications: number; views: number }) => ({
+          // Dates are UTC calendar days
+          date: new Date(`${day.date}T00:00:00Z`).toLocaleDateString('en-US', {
+            month: 'short',
+            day: 'numeric',
+            timeZone: 'UTC',
+          }),
+          applications: day.applications,
+          views: day.views,
+        }))
+      );
 
       setLoading(false);
     } catch (error) {
@@ -120,10 +144,6 @@ export default function RecruiterAnalyticsDashboard() {
     }
   };
 
-  const COLORS = ['#facc15', '#22c55e', '#ef4444', '#94a3b8'];
-
-  const formatPercentage = (value: number) => `${value}%`;
-
   if (loading) {
     return (
       <div className="container mx-auto px-4 py-8">
@@ -148,30 +168,36 @@ export default function RecruiterAnalyticsDashboard() {
             onChange={(e) => setSelectedTimeRange(e.target.value)}
             className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
           >
-            <option value="7days">Last 7 Days</option>
-            <option value="30days">Last 30 Days</option>
-            <option value="90days">Last 90 Days</option>
+            <option value="7">Last 7 Days</option>
+            <option value="30">Last 30 Days</option>
+            <option value="90">Last 90 Days</option>
           </select>
         </div>
       </div>
 
       {/* Summary Metrics */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6 mb-8">
         <div className="bg-white p-6 rounded-lg shadow-sm">
           <p className="text-sm font-medium text-gray-500 mb-1">Total Applications</p>
-          <h3 className="text-3xl font-bold text-gray-900">{totalApplications}</h3>
+          <h3 className="text-3xl font-bold text-gray-900">{summary.totalApplications}</h3>
         </div>
         <div className="bg-white p-6 rounded-lg shadow-sm">
           <p className="text-sm font-medium text-gray-500 mb-1">Total Job Views</p>
-          <h3 className="text-3xl font-bold text-gray-900">{totalViews}</h3>
+          <h3 className="text-3xl font-bold text-gray-900">{summary.totalViews}</h3>
+          <p className="text-xs text-gray-500 mt-1">{summary.activeJobs} of {summary.totalJobs} jobs active</p>
+        </div>
+        <div className="bg-white p-6 rounded-lg shadow-sm">
+          <p className="text-sm font-medium text-gray-500 mb-1">View to Apply</p>
+          <h3 className="text-3xl font-bold text-gray-900">{summary.conversionRate}%</h3>
         </div>
         <div className="bg-white p-6 rounded-lg shadow-sm">
           <p className="text-sm font-medium text-gray-500 mb-1">Average Match Score</p>
-          <h3 className="text-3xl font-bold text-gray-900">{averageMatchScore}%</h3>
+          <h3 className="text-3xl font-bold text-gray-900">{summary.averageMatchScore}%</h3>
         </div>
         <div className="bg-white p-6 rounded-lg shadow-sm">
-          <p className="text-sm font-medium text-gray-500 mb-1">Conversion Rate</p>
-          <h3 className="text-3xl font-bold text-gray-900">{conversionRate}%</h3>
+          <p className="text-sm font-medium text-gray-500 mb-1">Applied to Offer</p>
+          <h3 className="text-3xl font-bold text-gray-900">{summary.offerRate}%</h3>
+          <p className="text-xs text-gray-500 mt-1">{summary.offers} offers made</p>
         </div>
       </div>
 
@@ -186,11 +212,11 @@ export default function RecruiterAnalyticsDashboard() {
             >
               <CartesianGrid strokeDasharray="3 3" />
               <XAxis dataKey="date" />
-              <YAxis />
+              <YAxis allowDecimals={false} />
               <Tooltip />
               <Legend />
-              <Line type="monotone" dataKey="applications" stroke="#4f46e5" activeDot={{ r: 8 }} />
-              <Line type="monotone" dataKey="views" stroke="#94a3b8" />
+              <Line type="monotone" dataKey="applications" name="Applications" stroke="#4f46e5" activeDot={{ r: 8 }} />
+              <Line type="monotone" dataKey="views" name="Views" stroke="#94a3b8" />
             </LineChart>
           </ResponsiveContainer>
         </div>
@@ -201,110 +227,159 @@ export default function RecruiterAnalyticsDashboard() {
         <div className="bg-white p-6 rounded-lg shadow-sm">
           <h2 className="text-xl font-semibold mb-4">Application Status</h2>
           <div className="h-64">
-            <ResponsiveContainer width="100%" height="100%">
-              <PieChart>
-                <Pie
-                  data={statusData}
-                  cx="50%"
-                  cy="50%"
-                  labelLine={false}
-                  outerRadius={80}
-                  fill="#8884d8"
-                  dataKey="value"
-                  label={({ name, percent }) => `${name}: ${(percent * 100).toFixed(0)}%`}
-                >
-                  {statusData.map((entry, index) => (
-                    <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                  ))}
-                </Pie>
-                <Tooltip formatter={(value) => [`${value}`, 'Applications']} />
-              </PieChart>
-            </ResponsiveContainer>
+            {statusData.length === 0 ? (
+              <div className="h-full flex items-center justify-center text-sm text-gray-500">
+                No applications in this period.
+              </div>
+            ) : (
+              <ResponsiveContainer width="100%" height="100%">
+                <PieChart>
+                  <Pie
+                    data={statusData}
+                    cx="50%"
+                    cy="50%"
+                    labelLine={false}
+                    outerRadius={80}
+                    fill="#8884d8"
+                    dataKey="value"
+                    label={({ name, percent }) => `${name}: ${(percent * 100).toFixed(0)}%`}
+                  >
+                    {statusData.map((entry) => (
+                      <Cell key={`cell-${entry.status}`} fill={STATUS_CHART_COLORS[entry.status]} />
+                    ))}
+                  </Pie>
+                  <Tooltip formatter={(value) => [`${value}`, 'Applications']} />
+                </PieChart>
+              </ResponsiveContainer>
+            )}
           </div>
         </div>
 
-        {/* Job Performance */}
+        {/* Hiring Funnel */}
         <div className="bg-white p-6 rounded-lg shadow-sm">
-          <h2 className="text-xl font-semibold mb-4">Job Performance</h2>
+          <h2 className="text-xl font-semibold mb-4">Hiring Funnel</h2>
           <div className="h-64">
             <ResponsiveContainer width="100%" height="100%">
               <BarChart
-                data={jobStats}
+                data={funnelData}
                 margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
                 layout="vertical"
               >
                 <CartesianGrid strokeDasharray="3 3" />
-                <XAxis type="number" />
-                <YAxis 
-                  type="category" 
-                  dataKey="title" 
-                  width={150}
+                <XAxis type="number" allowDecimals={false} />
+                <YAxis
+                  type="category"
+                  dataKey="name"
+                  width={100}
                   tick={{ fontSize: 12 }}
                 />
-                <Tooltip />
-                <Legend />
-                <Bar dataKey="applications" fill="#4f46e5" name="Applications" />
-                <Bar dataKey="views" fill="#94a3b8" name="Views" />
+                <Tooltip formatter={(value, name, item) => [`${value} (${item.payload.rate}%)`, 'Applications']} />
+                <Bar dataKey="count" fill="#4f46e5" name="Applications" />
               </BarChart>
             </ResponsiveContainer>
           </div>
         </div>
       </div>
 
+      {/* Job Performance */}
+      <div className="bg-white p-6 rounded-lg shadow-sm mb-8">
+        <h2 className="text-xl font-semibold mb-4">Job Performance</h2>
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart
+              data={jobStats}
+              margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+              layout="vertical"
+            >
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis type="number" allowDecimals={false} />
+              <YAxis 
+                type="category" 
+                dataKey="title" 
+                width={150}
+                tick={{ fontSize: 12 }}
+              />
+              <Tooltip />
+              <Legend />
+              <Bar dataKey="views" fill="#94a3b8" name="Views" />
+              <Bar dataKey="applications" fill="#4f46e5" name="Applications" />
+              <Bar dataKey="offers" fill="#22c55e" name="Offers" />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
       {/* Job Details Table */}
       <div className="bg-white p-6 rounded-lg shadow-sm">
         <h2 className="text-xl font-semibold mb-4">Job Details</h2>
-        <div className="overflow-x-auto">
-          <table className="min-w-full divide-y divide-gray-200">
-            <thead className="bg-gray-50">
-              <tr>
-                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Job Title
-                </th>
-                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Views
-                </th>
-                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Applications
-                </th>
-                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Avg. Match Score
-                </th>
-                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Days Open
-                </th>
-                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Conversion Rate
-                </th>
-              </tr>
-            </thead>
-            <tbody className="bg-white divide-y divide-gray-200">
-              {jobStats.map((job) => (
-                <tr key={job.id}>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                    {job.title}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                    {job.views}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                    {job.applications}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                    {job.matchScore}%
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                    {job.openDays}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                    {Math.round((job.applications / job.views) * 100)}%
-                  </td>
+        {jobStats.length === 0 ? (
+          <p className="text-sm text-gray-500">You haven&apos;t posted any jobs yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Job Title
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Views
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Applications
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Conversion Rate
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Avg. Match Score
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Days Open
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Offers
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Offer Rate
+                  </th>
                 </tr>
-              ))}
-            </tbody>
-          </table>
-        </div>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {jobStats.map((job) => (
+                  <tr key={job.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {job.title}
+                      {!job.isActive && <span className="ml-2 text-xs text-gray-500">(Closed)</span>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {job.views}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {job.applications}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {job.views > 0 ? `${job.conversionRate}%` : '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {job.applications > 0 ? `${job.averageMatchScore}%` : '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {job.openDays}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {job.offers}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {job.applications > 0 ? `${job.offerRate}%` : '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
       </div>
     </div>
   );
-} 
\ No newline at end of file
+}
@@ -4,12 +4,18 @@ import { useState, useEffect } from 'react';
 import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
 import { toast } from 'react-hot-toast';
+import { ApplicationStatusBadge } from '@/components/applications/ApplicationStatusBadge';
+import { ApplicationTimeline } from '@/components/applications/ApplicationTimeline';
+import { APPLICATION_STATUS_ACTIONS, getAllowedTransitions, getStatusLabel } from '@/lib/applications/status';
+import { RESUME_EXTRACTION_FAILURE_LABELS, ResumeExtractionFailure } from '@/lib/resume/provenance';
+import { RelatedSkillMatch, SKILL_RELATION_KIND_LABELS, SkillMatch } from '@/lib/skills/match';
 
 type Application = {
   id: string;
   status: string;
   matchScore: number;
   coverLetter: string | null;
+  feedback: string | null;
   createdAt: string;
   jobPosting: {
     id: string;
@@ -21,6 +27,7 @@ type Application = {
   };
   jobSeekerProfile: {
     id: string;
+    resumeKey: string | null;
     user: {
       name: string | null;
       email: string;
@@ -33,9 +40,12 @@ type Application = {
       education: string | null;
       experience: string | null;
       rawText: string | null;
+      extractionFailure: ResumeExtractionFailure | null;
     } | null;
     skills: Array<{ id: string; name: string }>;
   };
+  // Null when the job posting asks for no skills
+  skillMatch: SkillMatch | null;
 };
 
 export default function ApplicationDetailPage({ params }: { params: { id: string } }) {
@@ -45,7 +55,11 @@ export default function ApplicationDetailPage({ params }: { params: { id: string
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [matchingSkills, setMatchingSkills] = useState<string[]>([]);
+  const [relatedSkills, setRelatedSkills] = useState<RelatedSkillMatch[]>([]);
   const [missingSkills, setMissingSkills] = useState<string[]>([]);
+  const [feedbackDraft, setFeedbackDraft] = useState('');
+  const [savingFeedback, setSavingFeedback] = useState(false);
+  const [historyVersion, setHistoryVersion] = useState(0);
 
   useEffect(() => {
     if (status === 'unauthenticated') {
@@ -97,40 +111,13 @@ export default function ApplicationDetailPage({ params }: { params: { id: string
       }
       
       setApplication(data.application);
+      setFeedbackDraft(data.application.feedback || '');
       
-      // Safety checks before calculating matching and missing skills
-      const hasResumeSkills = data.application.jobSeekerProfile?.skills && 
-                             Array.isArray(data.application.jobSeekerProfile.skills);
-      
-      const hasJobSkills = data.application.jobPosting?.requiredSkills && 
-                           Array.isArray(data.application.jobPosting.requiredSkills);
-      
-      // Calculate matching and missing skills if we have both sets of skills
-      if (hasResumeSkills && hasJobSkills) {
-        try {
-          const requiredSkillNames = data.application.jobPosting.requiredSkills.map(
-            (skill: { name: string }) => (skill?.name || '').toLowerCase()
-          ).filter(Boolean);
-          
-          const applicantSkillNames = data.application.jobSeekerProfile.skills.map(
-            (skill: { name: string }) => (skill?.name || '').toLowerCase()
-          ).filter(Boolean);
-          
-          const matching = requiredSkillNames.filter((skill: string) => 
-            applicantSkillNames.includes(skill)
-          );
-          
-          const missing = requiredSkillNames.filter((skill: string) => 
-            !applicantSkillNames.includes(skill)
-          );
-          
-          setMatchingSkills(matching);
-          setMissingSkills(missing);
-        } catch (skillError) {
-          console.error('Error calculating skills match:', skillError);
-          // Don't fail the entire page load if skill calculation fails
-        }
-      }
+      // Skills matched directly, through a related skill, or missing, as the server scored them
+      const skillMatch: SkillMatch | null = data.application.skillMatch ?? null;
+      setMatchingSkills(skillMatch?.matchedSkills ?? []);
+      setRelatedSkills(skillMatch?.relatedSkills ?? []);
+      setMissingSkills(skillMatch?.missingSkills ?? []);
     } catch (error) {
       console.error('Error fetching application:', error);
       toast.error(error instanceof Error ? error.message : 'Failed to load application details');
@@ -149,15 +136,46 @@ export default function ApplicationDetailPage({ params }: { params: { id: string
         body: JSON.stringify({ status: newStatus }),
       });
 
-      if (!response.ok) throw new Error('Failed to update application status');
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to update application status');
+      }
       
-      const data = await response.json();
       setApplication(prev => prev ? { ...prev, status: newStatus } : null);
+      setHistoryVersion(version => version + 1);
       
-      toast.success(`Application ${newStatus.toLowerCase()}`);
+      toast.success(`Application moved to ${getStatusLabel(newStatus)}`);
     } catch (error) {
       console.error('Error updating application:', error);
-      toast.error('Failed to update application status');
+      toast.error(error instanceof Error ? error.message : 'Failed to update application status');
+    }
+  };
+
+  const handleSaveFeedback = async () => {
+    setSavingFeedback(true);
+    try {
+      const response = await fetch(`/api/applications/${params.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ feedback: feedbackDraft }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to save feedback');
+      }
+      
+      setApplication(prev => prev ? { ...prev, feedback: feedbackDraft || null } : null);
+      setHistoryVersion(version => version + 1);
+      
+      toast.success('Feedback saved');
+    } catch (error) {
+      console.error('Error saving feedback:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save feedback');
+    } finally {
+      setSavingFeedback(false);
     }
   };
 
@@ -222,13 +240,7 @@ export default function ApplicationDetailPage({ params }: { params: { id: string
               <p className="text-gray-600">{application.jobPosting.company}</p>
             </div>
             <div>
-              <span className={`px-3 py-1 rounded-full text-sm font-medium 
-                ${application.status === 'PENDING' ? 'bg-yellow-100 text-yellow-800' : 
-                application.status === 'APPROVED' ? 'bg-green-100 text-green-800' : 
-                application.status === 'REJECTED' ? 'bg-red-100 text-red-800' : 
-                'bg-gray-100 text-gray-800'}`}>
-                {application.status}
-              </span>
+              <ApplicationStatusBadge status={application.status} className="px-3 py-1 text-sm" />
             </div>
           </div>
           <p className="mt-2 text-sm text-gray-500">
@@ -267,6 +279,18 @@ export default function ApplicationDetailPage({ params }: { params: { id: string
                   <p className="font-medium">{application.jobSeekerProfile.parsedResume.education}</p>
                 </div>
               )}
+              {application.jobSeekerProfile.resumeKey && (
+                <div>
+                  <a
+                    href={`/api/resume/download?profileId=${application.jobSeekerProfile.id}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-sm font-medium text-indigo-600 hover:text-indigo-800"
+                  >
+                    Download Resume
+                  </a>
+                </div>
+              )}
             </div>
 
             <div className="mt-6">
@@ -301,6 +325,23 @@ export default function ApplicationDetailPage({ params }: { params: { id: string
                 </div>
               </div>
               
+              {relatedSkills.length > 0 && (
+                <div>
+                  <p className="text-sm text-gray-500 mb-2">Matched Through Related Skills ({relatedSkills.length})</p>
+                  <div className="flex flex-wrap gap-2">
+                    {relatedSkills.map((match) => (
+                      <span
+                        key={match.skill}
+                        className="px-2 py-1 bg-yellow-100 text-yellow-800 rounded-full text-xs"
+                        title={`The applicant has ${match.via}, a ${SKILL_RELATION_KIND_LABELS[match.relation]} of ${match.skill}`}
+                      >
+                        {match.skill} via {match.via} ({SKILL_RELATION_KIND_LABELS[match.relation]})
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
+              
               <div>
                 <p className="text-sm text-gray-500 mb-2">Missing Skills ({missingSkills.length})</p>
                 <div className="flex flex-wrap gap-2">
@@ -362,41 +403,61 @@ export default function ApplicationDetailPage({ params }: { params: { id: string
           </div>
         )}
 
-        {application.status === 'PENDING' && (
-          <div className="p-6 border-t bg-gray-50">
-            <h3 className="text-lg font-semibold mb-4">Decision</h3>
-            <div className="flex space-x-4">
-              <button
-                onClick={() => handleStatusChange('APPROVED')}
-                className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500"
-              >
-                Approve Application
-              </button>
-              <button
-                onClick={() => handleStatusChange('REJECTED')}
-                className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500"
-              >
-                Reject Application
-              </button>
-            </div>
+        {application.jobSeekerProfile.parsedResume?.extractionFailure && (
+          <div className="p-6 border-t">
+            <h3 className="text-lg font-semibold mb-3">Resume Full Text</h3>
+            <p className="text-sm text-gray-600">
+              The resume text could not be extracted ({RESUME_EXTRACTION_FAILURE_LABELS[application.jobSeekerProfile.parsedResume.extractionFailure].toLowerCase()}).
+              Download the original file to read it.
+            </p>
           </div>
         )}
-        
-        {application.status === 'APPROVED' && (
+
+        <div className="p-6 border-t">
+          <h3 className="text-lg font-semibold mb-3">Feedback for Candidate</h3>
+          <textarea
+            value={feedbackDraft}
+            onChange={(e) => setFeedbackDraft(e.target.value)}
+            rows={4}
+            placeholder="Share feedback the candidate will see with their application"
+            className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+          />
+          <div className="mt-3 flex justify-end">
+            <button
+              onClick={handleSaveFeedback}
+              disabled={savingFeedback || feedbackDraft === (application.feedback || '')}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {savingFeedback ? 'Saving...' : 'Save Feedback'}
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 border-t">
+          <h3 className="text-lg font-semibold mb-4">History</h3>
+          <ApplicationTimeline applicationId={application.id} refreshKey={historyVersion} />
+        </div>
+
+        {getAllowedTransitions('RECRUITER', application.status).length > 0 && (
           <div className="p-6 border-t bg-gray-50">
             <h3 className="text-lg font-semibold mb-4">Next Steps</h3>
             <div className="flex space-x-4">
-              <button
-                onClick={() => handleStatusChange('SELECTED_FOR_INTERVIEW')}
-                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
-              >
-                Select for Interview
-              </button>
+              {getAllowedTransitions('RECRUITER', application.status).map((nextStatus) => (
+                <button
+                  key={nextStatus}
+                  onClick={() => handleStatusChange(nextStatus)}
+                  className={nextStatus === 'REJECTED'
+                    ? 'px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500'
+                    : 'px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500'}
+                >
+                  {APPLICATION_STATUS_ACTIONS[nextStatus]}
+                </button>
+              ))}
             </div>
           </div>
         )}
         
-        {application.status === 'SELECTED_FOR_INTERVIEW' && (
+        {application.status === 'OFFERED' && (
           <div className="p-6 border-t bg-green-50">
             <div className="flex items-center">
               <div className="rounded-full bg-green-100 p-2 mr-3">
@@ -405,7 +466,7 @@ export default function ApplicationDetailPage({ params }: { params: { id: string
                 </svg>
               </div>
               <p className="text-green-800 font-medium">
-                Selected for Interview! You can contact the candidate to schedule.
+                Offer extended! You can contact the candidate to discuss next steps.
               </p>
             </div>
           </div>
@@ -4,6 +4,8 @@ import { useState, useEffect } from 'react';
 import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
 import { toast } from 'react-hot-toast';
+import { ApplicationStatusBadge } from '@/components/applications/ApplicationStatusBadge';
+import { APPLICATION_STATUS_ACTIONS, getAllowedTransitions, getStatusLabel } from '@/lib/applications/status';
 
 type Application = {
   id: string;
@@ -94,17 +96,20 @@ export default function RecruiterApplicationsPage() {
         body: JSON.stringify({ status: newStatus }),
       });
 
-      if (!response.ok) throw new Error('Failed to update application status');
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to update application status');
+      }
       
       // Update local state
       setApplications(applications.map(app => 
         app.id === applicationId ? { ...app, status: newStatus } : app
       ));
       
-      toast.success(`Application ${newStatus.toLowerCase()}`);
+      toast.success(`Application moved to ${getStatusLabel(newStatus)}`);
     } catch (error) {
       console.error('Error updating application:', error);
-      toast.error('Failed to update application status');
+      toast.error(error instanceof Error ? error.message : 'Failed to update application status');
     }
   };
 
@@ -193,13 +198,7 @@ export default function RecruiterApplicationsPage() {
                     </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full 
-                      ${application.status === 'PENDING' ? 'bg-yellow-100 text-yellow-800' : 
-                      application.status === 'APPROVED' ? 'bg-green-100 text-green-800' : 
-                      application.status === 'REJECTED' ? 'bg-red-100 text-red-800' : 
-                      'bg-gray-100 text-gray-800'}`}>
-                      {application.status}
-                    </span>
+                    <ApplicationStatusBadge status={application.status} />
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                     <div className="flex space-x-2">
@@ -209,22 +208,17 @@ export default function RecruiterApplicationsPage() {
                       >
                         View
                       </button>
-                      {application.status === 'PENDING' && (
-                        <>
-                          <button
-                            onClick={() => handleStatusChange(application.id, 'APPROVED')}
-                            className="text-green-600 hover:text-green-900"
-                          >
-                            Approve
-                          </button>
-                          <button
-                            onClick={() => handleStatusChange(application.id, 'REJECTED')}
-                            className="text-red-600 hover:text-red-900"
-                          >
-                            Reject
-                          </button>
-                        </>
-                      )}
+                      {getAllowedTransitions('RECRUITER', application.status).map((nextStatus) => (
+                        <button
+                          key={nextStatus}
+                          onClick={() => handleStatusChange(application.id, nextStatus)}
+                          className={nextStatus === 'REJECTED'
+                            ? 'text-red-600 hover:text-red-900'
+                            : 'text-green-600 hover:text-green-900'}
+                        >
+                          {APPLICATION_STATUS_ACTIONS[nextStatus]}
+                        </button>
+                      ))}
                     </div>
                   </td>
                 </tr>
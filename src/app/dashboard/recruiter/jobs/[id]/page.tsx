@@ -5,6 +5,7 @@ import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { toast } from 'react-hot-toast';
+import { formatSalary, SalaryPeriod } from '@/lib/jobs/salary';
 
 type JobPosting = {
   id: string;
@@ -14,7 +15,11 @@ type JobPosting = {
   description: string;
   createdAt: string;
   status: string;
-  salary: string;
+  salaryMin: number | null;
+  salaryMax: number | null;
+  currency: string;
+  period: SalaryPeriod;
+  salaryText: string | null;
   skills: { name: string }[];
   requirements: string;
   responsibilities: string;
@@ -136,7 +141,7 @@ export default function JobDetails({ params }: { params: { id: string } }) {
               {job.location}
             </span>
             <span className="inline-flex items-center px-3 py-0.5 rounded-full text-sm font-medium bg-green-100 text-green-800">
-              {job.salary}
+              {formatSalary(job) || 'Salary not specified'}
             </span>
           </div>
           <div className="flex items-center">
@@ -8,6 +8,14 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import toast from 'react-hot-toast';
 import CreatableSelect from 'react-select/creatable';
+import {
+  DEFAULT_SALARY_CURRENCY,
+  DEFAULT_SALARY_PERIOD,
+  isValidSalaryRange,
+  SALARY_CURRENCIES,
+  SALARY_PERIOD_LABELS,
+  SALARY_PERIODS,
+} from '@/lib/jobs/salary';
 
 const jobTypes = [
   'Full-time',
@@ -27,13 +35,22 @@ const jobFormSchema = z.object({
   type: z.string(),
   description: z.string().min(20, 'Description must be at least 20 characters'),
   requirements: z.string().optional(),
-  salary: z.string().optional(),
+  salaryMin: z.number().int('Enter a whole amount').nonnegative('Salary cannot be negative').optional(),
+  salaryMax: z.number().int('Enter a whole amount').nonnegative('Salary cannot be negative').optional(),
+  currency: z.string(),
+  period: z.enum(SALARY_PERIODS),
   skills: z.array(z.object({
     label: z.string(),
     value: z.string(),
   })).optional(),
+}).refine(data => isValidSalaryRange(data.salaryMin, data.salaryMax), {
+  message: 'Minimum salary cannot be higher than the maximum salary',
+  path: ['salaryMax'],
 });
 
+// Empty number inputs are left out instead of being sent as NaN
+const toOptionalNumber = (value: string) => (value === '' ? undefined : Number(value));
+
 type JobFormData = z.infer<typeof jobFormSchema>;
 
 export default function NewJobPage() {
@@ -85,7 +102,8 @@ export default function NewJobPage() {
       type: 'Full-time',
       description: '',
       requirements: '',
-      salary: '',
+      currency: DEFAULT_SALARY_CURRENCY,
+      period: DEFAULT_SALARY_PERIOD,
       skills: [],
     },
   });
@@ -209,18 +227,56 @@ export default function NewJobPage() {
           </div>
           
           <div>
-            <label htmlFor="salary" className="block text-sm font-medium text-gray-700">
+            <label htmlFor="salaryMin" className="block text-sm font-medium text-gray-700">
               Salary Range
             </label>
-            <input
-              type="text"
-              id="salary"
-              {...register('salary')}
-              placeholder="e.g. $50,000 - $70,000"
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
-            />
-            {errors.salary && (
-              <p className="mt-1 text-sm text-red-600">{errors.salary.message}</p>
+            <div className="mt-1 flex gap-2">
+              <input
+                type="number"
+                id="salaryMin"
+                min="0"
+                {...register('salaryMin', { setValueAs: toOptionalNumber })}
+                placeholder="Min"
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+              <input
+                type="number"
+                id="salaryMax"
+                min="0"
+                {...register('salaryMax', { setValueAs: toOptionalNumber })}
+                placeholder="Max"
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+            <div className="mt-2 flex gap-2">
+              <select
+                id="currency"
+                {...register('currency')}
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              >
+                {SALARY_CURRENCIES.map((currency) => (
+                  <option key={currency} value={currency}>
+                    {currency}
+                  </option>
+                ))}
+              </select>
+              <select
+                id="period"
+                {...register('period')}
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              >
+                {SALARY_PERIODS.map((period) => (
+                  <option key={period} value={period}>
+                    {SALARY_PERIOD_LABELS[period]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {errors.salaryMin && (
+              <p className="mt-1 text-sm text-red-600">{errors.salaryMin.message}</p>
+            )}
+            {errors.salaryMax && (
+              <p className="mt-1 text-sm text-red-600">{errors.salaryMax.message}</p>
             )}
           </div>
           
@@ -15,6 +15,8 @@ type JobPosting = {
   createdAt: string;
   status: string;
   applicantCount: number;
+  viewCount: number;
+  conversionRate: number;
 };
 
 export default function RecruiterJobs() {
@@ -132,6 +134,12 @@ export default function RecruiterJobs() {
                 <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Applicants
                 </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Views
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Conversion
+                </th>
                 <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Posted Date
                 </th>
@@ -161,6 +169,12 @@ export default function RecruiterJobs() {
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                     {job.applicantCount || 0}
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {job.viewCount || 0}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {job.viewCount > 0 ? `${job.conversionRate}%` : '-'}
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                     {new Date(job.createdAt).toLocaleDateString()}
                   </td>
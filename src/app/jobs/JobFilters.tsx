@@ -0,0 +1,292 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { DEFAULT_SALARY_PERIOD, SALARY_PERIOD_LABELS, SALARY_PERIODS } from '@/lib/jobs/salary';
+
+type FacetValue = {
+  value: string;
+  count: number;
+};
+
+export type JobFacets = {
+  locations: FacetValue[];
+  types: FacetValue[];
+  skills: FacetValue[];
+  postedWithin: Array<{ days: number; count: number }>;
+  salary: Array<{ min: number | null; max: number | null; count: number }>;
+};
+
+type JobFiltersProps = {
+  facets: JobFacets | null;
+  params: URLSearchParams;
+  onToggle: (key: string, value: string) => void;
+  onSet: (values: Record<string, string | null>) => void;
+  onClear: () => void;
+};
+
+const FILTER_KEYS = ['location', 'type', 'skill', 'skill_match', 'posted_within', 'salary_min', 'salary_max', 'salary_period'];
+
+const formatThousands = (value: number) => (value >= 1000 ? `$${Math.round(value / 1000)}k` : `$${value}`);
+
+const describePostedWithin = (days: number) => (days === 1 ? 'Last 24 hours' : `Last ${days} days`);
+
+const describeSalaryBucket = (min: number | null, max: number | null) => {
+  if (min === null && max !== null) return `Under ${formatThousands(max)}`;
+  if (max === null && min !== null) return `${formatThousands(min)}+`;
+  return `${formatThousands(min || 0)} - ${formatThousands(max || 0)}`;
+};
+
+/**
+ * Returns true when the query string has any job search filter set
+ */
+export function hasActiveFilters(params: Pick<URLSearchParams, 'has'>): boolean {
+  return FILTER_KEYS.some((key) => params.has(key));
+}
+
+function FacetCheckboxes({
+  title,
+  paramKey,
+  values,
+  params,
+  onToggle,
+}: {
+  title: string;
+  paramKey: string;
+  values: FacetValue[];
+  params: URLSearchParams;
+  onToggle: (key: string, value: string) => void;
+}) {
+  const selected = params.getAll(paramKey);
+
+  // Keep selected values visible even when they no longer have matches
+  const options = [
+    ...values,
+    ...selected
+      .filter((value) => !values.some((facet) => facet.value.toLowerCase() === value.toLowerCase()))
+      .map((value) => ({ value, count: 0 })),
+  ];
+
+  if (options.length === 0) return null;
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-900 mb-2">{title}</h3>
+      <ul className="space-y-1">
+        {options.map((option) => (
+          <li key={option.value}>
+            <label className="flex items-center justify-between text-sm text-gray-700 cursor-pointer">
+              <span className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={selected.some((value) => value.toLowerCase() === option.value.toLowerCase())}
+                  onChange={() => onToggle(paramKey, option.value)}
+                  className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                {option.value}
+              </span>
+              <span className="text-xs text-gray-500">{option.count}</span>
+            </label>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * Sidebar with the job search filters. All filter state lives in the URL
+ * query string so a search can be shared or bookmarked.
+ */
+export default function JobFilters({ facets, params, onToggle, onSet, onClear }: JobFiltersProps) {
+  const currentSalaryMin = params.get('salary_min') || '';
+  const currentSalaryMax = params.get('salary_max') || '';
+  const [salaryMin, setSalaryMin] = useState(currentSalaryMin);
+  const [salaryMax, setSalaryMax] = useState(currentSalaryMax);
+
+  useEffect(() => {
+    setSalaryMin(currentSalaryMin);
+    setSalaryMax(currentSalaryMax);
+  }, [currentSalaryMin, currentSalaryMax]);
+
+  const postedWithin = params.get('posted_within');
+  const salaryPeriod = params.get('salary_period') || DEFAULT_SALARY_PERIOD;
+  const skillMatch = params.get('skill_match') || 'any';
+
+  const handleSalarySubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSet({
+      salary_min: salaryMin || null,
+      salary_max: salaryMax || null,
+    });
+  };
+
+  return (
+    <aside className="bg-white shadow rounded-lg p-4 space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-medium text-gray-900">Filters</h2>
+        {hasActiveFilters(params) && (
+          <button onClick={onClear} className="text-sm text-blue-600 hover:text-blue-800">
+            Clear all
+          </button>
+        )}
+      </div>
+
+      {facets && (
+        <>
+          <FacetCheckboxes
+            title="Location"
+            paramKey="location"
+            values={facets.locations}
+            params={params}
+            onToggle={onToggle}
+          />
+
+          <FacetCheckboxes
+            title="Job Type"
+            paramKey="type"
+            values={facets.types}
+            params={params}
+            onToggle={onToggle}
+          />
+
+          <div>
+            <FacetCheckboxes
+              title="Skills"
+              paramKey="skill"
+              values={facets.skills}
+              params={params}
+              onToggle={onToggle}
+            />
+            {params.getAll('skill').length > 1 && (
+              <div className="mt-2 flex gap-4 text-sm text-gray-700">
+                <label className="flex items-center">
+                  <input
+                    type="radio"
+                    checked={skillMatch === 'any'}
+                    onChange={() => onSet({ skill_match: null })}
+                    className="mr-1 text-blue-600 focus:ring-blue-500"
+                  />
+                  Any skill
+                </label>
+                <label className="flex items-center">
+                  <input
+                    type="radio"
+                    checked={skillMatch === 'all'}
+                    onChange={() => onSet({ skill_match: 'all' })}
+                    className="mr-1 text-blue-600 focus:ring-blue-500"
+                  />
+                  All skills
+                </label>
+              </div>
+            )}
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-900 mb-2">Date Posted</h3>
+            <ul className="space-y-1">
+              <li>
+                <label className="flex items-center text-sm text-gray-700 cursor-pointer">
+                  <input
+                    type="radio"
+                    checked={!postedWithin}
+                    onChange={() => onSet({ posted_within: null })}
+                    className="mr-2 text-blue-600 focus:ring-blue-500"
+                  />
+                  Any time
+                </label>
+              </li>
+              {facets.postedWithin.map((option) => (
+                <li key={option.days}>
+                  <label className="flex items-center justify-between text-sm text-gray-700 cursor-pointer">
+                    <span className="flex items-center">
+                      <input
+                        type="radio"
+                        checked={postedWithin === option.days.toString()}
+                        onChange={() => onSet({ posted_within: option.days.toString() })}
+                        className="mr-2 text-blue-600 focus:ring-blue-500"
+                      />
+                      {describePostedWithin(option.days)}
+                    </span>
+                    <span className="text-xs text-gray-500">{option.count}</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-900 mb-2">Salary</h3>
+            <select
+              value={salaryPeriod}
+              onChange={(e) =>
+                // Amounts only make sense for the period they were entered for
+                onSet({
+                  salary_period: e.target.value === DEFAULT_SALARY_PERIOD ? null : e.target.value,
+                  salary_min: null,
+                  salary_max: null,
+                })
+              }
+              className="mb-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm"
+            >
+              {SALARY_PERIODS.map((period) => (
+                <option key={period} value={period}>
+                  {SALARY_PERIOD_LABELS[period]}
+                </option>
+              ))}
+            </select>
+            <ul className="space-y-1 mb-3">
+              {facets.salary.map((bucket) => {
+                const isSelected =
+                  (params.get('salary_min') || null) === (bucket.min?.toString() ?? null) &&
+                  (params.get('salary_max') || null) === (bucket.max?.toString() ?? null);
+
+                return (
+                  <li key={`${bucket.min}-${bucket.max}`}>
+                    <button
+                      onClick={() =>
+                        onSet({
+                          salary_min: isSelected ? null : bucket.min?.toString() ?? null,
+                          salary_max: isSelected ? null : bucket.max?.toString() ?? null,
+                        })
+                      }
+                      className={`w-full flex justify-between text-sm ${
+                        isSelected ? 'text-blue-700 font-medium' : 'text-gray-700 hover:text-blue-600'
+                      }`}
+                    >
+                      <span>{describeSalaryBucket(bucket.min, bucket.max)}</span>
+                      <span className="text-xs text-gray-500">{bucket.count}</span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+            <form onSubmit={handleSalarySubmit} className="flex items-center gap-2">
+              <input
+                type="number"
+                min="0"
+                value={salaryMin}
+                onChange={(e) => setSalaryMin(e.target.value)}
+                placeholder="Min"
+                className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm"
+              />
+              <input
+                type="number"
+                min="0"
+                value={salaryMax}
+                onChange={(e) => setSalaryMax(e.target.value)}
+                placeholder="Max"
+                className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm"
+              />
+              <button
+                type="submit"
+                className="px-3 py-2 rounded-md border border-gray-300 bg-white text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Go
+              </button>
+            </form>
+          </div>
+        </>
+      )}
+    </aside>
+  );
+}
@@ -5,6 +5,8 @@ import { useSearchParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { useSession } from 'next-auth/react';
 import toast from 'react-hot-toast';
+import JobFilters, { hasActiveFilters, JobFacets } from './JobFilters';
+import { formatSalary, SalaryPeriod } from '@/lib/jobs/salary';
 
 type Job = {
   id: string;
@@ -12,10 +14,16 @@ type Job = {
   company: string;
   location: string | null;
   type: string;
-  salary: string | null;
+  salaryMin: number | null;
+  salaryMax: number | null;
+  currency: string;
+  period: SalaryPeriod;
+  salaryText: string | null;
   description: string;
   createdAt: string;
   requiredSkills: Array<{ id: string; name: string }>;
+  // Matched part of the description when searching, matched words highlighted
+  snippet: Array<{ text: string; highlighted: boolean }> | null;
   recruiterProfile: {
     user: {
       name: string | null;
@@ -44,18 +52,19 @@ export default function JobsContent() {
     totalPages: 1,
   });
   
+  const [facets, setFacets] = useState<JobFacets | null>(null);
+  
   const [searchTerm, setSearchTerm] = useState(searchParams.get('search') || '');
   
-  // Fetch jobs
-  const fetchJobs = async (page = 1, search = '') => {
+  // Fetch jobs matching the filters in the query string
+  const fetchJobs = async (query: URLSearchParams) => {
     setLoading(true);
     try {
-      const params = new URLSearchParams();
-      params.append('page', page.toString());
-      params.append('limit', '10');
-      if (search) {
-        params.append('search', search);
+      const params = new URLSearchParams(query);
+      if (!params.has('page')) {
+        params.set('page', '1');
       }
+      params.set('limit', '10');
       
       const response = await fetch(`/api/jobs?${params.toString()}`);
       
@@ -66,6 +75,7 @@ export default function JobsContent() {
       const data = await response.json();
       setJobs(data.jobs);
       setPagination(data.pagination);
+      setFacets(data.facets);
     } catch (error) {
       console.error('Error fetching jobs:', error);
       toast.error('Failed to load job listings');
@@ -75,24 +85,65 @@ export default function JobsContent() {
   };
   
   useEffect(() => {
-    const page = parseInt(searchParams.get('page') || '1');
-    const search = searchParams.get('search') || '';
-    setSearchTerm(search);
-    fetchJobs(page, search);
+    setSearchTerm(searchParams.get('search') || '');
+    fetchJobs(new URLSearchParams(searchParams.toString()));
   }, [searchParams]);
   
+  // Apply a change to the query string and go back to the first page
+  const updateQuery = (update: (params: URLSearchParams) => void) => {
+    const params = new URLSearchParams(searchParams.toString());
+    update(params);
+    params.set('page', '1');
+    router.push(`/jobs?${params.toString()}`);
+  };
+  
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
+    updateQuery((params) => {
+      if (searchTerm) {
+        params.set('search', searchTerm);
+      } else {
+        params.delete('search');
+      }
+    });
+  };
+  
+  const handleToggleFilter = (key: string, value: string) => {
+    updateQuery((params) => {
+      const values = params.getAll(key);
+      const isSelected = values.some((selected) => selected.toLowerCase() === value.toLowerCase());
+      params.delete(key);
+      const nextValues = isSelected
+        ? values.filter((selected) => selected.toLowerCase() !== value.toLowerCase())
+        : [...values, value];
+      nextValues.forEach((selected) => params.append(key, selected));
+    });
+  };
+  
+  const handleSetFilters = (values: Record<string, string | null>) => {
+    updateQuery((params) => {
+      Object.entries(values).forEach(([key, value]) => {
+        if (value) {
+          params.set(key, value);
+        } else {
+          params.delete(key);
+        }
+      });
+    });
+  };
+  
+  const handleClearFilters = () => {
     const params = new URLSearchParams();
-    if (searchTerm) {
-      params.append('search', searchTerm);
+    const search = searchParams.get('search');
+    if (search) {
+      params.set('search', search);
     }
-    params.append('page', '1');
+    params.set('page', '1');
     router.push(`/jobs?${params.toString()}`);
   };
   
   const handlePageChange = (newPage: number) => {
-    const params = new URLSearchParams(searchParams);
+    const params = new URLSearchParams(searchParams.toString());
     params.set('page', newPage.toString());
     router.push(`/jobs?${params.toString()}`);
   };
@@ -130,115 +181,145 @@ export default function JobsContent() {
         </form>
       </div>
       
-      {/* Job listings */}
-      {loading ? (
-        <div className="flex justify-center py-10">
-          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
-        </div>
-      ) : jobs.length === 0 ? (
-        <div className="bg-white shadow rounded-lg p-8 text-center">
-          <h3 className="text-lg font-medium text-gray-900">No job listings found</h3>
-          <p className="mt-2 text-gray-500">
-            {searchTerm ? `No jobs match your search for "${searchTerm}"` : 'There are no active job listings at the moment.'}
-          </p>
-        </div>
-      ) : (
-        <div className="space-y-6">
-          {jobs.map((job) => (
-            <div key={job.id} className="bg-white shadow overflow-hidden sm:rounded-lg">
-              <div className="px-4 py-5 sm:px-6">
-                <div className="flex justify-between items-start">
-                  <div>
-                    <h3 className="text-lg font-medium leading-6 text-gray-900">
-                      <Link href={`/jobs/${job.id}`} className="hover:text-blue-600">
-                        {job.title}
-                      </Link>
-                    </h3>
-                    <p className="mt-1 max-w-2xl text-sm text-gray-500">
-                      {job.company} • {job.location || 'Remote'} • {job.type}
-                    </p>
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <JobFilters
+          facets={facets}
+          params={new URLSearchParams(searchParams.toString())}
+          onToggle={handleToggleFilter}
+          onSet={handleSetFilters}
+          onClear={handleClearFilters}
+        />
+        
+        <div className="lg:col-span-3">
+          {/* Job listings */}
+          {loading ? (
+            <div className="flex justify-center py-10">
+              <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+            </div>
+          ) : jobs.length === 0 ? (
+            <div className="bg-white shadow rounded-lg p-8 text-center">
+              <h3 className="text-lg font-medium text-gray-900">No job listings found</h3>
+              <p className="mt-2 text-gray-500">
+                {hasActiveFilters(searchParams)
+                  ? 'No jobs match the selected filters.'
+                  : searchTerm
+                    ? `No jobs match your search for "${searchTerm}"`
+                    : 'There are no active job listings at the moment.'}
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {jobs.map((job) => (
+                <div key={job.id} className="bg-white shadow overflow-hidden sm:rounded-lg">
+                  <div className="px-4 py-5 sm:px-6">
+                    <div className="flex justify-between items-start">
+                      <div>
+                        <h3 className="text-lg font-medium leading-6 text-gray-900">
+                          <Link href={`/jobs/${job.id}`} className="hover:text-blue-600">
+                            {job.title}
+                          </Link>
+                        </h3>
+                        <p className="mt-1 max-w-2xl text-sm text-gray-500">
+                          {job.company} • {job.location || 'Remote'} • {job.type}
+                        </p>
+                      </div>
+                      {formatSalary(job) && (
+                        <span className="inline-flex items-center px-3 py-0.5 rounded-full text-sm font-medium bg-green-100 text-green-800">
+                          {formatSalary(job)}
+                        </span>
+                      )}
+                    </div>
                   </div>
-                  {job.salary && (
-                    <span className="inline-flex items-center px-3 py-0.5 rounded-full text-sm font-medium bg-green-100 text-green-800">
-                      {job.salary}
-                    </span>
-                  )}
-                </div>
-              </div>
-              <div className="border-t border-gray-200 px-4 py-5 sm:px-6">
-                <p className="text-sm text-gray-500 line-clamp-3">
-                  {job.description.substring(0, 200)}
-                  {job.description.length > 200 ? '...' : ''}
-                </p>
+                  <div className="border-t border-gray-200 px-4 py-5 sm:px-6">
+                    {job.snippet ? (
+                      <p className="text-sm text-gray-500 line-clamp-3">
+                        {job.snippet.map((part, index) =>
+                          part.highlighted ? (
+                            <mark key={index} className="bg-yellow-100 text-gray-900 rounded-sm">
+                              {part.text}
+                            </mark>
+                          ) : (
+                            <span key={index}>{part.text}</span>
+                          )
+                        )}
+                      </p>
+                    ) : (
+                      <p className="text-sm text-gray-500 line-clamp-3">
+                        {job.description.substring(0, 200)}
+                        {job.description.length > 200 ? '...' : ''}
+                      </p>
+                    )}
                 
-                <div className="mt-4 flex flex-wrap gap-2">
-                  {job.requiredSkills.map((skill) => (
-                    <span
-                      key={skill.id}
-                      className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800"
-                    >
-                      {skill.name}
-                    </span>
-                  ))}
-                </div>
+                    <div className="mt-4 flex flex-wrap gap-2">
+                      {job.requiredSkills.map((skill) => (
+                        <span
+                          key={skill.id}
+                          className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800"
+                        >
+                          {skill.name}
+                        </span>
+                      ))}
+                    </div>
                 
-                <div className="mt-4 flex justify-between items-center">
-                  <span className="text-xs text-gray-500">
-                    Posted by {job.recruiterProfile.user.name || 'Anonymous'} • 
-                    {new Date(job.createdAt).toLocaleDateString()}
-                  </span>
+                    <div className="mt-4 flex justify-between items-center">
+                      <span className="text-xs text-gray-500">
+                        Posted by {job.recruiterProfile.user.name || 'Anonymous'} • 
+                        {new Date(job.createdAt).toLocaleDateString()}
+                      </span>
                   
-                  <Link
-                    href={`/jobs/${job.id}`}
-                    className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-                  >
-                    View Details
-                  </Link>
+                      <Link
+                        href={`/jobs/${job.id}`}
+                        className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                      >
+                        View Details
+                      </Link>
+                    </div>
+                  </div>
                 </div>
-              </div>
+              ))}
             </div>
-          ))}
-        </div>
-      )}
+          )}
       
-      {/* Pagination */}
-      {pagination.totalPages > 1 && (
-        <div className="mt-8 flex justify-center">
-          <nav className="flex items-center">
-            <button
-              onClick={() => handlePageChange(pagination.page - 1)}
-              disabled={pagination.page === 1}
-              className="mr-2 px-3 py-1 rounded-md border border-gray-300 bg-white text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:bg-gray-100 disabled:text-gray-400"
-            >
-              Previous
-            </button>
+          {/* Pagination */}
+          {pagination.totalPages > 1 && (
+            <div className="mt-8 flex justify-center">
+              <nav className="flex items-center">
+                <button
+                  onClick={() => handlePageChange(pagination.page - 1)}
+                  disabled={pagination.page === 1}
+                  className="mr-2 px-3 py-1 rounded-md border border-gray-300 bg-white text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:bg-gray-100 disabled:text-gray-400"
+                >
+                  Previous
+                </button>
+            
+                <div className="flex">
+                  {Array.from({ length: pagination.totalPages }, (_, i) => i + 1).map((page) => (
+                    <button
+                      key={page}
+                      onClick={() => handlePageChange(page)}
+                      className={`mx-1 px-3 py-1 rounded-md text-sm font-medium ${
+                        pagination.page === page
+                          ? 'bg-blue-600 text-white'
+                          : 'border border-gray-300 bg-white text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      {page}
+                    </button>
+                  ))}
+                </div>
             
-            <div className="flex">
-              {Array.from({ length: pagination.totalPages }, (_, i) => i + 1).map((page) => (
                 <button
-                  key={page}
-                  onClick={() => handlePageChange(page)}
-                  className={`mx-1 px-3 py-1 rounded-md text-sm font-medium ${
-                    pagination.page === page
-                      ? 'bg-blue-600 text-white'
-                      : 'border border-gray-300 bg-white text-gray-700 hover:bg-gray-50'
-                  }`}
+                  onClick={() => handlePageChange(pagination.page + 1)}
+                  disabled={pagination.page === pagination.totalPages}
+                  className="ml-2 px-3 py-1 rounded-md border border-gray-300 bg-white text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:bg-gray-100 disabled:text-gray-400"
                 >
-                  {page}
+                  Next
                 </button>
-              ))}
+              </nav>
             </div>
-            
-            <button
-              onClick={() => handlePageChange(pagination.page + 1)}
-              disabled={pagination.page === pagination.totalPages}
-              className="ml-2 px-3 py-1 rounded-md border border-gray-300 bg-white text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:bg-gray-100 disabled:text-gray-400"
-            >
-              Next
-            </button>
-          </nav>
+          )}
         </div>
-      )}
+      </div>
     </div>
   );
 } 
\ No newline at end of file
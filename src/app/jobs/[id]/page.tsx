@@ -5,6 +5,8 @@ import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import toast from 'react-hot-toast';
+import { formatSalary, SalaryPeriod } from '@/lib/jobs/salary';
+import { SKILL_LEVEL_LABELS, SkillLevel } from '@/lib/skills/proficiency';
 
 type Job = {
   id: string;
@@ -12,11 +14,15 @@ type Job = {
   company: string;
   location: string | null;
   type: string;
-  salary: string | null;
+  salaryMin: number | null;
+  salaryMax: number | null;
+  currency: string;
+  period: SalaryPeriod;
+  salaryText: string | null;
   description: string;
   requirements: string | null;
   createdAt: string;
-  requiredSkills: Array<{ id: string; name: string }>;
+  requiredSkills: Array<{ id: string; name: string; required: boolean; minimumLevel: SkillLevel | null }>;
   recruiterProfile: {
     id: string;
     user: {
@@ -178,9 +184,9 @@ export default function JobDetail({ params }: { params: { id: string } }) {
                 {job.company} • {job.location || 'Remote'} • {job.type}
               </p>
             </div>
-            {job.salary && (
+            {formatSalary(job) && (
               <span className="mt-2 sm:mt-0 inline-flex items-center px-3 py-0.5 rounded-full text-sm font-medium bg-green-100 text-green-800">
-                {job.salary}
+                {formatSalary(job)}
               </span>
             )}
           </div>
@@ -211,21 +217,25 @@ export default function JobDetail({ params }: { params: { id: string } }) {
                     </div>
                   )}
                   
-                  {job.requiredSkills.length > 0 && (
-                    <div>
-                      <h2 className="text-lg font-medium text-gray-900">Required Skills</h2>
+                  {[
+                    { title: 'Required Skills', skills: job.requiredSkills.filter(skill => skill.required), color: 'bg-blue-100 text-blue-800' },
+                    { title: 'Nice to Have', skills: job.requiredSkills.filter(skill => !skill.required), color: 'bg-gray-100 text-gray-800' },
+                  ].filter(group => group.skills.length > 0).map(group => (
+                    <div key={group.title}>
+                      <h2 className="text-lg font-medium text-gray-900">{group.title}</h2>
                       <div className="mt-2 flex flex-wrap gap-2">
-                        {job.requiredSkills.map(skill => (
+                        {group.skills.map(skill => (
                           <span
                             key={skill.id}
-                            className="inline-flex items-center px-3 py-0.5 rounded-full text-sm font-medium bg-blue-100 text-blue-800"
+                            className={`inline-flex items-center px-3 py-0.5 rounded-full text-sm font-medium ${group.color}`}
                           >
                             {skill.name}
+                            {skill.minimumLevel && ` (${SKILL_LEVEL_LABELS[skill.minimumLevel]}+)`}
                           </span>
                         ))}
                       </div>
                     </div>
-                  )}
+                  ))}
                 </div>
               </div>
               
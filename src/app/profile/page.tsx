@@ -8,6 +8,7 @@ import { useForm } from 'react-hook-form';
 import Link from 'next/link';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
+import { EducationEditor, ExperienceEditor } from '@/components/profile/HistoryEditor';
 
 const profileSchema = z.object({
   name: z.string().min(2, 'Name must be at least 2 characters'),
@@ -156,6 +157,19 @@ export default function ProfilePage() {
               Resume & Skills
             </button>
           )}
+
+          {session?.user.role === 'JOBSEEKER' && (
+            <button
+              className={`px-4 py-3 text-sm font-medium ${
+                activeTab === 'history'
+                  ? 'border-b-2 border-blue-500 text-blue-600'
+                  : 'text-gray-500 hover:text-gray-700'
+              }`}
+              onClick={() => setActiveTab('history')}
+            >
+              Experience & Education
+            </button>
+          )}
           
           <button
             className={`px-4 py-3 text-sm font-medium ${
@@ -349,6 +363,13 @@ export default function ProfilePage() {
           </div>
         )}
         
+        {activeTab === 'history' && (
+          <div className="p-6 space-y-10">
+            <ExperienceEditor />
+            <EducationEditor />
+          </div>
+        )}
+        
         {activeTab === 'account' && (
           <div className="p-6">
             <div className="mb-6">
@@ -4,6 +4,13 @@ import { useState, useRef, useEffect } from 'react';
 import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
 import { toast } from 'react-hot-toast';
+import { FieldSourceBadge } from '@/components/profile/FieldSourceBadge';
+import { ResumeImportReview } from '@/components/profile/ResumeImportReview';
+import { getResumeFormatOfFile, RESUME_FILE_ACCEPT, RESUME_FORMATS_DESCRIPTION } from '@/lib/resume/formats';
+import { LOW_OCR_CONFIDENCE } from '@/lib/resume/layout';
+
+// How often to check on background processing of an upload
+const STATUS_POLL_INTERVAL_MS = 2000;
 
 export default function ResumeAnalyzer() {
   const { data: session, status } = useSession();
@@ -13,7 +20,18 @@ export default function ResumeAnalyzer() {
   const [resumeData, setResumeData] = useState<any>(null);
   const [analyzing, setAnalyzing] = useState(false);
   const [hasUploadedResume, setHasUploadedResume] = useState(false);
+  // Bumped after each analysis so the review list reloads the newly extracted entries
+  const [analysisCount, setAnalysisCount] = useState(0);
+  const [processingMessage, setProcessingMessage] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const isMountedRef = useRef(true);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
 
   useEffect(() => {
     if (status === 'authenticated' && session?.user.role === 'JOBSEEKER') {
@@ -27,8 +45,19 @@ export default function ResumeAnalyzer() {
       const response = await fetch('/api/profile');
       if (response.ok) {
         const data = await response.json();
-        if (data.profile && data.profile.resumeUrl) {
+        if (data.profile && data.profile.resumeKey) {
           setHasUploadedResume(true);
+
+          // Pick up an upload that is still being processed
+          const statusResponse = await fetch('/api/resume/status');
+          const statusData = statusResponse.ok ? await statusResponse.json() : { job: null };
+          if (statusData.job && ['QUEUED', 'RUNNING'].includes(statusData.job.status)) {
+            if (await waitForProcessing()) {
+              await analyzeResume(data.profile.id);
+            }
+            return;
+          }
+
           // Try to get the parsed resume data if available
           if (data.resumeData) {
             setResumeData({
@@ -58,8 +87,8 @@ export default function ResumeAnalyzer() {
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
     if (selectedFile) {
-      if (selectedFile.type !== 'application/pdf') {
-        toast.error('Please upload a PDF file');
+      if (!getResumeFormatOfFile(selectedFile)) {
+        toast.error(`Please upload a ${RESUME_FORMATS_DESCRIPTION} file`);
         return;
       }
       setFile(selectedFile);
@@ -77,8 +106,8 @@ export default function ResumeAnalyzer() {
     
     const droppedFile = e.dataTransfer.files?.[0];
     if (droppedFile) {
-      if (droppedFile.type !== 'application/pdf') {
-        toast.error('Please upload a PDF file');
+      if (!getResumeFormatOfFile(droppedFile)) {
+        toast.error(`Please upload a ${RESUME_FORMATS_DESCRIPTION} file`);
         return;
       }
       setFile(droppedFile);
@@ -118,6 +147,11 @@ export default function ResumeAnalyzer() {
         fileInputRef.current.value = '';
       }
       
+      // Wait for the background processing, then load its analysis
+      if (!(await waitForProcessing())) {
+        return;
+      }
+      
       // Now analyze the resume if we have a parsed resume ID or job seeker profile ID
       if (data.resumeId || data.profileId) {
         await analyzeResume(data.resumeId || data.profileId);
@@ -133,7 +167,50 @@ export default function ResumeAnalyzer() {
     }
   };
 
-  const analyzeCurrentUserResume = async () => {
+  /**
+   * Poll the processing status of the latest upload until it is done
+   * @returns true when processing succeeded
+   */
+  const waitForProcessing = async (): Promise<boolean> => {
+    setAnalyzing(true);
+    
+    try {
+      while (isMountedRef.current) {
+        const response = await fetch('/api/resume/status');
+        if (!response.ok) {
+          throw new Error('Failed to check resume processing status');
+        }
+        
+        const { job } = await response.json();
+        if (!job || job.status === 'DONE') {
+          return true;
+        }
+        
+        if (job.status === 'FAILED') {
+          toast.error(job.error ? `Resume processing failed: ${job.error}` : 'Resume processing failed');
+          return false;
+        }
+        
+        if (job.status === 'RUNNING') {
+          setProcessingMessage('Analyzing your resume...');
+        } else {
+          setProcessingMessage(job.attempts > 0 ? 'Processing failed, retrying shortly...' : 'Waiting for processing to start...');
+        }
+        
+        await new Promise((resolve) => setTimeout(resolve, STATUS_POLL_INTERVAL_MS));
+      }
+      return false;
+    } catch (error) {
+      console.error('Error checking resume processing status:', error);
+      toast.error('Failed to check resume processing status');
+      return false;
+    } finally {
+      setProcessingMessage(null);
+      setAnalyzing(false);
+    }
+  };
+
+  const analyzeCurrentUserResume = async (refresh = false) => {
     try {
       const profileResponse = await fetch('/api/profile');
       if (!profileResponse.ok) {
@@ -142,7 +219,7 @@ export default function ResumeAnalyzer() {
       
       const profileData = await profileResponse.json();
       if (profileData.profile && profileData.profile.id) {
-        await analyzeResume(profileData.profile.id);
+        await analyzeResume(profileData.profile.id, refresh);
       } else {
         throw new Error('Profile data not found');
       }
@@ -152,11 +229,11 @@ export default function ResumeAnalyzer() {
     }
   };
 
-  const analyzeResume = async (resumeId: string) => {
+  const analyzeResume = async (resumeId: string, refresh = false) => {
     setAnalyzing(true);
     
     try {
-      const response = await fetch(`/api/resume/analyze?resumeId=${resumeId}`);
+      const response = await fetch(`/api/resume/analyze?resumeId=${resumeId}${refresh ? '&refresh=1' : ''}`);
       
       // Always attempt to parse the response, even for error status codes
       const data = await response.json().catch(() => ({
@@ -170,10 +247,11 @@ export default function ResumeAnalyzer() {
 
       // Set the resume data
       setResumeData(data);
+      setAnalysisCount((count) => count + 1);
       
       // Show appropriate notifications based on response
       if (data.isFallback) {
-        toast('Your resume could not be processed completely. Please try uploading it again.', {
+        toast(data.message || 'Your resume could not be processed completely. Please try uploading it again.', {
           icon: '⚠️',
         });
       } else {
@@ -186,11 +264,11 @@ export default function ResumeAnalyzer() {
       // Set a basic fallback UI state
       setResumeData({
         contactInfo: { email: '', phone: '' },
-        summary: 'Resume analysis failed. Please try again or contact support if the issue persists.',
+        summary: '',
         skills: [],
         experience: [],
         education: [],
-        suggestions: ['Try uploading your resume again', 'Make sure your resume is in PDF format'],
+        suggestions: ['Try uploading your resume again', `Make sure your resume is a ${RESUME_FORMATS_DESCRIPTION} file`],
         score: 0,
         error: true
       });
@@ -199,6 +277,14 @@ export default function ResumeAnalyzer() {
     }
   };
 
+  // Scanned pages whose text the OCR could not read reliably
+  const lowConfidencePages: Array<{ number: number; confidence: number }> = (resumeData?.ocrPages || []).filter(
+    (page: { confidence: number }) => page.confidence < LOW_OCR_CONFIDENCE
+  );
+
+  // Scanned pages past the OCR page limit, which were not read at all
+  const ocrSkippedPages: number[] = resumeData?.ocrSkippedPages || [];
+
   return (
     <div className="max-w-5xl mx-auto py-10">
       <h1 className="text-3xl font-bold mb-8">Resume Analyzer</h1>
@@ -212,7 +298,7 @@ export default function ResumeAnalyzer() {
         >
           <input 
             type="file" 
-            accept=".pdf" 
+            accept={RESUME_FILE_ACCEPT} 
             className="hidden" 
             onChange={handleFileChange}
             ref={fileInputRef}
@@ -238,10 +324,18 @@ export default function ResumeAnalyzer() {
             <p className="pl-1">or drag and drop</p>
           </div>
           <p className="text-xs text-gray-500 mt-1">
-            PDF up to 10MB
+            {RESUME_FORMATS_DESCRIPTION} up to 5MB
           </p>
         </div>
         
+        {hasUploadedResume && !file && (
+          <p className="mt-4 text-sm text-gray-600">
+            <a href="/api/resume/download" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-500">
+              View your uploaded resume
+            </a>
+          </p>
+        )}
+        
         {file && (
           <div className="mt-4 flex items-center justify-between bg-gray-50 p-4 rounded-md">
             <div className="flex items-center">
@@ -295,24 +389,61 @@ export default function ResumeAnalyzer() {
               d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
             ></path>
           </svg>
-          <p className="mt-4 text-lg text-gray-600">Analyzing your resume...</p>
+          <p className="mt-4 text-lg text-gray-600">{processingMessage || 'Analyzing your resume...'}</p>
           <p className="text-sm text-gray-500">This may take a few moments</p>
         </div>
       )}
 
+      {hasUploadedResume && !analyzing && <ResumeImportReview key={analysisCount} />}
+
       {resumeData && !analyzing && (
         <div className="bg-white shadow overflow-hidden sm:rounded-lg">
-          <div className="px-4 py-5 sm:px-6">
-            <h3 className="text-lg leading-6 font-medium text-gray-900">Resume Analysis</h3>
-            <p className="mt-1 max-w-2xl text-sm text-gray-500">
-              AI-powered analysis of your resume
-            </p>
+          <div className="px-4 py-5 sm:px-6 flex justify-between items-start">
+            <div>
+              <h3 className="text-lg leading-6 font-medium text-gray-900">Resume Analysis</h3>
+              <p className="mt-1 max-w-2xl text-sm text-gray-500">
+                AI-powered analysis of your resume
+              </p>
+            </div>
+            {resumeData.cached && (
+              <button
+                onClick={() => analyzeCurrentUserResume(true)}
+                className="text-sm text-blue-600 hover:text-blue-800"
+              >
+                Re-analyze
+              </button>
+            )}
           </div>
+          {resumeData.isFallback && resumeData.message && (
+            <div className="mx-4 mb-4 sm:mx-6 rounded-md bg-yellow-50 p-4 text-sm text-yellow-800">
+              {resumeData.message}
+            </div>
+          )}
+          {lowConfidencePages.length > 0 && (
+            <div className="mx-4 mb-4 sm:mx-6 rounded-md bg-yellow-50 p-4 text-sm text-yellow-800">
+              Your resume is a scan, and the text of{' '}
+              {lowConfidencePages.map((page) => `page ${page.number} (${page.confidence}% confidence)`).join(', ')}{' '}
+              was hard to read. Check the details below, or upload a PDF with selectable text for better results.
+            </div>
+          )}
+          {ocrSkippedPages.length > 0 && (
+            <div className="mx-4 mb-4 sm:mx-6 rounded-md bg-yellow-50 p-4 text-sm text-yellow-800">
+              Your resume is a long scan, and {ocrSkippedPages.map((number) => `page ${number}`).join(', ')}{' '}
+              {ocrSkippedPages.length === 1 ? 'was' : 'were'} not read, so nothing on {ocrSkippedPages.length === 1 ? 'it' : 'them'} appears below.
+              Upload a PDF with selectable text to have the whole resume analyzed.
+            </div>
+          )}
           <div className="border-t border-gray-200">
             <dl>
               <div className="bg-gray-50 px-4 py-5 sm:grid sm:grid-cols-3 sm:gap-4 sm:px-6">
-                <dt className="text-sm font-medium text-gray-500">Extracted Skills</dt>
+                <dt className="text-sm font-medium text-gray-500">
+                  Extracted Skills
+                  <div className="mt-1"><FieldSourceBadge source={resumeData.provenance?.skills} /></div>
+                </dt>
                 <dd className="mt-1 text-sm text-gray-900 sm:mt-0 sm:col-span-2">
+                  {resumeData.provenance?.skills === 'placeholder' ? (
+                    <span className="text-gray-500">No skills found in your resume</span>
+                  ) : (
                   <div className="flex flex-wrap gap-2">
                     {resumeData.skills?.map((skill: string, index: number) => (
                       <span
@@ -323,39 +454,58 @@ export default function ResumeAnalyzer() {
                       </span>
                     )) || 'No skills extracted'}
                   </div>
+                  )}
                 </dd>
               </div>
               <div className="bg-white px-4 py-5 sm:grid sm:grid-cols-3 sm:gap-4 sm:px-6">
-                <dt className="text-sm font-medium text-gray-500">Work Experience</dt>
+                <dt className="text-sm font-medium text-gray-500">
+                  Work Experience
+                  <div className="mt-1"><FieldSourceBadge source={resumeData.provenance?.experience} /></div>
+                </dt>
                 <dd className="mt-1 text-sm text-gray-900 sm:mt-0 sm:col-span-2">
+                  {resumeData.provenance?.experience === 'placeholder' ? (
+                    <span className="text-gray-500">No work experience found in your resume</span>
+                  ) : (
                   <ul className="divide-y divide-gray-200">
                     {resumeData.experience?.map((exp: any, index: number) => (
                       <li key={index} className="py-2">
                         <div className="font-medium">{exp.title}</div>
                         <div>{exp.company}</div>
-                        <div className="text-gray-500">{exp.date}</div>
-                        <div className="mt-1">{exp.description}</div>
+                        <div className="text-gray-500">{exp.date || exp.dates}</div>
+                        <div className="mt-1">{Array.isArray(exp.description) ? exp.description.join(' ') : exp.description}</div>
                       </li>
                     )) || 'No work experience extracted'}
                   </ul>
+                  )}
                 </dd>
               </div>
               <div className="bg-gray-50 px-4 py-5 sm:grid sm:grid-cols-3 sm:gap-4 sm:px-6">
-                <dt className="text-sm font-medium text-gray-500">Education</dt>
+                <dt className="text-sm font-medium text-gray-500">
+                  Education
+                  <div className="mt-1"><FieldSourceBadge source={resumeData.provenance?.education} /></div>
+                </dt>
                 <dd className="mt-1 text-sm text-gray-900 sm:mt-0 sm:col-span-2">
+                  {resumeData.provenance?.education === 'placeholder' ? (
+                    <span className="text-gray-500">No education found in your resume</span>
+                  ) : (
                   <ul className="divide-y divide-gray-200">
                     {resumeData.education?.map((edu: any, index: number) => (
                       <li key={index} className="py-2">
-                        <div className="font-medium">{edu.degree}</div>
+                        <div className="font-medium">{edu.degree}{edu.field ? ` in ${edu.field}` : ''}</div>
                         <div>{edu.institution}</div>
-                        <div className="text-gray-500">{edu.date}</div>
+                        <div className="text-gray-500">{edu.date || edu.dates}</div>
                       </li>
                     )) || 'No education extracted'}
                   </ul>
+                  )}
                 </dd>
               </div>
+              {resumeData.provenance?.score !== 'placeholder' && (
               <div className="bg-white px-4 py-5 sm:grid sm:grid-cols-3 sm:gap-4 sm:px-6">
-                <dt className="text-sm font-medium text-gray-500">Resume Score</dt>
+                <dt className="text-sm font-medium text-gray-500">
+                  Resume Score
+                  <div className="mt-1"><FieldSourceBadge source={resumeData.provenance?.score} /></div>
+                </dt>
                 <dd className="mt-1 text-sm text-gray-900 sm:mt-0 sm:col-span-2">
                   <div className="flex items-center">
                     <span className="text-2xl font-bold mr-2">{resumeData.score || 0}/100</span>
@@ -368,6 +518,7 @@ export default function ResumeAnalyzer() {
                   </div>
                 </dd>
               </div>
+              )}
               <div className="bg-gray-50 px-4 py-5 sm:grid sm:grid-cols-3 sm:gap-4 sm:px-6">
                 <dt className="text-sm font-medium text-gray-500">Improvement Suggestions</dt>
                 <dd className="mt-1 text-sm text-gray-900 sm:mt-0 sm:col-span-2">
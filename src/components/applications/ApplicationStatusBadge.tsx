@@ -0,0 +1,15 @@
+import { getStatusColor, getStatusLabel } from '@/lib/applications/status';
+
+export function ApplicationStatusBadge({
+  status,
+  className = 'px-2 text-xs leading-5',
+}: {
+  status: string;
+  className?: string;
+}) {
+  return (
+    <span className={`inline-flex font-semibold rounded-full ${className} ${getStatusColor(status)}`}>
+      {getStatusLabel(status)}
+    </span>
+  );
+}
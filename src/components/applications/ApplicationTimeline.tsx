@@ -0,0 +1,103 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getStatusLabel } from '@/lib/applications/status';
+
+type ApplicationEvent = {
+  id: string;
+  type: 'CREATED' | 'STATUS_CHANGED' | 'FEEDBACK_UPDATED' | 'WITHDRAWN' | 'DELETED';
+  fromValue: string | null;
+  toValue: string | null;
+  createdAt: string;
+  actor: {
+    name: string | null;
+    role: string;
+  } | null;
+};
+
+function describeEvent(event: ApplicationEvent): string {
+  switch (event.type) {
+    case 'CREATED':
+      return 'Application submitted';
+    case 'STATUS_CHANGED':
+      return `Status changed from ${getStatusLabel(event.fromValue || '')} to ${getStatusLabel(event.toValue || '')}`;
+    case 'FEEDBACK_UPDATED':
+      return event.toValue ? 'Feedback updated' : 'Feedback removed';
+    case 'WITHDRAWN':
+      return 'Application withdrawn';
+    case 'DELETED':
+      return 'Application deleted';
+  }
+}
+
+function describeActor(actor: ApplicationEvent['actor']): string {
+  if (!actor) return 'Unknown user';
+  const role = actor.role === 'RECRUITER' ? 'Recruiter' : 'Candidate';
+  return actor.name ? `${actor.name} (${role})` : role;
+}
+
+/**
+ * Shows the audit trail of an application. Change `refreshKey` to reload it
+ * after the application was updated.
+ */
+export function ApplicationTimeline({
+  applicationId,
+  refreshKey,
+}: {
+  applicationId: string;
+  refreshKey?: string | number;
+}) {
+  const [events, setEvents] = useState<ApplicationEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchEvents = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/applications/${applicationId}/events`);
+        if (!response.ok) throw new Error('Failed to fetch application history');
+
+        const data = await response.json();
+        setEvents(data.events || []);
+      } catch (fetchError) {
+        console.error('Error fetching application history:', fetchError);
+        setError('Could not load the application history.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchEvents();
+  }, [applicationId, refreshKey]);
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading history...</p>;
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+
+  if (events.length === 0) {
+    return <p className="text-sm text-gray-500">No history recorded yet.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2">
+      {events.map((event) => (
+        <li key={event.id} className="mb-4 ml-4">
+          <div className="absolute w-3 h-3 bg-gray-300 rounded-full -left-1.5 mt-1.5 border border-white"></div>
+          <p className="text-sm font-medium text-gray-900">{describeEvent(event)}</p>
+          {event.type === 'FEEDBACK_UPDATED' && event.toValue && (
+            <p className="mt-1 text-sm text-gray-600 whitespace-pre-wrap">{event.toValue}</p>
+          )}
+          <p className="text-xs text-gray-500">
+            {describeActor(event.actor)} • {new Date(event.createdAt).toLocaleString()}
+          </p>
+        </li>
+      ))}
+    </ol>
+  );
+}
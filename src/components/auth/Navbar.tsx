@@ -3,6 +3,7 @@
 import { useSession, signOut } from 'next-auth/react';
 import Link from 'next/link';
 import { useState } from 'react';
+import { getDashboardPath } from '@/lib/auth/roles';
 
 export function Navbar() {
   const { data: session } = useSession();
@@ -49,11 +50,7 @@ export function Navbar() {
             {session ? (
               <div className="ml-3 relative flex items-center">
                 <Link
-                  href={
-                    session.user.role === 'RECRUITER'
-                      ? '/dashboard/recruiter'
-                      : '/dashboard/jobseeker'
-                  }
+                  href={getDashboardPath(session.user.role)}
                   className="text-gray-500 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium mr-2"
                 >
                   Dashboard
@@ -159,11 +156,7 @@ export function Navbar() {
           {session ? (
             <div className="space-y-1">
               <Link
-                href={
-                  session.user.role === 'RECRUITER'
-                    ? '/dashboard/recruiter'
-                    : '/dashboard/jobseeker'
-                }
+                href={getDashboardPath(session.user.role)}
                 className="border-transparent text-gray-500 hover:bg-gray-50 hover:border-gray-300 hover:text-gray-700 block pl-3 pr-4 py-2 border-l-4 text-base font-medium"
               >
                 Dashboard
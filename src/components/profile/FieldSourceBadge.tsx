@@ -0,0 +1,24 @@
+import { FIELD_SOURCE_LABELS, FieldSource } from '@/lib/resume/provenance';
+
+const SOURCE_COLORS: Record<FieldSource, string> = {
+  llm: 'bg-blue-100 text-blue-800',
+  heuristic: 'bg-yellow-100 text-yellow-800',
+  placeholder: 'bg-gray-100 text-gray-600',
+};
+
+export function FieldSourceBadge({
+  source,
+  className = 'px-2 text-xs leading-5',
+}: {
+  source: FieldSource | undefined;
+  className?: string;
+}) {
+  // Analyses made before provenance was recorded have none
+  if (!source) return null;
+
+  return (
+    <span className={`inline-flex font-semibold rounded-full ${className} ${SOURCE_COLORS[source]}`}>
+      {FIELD_SOURCE_LABELS[source]}
+    </span>
+  );
+}
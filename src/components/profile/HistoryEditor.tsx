@@ -0,0 +1,350 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { z } from 'zod';
+import { educationSchema, experienceSchema, toDateInputValue } from '@/lib/profile/history';
+
+type HistoryEntry = {
+  id: string;
+  startDate: string;
+  endDate: string | null;
+  current: boolean;
+  description: string | null;
+  [field: string]: string | boolean | null;
+};
+
+type HistoryField = {
+  name: string;
+  label: string;
+  placeholder?: string;
+};
+
+type HistoryEditorProps = {
+  title: string;
+  noun: string;
+  endpoint: string;
+  listKey: string;
+  itemKey: string;
+  fields: HistoryField[];
+  schema: z.ZodTypeAny;
+  describe: (entry: HistoryEntry) => { heading: string; subheading: string };
+};
+
+type FormState = {
+  values: Record<string, string>;
+  current: boolean;
+};
+
+const inputClassName =
+  'shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md';
+
+const formatMonth = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+
+function emptyForm(fields: HistoryField[]): FormState {
+  const values: Record<string, string> = { startDate: '', endDate: '', description: '' };
+  for (const field of fields) values[field.name] = '';
+  return { values, current: false };
+}
+
+function formFromEntry(entry: HistoryEntry, fields: HistoryField[]): FormState {
+  const values: Record<string, string> = {
+    startDate: toDateInputValue(entry.startDate),
+    endDate: toDateInputValue(entry.endDate),
+    description: entry.description || '',
+  };
+  for (const field of fields) values[field.name] = (entry[field.name] as string | null) || '';
+  return { values, current: entry.current };
+}
+
+function HistoryEditor({ title, noun, endpoint, listKey, itemKey, fields, schema, describe }: HistoryEditorProps) {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  // Id of the entry being edited, 'new' while adding one, null when the form is closed
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<FormState>(() => emptyForm(fields));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    fetchEntries();
+  }, [endpoint]);
+
+  const fetchEntries = async () => {
+    try {
+      const response = await fetch(endpoint);
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch ${listKey}`);
+      }
+
+      const data = await response.json();
+      setEntries(data[listKey]);
+    } catch (error) {
+      console.error(`Error fetching ${listKey}:`, error);
+      toast.error(`Failed to load your ${noun} history`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openForm = (entry?: HistoryEntry) => {
+    setEditingId(entry ? entry.id : 'new');
+    setForm(entry ? formFromEntry(entry, fields) : emptyForm(fields));
+    setErrors({});
+  };
+
+  const closeForm = () => {
+    setEditingId(null);
+    setErrors({});
+  };
+
+  const setValue = (name: string, value: string) => {
+    setForm((prev) => ({ ...prev, values: { ...prev.values, [name]: value } }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const payload: Record<string, string | boolean | null> = { current: form.current };
+    for (const [name, value] of Object.entries(form.values)) {
+      payload[name] = value.trim() || null;
+    }
+    if (form.current) payload.endDate = null;
+
+    // Validate with the same rules as the API before saving
+    const result = schema.safeParse(payload);
+    if (!result.success) {
+      const fieldErrors: Record<string, string> = {};
+      for (const issue of result.error.errors) {
+        const name = issue.path[0]?.toString();
+        if (name && !fieldErrors[name]) fieldErrors[name] = issue.message;
+      }
+      setErrors(fieldErrors);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const isNew = editingId === 'new';
+      const response = await fetch(isNew ? endpoint : `${endpoint}/${editingId}`, {
+        method: isNew ? 'POST' : 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payload),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to save ${noun}`);
+      }
+
+      const data = await response.json();
+      const saved: HistoryEntry = data[itemKey];
+      setEntries((prev) => (isNew ? [saved, ...prev] : prev.map((entry) => (entry.id === saved.id ? saved : entry))));
+      closeForm();
+      toast.success(`${title} saved`);
+    } catch (error) {
+      console.error(`Error saving ${noun}:`, error);
+      toast.error(`Failed to save ${noun}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (entry: HistoryEntry) => {
+    if (!confirm(`Delete this ${noun}?`)) return;
+
+    try {
+      const response = await fetch(`${endpoint}/${entry.id}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        throw new Error(`Failed to delete ${noun}`);
+      }
+
+      setEntries((prev) => prev.filter((item) => item.id !== entry.id));
+      if (editingId === entry.id) closeForm();
+      toast.success(`${title} deleted`);
+    } catch (error) {
+      console.error(`Error deleting ${noun}:`, error);
+      toast.error(`Failed to delete ${noun}`);
+    }
+  };
+
+  const renderForm = () => (
+    <form onSubmit={handleSubmit} className="border border-gray-200 rounded-md p-4 space-y-4 bg-gray-50">
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        {fields.map((field) => (
+          <div key={field.name}>
+            <label className="block text-sm font-medium text-gray-700">{field.label}</label>
+            <input
+              type="text"
+              value={form.values[field.name]}
+              onChange={(e) => setValue(field.name, e.target.value)}
+              placeholder={field.placeholder}
+              className={`mt-1 ${inputClassName}`}
+            />
+            {errors[field.name] && <p className="mt-1 text-sm text-red-600">{errors[field.name]}</p>}
+          </div>
+        ))}
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Start Date</label>
+          <input
+            type="date"
+            value={form.values.startDate}
+            onChange={(e) => setValue('startDate', e.target.value)}
+            className={`mt-1 ${inputClassName}`}
+          />
+          {errors.startDate && <p className="mt-1 text-sm text-red-600">{errors.startDate}</p>}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700">End Date</label>
+          <input
+            type="date"
+            value={form.current ? '' : form.values.endDate}
+            onChange={(e) => setValue('endDate', e.target.value)}
+            disabled={form.current}
+            className={`mt-1 ${inputClassName} disabled:bg-gray-100`}
+          />
+          <label className="mt-2 flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.current}
+              onChange={(e) => setForm((prev) => ({ ...prev, current: e.target.checked }))}
+              className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            I currently {noun === 'experience' ? 'work here' : 'study here'}
+          </label>
+          {errors.endDate && <p className="mt-1 text-sm text-red-600">{errors.endDate}</p>}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Description</label>
+        <textarea
+          rows={3}
+          value={form.values.description}
+          onChange={(e) => setValue('description', e.target.value)}
+          className={`mt-1 ${inputClassName}`}
+        />
+        {errors.description && <p className="mt-1 text-sm text-red-600">{errors.description}</p>}
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={closeForm}
+          className="px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 disabled:bg-blue-300"
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </form>
+  );
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-medium text-gray-900">{title}</h2>
+        {editingId === null && (
+          <button onClick={() => openForm()} className="text-sm text-blue-600 hover:text-blue-800">
+            + Add {noun}
+          </button>
+        )}
+      </div>
+
+      {editingId === 'new' && <div className="mb-4">{renderForm()}</div>}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : entries.length === 0 && editingId !== 'new' ? (
+        <p className="text-sm text-gray-500">No {noun} added yet.</p>
+      ) : (
+        <ul className="space-y-3">
+          {entries.map((entry) =>
+            editingId === entry.id ? (
+              <li key={entry.id}>{renderForm()}</li>
+            ) : (
+              <li key={entry.id} className="border border-gray-200 rounded-md p-4">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <p className="font-medium text-gray-900">{describe(entry).heading}</p>
+                    <p className="text-sm text-gray-600">{describe(entry).subheading}</p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {formatMonth(entry.startDate)} - {entry.current || !entry.endDate ? 'Present' : formatMonth(entry.endDate)}
+                    </p>
+                  </div>
+                  <div className="flex gap-3 text-sm">
+                    <button onClick={() => openForm(entry)} className="text-blue-600 hover:text-blue-800">
+                      Edit
+                    </button>
+                    <button onClick={() => handleDelete(entry)} className="text-red-600 hover:text-red-800">
+                      Delete
+                    </button>
+                  </div>
+                </div>
+                {entry.description && <p className="text-sm text-gray-700 mt-2 whitespace-pre-line">{entry.description}</p>}
+              </li>
+            )
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Inline editor for the signed-in job seeker's work experience
+ */
+export function ExperienceEditor() {
+  return (
+    <HistoryEditor
+      title="Work Experience"
+      noun="experience"
+      endpoint="/api/profile/experiences"
+      listKey="experiences"
+      itemKey="experience"
+      fields={[
+        { name: 'position', label: 'Position', placeholder: 'e.g. Software Engineer' },
+        { name: 'company', label: 'Company' },
+      ]}
+      schema={experienceSchema}
+      describe={(entry) => ({ heading: entry.position as string, subheading: entry.company as string })}
+    />
+  );
+}
+
+/**
+ * Inline editor for the signed-in job seeker's education
+ */
+export function EducationEditor() {
+  return (
+    <HistoryEditor
+      title="Education"
+      noun="education"
+      endpoint="/api/profile/educations"
+      listKey="educations"
+      itemKey="education"
+      fields={[
+        { name: 'institution', label: 'Institution' },
+        { name: 'degree', label: 'Degree', placeholder: 'e.g. BSc' },
+        { name: 'field', label: 'Field of Study' },
+      ]}
+      schema={educationSchema}
+      describe={(entry) => ({
+        heading: entry.institution as string,
+        subheading: [entry.degree, entry.field].filter(Boolean).join(', '),
+      })}
+    />
+  );
+}
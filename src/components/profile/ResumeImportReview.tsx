@@ -0,0 +1,297 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { z } from 'zod';
+import { educationSchema, experienceSchema, toDateInputValue } from '@/lib/profile/history';
+
+type Proposal = {
+  id: string;
+  dates: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  current: boolean;
+  [field: string]: string | boolean | null;
+};
+
+type ProposalKind = {
+  noun: string;
+  endpoint: string;
+  schema: z.ZodTypeAny;
+  fields: Array<{ name: string; label: string }>;
+};
+
+const EXPERIENCE: ProposalKind = {
+  noun: 'experience',
+  endpoint: '/api/resume/import/experiences',
+  schema: experienceSchema,
+  fields: [
+    { name: 'position', label: 'Position' },
+    { name: 'company', label: 'Company' },
+    { name: 'description', label: 'Description' },
+  ],
+};
+
+const EDUCATION: ProposalKind = {
+  noun: 'education',
+  endpoint: '/api/resume/import/educations',
+  schema: educationSchema,
+  fields: [
+    { name: 'institution', label: 'Institution' },
+    { name: 'degree', label: 'Degree' },
+    { name: 'field', label: 'Field of Study' },
+  ],
+};
+
+const inputClassName =
+  'shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md';
+
+function ProposalRow({
+  proposal,
+  kind,
+  onDone,
+}: {
+  proposal: Proposal;
+  kind: ProposalKind;
+  onDone: (id: string) => void;
+}) {
+  const [values, setValues] = useState<Record<string, string>>(() => {
+    const initial: Record<string, string> = {
+      startDate: toDateInputValue(proposal.startDate),
+      endDate: toDateInputValue(proposal.endDate),
+    };
+    for (const field of kind.fields) initial[field.name] = (proposal[field.name] as string | null) || '';
+    return initial;
+  });
+  const [current, setCurrent] = useState(proposal.current);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const setValue = (name: string, value: string) => {
+    setValues((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleConfirm = async () => {
+    const payload: Record<string, string | boolean | null> = { current };
+    for (const [name, value] of Object.entries(values)) {
+      payload[name] = value.trim() || null;
+    }
+    if (current) payload.endDate = null;
+
+    const result = kind.schema.safeParse(payload);
+    if (!result.success) {
+      const fieldErrors: Record<string, string> = {};
+      for (const issue of result.error.errors) {
+        const name = issue.path[0]?.toString();
+        if (name && !fieldErrors[name]) fieldErrors[name] = issue.message;
+      }
+      setErrors(fieldErrors);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`${kind.endpoint}/${proposal.id}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payload),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to import ${kind.noun}`);
+      }
+
+      toast.success('Added to your profile');
+      onDone(proposal.id);
+    } catch (error) {
+      console.error(`Error importing ${kind.noun}:`, error);
+      toast.error(`Failed to import ${kind.noun}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReject = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`${kind.endpoint}/${proposal.id}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        throw new Error(`Failed to reject ${kind.noun}`);
+      }
+
+      onDone(proposal.id);
+    } catch (error) {
+      console.error(`Error rejecting ${kind.noun}:`, error);
+      toast.error(`Failed to reject ${kind.noun}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <li className="border border-gray-200 rounded-md p-4 space-y-3">
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+        {kind.fields.map((field) => (
+          <div key={field.name} className={field.name === 'description' ? 'sm:col-span-2' : ''}>
+            <label className="block text-xs font-medium text-gray-500">{field.label}</label>
+            {field.name === 'description' ? (
+              <textarea
+                rows={3}
+                value={values[field.name]}
+                onChange={(e) => setValue(field.name, e.target.value)}
+                className={`mt-1 ${inputClassName}`}
+              />
+            ) : (
+              <input
+                type="text"
+                value={values[field.name]}
+                onChange={(e) => setValue(field.name, e.target.value)}
+                className={`mt-1 ${inputClassName}`}
+              />
+            )}
+            {errors[field.name] && <p className="mt-1 text-sm text-red-600">{errors[field.name]}</p>}
+          </div>
+        ))}
+
+        <div>
+          <label className="block text-xs font-medium text-gray-500">Start Date</label>
+          <input
+            type="date"
+            value={values.startDate}
+            onChange={(e) => setValue('startDate', e.target.value)}
+            className={`mt-1 ${inputClassName}`}
+          />
+          {errors.startDate && <p className="mt-1 text-sm text-red-600">{errors.startDate}</p>}
+        </div>
+
+        <div>
+          <label className="block text-xs font-medium text-gray-500">End Date</label>
+          <input
+            type="date"
+            value={current ? '' : values.endDate}
+            onChange={(e) => setValue('endDate', e.target.value)}
+            disabled={current}
+            className={`mt-1 ${inputClassName} disabled:bg-gray-100`}
+          />
+          <label className="mt-2 flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={current}
+              onChange={(e) => setCurrent(e.target.checked)}
+              className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            Current
+          </label>
+          {errors.endDate && <p className="mt-1 text-sm text-red-600">{errors.endDate}</p>}
+        </div>
+      </div>
+
+      <div className="flex justify-between items-center">
+        <span className="text-xs text-gray-500">
+          {proposal.dates ? `On your resume: ${proposal.dates}` : 'No dates found on your resume'}
+        </span>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={handleReject}
+            disabled={isSaving}
+            className="px-3 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            Reject
+          </button>
+          <button
+            type="button"
+            onClick={handleConfirm}
+            disabled={isSaving}
+            className="px-3 py-1.5 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 disabled:bg-blue-300"
+          >
+            {isSaving ? 'Saving...' : 'Add to Profile'}
+          </button>
+        </div>
+      </div>
+    </li>
+  );
+}
+
+/**
+ * Review list for the experience and education extracted from the job
+ * seeker's resume. Nothing is written to the profile until a row is confirmed.
+ */
+export function ResumeImportReview() {
+  const [experiences, setExperiences] = useState<Proposal[]>([]);
+  const [educations, setEducations] = useState<Proposal[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    fetchProposals();
+  }, []);
+
+  const fetchProposals = async () => {
+    try {
+      const response = await fetch('/api/resume/import');
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch extracted history');
+      }
+
+      const data = await response.json();
+      setExperiences(data.experiences);
+      setEducations(data.educations);
+    } catch (error) {
+      console.error('Error fetching extracted history:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (isLoading || (experiences.length === 0 && educations.length === 0)) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white shadow sm:rounded-lg mb-10">
+      <div className="px-4 py-5 sm:px-6">
+        <h3 className="text-lg leading-6 font-medium text-gray-900">Review Extracted History</h3>
+        <p className="mt-1 max-w-2xl text-sm text-gray-500">
+          We found these entries on your resume. Check and correct them, then add them to your profile.
+        </p>
+      </div>
+      <div className="border-t border-gray-200 px-4 py-5 sm:px-6 space-y-8">
+        {experiences.length > 0 && (
+          <div>
+            <h4 className="text-sm font-medium text-gray-900 mb-3">Work Experience</h4>
+            <ul className="space-y-3">
+              {experiences.map((proposal) => (
+                <ProposalRow
+                  key={proposal.id}
+                  proposal={proposal}
+                  kind={EXPERIENCE}
+                  onDone={(id) => setExperiences((prev) => prev.filter((item) => item.id !== id))}
+                />
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {educations.length > 0 && (
+          <div>
+            <h4 className="text-sm font-medium text-gray-900 mb-3">Education</h4>
+            <ul className="space-y-3">
+              {educations.map((proposal) => (
+                <ProposalRow
+                  key={proposal.id}
+                  proposal={proposal}
+                  kind={EDUCATION}
+                  onDone={(id) => setEducations((prev) => prev.filter((item) => item.id !== id))}
+                />
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
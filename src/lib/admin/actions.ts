@@ -0,0 +1,29 @@
+/**
+ * Admin Actions
+ *
+ * The actions recorded in the admin audit log and how the console names them.
+ * Shared by the server and the pages; the values mirror the `AdminAction`
+ * enum in prisma/schema.prisma.
+ */
+
+export const ADMIN_ACTIONS = [
+  'USER_SUSPENDED',
+  'USER_REINSTATED',
+  'JOB_POSTING_DEACTIVATED',
+  'JOB_POSTING_REACTIVATED',
+  'SKILLS_MERGED',
+  'SKILL_RELATION_ADDED',
+  'SKILL_RELATION_REMOVED',
+] as const;
+
+export type AdminAction = typeof ADMIN_ACTIONS[number];
+
+export const ADMIN_ACTION_LABELS: Record<AdminAction, string> = {
+  USER_SUSPENDED: 'Suspended user',
+  USER_REINSTATED: 'Reinstated user',
+  JOB_POSTING_DEACTIVATED: 'Deactivated job posting',
+  JOB_POSTING_REACTIVATED: 'Reactivated job posting',
+  SKILLS_MERGED: 'Merged skills',
+  SKILL_RELATION_ADDED: 'Added skill relation',
+  SKILL_RELATION_REMOVED: 'Removed skill relation',
+};
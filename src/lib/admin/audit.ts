@@ -0,0 +1,84 @@
+/**
+ * Admin Audit Log
+ *
+ * Records every action taken in the admin console (suspensions, job posting
+ * moderation, skill merges and skill graph edits) and reads the log back.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { AdminAction } from './actions';
+
+// Either the shared client or a transaction client
+type PrismaClientLike = Prisma.TransactionClient | typeof prisma;
+
+export type AdminAuditTargetType = 'User' | 'JobPosting' | 'Skill' | 'SkillRelation';
+
+export interface AdminActionInput {
+  actorId: string;
+  action: AdminAction;
+  targetType: AdminAuditTargetType;
+  targetId: string;
+  details?: Prisma.InputJsonObject;
+}
+
+/**
+ * Record an admin action
+ * @param client Prisma client; pass the transaction client so the entry is
+ * written atomically with the change it describes
+ */
+export async function recordAdminAction(client: PrismaClientLike, entry: AdminActionInput) {
+  return await client.adminAuditLog.create({
+    data: {
+      actorId: entry.actorId,
+      action: entry.action,
+      targetType: entry.targetType,
+      targetId: entry.targetId,
+      details: entry.details,
+    },
+  });
+}
+
+/**
+ * Get a page of the audit log, newest first
+ * @param filters Only entries for this action or target
+ */
+export async function getAdminAuditLog(
+  filters: { action?: AdminAction; targetId?: string } = {},
+  { page = 1, limit = 50 } = {}
+) {
+  const where: Prisma.AdminAuditLogWhereInput = {
+    ...(filters.action && { action: filters.action }),
+    ...(filters.targetId && { targetId: filters.targetId }),
+  };
+
+  const [entries, total] = await Promise.all([
+    prisma.adminAuditLog.findMany({
+      where,
+      include: {
+        actor: {
+          select: {
+            name: true,
+            email: true,
+          },
+        },
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.adminAuditLog.count({ where }),
+  ]);
+
+  return {
+    entries,
+    pagination: {
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+}
@@ -0,0 +1,73 @@
+/**
+ * System Health
+ *
+ * The numbers behind the admin console's health panel: how deep the
+ * background job queue is, which jobs failed recently, and how often the LLM
+ * provider failed.
+ */
+
+import { BackgroundJobStatus } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { getLlmProvider } from '@/lib/llm';
+
+// Recent failures listed in the panel
+const RECENT_FAILURE_LIMIT = 10;
+
+const HOUR_MS = 1000 * 60 * 60;
+
+/**
+ * Collect the current health of the queue and the LLM provider
+ */
+export async function getSystemHealth() {
+  const now = Date.now();
+
+  const statusGroups = await prisma.backgroundJob.groupBy({
+    by: ['status'],
+    _count: { _all: true },
+  });
+  const queue = Object.fromEntries(
+    Object.values(BackgroundJobStatus).map(status => [
+      status,
+      statusGroups.find(group => group.status === status)?._count._all ?? 0,
+    ])
+  ) as Record<BackgroundJobStatus, number>;
+
+  // How long the longest-waiting due job has waited
+  const oldestDue = await prisma.backgroundJob.findFirst({
+    where: { status: BackgroundJobStatus.QUEUED, runAt: { lte: new Date(now) } },
+    orderBy: { runAt: 'asc' },
+    select: { runAt: true },
+  });
+
+  const failedJobs = await prisma.backgroundJob.findMany({
+    where: { status: BackgroundJobStatus.FAILED },
+    orderBy: { finishedAt: 'desc' },
+    take: RECENT_FAILURE_LIMIT,
+    select: { id: true, type: true, attempts: true, lastError: true, finishedAt: true },
+  });
+
+  const [llmFailuresLastDay, llmFailuresLastWeek, recentLlmFailures] = await Promise.all([
+    prisma.llmFailure.count({ where: { createdAt: { gte: new Date(now - 24 * HOUR_MS) } } }),
+    prisma.llmFailure.count({ where: { createdAt: { gte: new Date(now - 7 * 24 * HOUR_MS) } } }),
+    prisma.llmFailure.findMany({
+      orderBy: { createdAt: 'desc' },
+      take: RECENT_FAILURE_LIMIT,
+    }),
+  ]);
+
+  return {
+    queue: {
+      counts: queue,
+      oldestDueWaitMs: oldestDue ? now - oldestDue.runAt.getTime() : null,
+      failedJobs,
+    },
+    llm: {
+      provider: getLlmProvider()?.name ?? null,
+      failuresLastDay: llmFailuresLastDay,
+      failuresLastWeek: llmFailuresLastWeek,
+      recentFailures: recentLlmFailures,
+    },
+  };
+}
+
+export type SystemHealth = Awaited<ReturnType<typeof getSystemHealth>>;
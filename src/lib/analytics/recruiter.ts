@@ -0,0 +1,213 @@
+/**
+ * Recruiter Analytics
+ *
+ * Aggregates a recruiter's job postings, their views and the applications
+ * they received over a time range.
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import { APPLICATION_STATUSES, ApplicationStatus } from '@/lib/applications/status';
+import { getConversionRate, getJobViewCounts } from '@/lib/jobs/views';
+
+export const ANALYTICS_RANGES = [7, 30, 90] as const;
+
+export type AnalyticsRange = typeof ANALYTICS_RANGES[number];
+
+// Hiring pipeline in order; an application that reached a stage has passed all earlier ones
+const PIPELINE: ApplicationStatus[] = ['APPLIED', 'REVIEWING', 'INTERVIEWED', 'OFFERED'];
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Check whether a value is a supported range in days
+ */
+export function isAnalyticsRange(value: number): value is AnalyticsRange {
+  return (ANALYTICS_RANGES as readonly number[]).includes(value);
+}
+
+function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function toRate(count: number, total: number): number {
+  return total > 0 ? Math.round((count / total) * 100) : 0;
+}
+
+/**
+ * Build the analytics for one recruiter
+ * @param recruiterProfileId The recruiter whose jobs to aggregate
+ * @param days Number of days back from now to include applications for
+ */
+export async function getRecruiterAnalytics(recruiterProfileId: string, days: AnalyticsRange) {
+  const now = new Date();
+  const since = new Date(now.getTime() - (days - 1) * DAY_MS);
+  since.setUTCHours(0, 0, 0, 0);
+
+  const jobPostings = await prisma.jobPosting.findMany({
+    where: { recruiterProfileId },
+    select: {
+      id: true,
+      title: true,
+      isActive: true,
+      createdAt: true,
+    },
+    orderBy: {
+      createdAt: 'desc',
+    },
+  });
+
+  const applicationWhere = {
+    jobPosting: { recruiterProfileId },
+    appliedAt: { gte: since },
+  };
+
+  // Per-job application counts and match scores
+  const perJob = await prisma.application.groupBy({
+    by: ['jobPostingId'],
+    where: applicationWhere,
+    _count: { _all: true },
+    _avg: { matchScore: true },
+  });
+
+  // Status distribution
+  const perStatus = await prisma.application.groupBy({
+    by: ['status'],
+    where: applicationWhere,
+    _count: { _all: true },
+  });
+
+  const overall = await prisma.application.aggregate({
+    where: applicationWhere,
+    _count: { _all: true },
+    _avg: { matchScore: true },
+  });
+
+  const applications = await prisma.application.findMany({
+    where: applicationWhere,
+    select: {
+      id: true,
+      jobPostingId: true,
+      status: true,
+      appliedAt: true,
+    },
+  });
+
+  const jobIds = jobPostings.map(job => job.id);
+  const viewCounts = await getJobViewCounts(jobIds, since);
+
+  const viewsPerDay = await prisma.jobView.groupBy({
+    by: ['viewedOn'],
+    where: {
+      jobPostingId: { in: jobIds },
+      viewedOn: { gte: since },
+    },
+    _count: { _all: true },
+  });
+
+  // Statuses each application passed through, from the audit trail
+  const statusEvents = await prisma.applicationEvent.findMany({
+    where: {
+      applicationId: { in: applications.map(application => application.id) },
+      type: 'STATUS_CHANGED',
+    },
+    select: {
+      applicationId: true,
+      toValue: true,
+    },
+  });
+
+  const furthestStage = new Map<string, number>();
+  const advance = (applicationId: string, status: string | null) => {
+    const stage = PIPELINE.indexOf(status as ApplicationStatus);
+    if (stage > (furthestStage.get(applicationId) ?? 0)) {
+      furthestStage.set(applicationId, stage);
+    }
+  };
+
+  for (const application of applications) {
+    furthestStage.set(application.id, 0);
+    advance(application.id, application.status);
+  }
+  for (const event of statusEvents) {
+    advance(event.applicationId, event.toValue);
+  }
+
+  // Applications and views per day, including days without any
+  const perDay = new Map<string, { applications: number; views: number }>();
+  for (let i = 0; i < days; i++) {
+    perDay.set(toDateKey(new Date(since.getTime() + i * DAY_MS)), { applications: 0, views: 0 });
+  }
+  for (const application of applications) {
+    const day = perDay.get(toDateKey(application.appliedAt));
+    if (day) day.applications++;
+  }
+  for (const entry of viewsPerDay) {
+    const day = perDay.get(toDateKey(entry.viewedOn));
+    if (day) day.views = entry._count._all;
+  }
+
+  const offeredIds = new Set(
+    applications
+      .filter(application => (furthestStage.get(application.id) || 0) >= PIPELINE.indexOf('OFFERED'))
+      .map(application => application.id)
+  );
+
+  const totalApplications = overall._count._all;
+  const totalViews = Array.from(viewCounts.values()).reduce((sum, count) => sum + count, 0);
+
+  const jobs = jobPostings.map(job => {
+    const stats = perJob.find(entry => entry.jobPostingId === job.id);
+    const jobApplications = stats?._count._all || 0;
+    const views = viewCounts.get(job.id) || 0;
+    const offers = applications.filter(
+      application => application.jobPostingId === job.id && offeredIds.has(application.id)
+    ).length;
+
+    return {
+      id: job.id,
+      title: job.title,
+      isActive: job.isActive,
+      openDays: Math.max(Math.floor((now.getTime() - job.createdAt.getTime()) / DAY_MS), 0),
+      views,
+      applications: jobApplications,
+      conversionRate: getConversionRate(jobApplications, views),
+      averageMatchScore: Math.round(stats?._avg.matchScore || 0),
+      offers,
+      offerRate: toRate(offers, jobApplications),
+    };
+  });
+
+  return {
+    range: {
+      days,
+      since: since.toISOString(),
+    },
+    summary: {
+      totalJobs: jobPostings.length,
+      activeJobs: jobPostings.filter(job => job.isActive).length,
+      totalViews,
+      totalApplications,
+      conversionRate: getConversionRate(totalApplications, totalViews),
+      averageMatchScore: Math.round(overall._avg.matchScore || 0),
+      offers: offeredIds.size,
+      offerRate: toRate(offeredIds.size, totalApplications),
+    },
+    jobs,
+    statusDistribution: APPLICATION_STATUSES.map(status => ({
+      status,
+      count: perStatus.find(entry => entry.status === status)?._count._all || 0,
+    })),
+    funnel: PIPELINE.map((status, stage) => {
+      const count = applications.filter(application => (furthestStage.get(application.id) || 0) >= stage).length;
+      return {
+        status,
+        count,
+        rate: toRate(count, totalApplications),
+      };
+    }),
+    activityPerDay: Array.from(perDay.entries()).map(([date, counts]) => ({
+      date,
+      ...counts,
+    })),
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * Application Audit Trail
+ *
+ * Records every change made to an application (creation, status changes,
+ * feedback edits, withdrawal and deletion) and reads the timeline back.
+ */
+
+import { ApplicationEventType, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+
+// Either the shared client or a transaction client
+type PrismaClientLike = Prisma.TransactionClient | typeof prisma;
+
+export interface ApplicationEventInput {
+  applicationId: string;
+  type: ApplicationEventType;
+  actorId: string | null;
+  // Users of the candidate and of the recruiter who posted the job
+  candidateUserId: string;
+  recruiterUserId: string;
+  fromValue?: string | null;
+  toValue?: string | null;
+}
+
+/**
+ * Record a single change to an application
+ * @param client Prisma client; pass the transaction client so the event is
+ * written atomically with the change it describes
+ * @param event The change to record
+ */
+export async function recordApplicationEvent(client: PrismaClientLike, event: ApplicationEventInput) {
+  return await client.applicationEvent.create({
+    data: {
+      applicationId: event.applicationId,
+      type: event.type,
+      actorId: event.actorId,
+      candidateUserId: event.candidateUserId,
+      recruiterUserId: event.recruiterUserId,
+      fromValue: event.fromValue ?? null,
+      toValue: event.toValue ?? null,
+    },
+  });
+}
+
+/**
+ * Get the full history of an application, oldest first
+ * @param applicationId The application to get the timeline for
+ */
+export async function getApplicationTimeline(applicationId: string) {
+  return await prisma.applicationEvent.findMany({
+    where: { applicationId },
+    include: {
+      actor: {
+        select: {
+          name: true,
+          role: true,
+        },
+      },
+    },
+    orderBy: {
+      createdAt: 'asc',
+    },
+  });
+}
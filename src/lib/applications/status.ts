@@ -0,0 +1,113 @@
+/**
+ * Application Status State Machine
+ *
+ * Single source of truth for application statuses, who may move an
+ * application between them, and how each status is presented. Shared by the
+ * API routes and the dashboards, so it must stay free of server-only imports.
+ * The values mirror the `ApplicationStatus` enum in prisma/schema.prisma.
+ */
+
+export const APPLICATION_STATUSES = [
+  'APPLIED',
+  'REVIEWING',
+  'INTERVIEWED',
+  'OFFERED',
+  'REJECTED',
+  'WITHDRAWN',
+] as const;
+
+export type ApplicationStatus = typeof APPLICATION_STATUSES[number];
+
+export type ApplicationActorRole = 'RECRUITER' | 'JOBSEEKER';
+
+export const INITIAL_APPLICATION_STATUS: ApplicationStatus = 'APPLIED';
+
+// Allowed transitions per role: current status -> statuses it may move to
+const TRANSITIONS: Record<ApplicationActorRole, Partial<Record<ApplicationStatus, ApplicationStatus[]>>> = {
+  RECRUITER: {
+    APPLIED: ['REVIEWING', 'REJECTED'],
+    REVIEWING: ['INTERVIEWED', 'REJECTED'],
+    INTERVIEWED: ['OFFERED', 'REJECTED'],
+    OFFERED: ['REJECTED'],
+  },
+  JOBSEEKER: {
+    APPLIED: ['WITHDRAWN'],
+    REVIEWING: ['WITHDRAWN'],
+    INTERVIEWED: ['WITHDRAWN'],
+    OFFERED: ['WITHDRAWN'],
+  },
+};
+
+export const APPLICATION_STATUS_LABELS: Record<ApplicationStatus, string> = {
+  APPLIED: 'Applied',
+  REVIEWING: 'Reviewing',
+  INTERVIEWED: 'Interviewed',
+  OFFERED: 'Offered',
+  REJECTED: 'Rejected',
+  WITHDRAWN: 'Withdrawn',
+};
+
+// Label for the button that moves an application into a status
+export const APPLICATION_STATUS_ACTIONS: Record<ApplicationStatus, string> = {
+  APPLIED: 'Mark as Applied',
+  REVIEWING: 'Start Review',
+  INTERVIEWED: 'Mark Interviewed',
+  OFFERED: 'Make Offer',
+  REJECTED: 'Reject',
+  WITHDRAWN: 'Withdraw',
+};
+
+// Tailwind classes for status badges
+export const APPLICATION_STATUS_COLORS: Record<ApplicationStatus, string> = {
+  APPLIED: 'bg-blue-100 text-blue-800',
+  REVIEWING: 'bg-yellow-100 text-yellow-800',
+  INTERVIEWED: 'bg-purple-100 text-purple-800',
+  OFFERED: 'bg-green-100 text-green-800',
+  REJECTED: 'bg-red-100 text-red-800',
+  WITHDRAWN: 'bg-gray-100 text-gray-800',
+};
+
+/**
+ * Check whether a value is a known application status
+ */
+export function isApplicationStatus(value: unknown): value is ApplicationStatus {
+  return typeof value === 'string' && (APPLICATION_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Statuses a user with the given role may move an application to
+ * @param role The acting user's role
+ * @param from The application's current status
+ */
+export function getAllowedTransitions(role: string, from: string): ApplicationStatus[] {
+  if (role !== 'RECRUITER' && role !== 'JOBSEEKER') {
+    return [];
+  }
+
+  if (!isApplicationStatus(from)) {
+    return [];
+  }
+
+  return TRANSITIONS[role][from] || [];
+}
+
+/**
+ * Check whether a user with the given role may move an application between two statuses
+ */
+export function canTransition(role: string, from: string, to: string): boolean {
+  return isApplicationStatus(to) && getAllowedTransitions(role, from).includes(to);
+}
+
+/**
+ * Human readable label for a status, tolerating unknown values
+ */
+export function getStatusLabel(status: string): string {
+  return isApplicationStatus(status) ? APPLICATION_STATUS_LABELS[status] : status;
+}
+
+/**
+ * Badge classes for a status, tolerating unknown values
+ */
+export function getStatusColor(status: string): string {
+  return isApplicationStatus(status) ? APPLICATION_STATUS_COLORS[status] : 'bg-gray-100 text-gray-800';
+}
@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  canAccessApplication,
+  candidateOwnsApplication,
+  recruiterOwnsApplication,
+  isApplicationParticipant,
+  recruiterOwnsJob,
+} from '@/lib/auth/policies';
+
+const recruiter = { id: 'recruiter-1', email: 'recruiter@example.com', role: 'RECRUITER' };
+const otherRecruiter = { id: 'recruiter-2', email: 'other@example.com', role: 'RECRUITER' };
+const candidate = { id: 'seeker-1', email: 'seeker@example.com', role: 'JOBSEEKER' };
+const admin = { id: 'admin-1', email: 'admin@example.com', role: 'ADMIN' };
+
+const job = { recruiterProfile: { userId: 'recruiter-1' } };
+const application = { jobPosting: job, jobSeekerProfile: { userId: 'seeker-1' } };
+
+describe('recruiterOwnsJob', () => {
+  it('allows the recruiter who posted the job', () => {
+    assert.equal(recruiterOwnsJob(recruiter, job), true);
+  });
+
+  it('denies other recruiters', () => {
+    assert.equal(recruiterOwnsJob(otherRecruiter, job), false);
+  });
+
+  it('denies a user with the same id but another role', () => {
+    assert.equal(recruiterOwnsJob({ ...candidate, id: 'recruiter-1' }, job), false);
+  });
+});
+
+describe('application policies', () => {
+  it('lets the candidate and the recruiter access the application', () => {
+    assert.equal(candidateOwnsApplication(candidate, application), true);
+    assert.equal(recruiterOwnsApplication(recruiter, application), true);
+    assert.equal(canAccessApplication(candidate, application), true);
+    assert.equal(canAccessApplication(recruiter, application), true);
+  });
+
+  it('does not treat the recruiter as the candidate or the other way round', () => {
+    assert.equal(candidateOwnsApplication(recruiter, application), false);
+    assert.equal(recruiterOwnsApplication(candidate, application), false);
+  });
+
+  it('denies everyone else', () => {
+    assert.equal(canAccessApplication(otherRecruiter, application), false);
+    assert.equal(canAccessApplication({ ...candidate, id: 'seeker-2' }, application), false);
+    assert.equal(canAccessApplication(admin, application), false);
+  });
+});
+
+describe('isApplicationParticipant', () => {
+  const participants = { candidateUserId: 'seeker-1', recruiterUserId: 'recruiter-1' };
+
+  it('lets the candidate and the recruiter recorded on the audit trail in', () => {
+    assert.equal(isApplicationParticipant(candidate, participants), true);
+    assert.equal(isApplicationParticipant(recruiter, participants), true);
+  });
+
+  it('denies everyone else, and participants missing from older events', () => {
+    assert.equal(isApplicationParticipant(otherRecruiter, participants), false);
+    assert.equal(isApplicationParticipant(admin, participants), false);
+    assert.equal(isApplicationParticipant(recruiter, { ...participants, recruiterUserId: null }), false);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Resource Policies
+ *
+ * Decide whether an authenticated user may act on a particular job posting,
+ * application or resume. Routes load the resource first (with the profile
+ * relations below) and answer 403 when the policy denies access.
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import { AuthUser } from './with-auth';
+
+// The part of a job posting the policies look at
+export interface OwnedJob {
+  recruiterProfile: { userId: string };
+}
+
+// The part of an application the policies look at
+export interface OwnedApplication {
+  jobSeekerProfile: { userId: string };
+  jobPosting: OwnedJob;
+}
+
+/**
+ * Whether the user is the recruiter who posted the job
+ */
+export function recruiterOwnsJob(user: AuthUser, job: OwnedJob): boolean {
+  return user.role === 'RECRUITER' && job.recruiterProfile.userId === user.id;
+}
+
+/**
+ * Whether the user is the recruiter who received the application
+ */
+export function recruiterOwnsApplication(user: AuthUser, application: OwnedApplication): boolean {
+  return recruiterOwnsJob(user, application.jobPosting);
+}
+
+/**
+ * Whether the user is the candidate who submitted the application
+ */
+export function candidateOwnsApplication(user: AuthUser, application: OwnedApplication): boolean {
+  return user.role === 'JOBSEEKER' && application.jobSeekerProfile.userId === user.id;
+}
+
+/**
+ * Whether the user is either side of the application
+ */
+export function canAccessApplication(user: AuthUser, application: OwnedApplication): boolean {
+  return candidateOwnsApplication(user, application) || recruiterOwnsApplication(user, application);
+}
+
+// The participants recorded on an application's audit trail events
+export interface ApplicationParticipants {
+  candidateUserId: string | null;
+  recruiterUserId: string | null;
+}
+
+/**
+ * Whether the user took part in an application, judged from its audit trail
+ * so it also answers for applications that have been deleted
+ */
+export function isApplicationParticipant(user: AuthUser, participants: ApplicationParticipants): boolean {
+  return (user.role === 'JOBSEEKER' && participants.candidateUserId === user.id)
+    || (user.role === 'RECRUITER' && participants.recruiterUserId === user.id);
+}
+
+/**
+ * Whether the user may see a candidate's resume: the candidate themselves,
+ * or a recruiter the candidate applied to
+ */
+export async function canViewResume(user: AuthUser, profile: { id: string; userId: string }): Promise<boolean> {
+  if (profile.userId === user.id) {
+    return true;
+  }
+
+  if (user.role !== 'RECRUITER') {
+    return false;
+  }
+
+  const application = await prisma.application.findFirst({
+    where: {
+      jobSeekerProfileId: profile.id,
+      jobPosting: {
+        recruiterProfile: { userId: user.id },
+      },
+    },
+    select: { id: true },
+  });
+
+  return application !== null;
+}
@@ -0,0 +1,34 @@
+/**
+ * User Roles
+ *
+ * The values of `User.role` and where each role's dashboard lives. Shared by
+ * the server and the pages. Admins are never created through registration;
+ * the seed promotes the user named by `ADMIN_EMAIL`.
+ */
+
+export const USER_ROLES = ['JOBSEEKER', 'RECRUITER', 'ADMIN'] as const;
+
+export type UserRole = typeof USER_ROLES[number];
+
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  JOBSEEKER: 'Job Seeker',
+  RECRUITER: 'Recruiter',
+  ADMIN: 'Admin',
+};
+
+const DASHBOARD_PATHS: Record<UserRole, string> = {
+  JOBSEEKER: '/dashboard/jobseeker',
+  RECRUITER: '/dashboard/recruiter',
+  ADMIN: '/dashboard/admin',
+};
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (USER_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * The dashboard a user of the given role lands on
+ */
+export function getDashboardPath(role: string): string {
+  return isUserRole(role) ? DASHBOARD_PATHS[role] : DASHBOARD_PATHS.JOBSEEKER;
+}
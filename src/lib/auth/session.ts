@@ -1,6 +1,7 @@
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/api/auth/[...nextauth]/auth-options';
 import { redirect } from 'next/navigation';
+import { getDashboardPath } from './roles';
 
 export async function getSessionServer() {
   return await getServerSession(authOptions);
@@ -34,4 +35,14 @@ export async function requireJobSeekerRole() {
   }
   
   return session;
-} 
\ No newline at end of file
+}
+
+export async function requireAdminRole() {
+  const session = await requireAuth();
+  
+  if (session.user.role !== 'ADMIN') {
+    redirect(getDashboardPath(session.user.role));
+  }
+  
+  return session;
+}
@@ -0,0 +1,132 @@
+/**
+ * Route Authorization
+ *
+ * `withAuth` wraps an API route handler: it rejects requests without a
+ * session, from suspended accounts or from the wrong role, and loads the
+ * caller's recruiter or job seeker profile before the handler runs. Routes
+ * that are public but show more to some callers use `authorize` directly.
+ * Whether a caller may act on a particular resource is decided by the
+ * policies in ./policies.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession, Session } from 'next-auth';
+import { JobSeekerProfile, RecruiterProfile } from '@prisma/client';
+import { authOptions } from '@/app/api/auth/[...nextauth]/auth-options';
+import { prisma } from '@/lib/db/prisma';
+import { getOrCreateJobSeekerProfile } from '@/lib/db/user-service';
+import { UserRole } from './roles';
+
+export type AuthUser = Session['user'];
+
+export type AuthProfile = 'recruiterProfile' | 'jobSeekerProfile';
+
+export interface AuthOptions<L extends AuthProfile | undefined = undefined> {
+  // Roles allowed to call the route; any signed-in user when omitted
+  roles?: readonly UserRole[];
+  // Profile of the caller to load for the handler
+  load?: L;
+}
+
+type LoadedProfile<L> =
+  L extends 'recruiterProfile' ? { recruiterProfile: RecruiterProfile } :
+  L extends 'jobSeekerProfile' ? { jobSeekerProfile: JobSeekerProfile } :
+  unknown;
+
+export type AuthContext<L extends AuthProfile | undefined = undefined> = { user: AuthUser } & LoadedProfile<L>;
+
+export type AuthResult<L extends AuthProfile | undefined = undefined> =
+  | ({ success: true } & AuthContext<L>)
+  | { success: false; response: NextResponse };
+
+// Dynamic segments of the route, e.g. { id } for /api/jobs/[id]
+export type RouteParams = Record<string, string>;
+
+export type AuthenticatedHandler<L extends AuthProfile | undefined = undefined> = (
+  request: NextRequest,
+  context: AuthContext<L> & { params: RouteParams }
+) => Promise<Response>;
+
+function deny(status: 401 | 403 | 404, error: string): { success: false; response: NextResponse } {
+  return { success: false, response: NextResponse.json({ error }, { status }) };
+}
+
+/**
+ * Check the current session against the route's requirements. The role and
+ * suspension are read from the database, so changes apply to sessions that
+ * were signed in before them.
+ * @returns The caller and their profile, or the error response to send
+ */
+export async function authorize<L extends AuthProfile | undefined = undefined>(
+  options: AuthOptions<L> = {}
+): Promise<AuthResult<L>> {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user) {
+    return deny(401, 'Unauthorized');
+  }
+
+  const account = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: {
+      role: true,
+      suspendedAt: true,
+      recruiterProfile: options.load === 'recruiterProfile',
+    },
+  });
+
+  if (!account) {
+    return deny(401, 'Unauthorized');
+  }
+
+  if (account.suspendedAt) {
+    return deny(403, 'This account has been suspended');
+  }
+
+  const user: AuthUser = { ...session.user, role: account.role };
+
+  if (options.roles && !options.roles.includes(user.role as UserRole)) {
+    return deny(403, 'You do not have permission to access this resource');
+  }
+
+  if (options.load === 'recruiterProfile') {
+    if (!account.recruiterProfile) {
+      return deny(404, 'Recruiter profile not found');
+    }
+    return { success: true, user, recruiterProfile: account.recruiterProfile } as AuthResult<L>;
+  }
+
+  if (options.load === 'jobSeekerProfile') {
+    const jobSeekerProfile = await getOrCreateJobSeekerProfile(user.id);
+    return { success: true, user, jobSeekerProfile } as AuthResult<L>;
+  }
+
+  return { success: true, user } as AuthResult<L>;
+}
+
+/**
+ * Wrap a route handler so it only runs for authorized callers
+ * @param options Roles allowed and the profile to load
+ * @param handler The route handler; receives the caller, their profile and the route params
+ */
+export function withAuth<L extends AuthProfile | undefined = undefined>(
+  options: AuthOptions<L>,
+  handler: AuthenticatedHandler<L>
+) {
+  return async (request: NextRequest, { params }: { params: RouteParams }): Promise<Response> => {
+    let auth: AuthResult<L>;
+    try {
+      auth = await authorize(options);
+    } catch (error) {
+      console.error('[Auth] Error authorizing request:', error);
+      return NextResponse.json({ error: 'Failed to authorize request' }, { status: 500 });
+    }
+
+    if (!auth.success) {
+      return auth.response;
+    }
+
+    const { success, ...context } = auth;
+    return await handler(request, { ...(context as AuthContext<L>), params });
+  };
+}
@@ -66,4 +66,18 @@ export async function getUserById(id: string) {
       jobSeekerProfile: true,
     },
   });
-} 
\ No newline at end of file
+}
+
+export async function getOrCreateJobSeekerProfile(userId: string) {
+  const profile = await prisma.jobSeekerProfile.findUnique({
+    where: { userId },
+  });
+
+  if (profile) {
+    return profile;
+  }
+
+  return await prisma.jobSeekerProfile.create({
+    data: { userId },
+  });
+}
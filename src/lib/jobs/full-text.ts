@@ -0,0 +1,91 @@
+/**
+ * Job Full-Text Search
+ *
+ * Queries the PostgreSQL full-text index on job postings (the generated
+ * "searchVector" column over title, company, description and requirements)
+ * for relevance ranking and highlighted snippets.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+
+// Markers ts_headline puts around matched words; split out again before returning
+const HIGHLIGHT_START = '[[[';
+const HIGHLIGHT_END = ']]]';
+
+export interface SnippetPart {
+  text: string;
+  highlighted: boolean;
+}
+
+export interface TextMatch {
+  id: string;
+  rank: number;
+}
+
+/**
+ * Find active jobs matching a search text, most relevant first
+ * @param text The search as typed by the user; supports quotes, OR and -exclusions
+ */
+export async function findJobsMatchingText(text: string): Promise<TextMatch[]> {
+  const rows = await prisma.$queryRaw<Array<{ id: string; rank: number }>>`
+    SELECT "id", ts_rank_cd("searchVector", query)::float8 AS "rank"
+    FROM "JobPosting", websearch_to_tsquery('english', ${text}) AS query
+    WHERE "isActive" = true AND "searchVector" @@ query
+    ORDER BY "rank" DESC, "createdAt" DESC
+  `;
+
+  return rows.map(row => ({ id: row.id, rank: Number(row.rank) }));
+}
+
+function splitHighlights(headline: string): SnippetPart[] {
+  const parts: SnippetPart[] = [];
+  let rest = headline;
+
+  while (rest.length > 0) {
+    const start = rest.indexOf(HIGHLIGHT_START);
+    if (start === -1) {
+      parts.push({ text: rest, highlighted: false });
+      break;
+    }
+
+    const end = rest.indexOf(HIGHLIGHT_END, start);
+    if (end === -1) {
+      parts.push({ text: rest, highlighted: false });
+      break;
+    }
+
+    if (start > 0) {
+      parts.push({ text: rest.slice(0, start), highlighted: false });
+    }
+    parts.push({ text: rest.slice(start + HIGHLIGHT_START.length, end), highlighted: true });
+    rest = rest.slice(end + HIGHLIGHT_END.length);
+  }
+
+  return parts;
+}
+
+/**
+ * Build highlighted snippets of the description and requirements of jobs
+ * @param jobIds The jobs to build snippets for
+ * @param text The search text the snippets should highlight
+ * @returns Map of job id to snippet parts; matched words are `highlighted`
+ */
+export async function getJobSnippets(jobIds: string[], text: string): Promise<Map<string, SnippetPart[]>> {
+  if (jobIds.length === 0) return new Map();
+
+  const options = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "`;
+
+  const rows = await prisma.$queryRaw<Array<{ id: string; snippet: string }>>`
+    SELECT "id", ts_headline(
+      'english',
+      concat_ws(' ', "description", "requirements"),
+      websearch_to_tsquery('english', ${text}),
+      ${options}
+    ) AS "snippet"
+    FROM "JobPosting"
+    WHERE "id" IN (${Prisma.join(jobIds)})
+  `;
+
+  return new Map(rows.map(row => [row.id, splitHighlights(row.snippet)]));
+}
@@ -0,0 +1,57 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CandidateProfile, RecommendableJob, scoreJobForCandidate } from '@/lib/jobs/recommendations';
+
+function candidateWithResume(resumeText: string): CandidateProfile {
+  return { skills: [], experiences: [], educations: [], resumeText };
+}
+
+function jobRequiring(...skills: Array<{ id: string; name: string; aliases?: string[] }>): RecommendableJob {
+  return {
+    id: 'job-1',
+    title: 'Backend Engineer',
+    description: 'Build our services',
+    requirements: null,
+    requiredSkills: skills.map(skill => ({ required: true, minimumLevel: null, ...skill })),
+  };
+}
+
+describe('scoreJobForCandidate', () => {
+  it('finds multi-word skills in the resume text', () => {
+    const score = scoreJobForCandidate(
+      candidateWithResume('Designed a rest  api gateway; applied machine-learning to fraud'),
+      jobRequiring({ id: 'rest', name: 'REST API' }, { id: 'ml', name: 'Machine Learning' })
+    );
+
+    assert.deepEqual(score.matchedSkills, ['REST API', 'Machine Learning']);
+  });
+
+  it('finds skills written as one of their aliases', () => {
+    const score = scoreJobForCandidate(
+      candidateWithResume('Services in Golang on k8s, deployed through CI/CD'),
+      jobRequiring(
+        { id: 'go', name: 'Go', aliases: ['Golang'] },
+        { id: 'kubernetes', name: 'Kubernetes', aliases: ['k8s'] },
+        { id: 'cicd', name: 'CI/CD' }
+      )
+    );
+
+    assert.deepEqual(score.matchedSkills, ['Go', 'Kubernetes', 'CI/CD']);
+  });
+
+  it('finds skills written with punctuation or next to a slash', () => {
+    const score = scoreJobForCandidate(
+      candidateWithResume('Stack: Node.js, Java/Kotlin.'),
+      jobRequiring({ id: 'node', name: 'NodeJS' }, { id: 'kotlin', name: 'Kotlin' }, { id: 'rust', name: 'Rust' })
+    );
+
+    assert.deepEqual(score.matchedSkills, ['NodeJS', 'Kotlin']);
+    assert.deepEqual(score.missingSkills, ['Rust']);
+  });
+
+  it('does not match part of a longer word', () => {
+    const score = scoreJobForCandidate(candidateWithResume('Wrote JavaScript daily'), jobRequiring({ id: 'java', name: 'Java' }));
+
+    assert.deepEqual(score.missingSkills, ['Java']);
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Job Recommendation Engine
+ *
+ * Ranks active job postings against a job seeker's profile (skills, work
+ * history, education and parsed resume text) and returns a per-job score breakdown.
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import { CandidateSkill, matchSkills, RelatedSkillMatch, SkillGraph, SkillRequirement } from '@/lib/skills/match';
+import { loadSkillGraph } from '@/lib/skills/graph';
+import { normalizeSkillName } from '@/lib/skills/normalize';
+import { toJobSkill, toProfileSkill } from '@/lib/skills/proficiency';
+
+// Maximum points each component contributes to the total match score
+const WEIGHTS = {
+  skills: 50,
+  experience: 20,
+  education: 10,
+  resume: 20,
+};
+
+// Words that carry no signal when comparing resume text with job text
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have',
+  'in', 'is', 'it', 'of', 'on', 'or', 'our', 'the', 'to', 'we', 'will', 'with',
+  'you', 'your', 'who', 'this', 'that', 'work', 'team', 'experience', 'years',
+]);
+
+export interface CandidateProfile {
+  skills: Array<CandidateSkill & { name: string }>;
+  experiences: Array<{ startDate: Date | string; endDate: Date | string | null; position?: string }>;
+  educations: Array<{ degree: string; field?: string | null }>;
+  resumeText: string | null;
+}
+
+export interface RecommendableJob {
+  id: string;
+  title: string;
+  description: string;
+  requirements: string | null;
+  // With the other names of each skill, to find it in the resume text
+  requiredSkills: Array<SkillRequirement & { aliases?: string[] }>;
+}
+
+export interface ScoreBreakdown {
+  skills: number;
+  experience: number;
+  education: number;
+  resume: number;
+}
+
+export interface JobScore {
+  matchScore: number;
+  scoreBreakdown: ScoreBreakdown;
+  matchedSkills: string[];
+  // Skills the candidate lacks but has a parent, child or related skill of
+  relatedSkills: RelatedSkillMatch[];
+  missingSkills: string[];
+}
+
+export interface RecommendationOptions {
+  page?: number;
+  limit?: number;
+  includeApplied?: boolean;
+}
+
+/**
+ * Split text into a set of lower-cased keywords
+ * @param text Free text
+ * @returns Unique keywords with stop words removed
+ */
+function tokenize(text: string): Set<string> {
+  const tokens = text
+    .toLowerCase()
+    .split(/[^a-z0-9+#.]+/)
+    .map(token => token.replace(/^\.+|\.+$/g, ''))
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+
+  return new Set(tokens);
+}
+
+// Word separators for resume text, without and with slashes, so both "CI/CD" and "Java/Kotlin" are found
+const PHRASE_SEPARATORS = [/[\s,;:()[\]{}|]+/, /[\s,;:()[\]{}|/]+/];
+
+/**
+ * Keys of the phrases of up to the given number of words in a text, reduced by
+ * normalizeSkillName, so multi-word skills ("REST API", "Machine Learning")
+ * can be looked up
+ */
+function getPhraseKeys(text: string, maxWords: number): Set<string> {
+  const keys = new Set<string>();
+
+  for (const separator of PHRASE_SEPARATORS) {
+    const words = text.split(separator).filter(Boolean);
+    for (let start = 0; start < words.length; start++) {
+      for (let end = start + 1; end <= Math.min(start + maxWords, words.length); end++) {
+        const key = normalizeSkillName(words.slice(start, end).join(' '));
+        if (key) keys.add(key);
+      }
+    }
+  }
+
+  return keys;
+}
+
+/**
+ * Total years of work experience across all entries
+ */
+function calculateExperienceYears(experiences: CandidateProfile['experiences']): number {
+  return experiences.reduce((total, exp) => {
+    const startDate = new Date(exp.startDate);
+    const endDate = exp.endDate ? new Date(exp.endDate) : new Date();
+    const years = (endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24 * 365);
+    return total + Math.max(years, 0);
+  }, 0);
+}
+
+/**
+ * Score a single job posting against a candidate profile
+ * @param candidate The candidate's skills, history and resume text
+ * @param job The job posting with its required skills
+ * @param graph Neighbors of the job's skills in the skill graph
+ * @returns Total score (0-100) and the contribution of each component
+ */
+export function scoreJobForCandidate(candidate: CandidateProfile, job: RecommendableJob, graph: SkillGraph = new Map()): JobScore {
+  const resumeTokens = tokenize(candidate.resumeText || '');
+
+  // Skills: the weighted share of the job's skills the candidate has at the
+  // level asked for, or a neighbor of in the skill graph. A skill only
+  // mentioned in the resume text, by its name or an alias, counts with an unknown level.
+  const profileSkillIds = new Set(candidate.skills.map(skill => skill.id));
+  const skillNames = job.requiredSkills.map(skill => [skill.name, ...(skill.aliases || [])]);
+  const resumePhrases = getPhraseKeys(
+    candidate.resumeText || '',
+    Math.max(1, ...skillNames.flat().map(name => name.trim().split(/\s+/).length))
+  );
+  const resumeSkills: CandidateSkill[] = job.requiredSkills
+    .filter((skill, index) =>
+      !profileSkillIds.has(skill.id) && skillNames[index].some(name => resumePhrases.has(normalizeSkillName(name)))
+    )
+    .map(skill => ({ id: skill.id, level: null, yearsOfExperience: null }));
+
+  const skillMatch = matchSkills([...candidate.skills, ...resumeSkills], job.requiredSkills, graph);
+  const matchedSkills = skillMatch?.matchedSkills ?? [];
+  const relatedSkills = skillMatch?.relatedSkills ?? [];
+  const missingSkills = skillMatch?.missingSkills ?? [];
+
+  const skillsScore = skillMatch
+    ? skillMatch.score * WEIGHTS.skills
+    : Math.min(candidate.skills.length * 2, WEIGHTS.skills / 2);
+
+  // Experience: 4 points per year, with a bonus when a previous position
+  // shares words with the job title
+  const titleTokens = tokenize(job.title);
+  const hasRelatedPosition = candidate.experiences.some(exp =>
+    [...tokenize(exp.position || '')].some(token => titleTokens.has(token))
+  );
+  const experienceYears = calculateExperienceYears(candidate.experiences);
+  const experienceScore = Math.min(experienceYears * 4 + (hasRelatedPosition ? 5 : 0), WEIGHTS.experience);
+
+  // Education: any education counts, a field mentioned in the job counts fully
+  const jobTokens = tokenize(`${job.title} ${job.description} ${job.requirements || ''}`);
+  let educationScore = 0;
+  if (candidate.educations.length > 0) {
+    const hasRelatedField = candidate.educations.some(edu =>
+      [...tokenize(`${edu.degree} ${edu.field || ''}`)].some(token => jobTokens.has(token))
+    );
+    educationScore = hasRelatedField ? WEIGHTS.education : WEIGHTS.education / 2;
+  }
+
+  // Resume: keyword overlap between the resume text and the job posting
+  let resumeScore = 0;
+  if (resumeTokens.size > 0 && jobTokens.size > 0) {
+    let overlap = 0;
+    jobTokens.forEach(token => {
+      if (resumeTokens.has(token)) overlap++;
+    });
+    resumeScore = Math.min((overlap / Math.min(jobTokens.size, 40)) * WEIGHTS.resume, WEIGHTS.resume);
+  }
+
+  const scoreBreakdown: ScoreBreakdown = {
+    skills: Math.round(skillsScore),
+    experience: Math.round(experienceScore),
+    education: Math.round(educationScore),
+    resume: Math.round(resumeScore),
+  };
+
+  const matchScore = Math.min(
+    scoreBreakdown.skills + scoreBreakdown.experience + scoreBreakdown.education + scoreBreakdown.resume,
+    100
+  );
+
+  return { matchScore, scoreBreakdown, matchedSkills, relatedSkills, missingSkills };
+}
+
+/**
+ * Rank active job postings for a job seeker
+ * @param jobSeekerProfileId The job seeker profile to recommend jobs for
+ * @param options Pagination and filtering options
+ * @returns The requested page of ranked jobs and pagination info
+ */
+export async function getRecommendations(jobSeekerProfileId: string, options: RecommendationOptions = {}) {
+  const page = Math.max(options.page || 1, 1);
+  const limit = Math.max(options.limit || 10, 1);
+
+  const profile = await prisma.jobSeekerProfile.findUnique({
+    where: { id: jobSeekerProfileId },
+    include: {
+      skills: { include: { skill: true } },
+      experiences: true,
+      educations: true,
+      parsedResume: true,
+      applications: {
+        select: {
+          jobPostingId: true,
+        },
+      },
+    },
+  });
+
+  if (!profile) {
+    return null;
+  }
+
+  const candidate: CandidateProfile = {
+    skills: profile.skills.map(toProfileSkill),
+    experiences: profile.experiences,
+    educations: profile.educations,
+    resumeText: profile.parsedResume?.rawText || null,
+  };
+
+  const appliedJobIds = profile.applications.map(application => application.jobPostingId);
+
+  const jobPostings = await prisma.jobPosting.findMany({
+    where: {
+      isActive: true,
+      ...(!options.includeApplied && appliedJobIds.length > 0 && {
+        id: { notIn: appliedJobIds },
+      }),
+    },
+    include: {
+      skills: { include: { skill: { include: { aliases: { select: { name: true } } } } } },
+    },
+    orderBy: {
+      createdAt: 'desc',
+    },
+  });
+
+  const graph = await loadSkillGraph([
+    ...new Set(jobPostings.flatMap(job => job.skills.map(jobSkill => jobSkill.skillId))),
+  ]);
+
+  // Score every job, then sort by score (newest first on ties)
+  const ranked = jobPostings
+    .map(({ skills, ...job }) => {
+      const requiredSkills = skills.map(jobSkill => ({
+        ...toJobSkill(jobSkill),
+        aliases: jobSkill.skill.aliases.map(alias => alias.name),
+      }));
+      return {
+        ...job,
+        skills: skills.map(toJobSkill),
+        ...scoreJobForCandidate(candidate, { ...job, requiredSkills }, graph),
+      };
+    })
+    .sort((a, b) => b.matchScore - a.matchScore);
+
+  const total = ranked.length;
+  const skip = (page - 1) * limit;
+
+  return {
+    recommendations: ranked.slice(skip, skip + limit),
+    pagination: {
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+}
@@ -0,0 +1,85 @@
+/**
+ * Job Salaries
+ *
+ * Structured salary fields shared by the job forms, the API validators and
+ * the job pages, plus a formatter so salaries read the same everywhere.
+ */
+
+export const SALARY_PERIODS = ['HOURLY', 'MONTHLY', 'YEARLY'] as const;
+
+export type SalaryPeriod = typeof SALARY_PERIODS[number];
+
+export const SALARY_PERIOD_LABELS: Record<SalaryPeriod, string> = {
+  HOURLY: 'per hour',
+  MONTHLY: 'per month',
+  YEARLY: 'per year',
+};
+
+// Currencies offered in the job form; any ISO 4217 code is accepted by the API
+export const SALARY_CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'INR'];
+
+export const DEFAULT_SALARY_CURRENCY = 'USD';
+
+export const DEFAULT_SALARY_PERIOD: SalaryPeriod = 'YEARLY';
+
+export interface JobSalary {
+  salaryMin: number | null;
+  salaryMax: number | null;
+  currency: string;
+  period: SalaryPeriod;
+  // Free-text salary kept from before salaries were structured
+  salaryText?: string | null;
+}
+
+/**
+ * Check whether a value is a known salary period
+ */
+export function isSalaryPeriod(value: string): value is SalaryPeriod {
+  return (SALARY_PERIODS as readonly string[]).includes(value);
+}
+
+/**
+ * Check that the minimum salary is not above the maximum
+ */
+export function isValidSalaryRange(min: number | null | undefined, max: number | null | undefined): boolean {
+  return min === null || min === undefined || max === null || max === undefined || min <= max;
+}
+
+function formatAmount(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      maximumFractionDigits: 0,
+    }).format(amount);
+  } catch {
+    // Unknown currency code
+    return `${currency} ${amount.toLocaleString('en-US')}`;
+  }
+}
+
+/**
+ * Format a job's salary for display, e.g. "$80,000 - $100,000 per year".
+ * Without amounts, the legacy free-text salary (e.g. "Competitive") is shown.
+ * @param salary The job's salary fields
+ * @returns The formatted salary, or null if the job has no salary
+ */
+export function formatSalary(salary: JobSalary): string | null {
+  const { salaryMin, salaryMax, currency, period } = salary;
+  const suffix = SALARY_PERIOD_LABELS[period] || '';
+
+  let range: string;
+  if (salaryMin !== null && salaryMax !== null) {
+    range = salaryMin === salaryMax
+      ? formatAmount(salaryMin, currency)
+      : `${formatAmount(salaryMin, currency)} - ${formatAmount(salaryMax, currency)}`;
+  } else if (salaryMin !== null) {
+    range = `From ${formatAmount(salaryMin, currency)}`;
+  } else if (salaryMax !== null) {
+    range = `Up to ${formatAmount(salaryMax, currency)}`;
+  } else {
+    return salary.salaryText?.trim() || null;
+  }
+
+  return `${range} ${suffix}`.trim();
+}
@@ -0,0 +1,356 @@
+/**
+ * Faceted Job Search
+ *
+ * Filters active job postings by keyword, location, type, required skills,
+ * recency and salary, and counts how many jobs each filter value would return.
+ * Keyword searches use the full-text index and are ordered by relevance.
+ */
+
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '@/lib/db/prisma';
+import { DEFAULT_SALARY_PERIOD, SALARY_PERIODS, SalaryPeriod } from '@/lib/jobs/salary';
+import { findJobsMatchingText, getJobSnippets } from '@/lib/jobs/full-text';
+import { skillNamedWhere } from '@/lib/skills/catalog';
+import { toJobSkill } from '@/lib/skills/proficiency';
+
+// "Posted within" choices offered as facets, in days
+export const POSTED_WITHIN_OPTIONS = [1, 7, 30];
+
+// Salary buckets offered as facets for each salary period
+export const SALARY_BUCKETS: Record<SalaryPeriod, Array<{ min: number | null; max: number | null }>> = {
+  HOURLY: [
+    { min: null, max: 25 },
+    { min: 25, max: 50 },
+    { min: 50, max: 75 },
+    { min: 75, max: null },
+  ],
+  MONTHLY: [
+    { min: null, max: 4000 },
+    { min: 4000, max: 8000 },
+    { min: 8000, max: 12000 },
+    { min: 12000, max: null },
+  ],
+  YEARLY: [
+    { min: null, max: 50000 },
+    { min: 50000, max: 100000 },
+    { min: 100000, max: 150000 },
+    { min: 150000, max: null },
+  ],
+};
+
+// Maximum number of skills returned in the skills facet
+const MAX_SKILL_FACETS = 20;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Query string accepted by GET /api/jobs
+const jobSearchQuerySchema = z.object({
+  search: z.string().trim().optional(),
+  location: z.array(z.string().trim().min(1)),
+  type: z.array(z.string().trim().min(1)),
+  skill: z.array(z.string().trim().min(1)),
+  skill_match: z.enum(['any', 'all']).default('any'),
+  posted_within: z.coerce.number().int().positive().optional(),
+  salary_min: z.coerce.number().nonnegative().optional(),
+  salary_max: z.coerce.number().nonnegative().optional(),
+  salary_period: z.enum(SALARY_PERIODS).default(DEFAULT_SALARY_PERIOD),
+});
+
+export interface JobSearchFilters {
+  search: string | null;
+  locations: string[];
+  types: string[];
+  skills: string[];
+  skillMatch: 'any' | 'all';
+  postedWithinDays: number | null;
+  salaryMin: number | null;
+  salaryMax: number | null;
+  salaryPeriod: SalaryPeriod;
+}
+
+export interface FacetValue {
+  value: string;
+  count: number;
+}
+
+export interface JobSearchFacets {
+  locations: FacetValue[];
+  types: FacetValue[];
+  skills: FacetValue[];
+  postedWithin: Array<{ days: number; count: number }>;
+  salary: Array<{ min: number | null; max: number | null; count: number }>;
+}
+
+type FacetName = 'location' | 'type' | 'skills' | 'postedWithin' | 'salary';
+
+/**
+ * Read search filters from a query string
+ * @param searchParams The request's query string
+ * @returns The zod parse result; `data` holds the filters when it succeeded
+ */
+export function parseJobSearchParams(searchParams: URLSearchParams) {
+  const result = jobSearchQuerySchema.safeParse({
+    search: searchParams.get('search') || undefined,
+    location: searchParams.getAll('location'),
+    type: searchParams.getAll('type'),
+    skill: searchParams.getAll('skill'),
+    skill_match: searchParams.get('skill_match') || undefined,
+    posted_within: searchParams.get('posted_within') || undefined,
+    salary_min: searchParams.get('salary_min') || undefined,
+    salary_max: searchParams.get('salary_max') || undefined,
+    salary_period: searchParams.get('salary_period') || undefined,
+  });
+
+  if (!result.success) {
+    return { success: false as const, error: result.error };
+  }
+
+  const query = result.data;
+  const filters: JobSearchFilters = {
+    search: query.search || null,
+    locations: query.location,
+    types: query.type,
+    skills: query.skill,
+    skillMatch: query.skill_match,
+    postedWithinDays: query.posted_within ?? null,
+    salaryMin: query.salary_min ?? null,
+    salaryMax: query.salary_max ?? null,
+    salaryPeriod: query.salary_period,
+  };
+
+  return { success: true as const, data: filters };
+}
+
+/**
+ * Filter for jobs paid per `period` whose salary range overlaps [min, max].
+ * A job without a maximum ("From $90,000") is open-ended.
+ */
+function buildSalaryRangeWhere(
+  period: SalaryPeriod,
+  min: number | null,
+  max: number | null
+): Prisma.JobPostingWhereInput {
+  const conditions: Prisma.JobPostingWhereInput[] = [
+    { period },
+    { OR: [{ salaryMin: { not: null } }, { salaryMax: { not: null } }] },
+  ];
+
+  if (min !== null) {
+    conditions.push({ OR: [{ salaryMax: { gte: min } }, { salaryMax: null }] });
+  }
+
+  if (max !== null) {
+    conditions.push({ OR: [{ salaryMin: { lte: max } }, { salaryMin: null }] });
+  }
+
+  return { AND: conditions };
+}
+
+/**
+ * Build the Prisma filter for a search
+ * @param filters The search filters
+ * @param textMatchIds Jobs matching the keyword search, or null without one
+ * @param exclude Facet whose own filter is left out, so its counts show the alternatives
+ */
+function buildJobSearchWhere(
+  filters: JobSearchFilters,
+  textMatchIds: string[] | null,
+  exclude?: FacetName
+): Prisma.JobPostingWhereInput {
+  const conditions: Prisma.JobPostingWhereInput[] = [{ isActive: true }];
+
+  if (textMatchIds !== null) {
+    conditions.push({ id: { in: textMatchIds } });
+  }
+
+  if (exclude !== 'location' && filters.locations.length > 0) {
+    conditions.push({ location: { in: filters.locations } });
+  }
+
+  if (exclude !== 'type' && filters.types.length > 0) {
+    conditions.push({ type: { in: filters.types } });
+  }
+
+  if (exclude !== 'skills' && filters.skills.length > 0) {
+    if (filters.skillMatch === 'all') {
+      for (const name of filters.skills) {
+        conditions.push({ skills: { some: { skill: skillNamedWhere(name) } } });
+      }
+    } else {
+      conditions.push({ skills: { some: { skill: { OR: filters.skills.map(skillNamedWhere) } } } });
+    }
+  }
+
+  if (exclude !== 'postedWithin' && filters.postedWithinDays !== null) {
+    conditions.push({ createdAt: { gte: new Date(Date.now() - filters.postedWithinDays * DAY_MS) } });
+  }
+
+  if (exclude !== 'salary' && (filters.salaryMin !== null || filters.salaryMax !== null)) {
+    conditions.push(buildSalaryRangeWhere(filters.salaryPeriod, filters.salaryMin, filters.salaryMax));
+  }
+
+  return { AND: conditions };
+}
+
+function sortFacetValues(counts: Map<string, number>): FacetValue[] {
+  return Array.from(counts.entries())
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+async function getJobSearchFacets(filters: JobSearchFilters, textMatchIds: string[] | null): Promise<JobSearchFacets> {
+  const locationGroups = await prisma.jobPosting.groupBy({
+    by: ['location'],
+    where: buildJobSearchWhere(filters, textMatchIds, 'location'),
+    _count: { _all: true },
+  });
+
+  const typeGroups = await prisma.jobPosting.groupBy({
+    by: ['type'],
+    where: buildJobSearchWhere(filters, textMatchIds, 'type'),
+    _count: { _all: true },
+  });
+
+  // Skill names are unique up to normalization, so each row is one facet value
+  const skillWhere: Prisma.JobPostingSkillWhereInput = {
+    jobPosting: buildJobSearchWhere(filters, textMatchIds, 'skills'),
+  };
+  const skillRows = await prisma.skill.findMany({
+    where: { jobPostingSkills: { some: skillWhere } },
+    select: {
+      name: true,
+      _count: {
+        select: { jobPostingSkills: { where: skillWhere } },
+      },
+    },
+  });
+
+  const postedWithinWhere = buildJobSearchWhere(filters, textMatchIds, 'postedWithin');
+  const postedWithin = [];
+  for (const days of POSTED_WITHIN_OPTIONS) {
+    const count = await prisma.jobPosting.count({
+      where: {
+        AND: [postedWithinWhere, { createdAt: { gte: new Date(Date.now() - days * DAY_MS) } }],
+      },
+    });
+    postedWithin.push({ days, count });
+  }
+
+  const salaryWhere = buildJobSearchWhere(filters, textMatchIds, 'salary');
+  const salary = [];
+  for (const bucket of SALARY_BUCKETS[filters.salaryPeriod]) {
+    const count = await prisma.jobPosting.count({
+      where: {
+        AND: [salaryWhere, buildSalaryRangeWhere(filters.salaryPeriod, bucket.min, bucket.max)],
+      },
+    });
+    salary.push({ ...bucket, count });
+  }
+
+  return {
+    locations: sortFacetValues(
+      new Map(
+        locationGroups
+          .filter(group => group.location)
+          .map(group => [group.location as string, group._count._all])
+      )
+    ),
+    types: sortFacetValues(new Map(typeGroups.map(group => [group.type, group._count._all]))),
+    skills: sortFacetValues(
+      new Map(skillRows.map(skill => [skill.name, skill._count.jobPostingSkills]))
+    ).slice(0, MAX_SKILL_FACETS),
+    postedWithin,
+    salary,
+  };
+}
+
+const jobListingInclude = {
+  recruiterProfile: {
+    include: {
+      user: {
+        select: {
+          name: true,
+          email: true,
+        },
+      },
+    },
+  },
+  skills: { include: { skill: true } },
+} satisfies Prisma.JobPostingInclude;
+
+// A job posting as listed, with its skills flattened as `requiredSkills`
+function toJobListing<T extends { skills: Parameters<typeof toJobSkill>[0][] }, S>({ skills, ...job }: T, snippet: S) {
+  return { ...job, requiredSkills: skills.map(toJobSkill), snippet };
+}
+
+/**
+ * Search active job postings. With a keyword search, jobs are ordered by
+ * relevance and each has a `snippet` with the matched words highlighted.
+ * @param filters Parsed search filters
+ * @param options Pagination options
+ * @returns The page of jobs, pagination info and facet counts
+ */
+export async function searchJobs(filters: JobSearchFilters, { page = 1, limit = 10 } = {}) {
+  const textMatches = filters.search ? await findJobsMatchingText(filters.search) : null;
+  const textMatchIds = textMatches ? textMatches.map(match => match.id) : null;
+
+  const where = buildJobSearchWhere(filters, textMatchIds);
+  const facets = await getJobSearchFacets(filters, textMatchIds);
+
+  if (!filters.search || !textMatches) {
+    const jobs = await prisma.jobPosting.findMany({
+      where,
+      include: jobListingInclude,
+      orderBy: {
+        createdAt: 'desc',
+      },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    const total = await prisma.jobPosting.count({ where });
+
+    return {
+      jobs: jobs.map(job => toJobListing(job, null)),
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+      facets,
+    };
+  }
+
+  // Apply the other filters, then page through the matches in relevance order
+  const filtered = await prisma.jobPosting.findMany({
+    where,
+    select: { id: true },
+  });
+  const filteredIds = new Set(filtered.map(job => job.id));
+  const rankedIds = textMatches.filter(match => filteredIds.has(match.id)).map(match => match.id);
+  const pageIds = rankedIds.slice((page - 1) * limit, page * limit);
+
+  const pageJobs = await prisma.jobPosting.findMany({
+    where: { id: { in: pageIds } },
+    include: jobListingInclude,
+  });
+  const snippets = await getJobSnippets(pageIds, filters.search);
+
+  const jobs = pageIds
+    .map(id => pageJobs.find(job => job.id === id))
+    .filter((job): job is NonNullable<typeof job> => job !== undefined)
+    .map(job => toJobListing(job, snippets.get(job.id) || null));
+
+  return {
+    jobs,
+    pagination: {
+      total: rankedIds.length,
+      page,
+      limit,
+      totalPages: Math.ceil(rankedIds.length / limit),
+    },
+    facets,
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * Job View Tracking
+ *
+ * Records views of job detail pages, de-duplicated per visitor per day, and
+ * derives view-to-apply conversion from them.
+ */
+
+import { prisma } from '@/lib/db/prisma';
+
+// Cookie identifying anonymous visitors across requests
+export const VISITOR_COOKIE = 'job_visitor_id';
+
+/**
+ * Build the visitor id a view is recorded under
+ * @param userId The signed-in user, if any
+ * @param anonymousId The anonymous visitor cookie value
+ */
+export function getVisitorId(userId: string | null | undefined, anonymousId: string): string {
+  return userId ? `user:${userId}` : `anon:${anonymousId}`;
+}
+
+/**
+ * Record that a visitor viewed a job. Repeat views on the same (UTC) day are ignored.
+ * @param jobPostingId The job that was viewed
+ * @param visitorId Id from getVisitorId
+ */
+export async function recordJobView(jobPostingId: string, visitorId: string) {
+  const viewedOn = new Date(new Date().toISOString().slice(0, 10));
+
+  await prisma.jobView.createMany({
+    data: [{ jobPostingId, visitorId, viewedOn }],
+    skipDuplicates: true,
+  });
+}
+
+/**
+ * Count the views of several jobs
+ * @param jobPostingIds The jobs to count views for
+ * @param since Only count views on or after this day
+ * @returns Map of job id to view count; jobs without views are missing
+ */
+export async function getJobViewCounts(jobPostingIds: string[], since?: Date): Promise<Map<string, number>> {
+  const counts = await prisma.jobView.groupBy({
+    by: ['jobPostingId'],
+    where: {
+      jobPostingId: { in: jobPostingIds },
+      ...(since && { viewedOn: { gte: since } }),
+    },
+    _count: { _all: true },
+  });
+
+  return new Map(counts.map(entry => [entry.jobPostingId, entry._count._all]));
+}
+
+/**
+ * Percentage of views that turned into an application
+ * @param applications Number of applications
+ * @param views Number of views over the same period
+ */
+export function getConversionRate(applications: number, views: number): number {
+  return views > 0 ? Math.round((applications / views) * 100) : 0;
+}
@@ -0,0 +1,33 @@
+/**
+ * LLM Failure Log
+ *
+ * Stores failed LLM requests so the admin console can show how often the
+ * configured provider fails. Recording never throws: a failure to log must
+ * not hide the failure being logged.
+ */
+
+import { prisma } from '@/lib/db/prisma';
+
+// Longest error message stored
+const MAX_MESSAGE_LENGTH = 2000;
+
+/**
+ * Record a failed LLM request
+ * @param provider The provider's name, e.g. "openai"
+ * @param operation What the request was for, e.g. "resume.analyze"
+ */
+export async function recordLlmFailure(provider: string, operation: string, error: unknown): Promise<void> {
+  const message = error instanceof Error ? error.message : String(error);
+
+  try {
+    await prisma.llmFailure.create({
+      data: {
+        provider,
+        operation,
+        message: message.slice(0, MAX_MESSAGE_LENGTH),
+      },
+    });
+  } catch (logError) {
+    console.error('[LLM] Could not record the failure:', logError);
+  }
+}
@@ -0,0 +1,74 @@
+import { LlmGenerateOptions, LlmProvider } from './types';
+
+const GEMINI_API_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+const DEFAULT_GEMINI_MODEL = 'gemini-2.0-flash';
+
+export interface GeminiProviderConfig {
+  apiKey: string;
+  model?: string;
+  baseUrl?: string;
+}
+
+/**
+ * LLM provider backed by Google's Gemini generateContent API
+ */
+export class GeminiProvider implements LlmProvider {
+  readonly name = 'gemini';
+  private readonly url: string;
+
+  constructor(private readonly config: GeminiProviderConfig) {
+    const baseUrl = config.baseUrl || GEMINI_API_BASE_URL;
+    this.url = `${baseUrl}/${config.model || DEFAULT_GEMINI_MODEL}:generateContent`;
+  }
+
+  async generate(prompt: string, options: LlmGenerateOptions = {}): Promise<string> {
+    const requestBody = {
+      contents: [
+        {
+          parts: [
+            {
+              text: prompt
+            }
+          ]
+        }
+      ],
+      generationConfig: {
+        temperature: options.temperature ?? 0.2,
+        topK: 40,
+        topP: 0.95,
+        maxOutputTokens: options.maxOutputTokens ?? 8192,
+      }
+    };
+
+    const response = await fetch(`${this.url}?key=${this.config.apiKey}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(requestBody),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`[Gemini API] HTTP error ${response.status}: ${errorText}`);
+      throw new Error(`HTTP error ${response.status}: ${errorText}`);
+    }
+
+    const data = await response.json();
+
+    // Check if the response has the expected structure
+    if (!data.candidates || !data.candidates[0] || !data.candidates[0].content) {
+      console.error('[Gemini API] Unexpected response structure:', JSON.stringify(data));
+      throw new Error('Unexpected response structure from Gemini API');
+    }
+
+    const content = data.candidates[0].content;
+
+    if (!content.parts || !content.parts[0] || !content.parts[0].text) {
+      console.error('[Gemini API] Missing text in response:', JSON.stringify(content));
+      throw new Error('Missing text in Gemini API response');
+    }
+
+    return content.parts[0].text;
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * LLM provider selection
+ *
+ * The provider is chosen with the LLM_PROVIDER environment variable:
+ * - `gemini`: Google Gemini (GEMINI_API_KEY, optional GEMINI_MODEL)
+ * - `openai`: any OpenAI-compatible server (OPENAI_BASE_URL, OPENAI_API_KEY, OPENAI_MODEL)
+ * - `mock`: deterministic local responses, no network access
+ *
+ * When LLM_PROVIDER is unset, Gemini is used if GEMINI_API_KEY is present.
+ */
+
+import { GeminiProvider } from './gemini-provider';
+import { MockProvider } from './mock-provider';
+import { OpenAiProvider } from './openai-provider';
+import { LlmProvider } from './types';
+
+export type { LlmGenerateOptions, LlmProvider } from './types';
+export { GeminiProvider } from './gemini-provider';
+export { OpenAiProvider } from './openai-provider';
+export { MockProvider } from './mock-provider';
+export { parseModelJson } from './json';
+
+/**
+ * Build the provider described by the environment
+ * @returns The configured provider, or null when none is configured
+ */
+export function getLlmProvider(env: NodeJS.ProcessEnv = process.env): LlmProvider | null {
+  const providerName = (env.LLM_PROVIDER || (env.GEMINI_API_KEY ? 'gemini' : '')).toLowerCase();
+
+  switch (providerName) {
+    case 'gemini':
+      if (!env.GEMINI_API_KEY) {
+        console.error('[LLM] LLM_PROVIDER is gemini but GEMINI_API_KEY is not set');
+        return null;
+      }
+      return new GeminiProvider({
+        apiKey: env.GEMINI_API_KEY,
+        model: env.GEMINI_MODEL,
+      });
+    case 'openai':
+      return new OpenAiProvider({
+        apiKey: env.OPENAI_API_KEY,
+        model: env.OPENAI_MODEL,
+        baseUrl: env.OPENAI_BASE_URL,
+      });
+    case 'mock':
+      return new MockProvider();
+    case '':
+    case 'none':
+      return null;
+    default:
+      console.error(`[LLM] Unknown LLM_PROVIDER "${providerName}"`);
+      return null;
+  }
+}
+
+/**
+ * Run an LLM call with retry logic and exponential backoff
+ * @param provider The provider being called, used for logging
+ * @param operation The call to retry; it should throw on failure
+ */
+export async function withRetries<T>(
+  provider: LlmProvider,
+  operation: () => Promise<T>,
+  maxRetries = 3
+): Promise<T> {
+  let lastError: Error | null = null;
+
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    try {
+      console.log(`[LLM] Attempt ${attempt}/${maxRetries} to call ${provider.name}`);
+      return await operation();
+    } catch (error) {
+      lastError = error as Error;
+      console.error(`[LLM] Attempt ${attempt} failed:`, error);
+
+      // If this is not the last attempt, wait before retrying
+      if (attempt < maxRetries) {
+        const delay = Math.pow(2, attempt) * 1000; // Exponential backoff
+        console.log(`[LLM] Retrying in ${delay}ms...`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  // If we've exhausted all retries, throw the last error
+  console.error('[LLM] All retry attempts failed');
+  throw lastError || new Error(`Failed to get response from ${provider.name} after multiple attempts`);
+}
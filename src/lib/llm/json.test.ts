@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseModelJson } from '@/lib/llm/json';
+
+describe('parseModelJson', () => {
+  it('parses plain JSON', () => {
+    assert.deepEqual(parseModelJson('{"score": 80, "skills": ["SQL"]}'), { score: 80, skills: ['SQL'] });
+  });
+
+  it('reads the JSON inside a code fence', () => {
+    const text = 'Here is the analysis:\n```json\n{"summary": "Engineer"}\n```\nLet me know if you need more.';
+    assert.deepEqual(parseModelJson(text), { summary: 'Engineer' });
+  });
+
+  it('reads a fence that was never closed', () => {
+    assert.deepEqual(parseModelJson('```\n{"score": 10}'), { score: 10 });
+  });
+
+  it('ignores prose around the JSON', () => {
+    assert.deepEqual(parseModelJson('Sure! {"a": [1, 2]} Hope this helps {"b": 1}'), { a: [1, 2] });
+  });
+
+  it('drops trailing commas', () => {
+    assert.deepEqual(parseModelJson('{"skills": ["Go", "Rust",], "score": 5,}'), { skills: ['Go', 'Rust'], score: 5 });
+  });
+
+  it('keeps commas and brackets inside strings', () => {
+    assert.deepEqual(parseModelJson('{"summary": "Built {APIs}, [tools], and \\"more\\","}'), {
+      summary: 'Built {APIs}, [tools], and "more",',
+    });
+  });
+
+  it('closes a truncated object at the last complete member', () => {
+    const text = '{"skills": ["SQL", "Python"], "experience": [{"company": "Acme", "title": "Engin';
+    assert.deepEqual(parseModelJson(text), { skills: ['SQL', 'Python'], experience: [{ company: 'Acme' }] });
+  });
+
+  it('keeps a number that was complete before the cut', () => {
+    assert.deepEqual(parseModelJson('{"score": 72, "summary": "Sen'), { score: 72 });
+  });
+
+  it('parses a top-level array', () => {
+    assert.deepEqual(parseModelJson('[{"name": "SQL"}, {"name": "Go"},]'), [{ name: 'SQL' }, { name: 'Go' }]);
+  });
+
+  it('throws when there is no JSON', () => {
+    assert.throws(() => parseModelJson('I could not analyze this resume.'), /No JSON found/);
+  });
+});
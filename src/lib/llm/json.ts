@@ -0,0 +1,111 @@
+/**
+ * Tolerant JSON parsing for model output
+ *
+ * Models wrap JSON in markdown code fences, add prose around it, leave
+ * trailing commas, or stop mid-object when they hit their output limit.
+ * `parseModelJson` repairs what it can: it takes the first object or array
+ * in the text, drops trailing commas, and closes a truncated value at the
+ * last complete member.
+ */
+
+/**
+ * Parse the JSON object or array in a model's response
+ * @param text The raw response text
+ * @returns The parsed value
+ * @throws Error when the text holds no JSON that can be repaired
+ */
+export function parseModelJson(text: string): unknown {
+  const fenced = /```(?:json)?\s*([\s\S]*?)(?:```|$)/i.exec(text);
+  const candidates = fenced ? [fenced[1], text] : [text];
+
+  for (const candidate of candidates) {
+    const start = candidate.search(/[{[]/);
+    if (start === -1) continue;
+
+    try {
+      return JSON.parse(repairJson(candidate.slice(start)));
+    } catch {
+      // Try the next candidate
+    }
+  }
+
+  throw new Error('No JSON found in the model response');
+}
+
+// Where a truncated document can be cut, and the brackets that must then be closed
+interface CutPoint {
+  index: number;
+  closers: string;
+}
+
+/**
+ * Repair JSON that starts at the beginning of the text: drop what follows the
+ * top-level value and trailing commas, and close a truncated document
+ */
+function repairJson(text: string): string {
+  let output = '';
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let stringIsKey = false;
+  let expectingKey = false;
+  let lastCut: CutPoint | null = null;
+
+  const markCut = (): void => {
+    lastCut = { index: output.length, closers: stack.slice().reverse().join('') };
+  };
+
+  for (const char of text) {
+    if (inString) {
+      output += char;
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+        if (!stringIsKey) markCut();
+      }
+      continue;
+    }
+
+    switch (char) {
+      case '"':
+        inString = true;
+        stringIsKey = expectingKey;
+        expectingKey = false;
+        output += char;
+        break;
+      case '{':
+      case '[':
+        stack.push(char === '{' ? '}' : ']');
+        expectingKey = char === '{';
+        output += char;
+        markCut();
+        break;
+      case '}':
+      case ']':
+        // A trailing comma before the closing bracket
+        output = output.replace(/,\s*$/, '');
+        stack.pop();
+        output += char;
+        if (stack.length === 0) return output;
+        markCut();
+        break;
+      case ',':
+        // Numbers, booleans and null are complete once a comma follows them
+        if (!/[,[{:]\s*$/.test(output)) markCut();
+        expectingKey = stack[stack.length - 1] === '}';
+        output += char;
+        break;
+      default:
+        output += char;
+    }
+  }
+
+  const cut = lastCut as CutPoint | null;
+  if (!cut) return output;
+
+  // Truncated: keep the complete members and close the open brackets
+  return output.slice(0, cut.index).replace(/,\s*$/, '') + cut.closers;
+}
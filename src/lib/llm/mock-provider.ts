@@ -0,0 +1,35 @@
+import { LlmProvider } from './types';
+
+export type MockResponder = string | ((prompt: string) => string);
+
+// Canned response in the shape the resume analysis prompt asks for
+const DEFAULT_MOCK_RESPONSE = JSON.stringify({
+  contactInfo: {
+    name: 'Mock Candidate',
+    email: 'mock.candidate@example.com',
+    phone: '',
+    linkedin: '',
+    website: '',
+    location: '',
+  },
+  summary: 'Resume analyzed by the mock LLM provider.',
+  skills: ['JavaScript', 'TypeScript'],
+  experience: [],
+  education: [],
+  suggestions: ['Configure a real LLM provider for meaningful analysis'],
+  score: 50,
+});
+
+/**
+ * Deterministic provider for tests and offline development. It never touches
+ * the network and returns the same output for the same prompt.
+ */
+export class MockProvider implements LlmProvider {
+  readonly name = 'mock';
+
+  constructor(private readonly responder: MockResponder = DEFAULT_MOCK_RESPONSE) {}
+
+  async generate(prompt: string): Promise<string> {
+    return typeof this.responder === 'function' ? this.responder(prompt) : this.responder;
+  }
+}
@@ -0,0 +1,68 @@
+import { LlmGenerateOptions, LlmProvider } from './types';
+
+const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
+export interface OpenAiProviderConfig {
+  apiKey?: string;
+  model?: string;
+  baseUrl?: string;
+}
+
+/**
+ * LLM provider for any server implementing the OpenAI chat completions API.
+ * Point `baseUrl` at a local server (e.g. Ollama, llama.cpp or a test stub)
+ * to run analysis offline.
+ */
+export class OpenAiProvider implements LlmProvider {
+  readonly name = 'openai';
+  private readonly url: string;
+
+  constructor(private readonly config: OpenAiProviderConfig = {}) {
+    const baseUrl = (config.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+    this.url = `${baseUrl}/chat/completions`;
+  }
+
+  async generate(prompt: string, options: LlmGenerateOptions = {}): Promise<string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+
+    // Local servers usually don't need a key
+    if (this.config.apiKey) {
+      headers.Authorization = `Bearer ${this.config.apiKey}`;
+    }
+
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.config.model || DEFAULT_OPENAI_MODEL,
+        messages: [
+          {
+            role: 'user',
+            content: prompt,
+          },
+        ],
+        temperature: options.temperature ?? 0.2,
+        max_tokens: options.maxOutputTokens ?? 8192,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`[OpenAI API] HTTP error ${response.status}: ${errorText}`);
+      throw new Error(`HTTP error ${response.status}: ${errorText}`);
+    }
+
+    const data = await response.json();
+    const text = data.choices?.[0]?.message?.content;
+
+    if (typeof text !== 'string' || !text) {
+      console.error('[OpenAI API] Unexpected response structure:', JSON.stringify(data));
+      throw new Error('Unexpected response structure from OpenAI-compatible API');
+    }
+
+    return text;
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Shared types for LLM providers
+ */
+
+export interface LlmGenerateOptions {
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+/**
+ * A text-generation backend. Implementations take a prompt and return the raw
+ * text produced by the model; parsing that text is left to the caller.
+ */
+export interface LlmProvider {
+  readonly name: string;
+  generate(prompt: string, options?: LlmGenerateOptions): Promise<string>;
+}
@@ -0,0 +1,79 @@
+/**
+ * Work and Education History
+ *
+ * Validation shared by the profile editor and the experience/education API
+ * routes. Dates are ISO `YYYY-MM-DD` strings on the wire.
+ */
+
+import { z } from 'zod';
+
+interface HistoryDates {
+  startDate: string;
+  endDate?: string | null;
+  current: boolean;
+}
+
+const historyFields = {
+  startDate: z.string().date('Enter a valid start date'),
+  endDate: z.string().date('Enter a valid end date').nullable().optional(),
+  current: z.boolean(),
+  description: z.string().trim().max(2000, 'Description must be less than 2000 characters').nullable().optional(),
+};
+
+function todayIso(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+// Date ordering and the `current` flag
+function checkHistoryDates(data: HistoryDates, ctx: z.RefinementCtx) {
+  if (data.startDate > todayIso()) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['startDate'], message: 'Start date cannot be in the future' });
+  }
+
+  if (data.current && data.endDate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['endDate'], message: 'Leave the end date empty when this is current' });
+  }
+
+  if (!data.current && !data.endDate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['endDate'], message: 'Enter an end date or mark this as current' });
+  }
+
+  if (data.endDate && data.endDate < data.startDate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['endDate'], message: 'End date cannot be before the start date' });
+  }
+}
+
+export const experienceSchema = z.object({
+  company: z.string().trim().min(1, 'Company is required'),
+  position: z.string().trim().min(1, 'Position is required'),
+  ...historyFields,
+}).superRefine(checkHistoryDates);
+
+export const educationSchema = z.object({
+  institution: z.string().trim().min(1, 'Institution is required'),
+  degree: z.string().trim().min(1, 'Degree is required'),
+  field: z.string().trim().nullable().optional(),
+  ...historyFields,
+}).superRefine(checkHistoryDates);
+
+export type ExperienceInput = z.infer<typeof experienceSchema>;
+export type EducationInput = z.infer<typeof educationSchema>;
+
+/**
+ * Convert validated dates into the values stored in the database
+ */
+export function toHistoryDates(data: HistoryDates) {
+  return {
+    startDate: new Date(data.startDate),
+    endDate: data.current || !data.endDate ? null : new Date(data.endDate),
+    current: data.current,
+  };
+}
+
+/**
+ * Format a stored date for a date input
+ */
+export function toDateInputValue(date: string | Date | null | undefined): string {
+  if (!date) return '';
+  return new Date(date).toISOString().slice(0, 10);
+}
@@ -0,0 +1,99 @@
+/**
+ * Background Jobs
+ *
+ * Job handlers and the in-process worker. Enqueueing a job starts the worker
+ * right away; it drains the queue and schedules itself again for jobs waiting
+ * on a retry, so no separate worker process is needed.
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import { getResumeAnalysis } from '@/lib/resume/processing';
+import { enqueueJob, getNextRunAt, JobHandler, PermanentJobError, runQueuedJobs } from './queue';
+
+export { enqueueJob, getRetryDelay, PermanentJobError, runQueuedJobs } from './queue';
+export type { JobHandler } from './queue';
+
+export const RESUME_PROCESS_JOB = 'resume.process';
+
+type ResumeProcessPayload = {
+  jobSeekerProfileId: string;
+};
+
+const jobHandlers: Record<string, JobHandler> = {
+  // Extract and analyze an uploaded resume so the analyzer page can read the cached result
+  [RESUME_PROCESS_JOB]: async (payload) => {
+    const { jobSeekerProfileId } = payload as ResumeProcessPayload;
+    const analysis = await getResumeAnalysis(jobSeekerProfileId);
+
+    if (!analysis) {
+      throw new Error(`No resume found for profile ${jobSeekerProfileId}`);
+    }
+
+    if ('isFallback' in analysis && analysis.isFallback) {
+      // An unreadable file reads the same on every attempt
+      if (analysis.extractionFailure) {
+        throw new PermanentJobError(analysis.message);
+      }
+      throw new Error(analysis.message);
+    }
+  },
+};
+
+let draining: Promise<void> | null = null;
+let wakeUpTimer: NodeJS.Timeout | null = null;
+
+async function drainQueue() {
+  await runQueuedJobs(jobHandlers);
+
+  // Wake up again when the next retry is due
+  const nextRunAt = await getNextRunAt();
+  if (nextRunAt) {
+    if (wakeUpTimer) clearTimeout(wakeUpTimer);
+    wakeUpTimer = setTimeout(() => {
+      wakeUpTimer = null;
+      processQueuedJobs();
+    }, Math.max(nextRunAt.getTime() - Date.now(), 0));
+    wakeUpTimer.unref?.();
+  }
+}
+
+/**
+ * Start working the queue in the background unless this process already is.
+ * Returns immediately; errors are logged.
+ */
+export function processQueuedJobs() {
+  if (draining) return;
+
+  draining = drainQueue()
+    .catch(error => console.error('[Queue] Error processing jobs:', error))
+    .finally(() => {
+      draining = null;
+    });
+}
+
+/**
+ * Queue processing of a job seeker's newly uploaded resume and start the worker
+ * @param jobSeekerProfileId The job seeker's profile
+ * @returns The queued job
+ */
+export async function enqueueResumeProcessing(jobSeekerProfileId: string) {
+  const payload: ResumeProcessPayload = { jobSeekerProfileId };
+  const job = await enqueueJob(RESUME_PROCESS_JOB, payload);
+
+  processQueuedJobs();
+  return job;
+}
+
+/**
+ * Get the most recent resume processing job of a job seeker
+ * @param jobSeekerProfileId The job seeker's profile
+ */
+export async function getLatestResumeJob(jobSeekerProfileId: string) {
+  return await prisma.backgroundJob.findFirst({
+    where: {
+      type: RESUME_PROCESS_JOB,
+      payload: { path: ['jobSeekerProfileId'], equals: jobSeekerProfileId },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+}
@@ -0,0 +1,122 @@
+import { before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type * as Queue from '@/lib/queue/queue';
+
+interface FakeJob {
+  id: string;
+  type: string;
+  payload: unknown;
+  attempts: number;
+  maxAttempts: number;
+}
+
+// Jobs the next claims hand out, and the updates the queue writes back
+let claimable: FakeJob[] = [];
+let claimTimes: unknown[][] = [];
+let updates: Array<{ where: { id: string }; data: Record<string, unknown> }> = [];
+
+// The database, reduced to the calls the queue makes
+const fakePrisma = {
+  $queryRaw: async (_sql: TemplateStringsArray, ...values: unknown[]) => {
+    claimTimes.push(values);
+    const job = claimable.shift();
+    return job ? [{ ...job, attempts: job.attempts + 1 }] : [];
+  },
+  backgroundJob: {
+    update: async (args: { where: { id: string }; data: Record<string, unknown> }) => {
+      updates.push(args);
+      return args.data;
+    },
+  },
+};
+
+// The app's Prisma client reuses the one on `global`, so the queue loaded after this uses the fake
+(global as unknown as { prisma: unknown }).prisma = fakePrisma;
+
+let queue: typeof Queue;
+
+before(async () => {
+  queue = await import('@/lib/queue/queue');
+  // Failures are logged on purpose; keep the test output readable
+  mock.method(console, 'warn', () => {});
+  mock.method(console, 'error', () => {});
+  mock.method(console, 'log', () => {});
+});
+
+beforeEach(() => {
+  claimable = [];
+  claimTimes = [];
+  updates = [];
+});
+
+function job(overrides: Partial<FakeJob> = {}): FakeJob {
+  return { id: 'job-1', type: 'test.job', payload: {}, attempts: 0, maxAttempts: 3, ...overrides };
+}
+
+describe('getRetryDelay', () => {
+  it('waits 5 seconds after the first attempt and doubles after each further one', () => {
+    assert.deepEqual([1, 2, 3, 4].map(attempts => queue.getRetryDelay(attempts)), [5000, 10000, 20000, 40000]);
+  });
+
+  it('treats a job without attempts like one after the first', () => {
+    assert.equal(queue.getRetryDelay(0), 5000);
+  });
+});
+
+describe('runQueuedJobs', () => {
+  it('marks a job done when its handler succeeds', async () => {
+    claimable = [job()];
+    const handled: unknown[] = [];
+
+    const processed = await queue.runQueuedJobs({ 'test.job': async payload => { handled.push(payload); } });
+
+    assert.equal(processed, 1);
+    assert.equal(handled.length, 1);
+    assert.equal(updates[0].data.status, 'DONE');
+  });
+
+  it('queues a failed job again with a backoff while it has attempts left', async () => {
+    claimable = [job()];
+    const startedAt = Date.now();
+
+    await queue.runQueuedJobs({ 'test.job': async () => { throw new Error('Timed out'); } });
+
+    const { data } = updates[0];
+    assert.equal(data.status, 'QUEUED');
+    assert.equal(data.lastError, 'Timed out');
+    assert.ok((data.runAt as Date).getTime() >= startedAt + 5000);
+  });
+
+  it('fails a job for good after its last attempt', async () => {
+    claimable = [job({ attempts: 2 })];
+
+    await queue.runQueuedJobs({ 'test.job': async () => { throw new Error('Timed out'); } });
+
+    assert.equal(updates[0].data.status, 'FAILED');
+  });
+
+  it('fails a job at once when retrying cannot help', async () => {
+    claimable = [job()];
+
+    await queue.runQueuedJobs({ 'test.job': async () => { throw new queue.PermanentJobError('The resume is password protected'); } });
+
+    assert.equal(updates[0].data.status, 'FAILED');
+    assert.equal(updates[0].data.lastError, 'The resume is password protected');
+  });
+
+  it('fails jobs without a handler like any other error', async () => {
+    claimable = [job({ type: 'unknown.job' })];
+
+    await queue.runQueuedJobs({});
+
+    assert.equal(updates[0].data.status, 'QUEUED');
+    assert.match(updates[0].data.lastError as string, /No handler/);
+  });
+
+  it('claims with times from the application rather than the database clock', async () => {
+    await queue.runQueuedJobs({});
+
+    assert.ok(claimTimes[0].length > 0);
+    assert.ok(claimTimes[0].every(value => value instanceof Date));
+  });
+});
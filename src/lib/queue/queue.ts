@@ -0,0 +1,199 @@
+/**
+ * Background Job Queue
+ *
+ * A job queue stored in the BackgroundJob table. Jobs are claimed with
+ * `FOR UPDATE SKIP LOCKED`, so several server processes can work the queue
+ * without handing the same job to two of them.
+ */
+
+import { BackgroundJobStatus, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+
+export type JobHandler = (payload: Prisma.JsonValue) => Promise<void>;
+
+export interface ClaimedJob {
+  id: string;
+  type: string;
+  payload: Prisma.JsonValue;
+  attempts: number;
+  maxAttempts: number;
+}
+
+// Delay before the first retry; doubled for every further attempt
+const RETRY_BASE_DELAY_MS = 5000;
+
+// A running job whose worker has not finished it within this time is claimed again
+const STALE_LOCK_MS = 1000 * 60 * 10;
+
+/**
+ * Thrown by a handler when retrying the job cannot succeed; the job fails
+ * without using its remaining attempts
+ */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentJobError';
+  }
+}
+
+/**
+ * Delay before retrying a job that failed
+ * @param attempts Number of attempts made so far
+ */
+export function getRetryDelay(attempts: number): number {
+  return RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0);
+}
+
+/**
+ * Add a job to the queue
+ * @param type Name of the handler that processes the job
+ * @param payload Data passed to the handler
+ * @param options Attempts before the job fails, and the earliest time it may run
+ */
+export async function enqueueJob(
+  type: string,
+  payload: Prisma.InputJsonValue,
+  { maxAttempts = 3, runAt = new Date() }: { maxAttempts?: number; runAt?: Date } = {}
+) {
+  const job = await prisma.backgroundJob.create({
+    data: { type, payload, maxAttempts, runAt },
+  });
+
+  console.log(`[Queue] Enqueued ${type} job ${job.id}`);
+  return job;
+}
+
+/**
+ * Claim the next job that is due, marking it running
+ * @returns The claimed job, or null when no job is due
+ */
+async function claimNextJob(): Promise<ClaimedJob | null> {
+  // The columns hold UTC without a time zone, as Prisma writes them; the
+  // database's now() would follow its session time zone instead
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - STALE_LOCK_MS);
+
+  const rows = await prisma.$queryRaw<ClaimedJob[]>`
+    UPDATE "BackgroundJob"
+    SET "status" = 'RUNNING', "attempts" = "attempts" + 1, "lockedAt" = ${now}, "updatedAt" = ${now}
+    WHERE "id" = (
+      SELECT "id" FROM "BackgroundJob"
+      WHERE ("status" = 'QUEUED' AND "runAt" <= ${now})
+         OR ("status" = 'RUNNING' AND "lockedAt" < ${staleBefore})
+      ORDER BY "runAt"
+      FOR UPDATE SKIP LOCKED
+      LIMIT 1
+    )
+    RETURNING "id", "type", "payload", "attempts", "maxAttempts"
+  `;
+
+  return rows[0] || null;
+}
+
+async function completeJob(job: ClaimedJob) {
+  await prisma.backgroundJob.update({
+    where: { id: job.id },
+    data: {
+      status: BackgroundJobStatus.DONE,
+      lockedAt: null,
+      lastError: null,
+      finishedAt: new Date(),
+    },
+  });
+}
+
+async function failJob(job: ClaimedJob, error: unknown) {
+  const message = error instanceof Error ? error.message : String(error);
+  const permanent = error instanceof PermanentJobError;
+
+  if (!permanent && job.attempts < job.maxAttempts) {
+    const delay = getRetryDelay(job.attempts);
+    console.warn(`[Queue] ${job.type} job ${job.id} failed (attempt ${job.attempts}), retrying in ${delay}ms: ${message}`);
+
+    await prisma.backgroundJob.update({
+      where: { id: job.id },
+      data: {
+        status: BackgroundJobStatus.QUEUED,
+        runAt: new Date(Date.now() + delay),
+        lockedAt: null,
+        lastError: message,
+      },
+    });
+    return;
+  }
+
+  console.error(
+    permanent
+      ? `[Queue] ${job.type} job ${job.id} failed permanently: ${message}`
+      : `[Queue] ${job.type} job ${job.id} failed after ${job.attempts} attempts: ${message}`
+  );
+  await prisma.backgroundJob.update({
+    where: { id: job.id },
+    data: {
+      status: BackgroundJobStatus.FAILED,
+      lockedAt: null,
+      lastError: message,
+      finishedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Process due jobs one at a time until none are left
+ * @param handlers Handler for each job type
+ * @returns The number of jobs processed
+ */
+export async function runQueuedJobs(handlers: Record<string, JobHandler>): Promise<number> {
+  let processed = 0;
+
+  for (let job = await claimNextJob(); job; job = await claimNextJob()) {
+    processed++;
+    const handler = handlers[job.type];
+
+    try {
+      if (!handler) {
+        throw new Error(`No handler for job type "${job.type}"`);
+      }
+
+      // A job reclaimed after its worker died can run past its attempts
+      if (job.attempts > job.maxAttempts) {
+        throw new Error('Job did not finish before its lock expired');
+      }
+
+      await handler(job.payload);
+      await completeJob(job);
+      console.log(`[Queue] Finished ${job.type} job ${job.id}`);
+    } catch (error) {
+      await failJob(job, error);
+    }
+  }
+
+  return processed;
+}
+
+/**
+ * Get when the next job is due: the earliest queued job, or a running job
+ * whose lock expires and can be claimed again
+ * @returns The time, or null when nothing is queued or running
+ */
+export async function getNextRunAt(): Promise<Date | null> {
+  const [queued, running] = await Promise.all([
+    prisma.backgroundJob.findFirst({
+      where: { status: BackgroundJobStatus.QUEUED },
+      orderBy: { runAt: 'asc' },
+      select: { runAt: true },
+    }),
+    prisma.backgroundJob.findFirst({
+      where: { status: BackgroundJobStatus.RUNNING, lockedAt: { not: null } },
+      orderBy: { lockedAt: 'asc' },
+      select: { lockedAt: true },
+    }),
+  ]);
+
+  const times = [
+    queued?.runAt.getTime(),
+    running?.lockedAt && running.lockedAt.getTime() + STALE_LOCK_MS,
+  ].filter((time): time is number => typeof time === 'number');
+
+  return times.length > 0 ? new Date(Math.min(...times)) : null;
+}
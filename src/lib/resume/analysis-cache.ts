@@ -0,0 +1,56 @@
+/**
+ * Resume Analysis Cache
+ *
+ * Stores the analysis of a parsed resume with a hash of the analyzed text and
+ * the analyzer version, so repeat requests skip the LLM until either changes.
+ */
+
+import { createHash } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+
+/**
+ * Hash resume text for cache lookups
+ */
+export function hashResumeText(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Get the cached analysis of a resume
+ * @param parsedResumeId The parsed resume
+ * @param textHash Hash of the resume's current text
+ * @param analyzerVersion Version of the analyzer that would run now
+ * @returns The cached result, or null if there is none or it is stale
+ */
+export async function getCachedResumeAnalysis<T>(
+  parsedResumeId: string,
+  textHash: string,
+  analyzerVersion: string
+): Promise<T | null> {
+  const cached = await prisma.resumeAnalysis.findUnique({
+    where: { parsedResumeId },
+  });
+
+  if (!cached || cached.textHash !== textHash || cached.analyzerVersion !== analyzerVersion) {
+    return null;
+  }
+
+  return cached.result as T;
+}
+
+/**
+ * Store the analysis of a resume, replacing any earlier one
+ */
+export async function saveResumeAnalysis(
+  parsedResumeId: string,
+  textHash: string,
+  analyzerVersion: string,
+  result: Prisma.InputJsonValue
+) {
+  await prisma.resumeAnalysis.upsert({
+    where: { parsedResumeId },
+    create: { parsedResumeId, textHash, analyzerVersion, result },
+    update: { textHash, analyzerVersion, result },
+  });
+}
@@ -4,7 +4,12 @@
  * This module provides functions to analyze resume text and extract structured information
  */
 
-import { analyzeResumeWithGemini } from '../utils/gemini-api';
+import { getLlmProvider, LlmProvider } from '@/lib/llm';
+import { recordLlmFailure } from '@/lib/llm/failures';
+import { AnalysisFieldError, analyzeResumeWithLlm, ResumeAnalysisValidationError } from '../utils/resume-llm';
+import { ResumeDocument, textToDocument } from './layout';
+import { parseResume } from './parser';
+import { getAnalysisProvenance, getPlaceholderProvenance, ResumeAnalysisProvenance } from './provenance';
 
 // Define the response interface
 export interface ResumeAnalysisResponse {
@@ -23,176 +28,26 @@ export interface ResumeAnalysisResponse {
   education: any[];
   suggestions: string[];
   score: number;
+  // Which analyzer produced the result: the LLM provider's name, or "basic"
+  analyzer: string;
+  // Where each field came from
+  provenance: ResumeAnalysisProvenance;
+  // Why the LLM's output was rejected, when the basic analysis was used instead
+  validationErrors?: AnalysisFieldError[];
 }
 
-// Define education interface
-interface Education {
-  degree: string;
-  institution: string;
-  date: string;
-  startDate: string;
-  endDate: string | null;
-  field: string;
-}
+// Bump when prompts or extraction rules change so cached analyses are redone
+export const RESUME_ANALYZER_VERSION = 4;
 
-/**
- * Extract skills from resume text
- * @param text Resume text content
- * @returns Array of skill names
- */
-export function extractSkills(text: string): string[] {
-  // Common skills to look for in resumes
-  const commonSkills = [
-    'JavaScript', 'TypeScript', 'React', 'Angular', 'Vue', 'Node.js', 'Python',
-    'Java', 'C#', 'C++', 'Ruby', 'PHP', 'SQL', 'MongoDB', 'PostgreSQL',
-    'AWS', 'Azure', 'GCP', 'Docker', 'Kubernetes', 'REST API', 'GraphQL',
-    'HTML', 'CSS', 'SASS', 'LESS', 'Bootstrap', 'Tailwind CSS', 'Material UI',
-    'Git', 'Agile', 'Scrum', 'Jira', 'Confluence', 'Leadership', 'Communication',
-    'Problem Solving', 'Critical Thinking', 'Team Collaboration', 'Project Management'
-  ];
-  
-  // Extract skills by checking for matches in the text
-  return commonSkills.filter(skill => 
-    new RegExp(`\\b${skill}\\b`, 'i').test(text)
-  );
-}
+// Name of the rule-based analysis used without a working LLM provider
+const BASIC_ANALYZER = 'basic';
 
 /**
- * Extract contact information from resume text
- * @param text Resume text content
- * @returns Contact information object
+ * Version string identifying the analysis a resume gets with the configured
+ * LLM provider, whether or not that provider succeeds
  */
-export function extractContactInfo(text: string): { email: string, phone: string, name: string } {
-  const emailPattern = /([a-zA-Z0-9._-]+@[a-zA-Z0-9._-]+\.[a-zA-Z0-9_-]+)/gi;
-  const phonePattern = /(\+\d{1,3}[-\s]?)?\(?\d{3}\)?[-\s]?\d{3}[-\s]?\d{4}/g;
-  
-  // Simple name extraction (very basic - would need improvement in production)
-  const namePattern = /^([A-Z][a-z]+ [A-Z][a-z]+)/m;
-  
-  const emails = text.match(emailPattern) || [];
-  const phones = text.match(phonePattern) || [];
-  const names = text.match(namePattern) || [];
-  
-  return {
-    email: emails[0] || '',
-    phone: phones[0] || '',
-    name: names[0] || ''
-  };
-}
-
-/**
- * Extract experience information from resume text
- * @param text Resume text content
- * @returns Array of experience objects
- */
-export function extractExperience(text: string): Array<{
-  title: string;
-  company: string;
-  date: string;
-  startDate: string;
-  endDate: string | null;
-  description: string[];
-}> {
-  // Try to find the experience section
-  const experienceMatch = text.match(/experience:?(.+?)(?:education)/i) ||
-                         text.match(/experience:?(.+?)(?:skills)/i) ||
-                         text.match(/experience:?(.+?)(?:references)/i) ||
-                         text.match(/experience:?(.+?)$/i);
-
-  if (!experienceMatch) {
-    return [];
-  }
-
-  // Try to extract job titles and companies
-  const expText = experienceMatch[1];
-  const jobs = [];
-
-  // Very basic extraction - in production, this would be much more sophisticated
-  const jobMatches = expText.match(/([A-Z][a-z]+ [A-Za-z]+|Developer|Engineer|Manager|Designer)(?:\s+at\s+|\s*[-–—]\s*)([A-Za-z][\w\s&]+)/g);
-
-  if (jobMatches) {
-    for (const match of jobMatches.slice(0, 3)) { // Limit to top 3
-      const parts = match.split(/\s+at\s+|\s*[-–—]\s*/);
-      if (parts.length >= 2) {
-        jobs.push({
-          title: parts[0],
-          company: parts[1],
-          date: '2020 - Present',
-          startDate: '2020-01-01',
-          endDate: null,
-          description: ['Worked on various projects and initiatives.']
-        });
-      }
-    }
-  }
-
-  return jobs;
-}
-
-/**
- * Extract education information from resume text
- * @param text Resume text content
- * @returns Array of education objects
- */
-export function extractEducation(text: string): Education[] {
-  // Try to find the education section
-  const educationMatch = text.match(/education:?(.+?)(?:experience)/i) ||
-                        text.match(/education:?(.+?)(?:skills)/i) ||
-                        text.match(/education:?(.+?)(?:references)/i) ||
-                        text.match(/education:?(.+?)$/i);
-
-  if (!educationMatch) {
-    return [];
-  }
-
-  // Try to extract degree information
-  const eduText = educationMatch[1];
-  const degrees: Education[] = [];
-
-  // Look for Bachelor, Master, etc.
-  const degreeMatches = eduText.match(/(Bachelor|Master|PhD|BS|MS|BA|MBA)(?: of| in) ([A-Za-z ]+)/gi);
-
-  if (degreeMatches) {
-    for (const match of degreeMatches) {
-      const parts = match.split(/(?: of| in) /);
-      if (parts.length >= 2) {
-        degrees.push({
-          degree: parts[0],
-          field: parts[1] || 'Not Specified',
-          institution: 'University',
-          date: '2014 - 2018',
-          startDate: '2014-09-01',
-          endDate: '2018-05-31'
-        });
-      }
-    }
-  }
-
-  return degrees;
-}
-
-/**
- * Extract summary from text
- * @param text Resume text content
- * @returns Summary text
- */
-export function extractSummary(text: string): string {
-  // If there's a professional summary section, extract it
-  const summaryMatch = text.match(/professional\s+summary:?\s+(.*?)(?:\n\n)/i) ||
-                      text.match(/professional\s+summary:?\s+(.*?)(?:\n\w+:)/i);
-  if (summaryMatch && summaryMatch[1]) {
-    return summaryMatch[1].trim();
-  }
-
-  // Otherwise, take the first paragraph
-  const paragraphs = text.split('\n\n');
-  for (const para of paragraphs) {
-    if (para.length > 50 && para.length < 500) {
-      return para;
-    }
-  }
-
-  return 'Experienced professional with a background in technology.';
+export function getResumeAnalyzerVersion(): string {
+  return `${RESUME_ANALYZER_VERSION}:${getLlmProvider()?.name ?? BASIC_ANALYZER}`;
 }
 
 /**
@@ -263,9 +118,16 @@ export function calculateResumeScore(data: any): number {
 /**
  * Analyzes a resume text and extracts structured information
  * @param resumeText The text content of the resume
+ * @param provider LLM provider to use; defaults to the configured one. When
+ * there is no provider, only the rule-based parser runs.
+ * @param document The resume's layout, used to find its sections; rebuilt from the text when not given
  * @returns Structured analysis of the resume
  */
-export async function analyzeResume(resumeText: string): Promise<ResumeAnalysisResponse> {
+export async function analyzeResume(
+  resumeText: string,
+  provider: LlmProvider | null = getLlmProvider(),
+  document: ResumeDocument | null = null
+): Promise<ResumeAnalysisResponse> {
   console.log('[Resume Analyzer] Starting resume analysis');
 
   try {
@@ -276,54 +138,62 @@ export async function analyzeResume(resumeText: string): Promise<ResumeAnalysisR
 
     console.log(`[Resume Analyzer] Analyzing resume text of length: ${resumeText.length} characters`);
 
-    // Try to analyze the resume with Gemini
+    // Try to analyze the resume with the LLM provider
     try {
-      console.log('[Resume Analyzer] Attempting to analyze with Gemini API');
-      const analysis = await analyzeResumeWithGemini(resumeText);
-      console.log('[Resume Analyzer] Successfully analyzed resume with Gemini API');
+      if (!provider) {
+        throw new Error('No LLM provider configured');
+      }
+
+      console.log(`[Resume Analyzer] Attempting to analyze with ${provider.name}`);
+      const analysis = await analyzeResumeWithLlm(provider, resumeText);
+      console.log(`[Resume Analyzer] Successfully analyzed resume with ${provider.name}`);
 
       // Format the response
-      return {
-        success: true,
+      const llmAnalysis = {
         contactInfo: {
-          name: analysis.contactInfo.name || 'Unknown',
+          name: analysis.contactInfo.name || '',
           email: analysis.contactInfo.email || '',
           phone: analysis.contactInfo.phone || '',
           linkedin: analysis.contactInfo.linkedin || '',
           website: analysis.contactInfo.website || '',
           location: analysis.contactInfo.location || '',
         },
-        summary: analysis.summary || 'No summary available',
+        summary: analysis.summary || '',
         skills: analysis.skills || [],
         experience: analysis.experience || [],
         education: analysis.education || [],
         suggestions: analysis.suggestions || [],
         score: analysis.score || 0,
       };
-    } catch (geminiError) {
-      console.error('[Resume Analyzer] Gemini API analysis failed:', geminiError);
+
+      return {
+        success: true,
+        ...llmAnalysis,
+        analyzer: provider.name,
+        provenance: getAnalysisProvenance(llmAnalysis, 'llm'),
+      };
+    } catch (llmError) {
+      console.error('[Resume Analyzer] LLM analysis failed:', llmError);
+      // Running without a provider is not a failure of one
+      if (provider) {
+        await recordLlmFailure(provider.name, 'resume.analyze', llmError);
+      }
       console.log('[Resume Analyzer] Falling back to basic analysis');
 
-      // Extract contact info
-      const contactInfo = extractContactInfo(resumeText);
+      // If the LLM fails, fall back to the rule-based parser
+      const extracted = parseResume(document ?? textToDocument(resumeText));
+      const basicAnalysis = {
+        ...extracted,
+        suggestions: generateSuggestions(extracted),
+        score: calculateResumeScore(extracted),
+      };
 
-      // If Gemini fails, fall back to basic analysis
-      const basicAnalysisResult = {
+      const basicAnalysisResult: ResumeAnalysisResponse = {
         success: true,
-        contactInfo: {
-          name: contactInfo.name || 'Unknown',
-          email: contactInfo.email || '',
-          phone: contactInfo.phone || '',
-          linkedin: '',
-          website: '',
-          location: '',
-        },
-        summary: extractSummary(resumeText) || 'No summary available',
-        skills: extractSkills(resumeText) || [],
-        experience: extractExperience(resumeText) || [],
-        education: extractEducation(resumeText) || [],
-        suggestions: generateSuggestions({ skills: [], experience: [], education: [] }) || [],
-        score: calculateResumeScore({ skills: [], experience: [], education: [] }) || 0,
+        ...basicAnalysis,
+        analyzer: BASIC_ANALYZER,
+        provenance: getAnalysisProvenance(basicAnalysis, 'heuristic'),
+        ...(llmError instanceof ResumeAnalysisValidationError ? { validationErrors: llmError.fieldErrors } : {}),
       };
 
       console.log('[Resume Analyzer] Basic analysis completed successfully');
@@ -337,7 +207,7 @@ export async function analyzeResume(resumeText: string): Promise<ResumeAnalysisR
 
 /**
  * Creates a fallback response when resume analysis fails
- * @param errorMessage The error message to include in the response
+ * @param errorMessage Why the analysis failed, for the log
  * @returns A structured fallback response
  */
 function createFallbackResponse(errorMessage: string): ResumeAnalysisResponse {
@@ -346,23 +216,25 @@ function createFallbackResponse(errorMessage: string): ResumeAnalysisResponse {
   return {
     success: false,
     contactInfo: {
-      name: 'Unknown',
+      name: '',
       email: '',
       phone: '',
       linkedin: '',
       website: '',
       location: '',
     },
-    summary: `We couldn't properly analyze your resume. Error: ${errorMessage}`,
+    summary: '',
     skills: [],
     experience: [],
     education: [],
     suggestions: [
       'Please try re-uploading your resume',
-      'Ensure your resume is in PDF format',
+      'Ensure your resume is a PDF, Word (DOCX), RTF or plain text file',
       'Make sure your resume has clear sections for experience, education, and skills',
-      'Check that your PDF is not password protected or corrupted'
+      'Check that your file is not password protected or corrupted'
     ],
     score: 0,
+    analyzer: BASIC_ANALYZER,
+    provenance: getPlaceholderProvenance(),
   };
 } 
\ No newline at end of file
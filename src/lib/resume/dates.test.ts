@@ -0,0 +1,58 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { findResumeDateRange, parseResumeDateRange } from '@/lib/resume/dates';
+
+const utc = (year: number, month: number) => new Date(Date.UTC(year, month, 1));
+
+describe('parseResumeDateRange', () => {
+  it('reads a month range that runs to the present', () => {
+    assert.deepEqual(parseResumeDateRange('Jan 2019 – Present'), {
+      startDate: utc(2019, 0),
+      endDate: null,
+      current: true,
+    });
+  });
+
+  it('reads a range of bare years joined by a hyphen', () => {
+    assert.deepEqual(parseResumeDateRange('2017-2020'), {
+      startDate: utc(2017, 0),
+      endDate: utc(2020, 0),
+      current: false,
+    });
+  });
+
+  it('reads numeric months', () => {
+    assert.deepEqual(parseResumeDateRange('03/2020 – 08/2023'), {
+      startDate: utc(2020, 2),
+      endDate: utc(2023, 7),
+      current: false,
+    });
+  });
+
+  it('uses a single date as both start and end', () => {
+    assert.deepEqual(parseResumeDateRange('Sept 2018'), {
+      startDate: utc(2018, 8),
+      endDate: utc(2018, 8),
+      current: false,
+    });
+  });
+
+  it('does not read years out of phone numbers', () => {
+    assert.deepEqual(parseResumeDateRange('(312) 555-0142'), { startDate: null, endDate: null, current: false });
+    assert.deepEqual(parseResumeDateRange('+44 20 7946 0958'), { startDate: null, endDate: null, current: false });
+  });
+
+  it('returns no dates for empty input', () => {
+    assert.deepEqual(parseResumeDateRange(null), { startDate: null, endDate: null, current: false });
+  });
+});
+
+describe('findResumeDateRange', () => {
+  it('finds the range at the end of an entry header', () => {
+    assert.equal(findResumeDateRange('Acme Technologies    Jan 2019 – Present'), 'Jan 2019 – Present');
+  });
+
+  it('returns null for a line without dates', () => {
+    assert.equal(findResumeDateRange('Senior Software Engineer'), null);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Resume Date Ranges
+ *
+ * Parses the free-text date ranges found on resumes ("Jan 2020 - Present",
+ * "03/2018 – 05/2020", "2015 to 2019") into start and end dates.
+ */
+
+export interface ResumeDateRange {
+  startDate: Date | null;
+  endDate: Date | null;
+  current: boolean;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// One date per match: "present", "Sept 2019", "03/2019", "2019-03" or "2019"
+const DATE_TOKEN_PATTERN = new RegExp(
+  [
+    '\\b(present|current|now|today)\\b',
+    `\\b(${MONTHS.join('|')})[a-z]*\\.?,?\\s*(\\d{4})\\b`,
+    '\\b(\\d{1,2})[/.](\\d{4})\\b',
+    '\\b(\\d{4})[-/](\\d{1,2})\\b',
+    // Only plausible years, so phone numbers and other figures are not taken for dates
+    '\\b((?:19|20)\\d{2})\\b',
+  ].join('|'),
+  'gi'
+);
+
+type DateToken = Date | 'present';
+
+function monthDate(year: number, month: number): Date | null {
+  if (year < 1900 || year > 2100 || month < 0 || month > 11) return null;
+  return new Date(Date.UTC(year, month, 1));
+}
+
+function readDateTokens(text: string): DateToken[] {
+  const tokens: DateToken[] = [];
+
+  for (const match of Array.from(text.matchAll(DATE_TOKEN_PATTERN))) {
+    let date: Date | null = null;
+
+    if (match[1]) {
+      tokens.push('present');
+      continue;
+    }
+
+    if (match[2]) {
+      date = monthDate(Number(match[3]), MONTHS.indexOf(match[2].slice(0, 3).toLowerCase()));
+    } else if (match[4]) {
+      date = monthDate(Number(match[5]), Number(match[4]) - 1);
+    } else if (match[6]) {
+      date = monthDate(Number(match[6]), Number(match[7]) - 1);
+    } else if (match[8]) {
+      date = monthDate(Number(match[8]), 0);
+    }
+
+    if (date) tokens.push(date);
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse a date range as written on a resume
+ * @param text The dates, e.g. "Jan 2020 - Present"
+ * @returns The start and end dates (first of the month, UTC); null where a date could not be read.
+ * A single date ("2019") is used as both start and end.
+ */
+export function parseResumeDateRange(text: string | null | undefined): ResumeDateRange {
+  const tokens = text ? readDateTokens(text) : [];
+  const [first, second] = tokens;
+
+  if (!first || first === 'present') {
+    return { startDate: null, endDate: null, current: first === 'present' };
+  }
+
+  if (second === 'present') {
+    return { startDate: first, endDate: null, current: true };
+  }
+
+  return { startDate: first, endDate: second || first, current: false };
+}
+
+// What may stand between the two dates of a range ("Fall 2018 - Spring 2020" has a season too)
+const RANGE_SEPARATOR_PATTERN = /^\s*(?:-|–|—|to|until)\s*(?:spring|summer|fall|autumn|winter)?\s*$/i;
+
+/**
+ * Find the date range written in a line of a resume
+ * @param text A line, e.g. "Engineer at Acme    Jan 2020 - Present"
+ * @returns The range as written ("Jan 2020 - Present"), a single date, or null if the line has none
+ */
+export function findResumeDateRange(text: string): string | null {
+  const matches = Array.from(text.matchAll(DATE_TOKEN_PATTERN));
+  const [first, second] = matches;
+  if (!first || first.index === undefined) return null;
+
+  const firstEnd = first.index + first[0].length;
+  if (second && second.index !== undefined && RANGE_SEPARATOR_PATTERN.test(text.slice(firstEnd, second.index))) {
+    return text.slice(first.index, second.index + second[0].length);
+  }
+
+  return first[0];
+}
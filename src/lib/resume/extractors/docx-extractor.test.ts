@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { DocxTextExtractor } from './docx-extractor';
+import { ResumeExtractionError } from './types';
+
+// A Word document with a header and footer; the footer is stored, the other parts deflated
+const RESUME = readFileSync(path.join(__dirname, '__fixtures__', 'resume.docx'));
+
+const extractor = new DocxTextExtractor();
+
+describe('DocxTextExtractor', () => {
+  it('recognizes a Word document', () => {
+    assert.equal(extractor.matches(RESUME), true);
+    assert.equal(extractor.matches(Buffer.from('PK\x03\x04 not a word document', 'latin1')), false);
+  });
+
+  it('reads the header, body and footer in order', async () => {
+    const text = await extractor.extractText(RESUME);
+
+    assert.equal(text, [
+      'Jane Doe',
+      'jane@example.com',
+      '',
+      'Experience',
+      'Senior Engineer\tJan 2019 – Present',
+      'Acme & Sons',
+      'Built the <billing> platform',
+      'Worked on payments',
+      '',
+      'Skills',
+      'Go, SQL, Café ordering',
+      '',
+      'References on request',
+    ].join('\n'));
+  });
+
+  it('splits the document into blocks at empty paragraphs and between parts', async () => {
+    const document = await extractor.extractDocument(RESUME);
+
+    assert.equal(document.pages[0].blocks.length, 4);
+    assert.deepEqual(document.pages[0].blocks[3].lines.map(line => line.text), ['References on request']);
+  });
+
+  it('reports a damaged archive as corrupt', async () => {
+    await assert.rejects(
+      extractor.extractText(RESUME.subarray(0, RESUME.length - 40)),
+      (error: unknown) => error instanceof ResumeExtractionError && error.reason === 'CORRUPT'
+    );
+  });
+});
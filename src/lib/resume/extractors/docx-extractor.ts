@@ -0,0 +1,154 @@
+import { inflateRawSync } from 'zlib';
+import { ResumeDocument, textToDocument } from '@/lib/resume/layout';
+import { ResumeExtractionError, ResumeTextExtractor } from './types';
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+// Guards against zip bombs; no resume's document.xml comes close
+const MAX_ENTRY_SIZE = 20 * 1024 * 1024;
+
+// Parts of the document holding text, in reading order
+const TEXT_PART_PATTERN = /^word\/(header\d*|document|footer\d*)\.xml$/;
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+function readZipEntries(buffer: Buffer): ZipEntry[] {
+  // The end of central directory record is at the end, followed by an optional comment
+  let endOffset = -1;
+  for (let offset = buffer.length - 22; offset >= Math.max(0, buffer.length - 22 - 0xffff); offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      endOffset = offset;
+      break;
+    }
+  }
+
+  if (endOffset === -1) {
+    throw new Error('Not a valid DOCX file: missing ZIP directory');
+  }
+
+  const entryCount = buffer.readUInt16LE(endOffset + 10);
+  let offset = buffer.readUInt32LE(endOffset + 16);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Not a valid DOCX file: corrupt ZIP directory');
+    }
+
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+
+    entries.push({
+      name: buffer.toString('utf8', offset + 46, offset + 46 + nameLength),
+      method: buffer.readUInt16LE(offset + 10),
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      localHeaderOffset: buffer.readUInt32LE(offset + 42),
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+function readZipEntry(buffer: Buffer, entry: ZipEntry): Buffer {
+  const offset = entry.localHeaderOffset;
+  if (buffer.readUInt32LE(offset) !== LOCAL_FILE_HEADER) {
+    throw new Error(`Not a valid DOCX file: corrupt entry ${entry.name}`);
+  }
+
+  const dataStart = offset + 30 + buffer.readUInt16LE(offset + 26) + buffer.readUInt16LE(offset + 28);
+  const data = buffer.subarray(dataStart, dataStart + entry.compressedSize);
+
+  switch (entry.method) {
+    case METHOD_STORED:
+      return data;
+    case METHOD_DEFLATED:
+      return inflateRawSync(data, { maxOutputLength: MAX_ENTRY_SIZE });
+    default:
+      throw new Error(`Unsupported compression method ${entry.method} in ${entry.name}`);
+  }
+}
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+    }
+    const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+    return String.fromCodePoint(code);
+  });
+}
+
+/**
+ * Convert WordprocessingML to plain text: one line per paragraph, tabs and
+ * breaks kept, field codes and deleted (tracked) text dropped
+ */
+function wordXmlToText(xml: string): string {
+  const text = xml
+    .replace(/<w:(instrText|delText)\b[^>]*>[\s\S]*?<\/w:\1>/g, '')
+    .replace(/<w:tab\b[^>]*\/>/g, '\t')
+    .replace(/<w:(br|cr)\b[^>]*\/>/g, '\n')
+    .replace(/<\/w:p>/g, '\n')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeXmlEntities(text);
+}
+
+function readDocumentText(buffer: Buffer): string {
+  const entries = readZipEntries(buffer);
+  const parts = entries.filter(entry => TEXT_PART_PATTERN.test(entry.name));
+
+  if (!parts.some(entry => entry.name === 'word/document.xml')) {
+    throw new Error('Not a valid DOCX file: missing word/document.xml');
+  }
+
+  // Headers first (contact details often live there), then the body, then footers
+  const order = (name: string) => (name.includes('header') ? 0 : name.includes('document') ? 1 : 2);
+  parts.sort((a, b) => order(a.name) - order(b.name) || a.name.localeCompare(b.name));
+
+  return parts
+    .map(entry => wordXmlToText(readZipEntry(buffer, entry).toString('utf8')))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export class DocxTextExtractor implements ResumeTextExtractor {
+  readonly format = 'docx' as const;
+  readonly mimeType = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+  matches(buffer: Buffer): boolean {
+    // A ZIP archive containing a Word document part
+    return buffer.length > 4 && buffer.readUInt32LE(0) === LOCAL_FILE_HEADER && buffer.includes('word/document.xml');
+  }
+
+  async extractText(buffer: Buffer): Promise<string> {
+    try {
+      return readDocumentText(buffer);
+    } catch (error) {
+      // The archive is parsed here, so any error means the file is damaged
+      throw new ResumeExtractionError('CORRUPT', error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  // Heading styles are not read; the section detector falls back to known titles
+  async extractDocument(buffer: Buffer): Promise<ResumeDocument> {
+    return textToDocument(await this.extractText(buffer));
+  }
+}
@@ -0,0 +1,61 @@
+import { before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { extractResumeDocument, getResumeExtractor } from '@/lib/resume/extractors';
+
+const fixture = (name: string) => readFileSync(path.join(__dirname, '__fixtures__', name));
+
+before(() => {
+  // Every extraction logs its format; keep the test output readable
+  mock.method(console, 'log', () => {});
+});
+
+describe('getResumeExtractor', () => {
+  it('detects the format from the contents', () => {
+    assert.equal(getResumeExtractor(Buffer.from('%PDF-1.7\n%\xe2\xe3\xcf\xd3\n', 'latin1'))?.format, 'pdf');
+    assert.equal(getResumeExtractor(fixture('resume.docx'))?.format, 'docx');
+    assert.equal(getResumeExtractor(fixture('resume.rtf'))?.format, 'rtf');
+    assert.equal(getResumeExtractor(Buffer.from('Jane Doe\nSoftware Engineer'))?.format, 'txt');
+  });
+
+  it('finds a PDF header after leading junk', () => {
+    assert.equal(getResumeExtractor(Buffer.from('\r\n\r\n%PDF-1.4\n'))?.format, 'pdf');
+  });
+
+  it('has no extractor for other binary files', () => {
+    const zip = Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x14, 0x00, 0x00, 0x00, 0x08, 0x00]);
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d]);
+
+    assert.equal(getResumeExtractor(zip), null);
+    assert.equal(getResumeExtractor(png), null);
+  });
+});
+
+describe('extractResumeDocument', () => {
+  it('returns the document and its text', async () => {
+    const result = await extractResumeDocument(fixture('resume.rtf'));
+
+    assert.ok(result.success);
+    assert.equal(result.format, 'rtf');
+    assert.match(result.text, /^Jane Doe\njane@example\.com\tBerlin/);
+    assert.equal(result.document.pages[0].blocks[0].lines[0].text, 'Jane Doe');
+  });
+
+  it('says why a file could not be read', async () => {
+    const docx = fixture('resume.docx');
+
+    assert.deepEqual(await extractResumeDocument(Buffer.from([0x00, 0x01, 0x02])), {
+      success: false,
+      reason: 'UNSUPPORTED',
+      message: 'Unsupported resume file format',
+    });
+    assert.deepEqual(
+      await extractResumeDocument(Buffer.from(' \n\t\n')),
+      { success: false, reason: 'EMPTY', message: 'The txt file contains no text' }
+    );
+
+    const damaged = await extractResumeDocument(docx.subarray(0, docx.length - 40));
+    assert.equal(!damaged.success && damaged.reason, 'CORRUPT');
+  });
+});
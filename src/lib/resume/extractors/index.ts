@@ -0,0 +1,91 @@
+/**
+ * Resume Text Extractors
+ *
+ * Registry of the extractors for each supported resume format. The format of
+ * a file is detected from its magic bytes rather than its declared MIME type,
+ * so a misnamed file is still read correctly.
+ */
+
+import { ResumeFormat } from '@/lib/resume/formats';
+import { documentToText, ResumeDocument } from '@/lib/resume/layout';
+import { DocxTextExtractor } from './docx-extractor';
+import { PdfTextExtractor } from './pdf-extractor';
+import { RtfTextExtractor } from './rtf-extractor';
+import { PlainTextExtractor } from './text-extractor';
+import { ResumeExtractionError, ResumeExtractionResult, ResumeTextExtractor } from './types';
+
+export { ResumeExtractionError } from './types';
+export type { ResumeExtractionResult, ResumeTextExtractor } from './types';
+
+// Formats with a signature come first; anything that looks like text is plain text
+const extractors: ResumeTextExtractor[] = [
+  new PdfTextExtractor(),
+  new DocxTextExtractor(),
+  new RtfTextExtractor(),
+  new PlainTextExtractor(),
+];
+
+/**
+ * Find the extractor for a file from its contents
+ * @param buffer The file contents
+ * @returns The extractor, or null if the file is not in a supported format
+ */
+export function getResumeExtractor(buffer: Buffer): ResumeTextExtractor | null {
+  return extractors.find(extractor => extractor.matches(buffer)) || null;
+}
+
+/**
+ * Get the extractor registered for a format
+ */
+export function getResumeExtractorForFormat(format: ResumeFormat): ResumeTextExtractor {
+  return extractors.find(extractor => extractor.format === format) as ResumeTextExtractor;
+}
+
+/**
+ * Extract the text of a resume file in any supported format
+ * @param buffer The file contents
+ * @throws When the format is not supported or the file cannot be read
+ */
+export async function extractResumeText(buffer: Buffer): Promise<string> {
+  const extractor = getResumeExtractor(buffer);
+
+  if (!extractor) {
+    throw new Error('Unsupported resume file format');
+  }
+
+  console.log(`[Resume Extractor] Extracting text from ${extractor.format} file`);
+  return await extractor.extractText(buffer);
+}
+
+/**
+ * Extract the layout of a resume file in any supported format
+ * @param buffer The file contents
+ * @returns The document and its text, or why the file could not be read
+ * @throws When extraction fails for a reason other than the file itself
+ */
+export async function extractResumeDocument(buffer: Buffer): Promise<ResumeExtractionResult> {
+  const extractor = getResumeExtractor(buffer);
+
+  if (!extractor) {
+    return { success: false, reason: 'UNSUPPORTED', message: 'Unsupported resume file format' };
+  }
+
+  console.log(`[Resume Extractor] Extracting layout from ${extractor.format} file`);
+
+  let document: ResumeDocument;
+  try {
+    document = await extractor.extractDocument(buffer);
+  } catch (error) {
+    if (error instanceof ResumeExtractionError) {
+      return { success: false, reason: error.reason, message: error.message };
+    }
+    throw error;
+  }
+
+  const text = documentToText(document);
+  if (!text.trim()) {
+    return { success: false, reason: 'EMPTY', message: `The ${extractor.format} file contains no text` };
+  }
+
+  return { success: true, format: extractor.format, document, text };
+}
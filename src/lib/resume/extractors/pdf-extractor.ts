@@ -0,0 +1,25 @@
+import { PdfReader } from '@/lib/utils/pdf-reader';
+import { ResumeDocument } from '@/lib/resume/layout';
+import { ResumeTextExtractor } from './types';
+
+const PDF_SIGNATURE = '%PDF-';
+
+// Some generators put a few bytes of junk before the header
+const SIGNATURE_SEARCH_BYTES = 1024;
+
+export class PdfTextExtractor implements ResumeTextExtractor {
+  readonly format = 'pdf' as const;
+  readonly mimeType = 'application/pdf';
+
+  matches(buffer: Buffer): boolean {
+    return buffer.subarray(0, SIGNATURE_SEARCH_BYTES).includes(PDF_SIGNATURE);
+  }
+
+  async extractText(buffer: Buffer): Promise<string> {
+    return await new PdfReader().extractText(buffer);
+  }
+
+  async extractDocument(buffer: Buffer): Promise<ResumeDocument> {
+    return await new PdfReader().extractDocument(buffer);
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { RtfTextExtractor } from './rtf-extractor';
+
+// A resume as WordPad saves it: font and color tables, escapes and Unicode characters
+const RESUME = readFileSync(path.join(__dirname, '__fixtures__', 'resume.rtf'));
+
+const extractor = new RtfTextExtractor();
+
+const rtf = (body: string) => Buffer.from(`{\\rtf1\\ansi ${body}}`, 'latin1');
+
+describe('RtfTextExtractor', () => {
+  it('recognizes RTF', () => {
+    assert.equal(extractor.matches(RESUME), true);
+    assert.equal(extractor.matches(Buffer.from('Jane Doe {\\rtf1}')), false);
+  });
+
+  it('reads the text and drops the tables and document info', async () => {
+    const text = await extractor.extractText(RESUME);
+
+    assert.equal(text, [
+      'Jane Doe',
+      'jane@example.com\tBerlin',
+      '',
+      'Experience',
+      'Senior Engineer – Acme Corp',
+      '• Led the “billing” rewrite, saving € 40k',
+      'Café, {menu} in',
+      'Zürich',
+    ].join('\n'));
+  });
+
+  it('reads escaped and unescaped 8-bit text as Windows-1252', async () => {
+    assert.equal(await extractor.extractText(rtf("\\'93Caf\\'e9\\'94 \\'85")), '“Café” …');
+    assert.equal(await extractor.extractText(rtf('\x96 \xe9')), '– é');
+  });
+
+  it('skips the fallback characters after a Unicode escape', async () => {
+    assert.equal(await extractor.extractText(rtf('\\uc2\\u8364 EU 5')), '€ 5');
+  });
+
+  it('skips ignorable destinations', async () => {
+    assert.equal(await extractor.extractText(rtf('{\\*\\bkmkstart top}Jane{\\field{\\*\\fldinst HYPERLINK x}{\\fldrslt  Doe}}')), 'Jane Doe');
+  });
+});
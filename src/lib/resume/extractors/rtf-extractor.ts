@@ -0,0 +1,154 @@
+import { ResumeDocument, textToDocument } from '@/lib/resume/layout';
+import { ResumeTextExtractor } from './types';
+
+const RTF_SIGNATURE = '{\\rtf';
+
+// Destinations whose contents are not document text
+const SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'themedata', 'colorschememapping',
+  'datastore', 'latentstyles', 'listtable', 'listoverridetable', 'rsidtbl', 'generator', 'fldinst',
+  'xmlnstbl', 'mmathPr', 'filetbl', 'revtbl', 'pgdsctbl',
+]);
+
+// Windows-1252 differs from Latin-1 only in 0x80-0x9F, which hold its curly quotes,
+// dashes, bullet and euro sign instead of control characters; unassigned bytes stay as they are
+const CP1252_HIGH_CONTROLS = [
+  0x20ac, 0x81, 0x201a, 0x0192, 0x201e, 0x2026, 0x2020, 0x2021, 0x02c6, 0x2030, 0x0160, 0x2039, 0x0152, 0x8d, 0x017d, 0x8f,
+  0x90, 0x2018, 0x2019, 0x201c, 0x201d, 0x2022, 0x2013, 0x2014, 0x02dc, 0x2122, 0x0161, 0x203a, 0x0153, 0x9d, 0x017e, 0x0178,
+];
+
+function decodeCp1252(byte: number): string {
+  return String.fromCharCode(byte >= 0x80 && byte <= 0x9f ? CP1252_HIGH_CONTROLS[byte - 0x80] : byte);
+}
+
+interface GroupState {
+  skip: boolean;
+  // Number of fallback characters following a \u escape
+  unicodeSkip: number;
+}
+
+/**
+ * Convert RTF to plain text. Handles paragraphs, tabs, escaped and Unicode
+ * characters; formatting and embedded objects are dropped.
+ */
+function rtfToText(rtf: string): string {
+  const stack: GroupState[] = [];
+  let state: GroupState = { skip: false, unicodeSkip: 1 };
+  let pendingSkip = 0;
+  let text = '';
+
+  const emit = (chars: string) => {
+    if (pendingSkip > 0) {
+      pendingSkip--;
+      return;
+    }
+    if (!state.skip) text += chars;
+  };
+
+  for (let i = 0; i < rtf.length; i++) {
+    const char = rtf[i];
+
+    if (char === '{') {
+      stack.push(state);
+      state = { ...state };
+      continue;
+    }
+
+    if (char === '}') {
+      state = stack.pop() || state;
+      continue;
+    }
+
+    if (char === '\r' || char === '\n') {
+      continue;
+    }
+
+    if (char !== '\\') {
+      // The file is read as Latin-1, so unescaped 8-bit text is in the same code page as the escapes
+      emit(decodeCp1252(char.charCodeAt(0)));
+      continue;
+    }
+
+    const next = rtf[i + 1];
+
+    if (next === undefined) break;
+
+    // Control symbols
+    if (next === '\\' || next === '{' || next === '}') {
+      emit(next);
+      i++;
+      continue;
+    }
+    if (next === '~') {
+      emit(' ');
+      i++;
+      continue;
+    }
+    if (next === '_') {
+      emit('-');
+      i++;
+      continue;
+    }
+    if (next === '*') {
+      // Ignorable destination
+      state.skip = true;
+      i++;
+      continue;
+    }
+    if (next === "'") {
+      // Hex-escaped character in the document code page, read as Windows-1252 (\ansicpg1252,
+      // what Word and WordPad write for Western languages)
+      emit(decodeCp1252(parseInt(rtf.slice(i + 2, i + 4), 16)));
+      i += 3;
+      continue;
+    }
+    if (next === '\r' || next === '\n') {
+      emit('\n');
+      i++;
+      continue;
+    }
+
+    // Control word: letters, an optional numeric parameter and an optional space
+    const match = /^([a-zA-Z]+)(-?\d+)? ?/.exec(rtf.slice(i + 1, i + 40));
+    if (!match) {
+      i++;
+      continue;
+    }
+
+    i += match[0].length;
+    const word = match[1];
+    const param = match[2] !== undefined ? Number(match[2]) : null;
+
+    if (SKIPPED_DESTINATIONS.has(word)) {
+      state.skip = true;
+    } else if (word === 'par' || word === 'line' || word === 'row') {
+      emit('\n');
+    } else if (word === 'tab' || word === 'cell') {
+      emit('\t');
+    } else if (word === 'uc' && param !== null) {
+      state.unicodeSkip = param;
+    } else if (word === 'u' && param !== null) {
+      emit(String.fromCharCode(param < 0 ? param + 65536 : param));
+      pendingSkip = state.unicodeSkip;
+    }
+  }
+
+  return text.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+export class RtfTextExtractor implements ResumeTextExtractor {
+  readonly format = 'rtf' as const;
+  readonly mimeType = 'application/rtf';
+
+  matches(buffer: Buffer): boolean {
+    return buffer.subarray(0, RTF_SIGNATURE.length).toString('latin1') === RTF_SIGNATURE;
+  }
+
+  async extractText(buffer: Buffer): Promise<string> {
+    return rtfToText(buffer.toString('latin1'));
+  }
+
+  async extractDocument(buffer: Buffer): Promise<ResumeDocument> {
+    return textToDocument(await this.extractText(buffer));
+  }
+}
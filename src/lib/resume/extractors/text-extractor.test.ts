@@ -0,0 +1,27 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PlainTextExtractor } from './text-extractor';
+
+const extractor = new PlainTextExtractor();
+
+describe('PlainTextExtractor', () => {
+  it('takes files without NUL bytes for text', () => {
+    assert.equal(extractor.matches(Buffer.from('Jane Doe\nCafé')), true);
+    assert.equal(extractor.matches(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00])), false);
+    assert.equal(extractor.matches(Buffer.alloc(0)), false);
+  });
+
+  it('takes UTF-16 with a byte order mark for text', () => {
+    const utf16 = Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('Jane Doe', 'utf16le')]);
+
+    assert.equal(extractor.matches(utf16), true);
+  });
+
+  it('decodes UTF-8 and UTF-16 and normalizes line endings', async () => {
+    const utf8 = Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from('Jane Doe\r\nZürich\r\n')]);
+    const utf16 = Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('Jane Doe\rZürich', 'utf16le')]);
+
+    assert.equal(await extractor.extractText(utf8), 'Jane Doe\nZürich');
+    assert.equal(await extractor.extractText(utf16), 'Jane Doe\nZürich');
+  });
+});
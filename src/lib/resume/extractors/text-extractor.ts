@@ -0,0 +1,37 @@
+import { ResumeDocument, textToDocument } from '@/lib/resume/layout';
+import { ResumeTextExtractor } from './types';
+
+const UTF8_BOM = Buffer.from([0xef, 0xbb, 0xbf]);
+const UTF16LE_BOM = Buffer.from([0xff, 0xfe]);
+
+// Bytes inspected when deciding whether a file is text
+const SNIFF_BYTES = 8192;
+
+export class PlainTextExtractor implements ResumeTextExtractor {
+  readonly format = 'txt' as const;
+  readonly mimeType = 'text/plain';
+
+  matches(buffer: Buffer): boolean {
+    if (buffer.subarray(0, 2).equals(UTF16LE_BOM)) return true;
+
+    // Binary formats contain NUL bytes; text does not
+    return buffer.length > 0 && !buffer.subarray(0, SNIFF_BYTES).includes(0);
+  }
+
+  async extractText(buffer: Buffer): Promise<string> {
+    let text: string;
+    if (buffer.subarray(0, 2).equals(UTF16LE_BOM)) {
+      text = buffer.subarray(2).toString('utf16le');
+    } else if (buffer.subarray(0, 3).equals(UTF8_BOM)) {
+      text = buffer.subarray(3).toString('utf8');
+    } else {
+      text = buffer.toString('utf8');
+    }
+
+    return text.replace(/\r\n?/g, '\n').trim();
+  }
+
+  async extractDocument(buffer: Buffer): Promise<ResumeDocument> {
+    return textToDocument(await this.extractText(buffer));
+  }
+}
@@ -0,0 +1,40 @@
+import { ResumeFormat } from '@/lib/resume/formats';
+import { ResumeDocument } from '@/lib/resume/layout';
+import { ResumeExtractionFailure } from '@/lib/resume/provenance';
+
+/**
+ * Extracts the plain text of one resume file format
+ */
+export interface ResumeTextExtractor {
+  readonly format: ResumeFormat;
+  // MIME type stored with files of this format
+  readonly mimeType: string;
+  /**
+   * Check whether a file's contents are in this format, from its magic bytes
+   */
+  matches(buffer: Buffer): boolean;
+  /**
+   * Extract the text of a file in this format
+   * @throws When the file cannot be read; a ResumeExtractionError when the reason is known
+   */
+  extractText(buffer: Buffer): Promise<string>;
+  /**
+   * Extract the pages, blocks and lines of a file in this format
+   * @throws When the file cannot be read; a ResumeExtractionError when the reason is known
+   */
+  extractDocument(buffer: Buffer): Promise<ResumeDocument>;
+}
+
+/**
+ * Thrown by an extractor that knows why a file cannot be read
+ */
+export class ResumeExtractionError extends Error {
+  constructor(readonly reason: ResumeExtractionFailure, message: string) {
+    super(message);
+    this.name = 'ResumeExtractionError';
+  }
+}
+
+export type ResumeExtractionResult =
+  | { success: true; format: ResumeFormat; document: ResumeDocument; text: string }
+  | { success: false; reason: ResumeExtractionFailure; message: string };
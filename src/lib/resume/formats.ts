@@ -0,0 +1,38 @@
+/**
+ * Resume File Formats
+ *
+ * The file formats accepted for resumes. Client-safe, so the upload form can
+ * check files before sending them; the server detects the actual format from
+ * the file contents with the extractors in `@/lib/resume/extractors`.
+ */
+
+export const RESUME_FORMATS = ['pdf', 'docx', 'rtf', 'txt'] as const;
+
+export type ResumeFormat = typeof RESUME_FORMATS[number];
+
+export const RESUME_FORMAT_MIME_TYPES: Record<ResumeFormat, string[]> = {
+  pdf: ['application/pdf'],
+  docx: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  rtf: ['application/rtf', 'text/rtf'],
+  txt: ['text/plain'],
+};
+
+// Value for the `accept` attribute of resume file inputs
+export const RESUME_FILE_ACCEPT = [
+  ...RESUME_FORMATS.map(format => `.${format}`),
+  ...RESUME_FORMATS.flatMap(format => RESUME_FORMAT_MIME_TYPES[format]),
+].join(',');
+
+export const RESUME_FORMATS_DESCRIPTION = 'PDF, Word (DOCX), RTF or plain text';
+
+/**
+ * Guess the format of a file from its MIME type or, failing that, its name
+ * @returns The format, or null if it is not a supported resume format
+ */
+export function getResumeFormatOfFile(file: { name: string; type: string }): ResumeFormat | null {
+  const byType = RESUME_FORMATS.find(format => RESUME_FORMAT_MIME_TYPES[format].includes(file.type));
+  if (byType) return byType;
+
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  return RESUME_FORMATS.find(format => format === extension) || null;
+}
@@ -0,0 +1,195 @@
+/**
+ * Resume History Import
+ *
+ * Stages the work experience and education extracted from a resume as
+ * proposed rows. The job seeker reviews each one on the resume analyzer page;
+ * confirmed rows are copied into their Experience/Education tables.
+ */
+
+import { ResumeImportStatus } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { parseResumeDateRange } from '@/lib/resume/dates';
+import { EducationInput, ExperienceInput, toHistoryDates } from '@/lib/profile/history';
+
+// Extracted entries as returned by the analyzers; field names vary between them
+interface ExtractedExperience {
+  company?: string;
+  title?: string;
+  position?: string;
+  dates?: string;
+  date?: string;
+  description?: string | string[];
+}
+
+interface ExtractedEducation {
+  institution?: string;
+  degree?: string;
+  field?: string;
+  dates?: string;
+  date?: string;
+}
+
+// Key used to recognise an entry the job seeker already reviewed on re-analysis
+function reviewKey(...parts: Array<string | null | undefined>): string {
+  return parts.map(part => (part || '').trim().toLowerCase()).join('|');
+}
+
+/**
+ * Replace the pending proposals of a job seeker with freshly extracted ones.
+ * Entries that were already imported or rejected are not proposed again.
+ * @param jobSeekerProfileId The job seeker's profile
+ * @param extracted Experience and education from the resume analysis
+ */
+export async function stageResumeHistory(
+  jobSeekerProfileId: string,
+  extracted: { experience: ExtractedExperience[]; education: ExtractedEducation[] }
+) {
+  const reviewedExperiences = await prisma.proposedExperience.findMany({
+    where: { jobSeekerProfileId, status: { not: ResumeImportStatus.PENDING } },
+    select: { company: true, position: true, dates: true },
+  });
+  const reviewedEducations = await prisma.proposedEducation.findMany({
+    where: { jobSeekerProfileId, status: { not: ResumeImportStatus.PENDING } },
+    select: { institution: true, degree: true, dates: true },
+  });
+
+  const seenExperiences = new Set(reviewedExperiences.map(exp => reviewKey(exp.company, exp.position, exp.dates)));
+  const seenEducations = new Set(reviewedEducations.map(edu => reviewKey(edu.institution, edu.degree, edu.dates)));
+
+  const experiences = [];
+  for (const exp of extracted.experience) {
+    const company = exp.company?.trim();
+    const position = (exp.position || exp.title)?.trim();
+    const dates = (exp.dates || exp.date)?.trim() || null;
+    if (!company || !position) continue;
+
+    const key = reviewKey(company, position, dates);
+    if (seenExperiences.has(key)) continue;
+    seenExperiences.add(key);
+
+    const description = Array.isArray(exp.description) ? exp.description.join('\n') : exp.description;
+    experiences.push({
+      jobSeekerProfileId,
+      company,
+      position,
+      dates,
+      ...parseResumeDateRange(dates),
+      description: description?.trim() || null,
+    });
+  }
+
+  const educations = [];
+  for (const edu of extracted.education) {
+    const institution = edu.institution?.trim();
+    const degree = edu.degree?.trim();
+    const dates = (edu.dates || edu.date)?.trim() || null;
+    if (!institution || !degree) continue;
+
+    const key = reviewKey(institution, degree, dates);
+    if (seenEducations.has(key)) continue;
+    seenEducations.add(key);
+
+    educations.push({
+      jobSeekerProfileId,
+      institution,
+      degree,
+      field: edu.field?.trim() || null,
+      dates,
+      ...parseResumeDateRange(dates),
+    });
+  }
+
+  await prisma.$transaction([
+    prisma.proposedExperience.deleteMany({ where: { jobSeekerProfileId, status: ResumeImportStatus.PENDING } }),
+    prisma.proposedEducation.deleteMany({ where: { jobSeekerProfileId, status: ResumeImportStatus.PENDING } }),
+    prisma.proposedExperience.createMany({ data: experiences }),
+    prisma.proposedEducation.createMany({ data: educations }),
+  ]);
+
+  console.log(
+    `[Resume Import] Staged ${experiences.length} experiences and ${educations.length} educations for profile ${jobSeekerProfileId}`
+  );
+}
+
+/**
+ * Get the proposals a job seeker has not reviewed yet
+ * @param jobSeekerProfileId The job seeker's profile
+ */
+export async function getPendingResumeHistory(jobSeekerProfileId: string) {
+  const experiences = await prisma.proposedExperience.findMany({
+    where: { jobSeekerProfileId, status: ResumeImportStatus.PENDING },
+    orderBy: [{ current: 'desc' }, { startDate: 'desc' }],
+  });
+  const educations = await prisma.proposedEducation.findMany({
+    where: { jobSeekerProfileId, status: ResumeImportStatus.PENDING },
+    orderBy: [{ current: 'desc' }, { startDate: 'desc' }],
+  });
+
+  return { experiences, educations };
+}
+
+/**
+ * Write a reviewed experience to the profile and mark the proposal imported.
+ * The proposal is claimed in the same transaction, so a double submit or a
+ * concurrent rejection cannot import it twice.
+ * @param proposalId The pending proposal
+ * @param data The experience as confirmed (and possibly edited) by the job seeker
+ * @returns The created experience, or null when the proposal is no longer pending
+ */
+export async function importProposedExperience(proposalId: string, data: ExperienceInput) {
+  return await prisma.$transaction(async (tx) => {
+    const claimed = await tx.proposedExperience.updateMany({
+      where: { id: proposalId, status: ResumeImportStatus.PENDING },
+      data: { status: ResumeImportStatus.IMPORTED },
+    });
+
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    const proposal = await tx.proposedExperience.findUniqueOrThrow({ where: { id: proposalId } });
+
+    return await tx.experience.create({
+      data: {
+        jobSeekerProfileId: proposal.jobSeekerProfileId,
+        company: data.company,
+        position: data.position,
+        description: data.description || null,
+        ...toHistoryDates(data),
+      },
+    });
+  });
+}
+
+/**
+ * Write a reviewed education entry to the profile and mark the proposal
+ * imported, claiming the proposal in the same transaction
+ * @param proposalId The pending proposal
+ * @param data The education as confirmed (and possibly edited) by the job seeker
+ * @returns The created education entry, or null when the proposal is no longer pending
+ */
+export async function importProposedEducation(proposalId: string, data: EducationInput) {
+  return await prisma.$transaction(async (tx) => {
+    const claimed = await tx.proposedEducation.updateMany({
+      where: { id: proposalId, status: ResumeImportStatus.PENDING },
+      data: { status: ResumeImportStatus.IMPORTED },
+    });
+
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    const proposal = await tx.proposedEducation.findUniqueOrThrow({ where: { id: proposalId } });
+
+    return await tx.education.create({
+      data: {
+        jobSeekerProfileId: proposal.jobSeekerProfileId,
+        institution: data.institution,
+        degree: data.degree,
+        field: data.field || null,
+        description: data.description || null,
+        ...toHistoryDates(data),
+      },
+    });
+  });
+}
@@ -0,0 +1,118 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildPageLayout, documentToText, PositionedText, textToDocument } from '@/lib/resume/layout';
+
+// US Letter, in points
+const PAGE_WIDTH = 612;
+
+// A text run about as wide as it would be set in a proportional font
+function run(text: string, x: number, y: number, fontSize = 10): PositionedText {
+  return { text, x, y, width: text.length * fontSize * 0.5, fontSize };
+}
+
+// Runs one under another, 14pt apart
+function column(lines: string[], x: number, top: number): PositionedText[] {
+  return lines.map((text, index) => run(text, x, top + index * 14));
+}
+
+const LEFT_COLUMN = [
+  'Experience',
+  'Senior Engineer, Acme Corp',
+  'Built the billing platform',
+  'Led a team of five',
+  'Engineer, Globex',
+  'Maintained the data pipeline',
+];
+
+const RIGHT_COLUMN = [
+  'Skills',
+  'TypeScript, React, Node.js',
+  'PostgreSQL, Redis',
+  'Education',
+  'BSc Computer Science',
+  'State University, 2014',
+];
+
+const lineTexts = (page: ReturnType<typeof buildPageLayout>) =>
+  page.blocks.map(block => block.lines.map(line => line.text));
+
+describe('buildPageLayout', () => {
+  it('keeps a one-column page in reading order', () => {
+    const runs = column([...LEFT_COLUMN, ...RIGHT_COLUMN], 72, 100);
+
+    const page = buildPageLayout(runs, PAGE_WIDTH, 1);
+
+    assert.equal(page.columns, 1);
+    assert.equal(page.number, 1);
+    assert.deepEqual(lineTexts(page), [[...LEFT_COLUMN, ...RIGHT_COLUMN]]);
+  });
+
+  it('reads a two-column page one column after the other', () => {
+    const runs = [...column(LEFT_COLUMN, 40, 100), ...column(RIGHT_COLUMN, 330, 100)];
+
+    const page = buildPageLayout(runs, PAGE_WIDTH, 2);
+
+    assert.equal(page.columns, 2);
+    assert.deepEqual(page.blocks.map(block => block.column), ['left', 'right']);
+    assert.deepEqual(lineTexts(page), [LEFT_COLUMN, RIGHT_COLUMN]);
+  });
+
+  it('puts a header spanning both columns first', () => {
+    const runs = [
+      ...column(LEFT_COLUMN, 40, 100),
+      ...column(RIGHT_COLUMN, 330, 100),
+      run('Jane Doe - Software Engineer - jane@example.com', 150, 50, 12),
+    ];
+
+    const page = buildPageLayout(runs, PAGE_WIDTH, 1);
+
+    assert.equal(page.columns, 2);
+    assert.deepEqual(page.blocks.map(block => block.column), ['full', 'left', 'right']);
+    assert.equal(page.blocks[0].lines[0].text, 'Jane Doe - Software Engineer - jane@example.com');
+  });
+
+  it('does not split a page at a column of right-aligned dates', () => {
+    const roles = [
+      'Senior Engineer, Acme Corp, on the billing platform',
+      'Engineer, Globex, on the data pipeline and its tools',
+      'Junior Engineer, Initech, on the internal reporting',
+      'Intern, Umbrella, on the quality assurance tooling',
+      'Teaching Assistant, State University, for databases',
+    ];
+    const runs = roles.flatMap((text, index) => [
+      run(text, 40, 100 + index * 14),
+      run(String(2023 - index * 2), 520, 100 + index * 14),
+    ]);
+
+    const page = buildPageLayout(runs, PAGE_WIDTH, 1);
+
+    assert.equal(page.columns, 1);
+    assert.equal(page.blocks[0].lines[0].text, `${roles[0]}\t2023`);
+  });
+
+  it('joins the runs of a line and starts a block at a wider gap', () => {
+    const runs = [
+      run('Senior', 72, 100),
+      run('Engineer', 105, 100),
+      run('Led a team of five', 72, 114),
+      run('Education', 72, 150, 14),
+    ];
+
+    const page = buildPageLayout(runs, PAGE_WIDTH, 1);
+
+    assert.deepEqual(lineTexts(page), [['Senior Engineer', 'Led a team of five'], ['Education']]);
+    assert.equal(page.blocks[1].lines[0].fontSize, 14);
+  });
+});
+
+describe('textToDocument', () => {
+  it('splits plain text into blocks at blank lines and back', () => {
+    const document = textToDocument('Jane Doe\r\njane@example.com\n\n\nExperience\n  Acme Corp  \n');
+
+    assert.deepEqual(document.pages[0].blocks.map(block => block.lines.map(line => line.text)), [
+      ['Jane Doe', 'jane@example.com'],
+      ['Experience', 'Acme Corp'],
+    ]);
+    assert.equal(documentToText(document), 'Jane Doe\njane@example.com\n\nExperience\nAcme Corp');
+  });
+});
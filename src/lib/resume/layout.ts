@@ -0,0 +1,261 @@
+/**
+ * Resume Document Layout
+ *
+ * A resume as pages of blocks of lines, rebuilt from positioned text (PDF
+ * text items) or from plain text. Positioned text is grouped into lines by
+ * baseline and into blocks by vertical spacing, and two-column layouts are
+ * split so each column reads top to bottom instead of being interleaved.
+ */
+
+export interface ResumeLine {
+  text: string;
+  // Font size in points; null when the source has no font information
+  fontSize: number | null;
+}
+
+export interface ResumeBlock {
+  // Which column the block sits in; "full" for single-column pages and text spanning both columns
+  column: 'full' | 'left' | 'right';
+  lines: ResumeLine[];
+}
+
+export interface ResumePage {
+  number: number;
+  columns: 1 | 2;
+  blocks: ResumeBlock[];
+  // Set on scanned pages whose text was read with OCR: Tesseract's confidence, 0-100
+  ocrConfidence?: number;
+}
+
+export interface ResumeDocument {
+  pages: ResumePage[];
+  // Scanned pages left unread because the resume has more than the OCR page limit
+  ocrSkippedPages?: number[];
+}
+
+/**
+ * A run of text on a page. `y` is the baseline measured from the top of the
+ * page, so it grows downwards.
+ */
+export interface PositionedText {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+}
+
+interface LayoutLine extends ResumeLine {
+  y: number;
+  size: number;
+}
+
+// OCR confidence below which a scanned page's text should be checked by the candidate
+export const LOW_OCR_CONFIDENCE = 70;
+
+// Minimum width of the empty strip between two columns, in points
+const MIN_GUTTER_WIDTH = 12;
+
+// Share of the text each column needs before a page counts as two-column
+const MIN_COLUMN_TEXT_SHARE = 0.15;
+
+// Vertical distance, in line heights, that starts a new block
+const BLOCK_GAP_FACTOR = 1.6;
+
+/**
+ * Find the empty vertical strip separating two columns, if the page has them
+ * @returns The strip's left and right edges, or null for a single-column page
+ */
+function findColumnGutter(items: PositionedText[], pageWidth: number): { left: number; right: number } | null {
+  if (items.length < 10 || pageWidth <= 0) return null;
+
+  // How many items cover each point across the page
+  const width = Math.ceil(pageWidth);
+  const coverage = new Array<number>(width + 1).fill(0);
+  for (const item of items) {
+    const start = Math.max(0, Math.floor(item.x));
+    const end = Math.min(width, Math.ceil(item.x + item.width));
+    for (let x = start; x <= end; x++) coverage[x]++;
+  }
+
+  // A heading spanning both columns may cross the gutter
+  const allowedCrossings = Math.max(1, Math.floor(items.length * 0.03));
+  const searchStart = Math.floor(pageWidth * 0.2);
+  const searchEnd = Math.ceil(pageWidth * 0.8);
+
+  let best: { left: number; right: number } | null = null;
+  let runStart = -1;
+  for (let x = searchStart; x <= searchEnd + 1; x++) {
+    const empty = x <= searchEnd && coverage[x] <= allowedCrossings;
+    if (empty && runStart === -1) {
+      runStart = x;
+    } else if (!empty && runStart !== -1) {
+      if (!best || x - runStart > best.right - best.left) {
+        best = { left: runStart, right: x };
+      }
+      runStart = -1;
+    }
+  }
+
+  if (!best || best.right - best.left < MIN_GUTTER_WIDTH) return null;
+
+  // Both sides must hold a real share of the text, not just right-aligned dates
+  const totalChars = items.reduce((sum, item) => sum + item.text.length, 0);
+  const leftChars = items
+    .filter(item => item.x + item.width <= best!.right)
+    .reduce((sum, item) => sum + item.text.length, 0);
+  const rightChars = items
+    .filter(item => item.x >= best!.left)
+    .reduce((sum, item) => sum + item.text.length, 0);
+
+  if (leftChars < totalChars * MIN_COLUMN_TEXT_SHARE || rightChars < totalChars * MIN_COLUMN_TEXT_SHARE) {
+    return null;
+  }
+
+  return best;
+}
+
+/**
+ * Group text runs into lines by baseline and join each line left to right
+ */
+function groupIntoLines(items: PositionedText[]): LayoutLine[] {
+  const sorted = [...items].sort((a, b) => a.y - b.y || a.x - b.x);
+  const rows: PositionedText[][] = [];
+
+  for (const item of sorted) {
+    const row = rows[rows.length - 1];
+    if (row && Math.abs(row[0].y - item.y) <= Math.min(row[0].fontSize, item.fontSize) * 0.5) {
+      row.push(item);
+    } else {
+      rows.push([item]);
+    }
+  }
+
+  return rows
+    .map(row => {
+      row.sort((a, b) => a.x - b.x);
+
+      let text = '';
+      let end = -Infinity;
+      for (const item of row) {
+        const gap = item.x - end;
+        if (text && gap > item.fontSize * 2) {
+          // Wide gaps separate things like a job title and its dates
+          text = text.trimEnd() + '\t';
+        } else if (text && gap > item.fontSize * 0.2 && !text.endsWith(' ') && !item.text.startsWith(' ')) {
+          text += ' ';
+        }
+        text += item.text;
+        end = item.x + item.width;
+      }
+
+      // The size of the line's longest run, so one small footnote marker does not count
+      const main = row.reduce((longest, item) => (item.text.length > longest.text.length ? item : longest));
+      const size = Math.round(main.fontSize * 10) / 10;
+
+      return { text: text.replace(/ {2,}/g, ' ').trim(), fontSize: size, y: row[0].y, size };
+    })
+    .filter(line => line.text.length > 0);
+}
+
+/**
+ * Split lines into blocks wherever the vertical spacing opens up
+ */
+function groupIntoBlocks(lines: LayoutLine[], column: ResumeBlock['column']): Array<ResumeBlock & { top: number }> {
+  const blocks: Array<ResumeBlock & { top: number }> = [];
+  let previous: LayoutLine | null = null;
+
+  for (const line of lines) {
+    if (!previous || line.y - previous.y > previous.size * BLOCK_GAP_FACTOR) {
+      blocks.push({ column, lines: [], top: line.y });
+    }
+    blocks[blocks.length - 1].lines.push({ text: line.text, fontSize: line.fontSize });
+    previous = line;
+  }
+
+  return blocks;
+}
+
+/**
+ * Lay out the text of one page
+ * @param items The page's positioned text runs
+ * @param pageWidth Width of the page in points
+ * @param pageNumber 1-based page number
+ */
+export function buildPageLayout(items: PositionedText[], pageWidth: number, pageNumber: number): ResumePage {
+  const runs = items.filter(item => item.text.trim().length > 0);
+  const gutter = findColumnGutter(runs, pageWidth);
+
+  if (!gutter) {
+    const blocks = groupIntoBlocks(groupIntoLines(runs), 'full');
+    return { number: pageNumber, columns: 1, blocks: blocks.map(({ column, lines }) => ({ column, lines })) };
+  }
+
+  const left: PositionedText[] = [];
+  const right: PositionedText[] = [];
+  const spanning: PositionedText[] = [];
+  for (const item of runs) {
+    if (item.x + item.width <= gutter.right) {
+      left.push(item);
+    } else if (item.x >= gutter.left) {
+      right.push(item);
+    } else {
+      spanning.push(item);
+    }
+  }
+
+  const leftBlocks = groupIntoBlocks(groupIntoLines(left), 'left');
+  const rightBlocks = groupIntoBlocks(groupIntoLines(right), 'right');
+  const spanningBlocks = groupIntoBlocks(groupIntoLines(spanning), 'full');
+
+  // Full-width text above the columns (usually the name and contact line) comes first
+  const columnsTop = Math.min(leftBlocks[0]?.top ?? Infinity, rightBlocks[0]?.top ?? Infinity);
+  const ordered = [
+    ...spanningBlocks.filter(block => block.top < columnsTop),
+    ...leftBlocks,
+    ...rightBlocks,
+    ...spanningBlocks.filter(block => block.top >= columnsTop),
+  ];
+
+  return { number: pageNumber, columns: 2, blocks: ordered.map(({ column, lines }) => ({ column, lines })) };
+}
+
+/**
+ * Build a document from plain text: one page, blocks separated by blank lines
+ */
+export function textToDocument(text: string): ResumeDocument {
+  const blocks: ResumeBlock[] = text
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/)
+    .map(block => ({
+      column: 'full' as const,
+      lines: block
+        .split('\n')
+        .map(line => line.trim())
+        .filter(line => line.length > 0)
+        .map(line => ({ text: line, fontSize: null })),
+    }))
+    .filter(block => block.lines.length > 0);
+
+  return { pages: [{ number: 1, columns: 1, blocks }] };
+}
+
+/**
+ * Flatten a document to text: one line per line, blank lines between blocks
+ */
+export function documentToText(document: ResumeDocument): string {
+  return document.pages
+    .map(page => page.blocks.map(block => block.lines.map(line => line.text).join('\n')).join('\n\n'))
+    .filter(page => page.length > 0)
+    .join('\n\n');
+}
+
+/**
+ * Get the pages of a document that were read with OCR
+ * @returns Page numbers with their OCR confidence
+ */
+export function getOcrPages(document: ResumeDocument): Array<{ number: number; confidence: number }> {
+  return document.pages
+    .filter(page => page.ocrConfidence !== undefined)
+    .map(page => ({ number: page.number, confidence: page.ocrConfidence as number }));
+}
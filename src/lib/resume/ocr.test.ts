@@ -0,0 +1,29 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getOcrPageLimit, isOcrEnabled } from '@/lib/resume/ocr';
+
+// Next.js types NODE_ENV as always set; these tests only need the OCR variables
+const env = (vars: Record<string, string> = {}) => vars as unknown as NodeJS.ProcessEnv;
+
+describe('isOcrEnabled', () => {
+  it('is on unless turned off', () => {
+    assert.equal(isOcrEnabled(env()), true);
+    assert.equal(isOcrEnabled(env({ RESUME_OCR: 'OFF' })), false);
+  });
+});
+
+describe('getOcrPageLimit', () => {
+  it('reads five scanned pages by default', () => {
+    assert.equal(getOcrPageLimit(env()), 5);
+  });
+
+  it('uses the configured limit', () => {
+    assert.equal(getOcrPageLimit(env({ RESUME_OCR_MAX_PAGES: '12' })), 12);
+    assert.equal(getOcrPageLimit(env({ RESUME_OCR_MAX_PAGES: '0' })), 0);
+  });
+
+  it('ignores limits that are not a page count', () => {
+    assert.equal(getOcrPageLimit(env({ RESUME_OCR_MAX_PAGES: 'all' })), 5);
+    assert.equal(getOcrPageLimit(env({ RESUME_OCR_MAX_PAGES: '-1' })), 5);
+  });
+});
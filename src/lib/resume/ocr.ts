@@ -0,0 +1,89 @@
+/**
+ * Resume OCR
+ *
+ * Reads the text of scanned resume pages with Tesseract, using tesseract.js
+ * (a WebAssembly build that runs on the CPU, no native install needed).
+ * Configured with environment variables:
+ * - RESUME_OCR: `off` disables OCR (default `on`)
+ * - RESUME_OCR_LANGS: Tesseract languages joined with `+` (default `eng`)
+ * - RESUME_OCR_LANG_PATH: where to load language data from, for servers
+ *   without internet access (default: the tesseract.js CDN)
+ * - RESUME_OCR_MAX_PAGES: scanned pages read per resume; OCR takes seconds
+ *   per page, so later pages are skipped (default 5)
+ */
+
+import os from 'os';
+import path from 'path';
+import type { Worker } from 'tesseract.js';
+
+export interface OcrResult {
+  text: string;
+  // Tesseract's mean word confidence, 0-100
+  confidence: number;
+}
+
+const DEFAULT_OCR_PAGE_LIMIT = 5;
+
+// One worker per process; Tesseract recognizes one image at a time anyway
+let workerPromise: Promise<Worker> | null = null;
+
+/**
+ * Whether scanned pages should be read with OCR
+ */
+export function isOcrEnabled(env: NodeJS.ProcessEnv = process.env): boolean {
+  return (env.RESUME_OCR || 'on').toLowerCase() !== 'off';
+}
+
+/**
+ * How many scanned pages of a resume are read with OCR
+ */
+export function getOcrPageLimit(env: NodeJS.ProcessEnv = process.env): number {
+  const limit = parseInt(env.RESUME_OCR_MAX_PAGES || '', 10);
+  return Number.isInteger(limit) && limit >= 0 ? limit : DEFAULT_OCR_PAGE_LIMIT;
+}
+
+async function createOcrWorker(env: NodeJS.ProcessEnv): Promise<Worker> {
+  // Import tesseract.js dynamically so it is only loaded once a scan needs reading
+  const { createWorker } = await import('tesseract.js');
+  const langs = (env.RESUME_OCR_LANGS || 'eng').split('+').filter(Boolean);
+
+  console.log(`[OCR] Starting Tesseract worker for ${langs.join('+')}`);
+  return await new Promise<Worker>((resolve, reject) => {
+    createWorker(langs, undefined, {
+      cachePath: path.join(os.tmpdir(), 'tesseract'),
+      ...(env.RESUME_OCR_LANG_PATH ? { langPath: env.RESUME_OCR_LANG_PATH } : {}),
+      // Without a handler tesseract.js rethrows worker errors where nothing can catch
+      // them, and a failed language download never settles createWorker, so reject here
+      errorHandler: error => {
+        console.error('[OCR] Tesseract error:', error);
+        reject(new Error(`Tesseract failed to start: ${error}`));
+      },
+    }).then(resolve, reject);
+  });
+}
+
+function getOcrWorker(env: NodeJS.ProcessEnv = process.env): Promise<Worker> {
+  if (!workerPromise) {
+    workerPromise = createOcrWorker(env).catch(error => {
+      // Let the next scan try again, e.g. after the language data download failed
+      workerPromise = null;
+      throw error;
+    });
+  }
+  return workerPromise;
+}
+
+/**
+ * Recognize the text in an image
+ * @param image The image, e.g. a PNG of a rendered page
+ * @returns The text, one line per line, and how confident Tesseract is in it
+ */
+export async function recognizeImage(image: Buffer): Promise<OcrResult> {
+  const worker = await getOcrWorker();
+  const { data } = await worker.recognize(image);
+
+  return {
+    text: data.text.replace(/[ \t]+\n/g, '\n').trim(),
+    confidence: Math.round(data.confidence),
+  };
+}
@@ -0,0 +1,127 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { parseResume } from '@/lib/resume/parser';
+import { textToDocument } from '@/lib/resume/layout';
+
+// Sample resumes as plain text, one per file in __fixtures__
+function parseFixture(name: string) {
+  const text = readFileSync(path.join(__dirname, '__fixtures__', `${name}.txt`), 'utf8');
+  return parseResume(textToDocument(text));
+}
+
+describe('parseResume', () => {
+  describe('software engineer resume', () => {
+    const result = parseFixture('software-engineer');
+
+    it('reads the contact details from the header', () => {
+      assert.deepEqual(result.contactInfo, {
+        name: 'Jane Doe',
+        email: 'jane.doe@example.com',
+        phone: '+1 (415) 555-2019',
+        linkedin: 'linkedin.com/in/janedoe',
+        website: '',
+        location: 'San Francisco, CA',
+      });
+    });
+
+    it('reads the summary section', () => {
+      assert.match(result.summary, /^Full-stack engineer with seven years/);
+    });
+
+    it('groups each position with its dates and bullets', () => {
+      assert.deepEqual(result.experience, [
+        {
+          title: 'Senior Software Engineer',
+          company: 'Acme Technologies',
+          dates: 'Jan 2019 – Present',
+          description: [
+            'Led the migration of the payments service to TypeScript and Node.js',
+            'Mentored four engineers and introduced code review guidelines',
+          ],
+        },
+        {
+          title: 'Software Engineer',
+          company: 'Globex Corp',
+          dates: '2017-2020',
+          description: ['Built React dashboards used by 200 internal analysts'],
+        },
+      ]);
+    });
+
+    it('reads the degree, field and institution', () => {
+      const [education] = result.education;
+      assert.equal(result.education.length, 1);
+      assert.equal(education.degree, 'Bachelor of Science');
+      assert.equal(education.field, 'Computer Science');
+      assert.match(education.institution, /^University of California/);
+      assert.equal(education.dates, '2013 - 2017');
+    });
+
+    it('splits categorized skills', () => {
+      assert.deepEqual(result.skills, [
+        'TypeScript', 'JavaScript', 'Python', 'React', 'Node.js', 'Express', 'Docker', 'PostgreSQL', 'Git',
+      ]);
+    });
+  });
+
+  describe('data analyst resume', () => {
+    const result = parseFixture('data-analyst');
+
+    it('reads a phone number on its own line without taking it for dates', () => {
+      assert.equal(result.contactInfo.phone, '(312) 555-0142');
+      assert.equal(result.experience[0].dates, '03/2020 – 08/2023');
+    });
+
+    it('recognizes upper-case headings and abbreviated degrees', () => {
+      assert.equal(result.experience.length, 1);
+      assert.equal(result.experience[0].title, 'Data Analyst');
+      assert.equal(result.experience[0].company, 'Initech Solutions');
+      assert.deepEqual(result.education, [
+        { degree: 'M.S.', field: 'Statistics', institution: 'Northwestern University', dates: '2018 to 2020' },
+      ]);
+    });
+
+    it('reads a comma-separated skills section', () => {
+      assert.deepEqual(result.skills, ['SQL', 'Python', 'Tableau', 'Excel', 'Communication']);
+    });
+  });
+
+  describe('resume without headings', () => {
+    const result = parseFixture('no-headings');
+
+    it('uses the paragraph under the contact details as the summary', () => {
+      assert.match(result.summary, /^Experienced project manager/);
+    });
+
+    it('falls back to known skills found anywhere in the text', () => {
+      assert.ok(result.skills.includes('Agile'));
+      assert.ok(result.skills.includes('AWS'));
+      assert.ok(result.skills.includes('Team Collaboration'));
+    });
+
+    it('recognises skills by their aliases and in any case when the name is distinctive', () => {
+      const { skills } = parseResume(textToDocument(
+        'Built restful apis in node.js and typescript, deployed on Amazon Web Services with k8s and postgresql.'
+      ));
+      assert.deepEqual(skills, ['TypeScript', 'Node.js', 'PostgreSQL', 'AWS', 'Kubernetes', 'REST API']);
+    });
+
+    it('does not take ordinary words for skills', () => {
+      const { skills } = parseResume(textToDocument(
+        'I spent less time on reviews and kept the team agile. Next, in spring 2020, we shipped a rust-free design.'
+      ));
+      assert.deepEqual(skills, []);
+    });
+
+    it('finds no experience or education', () => {
+      assert.deepEqual(result.experience, []);
+      assert.deepEqual(result.education, []);
+    });
+
+    it('does not take the phone number for a date range', () => {
+      assert.equal(result.contactInfo.phone, '+44 20 7946 0958');
+    });
+  });
+});
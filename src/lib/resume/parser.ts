@@ -0,0 +1,381 @@
+/**
+ * Rule-Based Resume Parser
+ *
+ * Deterministic, offline extraction of contact details, summary, skills,
+ * experience and education from a resume's layout; the analysis used when no
+ * LLM provider is configured or the provider fails. It works on the sections
+ * found by the section detector: each experience or education entry is
+ * grouped from its header lines (title, company, institution, dates) and the
+ * bullets that follow them.
+ */
+
+import { ResumeDocument } from '@/lib/resume/layout';
+import { detectResumeSections, getSectionKeyForHeading, ResumeSection, ResumeSectionKey } from '@/lib/resume/sections';
+import { findResumeDateRange } from '@/lib/resume/dates';
+import { SKILL_TAXONOMY } from '@/lib/skills/taxonomy';
+
+export interface ParsedContactInfo {
+  name: string;
+  email: string;
+  phone: string;
+  linkedin: string;
+  website: string;
+  location: string;
+}
+
+export interface ParsedExperience {
+  title: string;
+  company: string;
+  dates: string;
+  description: string[];
+}
+
+export interface ParsedEducation {
+  degree: string;
+  field: string;
+  institution: string;
+  dates: string;
+}
+
+export interface ResumeParseResult {
+  contactInfo: ParsedContactInfo;
+  summary: string;
+  skills: string[];
+  experience: ParsedExperience[];
+  education: ParsedEducation[];
+}
+
+interface SkillTerm {
+  skill: string;
+  pattern: RegExp;
+}
+
+// Whether a name can be told apart from ordinary words: several words, or
+// digits, symbols or capitals inside it ("REST API", "C++", "JavaScript")
+function isDistinctiveName(name: string): boolean {
+  return /\s|[^A-Za-z]|^.+[A-Z]/.test(name);
+}
+
+// Skill names and aliases of the taxonomy recognised anywhere in the text when
+// the resume has no skills section. Acronyms ("SQL", "AI") and single words
+// ("Agile", "Go") only match as written, so "less" or "agile" in a sentence do
+// not count; single-word aliases such as "Spring" or "Next" are too ambiguous
+// to use at all, and so are one-letter names.
+const KNOWN_SKILL_TERMS: SkillTerm[] = SKILL_TAXONOMY.flatMap(({ name, aliases }) =>
+  [name, ...aliases.filter(isDistinctiveName)]
+    .filter(term => term.length > 1)
+    .map(term => {
+      const caseSensitive = term === term.toUpperCase() || !isDistinctiveName(term);
+      // Names like "C++" need escaping, and \b does not work next to their symbols
+      const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/ /g, '\\s+');
+      return { skill: name, pattern: new RegExp(`(?<![\\w.+#/-])${escaped}(?![\\w+#/]|\\.\\w)`, caseSensitive ? '' : 'i') };
+    })
+);
+
+const BULLET_PATTERN = /^(?:[•·▪‣◦●○■□➢➤►✓✔*]|[-–](?=\s)|\d{1,2}[.)](?=\s))\s*/;
+
+const EMAIL_PATTERN = /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/;
+
+// 7 to 15 digits, optionally with a country code, area code in brackets and separators
+const PHONE_PATTERN = /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]?\d{2,4}){1,3}/g;
+
+const LINKEDIN_PATTERN = /(?:https?:\/\/)?(?:[a-z]{2,3}\.)?linkedin\.com\/(?:in|pub)\/[\w%-]+\/?/i;
+
+const WEBSITE_PATTERN = /(?:https?:\/\/)?(?:www\.)?[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|org|net|io|dev|me|co|app|ai|info|tech|site|page|blog|uk|de|ca|au|nl|fr|in)(?:\/[^\s|,;]*)?/i;
+
+// "San Francisco, CA", "London, United Kingdom" or "Remote"
+const LOCATION_PATTERN = /^(?:[A-Z][A-Za-z.'-]*(?: [A-Z][A-Za-z.'-]*)*, ?(?:[A-Z]{2}|[A-Z][a-z]+(?: [A-Z][a-z]+)*)|Remote)$/;
+
+const TITLE_WORDS = /\b(engineer|developer|programmer|manager|designer|analyst|intern|consultant|director|lead|architect|scientist|specialist|coordinator|administrator|officer|assistant|associate|head|vp|vice president|president|founder|co-founder|owner|teacher|instructor|lecturer|researcher|technician|representative|executive|accountant|editor|writer|recruiter|nurse|contractor|freelancer?)\b/i;
+
+const COMPANY_WORDS = /\b(inc|llc|ltd|gmbh|corp|corporation|company|group|technologies|labs|bank|agency|studio|solutions|systems)\b\.?/i;
+
+// Degrees written out; "Bachelor of Science" keeps its "of" part
+const LONG_DEGREE_PATTERN = /\b((?:bachelor|master|associate)(?:'s)?(?: of (?:science|arts|engineering|fine arts|business administration|laws|technology))?|doctor(?:ate)? of philosophy|high school diploma|diploma|certificate)\b/i;
+
+// Abbreviated degrees are matched case-sensitively so "MA" does not match "ma"
+const SHORT_DEGREE_PATTERN = /(?:^|[\s,(])(Ph\.?D\.?|M\.?B\.?A\.?|B\.?S\.?c?\.?|M\.?S\.?c?\.?|B\.?A\.?|M\.?A\.?|B\.?Eng\.?|M\.?Eng\.?|B\.?Tech\.?|M\.?Tech\.?|A\.?A\.?S?\.?)(?=[\s,)]|$)/;
+
+const INSTITUTION_WORDS = /\b(university|college|institute|school|academy|polytechnic|conservatory)\b/i;
+
+// Lines longer than this are descriptions rather than entry headers
+const MAX_HEADER_LENGTH = 90;
+
+/**
+ * Parse a resume without an LLM
+ * @param document The resume's layout
+ * @param sections The resume's sections; detected from the document when not given
+ */
+export function parseResume(
+  document: ResumeDocument,
+  sections: ResumeSection[] = detectResumeSections(document)
+): ResumeParseResult {
+  const allLines = sections.flatMap(section => section.lines);
+  const sectionLines = (key: ResumeSectionKey) =>
+    sections.filter(section => section.key === key).flatMap(section => section.lines);
+
+  // The name and contact details come before the first heading or in a contact section
+  const leadingLines = sections[0] && sections[0].heading === null ? sections[0].lines : [];
+  const headerLines = [...leadingLines.slice(0, 8), ...sectionLines('contact')];
+
+  return {
+    contactInfo: parseContactInfo(headerLines, allLines),
+    summary: parseSummary(sectionLines('summary'), leadingLines),
+    skills: parseSkills(sectionLines('skills'), allLines.join('\n')),
+    experience: parseExperience(sectionLines('experience')),
+    education: parseEducation(sectionLines('education')),
+  };
+}
+
+function parseContactInfo(headerLines: string[], allLines: string[]): ParsedContactInfo {
+  const headerText = headerLines.join('\n');
+  const allText = allLines.join('\n');
+
+  const email = (EMAIL_PATTERN.exec(headerText) || EMAIL_PATTERN.exec(allText))?.[0] || '';
+  const linkedin = LINKEDIN_PATTERN.exec(headerText)?.[0] || '';
+
+  // Look for a website only where emails and LinkedIn cannot be mistaken for one
+  const withoutAccounts = headerText.replace(new RegExp(EMAIL_PATTERN.source, 'g'), ' ').replace(LINKEDIN_PATTERN, ' ');
+  const website = WEBSITE_PATTERN.exec(withoutAccounts)?.[0] || '';
+
+  const parts = headerLines.flatMap(splitParts);
+  const location = parts.find(part => LOCATION_PATTERN.test(part)) || '';
+
+  return {
+    name: headerLines.find(isName)?.trim() || '',
+    email,
+    phone: findPhone(headerText) || findPhone(allText),
+    linkedin,
+    website,
+    location,
+  };
+}
+
+function isName(line: string): boolean {
+  const text = line.trim();
+  const words = text.split(/\s+/);
+
+  return (
+    words.length >= 2 &&
+    words.length <= 4 &&
+    text.length <= 40 &&
+    words.every(word => /^[\p{L}][\p{L}.'-]*$/u.test(word)) &&
+    !getSectionKeyForHeading(text) &&
+    !TITLE_WORDS.test(text)
+  );
+}
+
+function findPhone(text: string): string {
+  for (const match of Array.from(text.matchAll(PHONE_PATTERN))) {
+    const digits = match[0].replace(/\D/g, '');
+
+    // A date range such as "2019 - 2021" has the digits of a phone number too
+    if (digits.length >= 7 && digits.length <= 15 && findResumeDateRange(match[0]) !== match[0].trim()) {
+      return match[0].trim();
+    }
+  }
+  return '';
+}
+
+function parseSummary(summaryLines: string[], leadingLines: string[]): string {
+  if (summaryLines.length > 0) {
+    return summaryLines.join(' ').replace(/\s+/g, ' ').trim();
+  }
+
+  // Without a summary heading, a paragraph under the name and contact details serves as one
+  const paragraph = leadingLines.filter(isDescription).join(' ').trim();
+  return paragraph.length >= 50 ? paragraph : '';
+}
+
+function parseSkills(skillLines: string[], text: string): string[] {
+  if (skillLines.length === 0) {
+    const found = KNOWN_SKILL_TERMS.filter(term => term.pattern.test(text)).map(term => term.skill);
+    return Array.from(new Set(found));
+  }
+
+  const skills = new Map<string, string>();
+  for (const line of skillLines) {
+    // "Languages: JavaScript, Python" lists skills under a category
+    const items = line.replace(BULLET_PATTERN, '').replace(/^[^:,]{1,40}:\s*/, '');
+
+    for (const item of items.split(/\s*[,;|•·\t]\s*|\s{2,}/)) {
+      const skill = item.replace(/^(?:and|&)\s+/i, '').replace(/[.\s]+$/, '').trim();
+      if (skill.length > 0 && skill.length <= 40 && skill.split(/\s+/).length <= 4 && !skills.has(skill.toLowerCase())) {
+        skills.set(skill.toLowerCase(), skill);
+      }
+    }
+  }
+
+  return Array.from(skills.values());
+}
+
+// A long line or a sentence, as opposed to an entry header
+function isDescription(line: string): boolean {
+  return line.length > MAX_HEADER_LENGTH || (/[.!]$/.test(line) && line.split(/\s+/).length > 8);
+}
+
+// Split a header line at separators such as "|", "•", tabs and spaced dashes
+function splitParts(line: string): string[] {
+  return line
+    .split(/\s*[|•·\t]\s*|\s+[–—-]\s+/)
+    .map(part => part.trim())
+    .filter(Boolean);
+}
+
+// Remove a date range from a header line, with the brackets and separators around it
+function removeDates(line: string, dates: string): string {
+  return line
+    .replace(dates, ' ')
+    .replace(/\(\s*\)/g, ' ')
+    .replace(/^[\s|,–—-]+|[\s|,–—-]+$/g, '')
+    .trim();
+}
+
+interface EntryLines {
+  header: string[];
+  dates: string;
+  body: string[];
+}
+
+/**
+ * Group the lines of a section into entries: header lines with the entry's
+ * dates, followed by bullets or description lines
+ * @param isEntryStart Whether a header line must begin a new entry
+ */
+function groupEntries(lines: string[], isEntryStart: (line: string, entry: EntryLines) => boolean = () => false): EntryLines[] {
+  const entries: EntryLines[] = [];
+  let entry: EntryLines | null = null;
+  let lastWasBullet = false;
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const bullet = BULLET_PATTERN.exec(line);
+    if (bullet) {
+      if (!entry) {
+        entry = { header: [], dates: '', body: [] };
+        entries.push(entry);
+      }
+      entry.body.push(line.slice(bullet[0].length).trim());
+      lastWasBullet = true;
+      continue;
+    }
+
+    const previous = entry?.body[entry.body.length - 1];
+    if (previous && lastWasBullet && (/^[a-z(]/.test(line) || /(?:,|\b(?:and|or|of|the|to|with|for|in))$/i.test(previous))) {
+      // A bullet wrapped onto the next line
+      entry!.body[entry!.body.length - 1] += ` ${line}`;
+      continue;
+    }
+
+    if (entry && (entry.header.length > 0 || entry.dates) && isDescription(line)) {
+      entry.body.push(line);
+      lastWasBullet = false;
+      continue;
+    }
+
+    const dates = findResumeDateRange(line) || '';
+    const text = dates ? removeDates(line, dates) : line;
+
+    const startsEntry =
+      !entry ||
+      entry.body.length > 0 ||
+      (text && entry.header.length >= 2) ||
+      (dates && entry.dates) ||
+      (text && isEntryStart(text, entry));
+
+    if (startsEntry) {
+      entry = { header: [], dates: '', body: [] };
+      entries.push(entry);
+    }
+
+    const current = entry as EntryLines;
+    if (dates && !current.dates) current.dates = dates;
+    if (text) current.header.push(text);
+    lastWasBullet = false;
+  }
+
+  return entries.filter(entry => entry.header.length > 0);
+}
+
+function parseExperience(lines: string[]): ParsedExperience[] {
+  return groupEntries(lines).map(entry => {
+    const { title, company } = splitTitleAndCompany(entry.header);
+    return { title, company, dates: entry.dates, description: entry.body };
+  });
+}
+
+/**
+ * Tell the job title from the company in an entry's header lines, e.g.
+ * "Senior Engineer at Acme", "Acme Corp | Senior Engineer" or a title line
+ * followed by a company line
+ */
+function splitTitleAndCompany(header: string[]): { title: string; company: string } {
+  const atMatch = /^(.+?)\s+(?:at|@)\s+(.+)$/i.exec(header[0]);
+  if (atMatch && TITLE_WORDS.test(atMatch[1])) {
+    return { title: atMatch[1].trim(), company: atMatch[2].trim() };
+  }
+
+  let parts = header.flatMap(splitParts);
+  if (parts.length === 1) {
+    // "Senior Engineer, Acme" only has a comma between the two
+    parts = parts[0].split(/,\s+(?=[A-Z])/);
+  }
+  parts = parts.filter(part => !LOCATION_PATTERN.test(part));
+
+  const titleIndex = parts.findIndex(part => TITLE_WORDS.test(part) && !COMPANY_WORDS.test(part));
+  if (titleIndex === -1) {
+    return { title: parts[0] || '', company: parts[1] || '' };
+  }
+
+  const company = parts.find((part, index) => index !== titleIndex) || '';
+  return { title: parts[titleIndex], company };
+}
+
+function findDegree(text: string): { degree: string; index: number; length: number } | null {
+  const long = LONG_DEGREE_PATTERN.exec(text);
+  if (long) return { degree: long[1], index: long.index, length: long[0].length };
+
+  const short = SHORT_DEGREE_PATTERN.exec(text);
+  if (short) {
+    const index = short.index + short[0].indexOf(short[1]);
+    return { degree: short[1], index, length: short[1].length };
+  }
+  return null;
+}
+
+function parseEducation(lines: string[]): ParsedEducation[] {
+  // A second degree line starts the next entry even without dates in between
+  const entries = groupEntries(lines, (line, entry) => !!findDegree(line) && entry.header.some(header => !!findDegree(header)));
+
+  return entries
+    .map(entry => {
+      const parts = entry.header
+        .flatMap(splitParts)
+        .flatMap(part => part.split(/,\s+/))
+        .filter(part => part && !LOCATION_PATTERN.test(part));
+
+      let degree = '';
+      let field = '';
+      const degreePart = parts.find(part => findDegree(part));
+      if (degreePart) {
+        const found = findDegree(degreePart)!;
+        degree = found.degree;
+        // "Bachelor of Science in Computer Science", "BSc Computer Science"
+        field = degreePart
+          .slice(found.index + found.length)
+          .replace(/^[\s,:()-]*(?:(?:in|of)\s+)?/i, '')
+          .replace(/[\s()]+$/, '')
+          .trim();
+      }
+
+      const institution =
+        parts.find(part => part !== degreePart && INSTITUTION_WORDS.test(part)) ||
+        parts.find(part => part !== degreePart) ||
+        '';
+
+      return { degree, field, institution, dates: entry.dates };
+    })
+    .filter(education => education.degree || education.institution);
+}
@@ -0,0 +1,353 @@
+/**
+ * Resume Processing
+ *
+ * Extracts the text of an uploaded resume, analyzes it and stores the results:
+ * the job seeker's skills, the staged experience and education, and the
+ * cached analysis. Used by the analyze API route and the background queue.
+ */
+
+import { prisma } from '@/lib/db/prisma';
+import { getResumeStorage } from '@/lib/storage';
+import { Prisma } from '@prisma/client';
+import { extractResumeDocument } from '@/lib/resume/extractors';
+import { getOcrPages, ResumeDocument } from '@/lib/resume/layout';
+import { RESUME_FORMATS_DESCRIPTION } from '@/lib/resume/formats';
+import { analyzeResume, getResumeAnalyzerVersion } from '@/lib/resume/analyzer';
+import { getCachedResumeAnalysis, hashResumeText, saveResumeAnalysis } from '@/lib/resume/analysis-cache';
+import { stageResumeHistory } from '@/lib/resume/history-import';
+import { setResumeSkills } from '@/lib/skills/catalog';
+import { getPlaceholderProvenance, RESUME_EXTRACTION_FAILURE_MESSAGES, ResumeExtractionFailure } from '@/lib/resume/provenance';
+
+/**
+ * Get the analysis of a job seeker's resume, extracting and analyzing it first
+ * when there is no valid cached analysis
+ * @param resumeId A JobSeekerProfile id or ParsedResume id
+ * @param refresh Re-run the analysis even when the cached one is still valid
+ * @returns The formatted analysis (`isFallback` with a `message` when processing failed), or null if no resume was found
+ */
+export async function getResumeAnalysis(resumeId: string, refresh = false) {
+  try {
+    console.log(`Getting resume analysis for ID: ${resumeId}`);
+    
+    // First check if this is a JobSeekerProfile ID
+    const jobSeekerProfile = await prisma.jobSeekerProfile.findUnique({
+      where: { id: resumeId },
+      include: {
+        parsedResume: true,
+        skills: { include: { skill: true } },
+        user: true,
+      },
+    });
+
+    // If we found a JobSeekerProfile, use its parsedResume
+    if (jobSeekerProfile) {
+      console.log('Found JobSeekerProfile:', jobSeekerProfile.id);
+      
+      if (!jobSeekerProfile.parsedResume) {
+        console.log('No parsed resume found, creating one');
+        
+        // Create a new parsed resume
+        const newParsedResume = await prisma.parsedResume.create({
+          data: {
+            jobSeekerProfileId: jobSeekerProfile.id,
+            rawText: '',
+            lastUpdated: new Date(),
+          },
+        });
+        
+        // Update the job seeker profile with the new parsed resume
+        await prisma.jobSeekerProfile.update({
+          where: { id: jobSeekerProfile.id },
+          data: {
+            parsedResume: {
+              connect: { id: newParsedResume.id }
+            }
+          },
+        });
+        
+        // Retry with the updated profile
+        return await processResumeForProfile(jobSeekerProfile, newParsedResume, refresh);
+      }
+      
+      return await formatResumeResponse(
+        jobSeekerProfile.parsedResume, 
+        jobSeekerProfile.skills,
+        jobSeekerProfile,
+        refresh,
+      );
+    }
+
+    // If not found by JobSeekerProfile ID, try to find the ParsedResume directly
+    console.log('Trying to find ParsedResume directly');
+    const parsedResume = await prisma.parsedResume.findUnique({
+      where: { id: resumeId },
+    });
+
+    if (!parsedResume) {
+      console.error('No resume found with ID:', resumeId);
+      return null;
+    }
+
+    // Find the JobSeekerProfile associated with this ParsedResume to get skills
+    const profileWithResume = await prisma.jobSeekerProfile.findFirst({
+      where: { 
+        parsedResume: {
+          id: parsedResume.id
+        }
+      },
+      include: { 
+        skills: { include: { skill: true } },
+        user: true,
+      },
+    });
+
+    if (!profileWithResume) {
+      console.error('No job seeker profile found for ParsedResume:', parsedResume.id);
+      return createFallbackResponse({ user: { email: '' } });
+    }
+
+    return await formatResumeResponse(parsedResume, profileWithResume.skills, profileWithResume, refresh);
+  } catch (error) {
+    console.error('Error in getResumeAnalysis:', error);
+    return null;
+  }
+}
+
+/**
+ * Get the cached analysis of a job seeker's resume without extracting or
+ * analyzing anything, for viewers other than the job seeker
+ * @param jobSeekerProfileId The job seeker's profile id
+ * @returns The cached analysis, or null if the current resume has none
+ */
+export async function getStoredResumeAnalysis(jobSeekerProfileId: string) {
+  const parsedResume = await prisma.parsedResume.findUnique({
+    where: { jobSeekerProfileId },
+  });
+
+  if (!parsedResume?.rawText) {
+    return null;
+  }
+
+  const cached = await getCachedResumeAnalysis<Record<string, unknown>>(
+    parsedResume.id,
+    hashResumeText(parsedResume.rawText),
+    getResumeAnalyzerVersion()
+  );
+
+  return cached ? { ...cached, cached: true } : null;
+}
+
+// Combined and improved formatResumeResponse function
+async function formatResumeResponse(parsedResume: any, skills: Array<{ skill: { name: string } }>, jobSeekerProfile: any, refresh = false) {
+  try {
+    if (!parsedResume) {
+      console.error('[Resume Analysis] Resume data not found');
+      return null;
+    }
+    
+    console.log(`[Resume Analysis] Formatting resume response for resume ID: ${parsedResume.id}`);
+    
+    // Check if we need to extract text from the resume file
+    let resumeText = parsedResume.rawText;
+    let resumeDocument: ResumeDocument | null = parsedResume.layout ?? null;
+    if (!resumeText) {
+      // A file that could not be read will not read any better on a second try
+      if (parsedResume.extractionFailure && !refresh) {
+        console.log(`[Resume Analysis] Resume text could not be extracted earlier: ${parsedResume.extractionFailure}`);
+        return createFallbackResponse(jobSeekerProfile, parsedResume.extractionFailure);
+      }
+      
+      console.log('[Resume Analysis] No raw text found, extracting from resume file');
+      
+      if (!jobSeekerProfile?.resumeKey) {
+        console.error('[Resume Analysis] No resume file available in job seeker profile');
+        return createFallbackResponse(jobSeekerProfile);
+      }
+      
+      try {
+        console.log(`[Resume Analysis] Reading resume file: ${jobSeekerProfile.resumeKey}`);
+        const fileBuffer = await getResumeStorage().get(jobSeekerProfile.resumeKey);
+        
+        if (!fileBuffer) {
+          console.error('[Resume Analysis] Resume file is missing from storage');
+          return createFallbackResponse(jobSeekerProfile);
+        }
+        
+        console.log(`[Resume Analysis] Successfully read file, size: ${fileBuffer.length} bytes`);
+        
+        // Extract the layout with the extractor for the file's format
+        console.log('[Resume Analysis] Attempting to extract text from resume file');
+        const extraction = await extractResumeDocument(fileBuffer);
+        
+        if (!extraction.success) {
+          console.error(`[Resume Analysis] Could not extract resume text (${extraction.reason}): ${extraction.message}`);
+          await prisma.parsedResume.update({
+            where: { id: parsedResume.id },
+            data: {
+              rawText: '',
+              layout: Prisma.DbNull,
+              extractionFailure: extraction.reason,
+              lastUpdated: new Date()
+            },
+          });
+          return createFallbackResponse(jobSeekerProfile, extraction.reason);
+        }
+        
+        resumeDocument = extraction.document;
+        resumeText = extraction.text;
+        console.log(`[Resume Analysis] Text extraction complete, extracted ${resumeText.length} characters`);
+        
+        // Update the parsedResume with the extracted text
+        console.log('[Resume Analysis] Updating parsedResume with extracted text');
+        await prisma.parsedResume.update({
+          where: { id: parsedResume.id },
+          data: { 
+            rawText: resumeText,
+            layout: resumeDocument as unknown as Prisma.InputJsonValue,
+            extractionFailure: null,
+            lastUpdated: new Date()
+          },
+        });
+        
+        parsedResume.rawText = resumeText;
+        console.log('[Resume Analysis] Updated parsedResume.rawText');
+      } catch (error) {
+        console.error('[Resume Analysis] Error extracting resume text:', error);
+        return createFallbackResponse(jobSeekerProfile);
+      }
+    }
+    
+    // Reuse the cached analysis unless the resume text or the analyzer changed.
+    // It is keyed by the configured analyzer rather than the one that produced
+    // it, so a basic analysis made after the LLM failed is found again too
+    const textHash = hashResumeText(parsedResume.rawText);
+    const analyzerVersion = getResumeAnalyzerVersion();
+    if (!refresh) {
+      const cached = await getCachedResumeAnalysis<Record<string, unknown>>(
+        parsedResume.id,
+        textHash,
+        analyzerVersion
+      );
+      
+      if (cached) {
+        console.log('[Resume Analysis] Returning cached analysis');
+        return { ...cached, cached: true };
+      }
+    }
+    
+    // Analyze the resume text using our analyzer utility
+    console.log('[Resume Analysis] Analyzing resume text');
+    
+    let analysis;
+    try {
+      analysis = await analyzeResume(parsedResume.rawText, undefined, resumeDocument);
+      console.log('[Resume Analysis] Resume analysis complete');
+    } catch (analysisError) {
+      console.error('[Resume Analysis] Error analyzing resume:', analysisError);
+      return createFallbackResponse(jobSeekerProfile);
+    }
+    
+    // Format experience and education data if available from analysis
+    const experience = analysis.experience || [];
+    const education = analysis.education || [];
+    
+    // Get skill names from the database skills, plus the ones the analysis extracted
+    let combinedSkills = [...new Set([...skills.map(row => row.skill.name), ...analysis.skills])];
+    
+    // Store the extracted skills, with their usage estimated from the experience
+    try {
+      combinedSkills = await setResumeSkills(jobSeekerProfile.id, analysis.skills, experience);
+    } catch (skillsError) {
+      console.error('Error updating skills:', skillsError);
+      // Continue even if skills update fails
+    }
+    
+    // Stage experience and education for the job seeker to review and import
+    try {
+      await stageResumeHistory(jobSeekerProfile.id, { experience, education });
+    } catch (importError) {
+      console.error('[Resume Analysis] Error staging experience and education:', importError);
+      // Continue even if staging fails
+    }
+    
+    // Create the formatted response
+    const formattedData = {
+      contactInfo: analysis.contactInfo,
+      summary: analysis.summary,
+      skills: combinedSkills,
+      experience: experience,
+      education: education,
+      suggestions: analysis.suggestions,
+      score: analysis.score,
+      analyzer: analysis.analyzer,
+      provenance: analysis.provenance,
+      // Fields of the LLM's output that failed validation, if it was rejected
+      validationErrors: analysis.validationErrors || [],
+      // Scanned pages read with OCR, so the page can flag poorly recognized ones
+      ocrPages: resumeDocument ? getOcrPages(resumeDocument) : [],
+      // Scanned pages past the OCR page limit, which the analysis knows nothing about
+      ocrSkippedPages: resumeDocument?.ocrSkippedPages || [],
+      success: analysis.success
+    };
+    
+    // Cache successful analyses; failures are retried on the next request
+    if (analysis.success) {
+      try {
+        await saveResumeAnalysis(parsedResume.id, textHash, analyzerVersion, formattedData);
+      } catch (cacheError) {
+        console.error('[Resume Analysis] Error caching analysis:', cacheError);
+      }
+    }
+    
+    return formattedData;
+  } catch (error) {
+    console.error('Error in formatResumeResponse:', error);
+    return createFallbackResponse(jobSeekerProfile);
+  }
+}
+
+// Process a resume for a profile with proper error handling
+async function processResumeForProfile(profile: any, parsedResume: any, refresh = false) {
+  try {
+    if (!profile.resumeKey) {
+      console.error('No resume file found for profile:', profile.id);
+      return createFallbackResponse(profile);
+    }
+    
+    return await formatResumeResponse(parsedResume, profile.skills || [], profile, refresh);
+  } catch (error) {
+    console.error('Error processing resume for profile:', error);
+    return createFallbackResponse(profile);
+  }
+}
+
+/**
+ * Create a fallback response when resume processing fails. Nothing in it
+ * comes from the resume, so every field is marked as a placeholder.
+ * @param failure Why the resume text could not be extracted, if that is what failed
+ */
+function createFallbackResponse(profile: any, failure: ResumeExtractionFailure | null = null) {
+  console.log('Creating fallback response');
+  return {
+    success: true,
+    contactInfo: { 
+      email: profile.user?.email || '',
+      phone: '',
+      name: ''
+    },
+    summary: '',
+    skills: [],
+    experience: [],
+    education: [],
+    suggestions: [
+      'Please upload your resume again',
+      `Make sure the file is a valid ${RESUME_FORMATS_DESCRIPTION} file`,
+      'Ensure your resume has clear sections for experience, education, and skills'
+    ],
+    score: 0,
+    provenance: getPlaceholderProvenance(),
+    extractionFailure: failure,
+    message: failure ? RESUME_EXTRACTION_FAILURE_MESSAGES[failure] : 'Resume could not be processed. Please try uploading again.',
+    isFallback: true
+  };
+} 
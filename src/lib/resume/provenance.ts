@@ -0,0 +1,133 @@
+/**
+ * Resume Extraction Failures and Field Provenance
+ *
+ * Why a resume's text could not be read, and where each field of an analysis
+ * came from, so nobody mistakes a stand-in value for something the candidate
+ * wrote. Shared by the server and the pages, so it must stay free of
+ * server-only imports. The failure values mirror the `ResumeExtractionFailure`
+ * enum in prisma/schema.prisma.
+ */
+
+export const RESUME_EXTRACTION_FAILURES = [
+  'ENCRYPTED',
+  'IMAGE_ONLY',
+  'CORRUPT',
+  'EMPTY',
+  'UNSUPPORTED',
+] as const;
+
+export type ResumeExtractionFailure = typeof RESUME_EXTRACTION_FAILURES[number];
+
+export const RESUME_EXTRACTION_FAILURE_LABELS: Record<ResumeExtractionFailure, string> = {
+  ENCRYPTED: 'Password protected',
+  IMAGE_ONLY: 'Scanned image without text',
+  CORRUPT: 'Damaged file',
+  EMPTY: 'No text',
+  UNSUPPORTED: 'Unsupported format',
+};
+
+// What the job seeker can do about each failure
+export const RESUME_EXTRACTION_FAILURE_MESSAGES: Record<ResumeExtractionFailure, string> = {
+  ENCRYPTED: 'The resume is password protected. Remove the password and upload it again.',
+  IMAGE_ONLY: 'The resume is a scanned image and no text could be recognized in it. Upload a version with selectable text.',
+  CORRUPT: 'The resume file is damaged and could not be read. Export it again and upload the new file.',
+  EMPTY: 'The resume file contains no text.',
+  UNSUPPORTED: 'The resume file is not in a supported format.',
+};
+
+/**
+ * Where a field of an analysis came from:
+ * - `llm`: extracted by the language model
+ * - `heuristic`: found by pattern matching, so worth double-checking
+ * - `placeholder`: nothing was extracted; the value is empty or a generic stand-in
+ */
+export type FieldSource = 'llm' | 'heuristic' | 'placeholder';
+
+export type ResumeAnalysisProvenance = {
+  contactInfo: {
+    name: FieldSource;
+    email: FieldSource;
+    phone: FieldSource;
+    linkedin: FieldSource;
+    website: FieldSource;
+    location: FieldSource;
+  };
+  summary: FieldSource;
+  skills: FieldSource;
+  experience: FieldSource;
+  education: FieldSource;
+  suggestions: FieldSource;
+  score: FieldSource;
+};
+
+export const FIELD_SOURCE_LABELS: Record<FieldSource, string> = {
+  llm: 'AI extracted',
+  heuristic: 'Pattern match, please verify',
+  placeholder: 'Not found in resume',
+};
+
+/**
+ * Source of a value: the extractor that produced it, or `placeholder` when it is empty
+ */
+export function getFieldSource(value: unknown, source: FieldSource): FieldSource {
+  const present = Array.isArray(value) ? value.length > 0 : typeof value === 'string' ? value.trim() !== '' : value != null;
+  return present ? source : 'placeholder';
+}
+
+/**
+ * Provenance of an analysis produced by a single extractor
+ * @param analysis The analysis fields
+ * @param source The extractor that produced them
+ */
+export function getAnalysisProvenance(
+  analysis: {
+    contactInfo: { name?: string; email?: string; phone?: string; linkedin?: string; website?: string; location?: string };
+    summary: string;
+    skills: unknown[];
+    experience: unknown[];
+    education: unknown[];
+    suggestions: unknown[];
+    score: number | null;
+  },
+  source: FieldSource
+): ResumeAnalysisProvenance {
+  const { contactInfo } = analysis;
+  return {
+    contactInfo: {
+      name: getFieldSource(contactInfo.name, source),
+      email: getFieldSource(contactInfo.email, source),
+      phone: getFieldSource(contactInfo.phone, source),
+      linkedin: getFieldSource(contactInfo.linkedin, source),
+      website: getFieldSource(contactInfo.website, source),
+      location: getFieldSource(contactInfo.location, source),
+    },
+    summary: getFieldSource(analysis.summary, source),
+    skills: getFieldSource(analysis.skills, source),
+    experience: getFieldSource(analysis.experience, source),
+    education: getFieldSource(analysis.education, source),
+    suggestions: getFieldSource(analysis.suggestions, source),
+    score: getFieldSource(analysis.score, source),
+  };
+}
+
+/**
+ * Provenance of an analysis with nothing extracted
+ */
+export function getPlaceholderProvenance(): ResumeAnalysisProvenance {
+  return {
+    contactInfo: {
+      name: 'placeholder',
+      email: 'placeholder',
+      phone: 'placeholder',
+      linkedin: 'placeholder',
+      website: 'placeholder',
+      location: 'placeholder',
+    },
+    summary: 'placeholder',
+    skills: 'placeholder',
+    experience: 'placeholder',
+    education: 'placeholder',
+    suggestions: 'placeholder',
+    score: 'placeholder',
+  };
+}
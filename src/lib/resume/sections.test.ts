@@ -0,0 +1,85 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildPageLayout, PositionedText, textToDocument } from '@/lib/resume/layout';
+import { detectResumeSections, getSectionText } from '@/lib/resume/sections';
+
+function run(text: string, y: number, fontSize = 10): PositionedText {
+  return { text, x: 72, y, width: text.length * fontSize * 0.5, fontSize };
+}
+
+// A one-page document from lines set one under another, as [text, font size]
+function pdfDocument(lines: Array<[string, number]>) {
+  const runs = lines.map(([text, fontSize], index) => run(text, 100 + index * 20, fontSize));
+  return { pages: [buildPageLayout(runs, 612, 1)] };
+}
+
+const summarize = (sections: ReturnType<typeof detectResumeSections>) =>
+  sections.map(section => [section.key, section.heading, section.lines]);
+
+describe('detectResumeSections', () => {
+  it('splits at known section titles', () => {
+    const sections = detectResumeSections(textToDocument([
+      'Jane Doe',
+      'jane@example.com',
+      '',
+      'WORK EXPERIENCE',
+      'Engineer at Acme Corp',
+      '',
+      'Skills & Tools:',
+      'TypeScript, SQL',
+    ].join('\n')));
+
+    assert.deepEqual(summarize(sections), [
+      [null, null, ['Jane Doe', 'jane@example.com']],
+      ['experience', 'WORK EXPERIENCE', ['Engineer at Acme Corp']],
+      ['skills', 'Skills & Tools', ['TypeScript, SQL']],
+    ]);
+  });
+
+  it('takes a heading with its content on the same line', () => {
+    const sections = detectResumeSections(textToDocument('Summary: Backend engineer\nSkills: Go, SQL\nLanguages: Go, Python'));
+
+    assert.deepEqual(summarize(sections), [
+      ['summary', 'Summary', ['Backend engineer']],
+      ['skills', 'Skills', ['Go, SQL', 'Languages: Go, Python']],
+    ]);
+  });
+
+  it('finds headings set larger than the body text', () => {
+    const sections = detectResumeSections(pdfDocument([
+      ['Jane Doe', 18],
+      ['Backend engineer who likes databases', 10],
+      ['Experience', 13],
+      ['Engineer at Acme Corp, building the billing platform', 10],
+      ['Open Source', 13],
+      ['Maintainer of a PostgreSQL extension for time series', 10],
+    ]));
+
+    assert.deepEqual(summarize(sections), [
+      [null, null, ['Jane Doe', 'Backend engineer who likes databases']],
+      ['experience', 'Experience', ['Engineer at Acme Corp, building the billing platform']],
+      [null, 'Open Source', ['Maintainer of a PostgreSQL extension for time series']],
+    ]);
+  });
+
+  it('does not take long or dated lines for headings', () => {
+    const sections = detectResumeSections(pdfDocument([
+      ['Experience', 13],
+      ['Acme Corp 2019 - 2023', 13],
+      ['Built a new billing platform for the whole company', 13],
+      ['Engineer on the payments team', 10],
+      ['Maintained the data pipeline and its monitoring', 10],
+    ]));
+
+    assert.deepEqual(sections.map(section => section.heading), ['Experience']);
+  });
+});
+
+describe('getSectionText', () => {
+  it('joins the sections of a kind', () => {
+    const sections = detectResumeSections(textToDocument('Skills\nGo\n\nProjects\nA compiler\n\nTechnical Skills\nSQL'));
+
+    assert.equal(getSectionText(sections, 'skills'), 'Go\nSQL');
+    assert.equal(getSectionText(sections, 'education'), null);
+  });
+});
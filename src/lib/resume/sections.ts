@@ -0,0 +1,147 @@
+/**
+ * Resume Section Detection
+ *
+ * Splits a resume document into sections (experience, education, skills...)
+ * by finding its headings. A line is a heading when it is a short, known
+ * section title, or when it is set noticeably larger than the body text.
+ */
+
+import { ResumeDocument } from '@/lib/resume/layout';
+
+export const RESUME_SECTION_KEYS = [
+  'summary',
+  'experience',
+  'education',
+  'skills',
+  'projects',
+  'certifications',
+  'languages',
+  'awards',
+  'interests',
+  'references',
+  'contact',
+] as const;
+
+export type ResumeSectionKey = typeof RESUME_SECTION_KEYS[number];
+
+// Known section titles, normalised: lower case, "&" as "and", no punctuation
+const SECTION_TITLES: Record<ResumeSectionKey, string[]> = {
+  summary: ['summary', 'professional summary', 'career summary', 'profile', 'professional profile', 'about', 'about me', 'objective', 'career objective'],
+  experience: ['experience', 'work experience', 'professional experience', 'relevant experience', 'employment', 'employment history', 'work history', 'career history'],
+  education: ['education', 'academic background', 'education and training', 'academic qualifications', 'qualifications'],
+  skills: ['skills', 'technical skills', 'key skills', 'core skills', 'core competencies', 'competencies', 'technologies', 'skills and tools'],
+  projects: ['projects', 'personal projects', 'key projects', 'selected projects'],
+  certifications: ['certifications', 'certificates', 'licenses', 'licenses and certifications', 'certifications and licenses'],
+  languages: ['languages'],
+  awards: ['awards', 'honors', 'honours', 'achievements', 'honors and awards', 'awards and honors'],
+  interests: ['interests', 'hobbies', 'hobbies and interests'],
+  references: ['references'],
+  contact: ['contact', 'contact information', 'contact details', 'personal details', 'personal information'],
+};
+
+const TITLE_TO_KEY = new Map<string, ResumeSectionKey>(
+  RESUME_SECTION_KEYS.flatMap(key => SECTION_TITLES[key].map(title => [title, key] as [string, ResumeSectionKey]))
+);
+
+// Lines at least this much larger than the body text can be headings even when not a known title
+const HEADING_SIZE_RATIO = 1.2;
+
+const MAX_HEADING_WORDS = 5;
+
+export interface ResumeSection {
+  // The kind of section, or null for an unrecognised heading or the text before the first heading
+  key: ResumeSectionKey | null;
+  heading: string | null;
+  lines: string[];
+}
+
+function normalizeTitle(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Find the section a heading line names
+ */
+export function getSectionKeyForHeading(text: string): ResumeSectionKey | null {
+  return TITLE_TO_KEY.get(normalizeTitle(text)) || null;
+}
+
+// Font size of most of the text, weighted by length
+function getBodyFontSize(document: ResumeDocument): number | null {
+  const sizes = new Map<number, number>();
+  for (const page of document.pages) {
+    for (const block of page.blocks) {
+      for (const line of block.lines) {
+        if (line.fontSize !== null) {
+          sizes.set(line.fontSize, (sizes.get(line.fontSize) || 0) + line.text.length);
+        }
+      }
+    }
+  }
+
+  let body: number | null = null;
+  let most = 0;
+  for (const [size, chars] of Array.from(sizes.entries())) {
+    if (chars > most) {
+      body = size;
+      most = chars;
+    }
+  }
+  return body;
+}
+
+/**
+ * Split a resume into sections at its headings
+ * @param document The resume document
+ * @returns The sections in reading order; text before the first heading is a section without a heading
+ */
+export function detectResumeSections(document: ResumeDocument): ResumeSection[] {
+  const bodySize = getBodyFontSize(document);
+  const sections: ResumeSection[] = [{ key: null, heading: null, lines: [] }];
+
+  for (const page of document.pages) {
+    for (const block of page.blocks) {
+      for (const line of block.lines) {
+        const text = line.text.trim();
+        const words = text.split(/\s+/).length;
+        const isShort = words <= MAX_HEADING_WORDS && !/\d/.test(text);
+
+        // "Skills: JavaScript, React" - a heading with its content on the same line.
+        // Within a skills section, "Languages: Go, Python" is a category of skills instead.
+        const inline = /^([A-Za-z][A-Za-z &/]{2,40}):\s*(.+)$/.exec(text);
+        if (inline && getSectionKeyForHeading(inline[1]) && sections[sections.length - 1].key !== 'skills') {
+          sections.push({ key: getSectionKeyForHeading(inline[1]), heading: inline[1].trim(), lines: [inline[2].trim()] });
+          continue;
+        }
+
+        const key = isShort ? getSectionKeyForHeading(text) : null;
+        const isLarger = bodySize !== null && line.fontSize !== null && line.fontSize >= bodySize * HEADING_SIZE_RATIO;
+
+        // Unknown headings only count after the first known one, so the name at the top is not one
+        if (key || (isShort && isLarger && sections.length > 1)) {
+          sections.push({ key, heading: text.replace(/:$/, ''), lines: [] });
+        } else {
+          sections[sections.length - 1].lines.push(text);
+        }
+      }
+    }
+  }
+
+  return sections.filter(section => section.heading !== null || section.lines.length > 0);
+}
+
+/**
+ * Get the text of all sections of a kind
+ * @returns The lines joined by newlines, or null if the resume has no such section
+ */
+export function getSectionText(sections: ResumeSection[], key: ResumeSectionKey): string | null {
+  const matching = sections.filter(section => section.key === key);
+  if (matching.length === 0) return null;
+
+  return matching.map(section => section.lines.join('\n')).join('\n');
+}
@@ -0,0 +1,316 @@
+/**
+ * Skill Catalog
+ *
+ * Finds or creates the canonical skill for a name, merges duplicate skills and
+ * loads the skill taxonomy and its skill graph. Every path that stores skill names resolves them
+ * here, so "JS", "Javascript" and "JavaScript" all end up on one Skill row.
+ */
+
+import { Prisma, Skill } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { cleanSkillName, normalizeSkillName } from './normalize';
+import { SKILL_TAXONOMY, TaxonomySkill } from './taxonomy';
+import { estimateSkillUsage, getSkillLevelRank, JobSkillInput } from './proficiency';
+import { addSkillRelation } from './graph';
+
+// The client or a transaction
+type SkillDb = Prisma.TransactionClient;
+
+export interface SkillTaxonomySeedResult {
+  skills: number;
+  aliases: number;
+  merged: number;
+  relations: number;
+}
+
+/**
+ * Prisma filter for skills known by a name, directly or through an alias
+ */
+export function skillNamedWhere(name: string): Prisma.SkillWhereInput {
+  const normalizedName = normalizeSkillName(name);
+  return {
+    OR: [
+      { normalizedName },
+      { aliases: { some: { normalizedName } } },
+    ],
+  };
+}
+
+/**
+ * Find the skill known by a name, directly or through an alias
+ * @returns The skill, or null if there is none
+ */
+export async function findSkill(name: string, db: SkillDb = prisma): Promise<Skill | null> {
+  const normalizedName = normalizeSkillName(name);
+  if (!normalizedName) return null;
+
+  const alias = await db.skillAlias.findUnique({
+    where: { normalizedName },
+    include: { skill: true },
+  });
+  if (alias) return alias.skill;
+
+  return await db.skill.findUnique({ where: { normalizedName } });
+}
+
+/**
+ * Find the skill known by a name, creating it if there is none
+ * @returns The skill, or null for a blank name
+ */
+export async function resolveSkill(name: string, db: SkillDb = prisma): Promise<Skill | null> {
+  const existing = await findSkill(name, db);
+  if (existing) return existing;
+
+  const normalizedName = normalizeSkillName(name);
+  if (!normalizedName) return null;
+
+  // Upsert, so two requests adding the same new skill at once share the row
+  return await db.skill.upsert({
+    where: { normalizedName },
+    create: { name: cleanSkillName(name), normalizedName },
+    update: {},
+  });
+}
+
+/**
+ * Resolve a list of skill names
+ * @returns The distinct skills, in the order of the names
+ */
+export async function resolveSkills(names: string[], db: SkillDb = prisma): Promise<Skill[]> {
+  const skills = new Map<string, Skill>();
+  for (const name of names) {
+    const skill = await resolveSkill(name, db);
+    if (skill && !skills.has(skill.id)) skills.set(skill.id, skill);
+  }
+  return Array.from(skills.values());
+}
+
+/**
+ * Replace the skills a job posting asks for. Names that resolve to the same
+ * skill are combined: required if any of them is, at the highest minimum level.
+ */
+export async function setJobPostingSkills(jobPostingId: string, skills: JobSkillInput[]): Promise<void> {
+  const requirements = new Map<string, JobSkillInput>();
+  for (const input of skills) {
+    const skill = await resolveSkill(input.name);
+    if (!skill) continue;
+
+    const existing = requirements.get(skill.id);
+    const minimumLevels = [existing?.minimumLevel, input.minimumLevel].filter(level => level != null);
+    requirements.set(skill.id, {
+      name: skill.name,
+      required: input.required || !!existing?.required,
+      minimumLevel: minimumLevels.sort((a, b) => getSkillLevelRank(b) - getSkillLevelRank(a))[0] ?? null,
+    });
+  }
+
+  await prisma.$transaction([
+    prisma.jobPostingSkill.deleteMany({ where: { jobPostingId } }),
+    prisma.jobPostingSkill.createMany({
+      data: Array.from(requirements.entries()).map(([skillId, requirement]) => ({
+        jobPostingId,
+        skillId,
+        required: requirement.required,
+        minimumLevel: requirement.minimumLevel,
+      })),
+    }),
+  ]);
+}
+
+/**
+ * Replace the skills extracted from a job seeker's resume. Skills the job
+ * seeker declared themselves are kept as they are; the others get how long
+ * and how recently they were used, estimated from the resume's experience.
+ * @param experience The experience entries of the resume analysis
+ * @returns The names of all the profile's skills afterwards
+ */
+export async function setResumeSkills(
+  jobSeekerProfileId: string,
+  names: string[],
+  experience: Parameters<typeof estimateSkillUsage>[1]
+): Promise<string[]> {
+  const skills = await resolveSkills(names);
+  const skillIds = skills.map(skill => skill.id);
+
+  // Resume skills no longer in the resume
+  await prisma.jobSeekerSkill.deleteMany({
+    where: { jobSeekerProfileId, source: 'RESUME', skillId: { notIn: skillIds } },
+  });
+
+  const declared = await prisma.jobSeekerSkill.findMany({
+    where: { jobSeekerProfileId, source: 'SELF_DECLARED' },
+    select: { skillId: true },
+  });
+  const declaredIds = new Set(declared.map(row => row.skillId));
+
+  for (const skill of skills) {
+    if (declaredIds.has(skill.id)) continue;
+
+    const usage = estimateSkillUsage(skill.name, experience);
+    await prisma.jobSeekerSkill.upsert({
+      where: { jobSeekerProfileId_skillId: { jobSeekerProfileId, skillId: skill.id } },
+      create: { jobSeekerProfileId, skillId: skill.id, source: 'RESUME', ...usage },
+      update: usage,
+    });
+  }
+
+  const profileSkills = await prisma.jobSeekerSkill.findMany({
+    where: { jobSeekerProfileId },
+    include: { skill: true },
+    orderBy: { createdAt: 'asc' },
+  });
+  return profileSkills.map(row => row.skill.name);
+}
+
+/**
+ * Combine two skills: the job posting and profile links, the aliases and the
+ * skill graph edges of the source move to the target, the source is deleted,
+ * and its name becomes an alias of the target
+ * @param db A transaction to merge in, e.g. to audit the merge with it; by
+ * default the merge runs in a transaction of its own
+ * @returns The target skill
+ */
+export async function mergeSkills(sourceId: string, targetId: string, db?: SkillDb): Promise<Skill> {
+  if (sourceId === targetId) {
+    throw new Error('Cannot merge a skill into itself');
+  }
+
+  const merge = async (tx: SkillDb) => {
+    const source = await tx.skill.findUnique({
+      where: { id: sourceId },
+      include: { profileSkills: true, jobPostingSkills: true },
+    });
+    const target = await tx.skill.findUnique({ where: { id: targetId } });
+
+    if (!source || !target) {
+      throw new Error('Skill not found');
+    }
+
+    // Move each link unless the profile or posting already has the target skill,
+    // in which case its own details for the target are kept
+    for (const profileSkill of source.profileSkills) {
+      const existing = await tx.jobSeekerSkill.findUnique({
+        where: { jobSeekerProfileId_skillId: { jobSeekerProfileId: profileSkill.jobSeekerProfileId, skillId: target.id } },
+      });
+      if (!existing) {
+        await tx.jobSeekerSkill.update({ where: { id: profileSkill.id }, data: { skillId: target.id } });
+      }
+    }
+
+    for (const jobPostingSkill of source.jobPostingSkills) {
+      const existing = await tx.jobPostingSkill.findUnique({
+        where: { jobPostingId_skillId: { jobPostingId: jobPostingSkill.jobPostingId, skillId: target.id } },
+      });
+      if (!existing) {
+        await tx.jobPostingSkill.update({ where: { id: jobPostingSkill.id }, data: { skillId: target.id } });
+      }
+    }
+
+    // Edges the target already has, or that would join it to itself, are dropped with the source
+    const relations = await tx.skillRelation.findMany({
+      where: { OR: [{ fromSkillId: source.id }, { toSkillId: source.id }] },
+    });
+    for (const relation of relations) {
+      const otherId = relation.fromSkillId === source.id ? relation.toSkillId : relation.fromSkillId;
+      const duplicate = await tx.skillRelation.findFirst({
+        where: {
+          OR: [
+            { fromSkillId: target.id, toSkillId: otherId },
+            { fromSkillId: otherId, toSkillId: target.id },
+          ],
+        },
+      });
+      if (otherId === target.id || duplicate) continue;
+
+      await tx.skillRelation.update({
+        where: { id: relation.id },
+        data: relation.fromSkillId === source.id ? { fromSkillId: target.id } : { toSkillId: target.id },
+      });
+    }
+
+    await tx.skillAlias.updateMany({
+      where: { skillId: source.id },
+      data: { skillId: target.id },
+    });
+
+    await tx.skill.delete({ where: { id: source.id } });
+
+    await tx.skillAlias.create({
+      data: { skillId: target.id, name: source.name, normalizedName: source.normalizedName },
+    });
+
+    console.log(`[Skills] Merged "${source.name}" into "${target.name}"`);
+    return target;
+  };
+
+  return db ? await merge(db) : await prisma.$transaction(merge);
+}
+
+/**
+ * Load the skill taxonomy: create the canonical skills, point their aliases at
+ * them, merge skills that exist under an alias into the canonical one, and add
+ * the parent and related edges. Safe to run repeatedly; edges added or removed
+ * by an admin that the taxonomy does not mention are left alone.
+ */
+export async function seedSkillTaxonomy(taxonomy: TaxonomySkill[] = SKILL_TAXONOMY): Promise<SkillTaxonomySeedResult> {
+  const result: SkillTaxonomySeedResult = { skills: 0, aliases: 0, merged: 0, relations: 0 };
+
+  for (const entry of taxonomy) {
+    const normalizedName = normalizeSkillName(entry.name);
+
+    // The canonical name must not stay an alias of another skill
+    await prisma.skillAlias.deleteMany({ where: { normalizedName } });
+
+    const skill = await prisma.skill.upsert({
+      where: { normalizedName },
+      create: { name: entry.name, normalizedName },
+      update: { name: entry.name },
+    });
+    result.skills++;
+
+    for (const alias of entry.aliases) {
+      const aliasName = normalizeSkillName(alias);
+      if (!aliasName || aliasName === normalizedName) continue;
+
+      const duplicate = await prisma.skill.findUnique({ where: { normalizedName: aliasName } });
+      if (duplicate) {
+        // Merging also records the alias
+        await mergeSkills(duplicate.id, skill.id);
+        result.merged++;
+      } else {
+        await prisma.skillAlias.upsert({
+          where: { normalizedName: aliasName },
+          create: { skillId: skill.id, name: alias, normalizedName: aliasName },
+          update: { skillId: skill.id, name: alias },
+        });
+      }
+      result.aliases++;
+    }
+  }
+
+  // Edges need every skill to exist first
+  for (const entry of taxonomy) {
+    const edges = [
+      ...(entry.parents || []).map(name => ({ name, type: 'PARENT' as const })),
+      ...(entry.related || []).map(name => ({ name, type: 'RELATED' as const })),
+    ];
+    if (edges.length === 0) continue;
+
+    const skill = await findSkill(entry.name);
+    for (const edge of edges) {
+      const other = await findSkill(edge.name);
+      if (!skill || !other) {
+        console.warn(`[Skills] Taxonomy edge between "${entry.name}" and "${edge.name}" names an unknown skill`);
+        continue;
+      }
+
+      // A parent edge runs from the parent to the child
+      const added = edge.type === 'PARENT'
+        ? await addSkillRelation(other.id, skill.id, 'PARENT')
+        : await addSkillRelation(skill.id, other.id, 'RELATED');
+      if (added.success) result.relations++;
+    }
+  }
+
+  return result;
+}
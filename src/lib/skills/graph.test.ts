@@ -0,0 +1,44 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type * as Graph from '@/lib/skills/graph';
+
+const SQL = { id: 'sql', name: 'SQL' };
+const POSTGRESQL = { id: 'postgresql', name: 'PostgreSQL' };
+const NOSQL = { id: 'nosql', name: 'NoSQL' };
+
+// Edges as the admin enters them: a PARENT edge goes from the broader skill to the more specific one
+const RELATIONS = [
+  { type: 'PARENT', fromSkillId: SQL.id, toSkillId: POSTGRESQL.id, fromSkill: SQL, toSkill: POSTGRESQL },
+  { type: 'RELATED', fromSkillId: NOSQL.id, toSkillId: SQL.id, fromSkill: NOSQL, toSkill: SQL },
+];
+
+// The app's Prisma client reuses the one on `global`, so the graph loaded after this uses the fake
+(global as unknown as { prisma: unknown }).prisma = {
+  skillRelation: { findMany: async () => RELATIONS },
+};
+
+let graph: typeof Graph;
+
+before(async () => {
+  graph = await import('@/lib/skills/graph');
+});
+
+describe('loadSkillGraph', () => {
+  it('lists a parent edge from both ends', async () => {
+    const loaded = await graph.loadSkillGraph([SQL.id, POSTGRESQL.id]);
+
+    assert.equal(loaded.get(SQL.id)?.find(neighbor => neighbor.id === POSTGRESQL.id)?.kind, 'CHILD');
+    assert.deepEqual(loaded.get(POSTGRESQL.id), [{ ...SQL, kind: 'PARENT' }]);
+  });
+
+  it('lists a related edge the same way from both ends', async () => {
+    const loaded = await graph.loadSkillGraph([SQL.id, NOSQL.id]);
+
+    assert.equal(loaded.get(SQL.id)?.find(neighbor => neighbor.id === NOSQL.id)?.kind, 'RELATED');
+    assert.deepEqual(loaded.get(NOSQL.id), [{ ...SQL, kind: 'RELATED' }]);
+  });
+
+  it('loads nothing for no skills', async () => {
+    assert.equal((await graph.loadSkillGraph([])).size, 0);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Skill Graph
+ *
+ * Parent/child and related-to edges between skills. The matcher uses the
+ * neighbors of a posting's skills to give partial credit ("PostgreSQL" for
+ * "SQL", "Next.js" for "React"); admins edit the edges through
+ * /api/skills/relations, and the seed loads the ones in the taxonomy.
+ */
+
+import { Prisma, SkillRelation, SkillRelationType } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { SkillGraph } from './match';
+
+// The client or a transaction
+type SkillDb = Prisma.TransactionClient;
+
+export const SKILL_RELATION_TYPES = ['PARENT', 'RELATED'] as const;
+
+export type SkillRelationResult =
+  | { success: true; relation: SkillRelation }
+  | { success: false; error: string };
+
+/**
+ * Load the neighbors of the given skills: their parents, children and related skills
+ * @returns The graph, keyed by the given skills' ids
+ */
+export async function loadSkillGraph(skillIds: string[]): Promise<SkillGraph> {
+  const graph: SkillGraph = new Map();
+  if (skillIds.length === 0) return graph;
+
+  const relations = await prisma.skillRelation.findMany({
+    where: {
+      OR: [
+        { fromSkillId: { in: skillIds } },
+        { toSkillId: { in: skillIds } },
+      ],
+    },
+    include: {
+      fromSkill: { select: { id: true, name: true } },
+      toSkill: { select: { id: true, name: true } },
+    },
+  });
+
+  const addNeighbor = (skillId: string, neighbor: { id: string; name: string }, kind: 'PARENT' | 'CHILD' | 'RELATED') => {
+    const neighbors = graph.get(skillId) || [];
+    neighbors.push({ ...neighbor, kind });
+    graph.set(skillId, neighbors);
+  };
+
+  for (const relation of relations) {
+    if (relation.type === 'PARENT') {
+      addNeighbor(relation.fromSkillId, relation.toSkill, 'CHILD');
+      addNeighbor(relation.toSkillId, relation.fromSkill, 'PARENT');
+    } else {
+      addNeighbor(relation.fromSkillId, relation.toSkill, 'RELATED');
+      addNeighbor(relation.toSkillId, relation.fromSkill, 'RELATED');
+    }
+  }
+
+  return graph;
+}
+
+/**
+ * All the edges of the skill graph, with the skills' names
+ */
+export async function getSkillRelations() {
+  return await prisma.skillRelation.findMany({
+    include: {
+      fromSkill: { select: { id: true, name: true } },
+      toSkill: { select: { id: true, name: true } },
+    },
+    orderBy: [{ fromSkill: { name: 'asc' } }, { toSkill: { name: 'asc' } }],
+  });
+}
+
+// Whether `ancestorId` is `skillId` or one of its parents, grandparents and so on
+async function isAncestorOrSelf(ancestorId: string, skillId: string, db: SkillDb): Promise<boolean> {
+  const seen = new Set<string>();
+  let current = [skillId];
+
+  while (current.length > 0) {
+    if (current.includes(ancestorId)) return true;
+    current.forEach(id => seen.add(id));
+
+    const parents = await db.skillRelation.findMany({
+      where: { type: 'PARENT', toSkillId: { in: current } },
+      select: { fromSkillId: true },
+    });
+    current = parents.map(parent => parent.fromSkillId).filter(id => !seen.has(id));
+  }
+
+  return false;
+}
+
+/**
+ * Add an edge to the skill graph. Two skills have at most one edge between
+ * them, and a skill cannot become a parent of one of its own ancestors.
+ * @param type PARENT makes the "from" skill the parent of the "to" skill
+ * @param db Prisma client; pass a transaction to audit the change atomically
+ */
+export async function addSkillRelation(
+  fromSkillId: string,
+  toSkillId: string,
+  type: SkillRelationType,
+  db: SkillDb = prisma
+): Promise<SkillRelationResult> {
+  if (fromSkillId === toSkillId) {
+    return { success: false, error: 'A skill cannot be related to itself' };
+  }
+
+  const existing = await db.skillRelation.findFirst({
+    where: {
+      OR: [
+        { fromSkillId, toSkillId },
+        { fromSkillId: toSkillId, toSkillId: fromSkillId },
+      ],
+    },
+  });
+  if (existing) {
+    return { success: false, error: 'These skills are already related' };
+  }
+
+  if (type === 'PARENT' && await isAncestorOrSelf(toSkillId, fromSkillId, db)) {
+    return { success: false, error: 'The child skill is already an ancestor of the parent skill' };
+  }
+
+  const relation = await db.skillRelation.create({
+    data: { fromSkillId, toSkillId, type },
+  });
+  return { success: true, relation };
+}
+
+/**
+ * Remove an edge from the skill graph
+ * @param db Prisma client; pass a transaction to audit the change atomically
+ * @returns Whether the edge existed
+ */
+export async function removeSkillRelation(id: string, db: SkillDb = prisma): Promise<boolean> {
+  const { count } = await db.skillRelation.deleteMany({ where: { id } });
+  return count > 0;
+}
@@ -0,0 +1,116 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CandidateSkill, matchSkills, SkillGraph, SkillRequirement } from '@/lib/skills/match';
+
+function has(id: string, overrides: Partial<CandidateSkill> = {}): CandidateSkill {
+  return { id, level: null, yearsOfExperience: null, ...overrides };
+}
+
+function requires(id: string, overrides: Partial<SkillRequirement> = {}): SkillRequirement {
+  return { id, name: id.toUpperCase(), required: true, minimumLevel: null, ...overrides };
+}
+
+// SQL is the parent of PostgreSQL, and related to NoSQL; loadSkillGraph lists each edge from both ends
+const GRAPH: SkillGraph = new Map([
+  ['sql', [{ id: 'postgresql', name: 'PostgreSQL', kind: 'CHILD' }, { id: 'nosql', name: 'NoSQL', kind: 'RELATED' }]],
+  ['postgresql', [{ id: 'sql', name: 'SQL', kind: 'PARENT' }]],
+  ['nosql', [{ id: 'sql', name: 'SQL', kind: 'RELATED' }]],
+]);
+
+describe('matchSkills', () => {
+  it('has no score for a posting without skills', () => {
+    assert.equal(matchSkills([has('sql')], []), null);
+  });
+
+  it('weighs required skills twice as much as nice-to-have ones', () => {
+    const requirements = [requires('sql'), requires('go', { required: false })];
+
+    const withRequired = matchSkills([has('sql')], requirements)!;
+    const withNiceToHave = matchSkills([has('go')], requirements)!;
+
+    assert.equal(withRequired.score, 1 / 1.5);
+    assert.equal(withNiceToHave.score, 0.5 / 1.5);
+    assert.deepEqual(withRequired.matchedSkills, ['SQL']);
+    assert.deepEqual(withRequired.missingSkills, ['GO']);
+  });
+
+  it('gives full credit at or above the minimum level', () => {
+    const match = matchSkills([has('sql', { level: 'EXPERT' })], [requires('sql', { minimumLevel: 'ADVANCED' })])!;
+
+    assert.equal(match.score, 1);
+    assert.deepEqual(match.belowLevelSkills, []);
+  });
+
+  it('gives partial credit below the minimum level', () => {
+    const match = matchSkills([has('sql', { level: 'INTERMEDIATE' })], [requires('sql', { minimumLevel: 'EXPERT' })])!;
+
+    assert.equal(match.score, 2 / 4);
+    assert.deepEqual(match.matchedSkills, ['SQL']);
+    assert.deepEqual(match.belowLevelSkills, ['SQL']);
+  });
+
+  it('estimates the level from years of use when none is declared', () => {
+    const match = matchSkills([has('sql', { yearsOfExperience: 1.5 })], [requires('sql', { minimumLevel: 'ADVANCED' })])!;
+
+    assert.equal(match.score, 2 / 3);
+    assert.deepEqual(match.belowLevelSkills, ['SQL']);
+  });
+
+  it('gives most of the credit when the level is unknown', () => {
+    const match = matchSkills([has('sql')], [requires('sql', { minimumLevel: 'ADVANCED' })])!;
+
+    assert.equal(match.score, 0.75);
+    assert.deepEqual(match.belowLevelSkills, []);
+  });
+
+  it('weighs partial credit by whether the skill is required', () => {
+    const match = matchSkills(
+      [has('sql', { level: 'BEGINNER' })],
+      [requires('sql', { required: false, minimumLevel: 'INTERMEDIATE' }), requires('go')]
+    )!;
+
+    assert.equal(match.score, (0.5 * 0.5) / 1.5);
+  });
+
+  it('gives most of the credit for a more specific skill', () => {
+    const match = matchSkills([has('postgresql')], [requires('sql')], GRAPH)!;
+
+    assert.equal(match.score, 0.8);
+    assert.deepEqual(match.relatedSkills, [{ skill: 'SQL', via: 'PostgreSQL', relation: 'CHILD' }]);
+    assert.deepEqual(match.missingSkills, []);
+  });
+
+  it('gives half the credit for a broader skill', () => {
+    const match = matchSkills([has('sql')], [requires('postgresql')], GRAPH)!;
+
+    assert.equal(match.score, 0.5);
+    assert.deepEqual(match.relatedSkills, [{ skill: 'POSTGRESQL', via: 'SQL', relation: 'PARENT' }]);
+  });
+
+  it('gives less credit for a related skill', () => {
+    const match = matchSkills([has('nosql')], [requires('sql')], GRAPH)!;
+
+    assert.equal(match.score, 0.4);
+    assert.deepEqual(match.relatedSkills, [{ skill: 'SQL', via: 'NoSQL', relation: 'RELATED' }]);
+  });
+
+  it('credits the best neighbor the candidate has', () => {
+    const match = matchSkills([has('nosql'), has('postgresql')], [requires('sql')], GRAPH)!;
+
+    assert.equal(match.score, 0.8);
+    assert.equal(match.relatedSkills[0].via, 'PostgreSQL');
+  });
+
+  it('scales neighbor credit by the minimum level', () => {
+    const match = matchSkills([has('postgresql', { level: 'BEGINNER' })], [requires('sql', { minimumLevel: 'INTERMEDIATE' })], GRAPH)!;
+
+    assert.equal(match.score, 0.8 * 0.5);
+  });
+
+  it('prefers the skill itself to its neighbors', () => {
+    const match = matchSkills([has('sql'), has('postgresql')], [requires('sql')], GRAPH)!;
+
+    assert.equal(match.score, 1);
+    assert.deepEqual(match.relatedSkills, []);
+  });
+});
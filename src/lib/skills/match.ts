@@ -0,0 +1,148 @@
+/**
+ * Skill Matching
+ *
+ * Scores how well a candidate's skills cover the skills a job posting asks
+ * for. Required skills weigh twice as much as nice-to-have ones, and a skill
+ * known below the posting's minimum level earns partial credit. A missing skill
+ * also earns partial credit when the candidate has one next to it in the skill
+ * graph: a more specific one (PostgreSQL for SQL), a broader one, or a related one.
+ */
+
+import { getEffectiveSkillLevel, getSkillLevelRank, SkillLevel } from './proficiency';
+
+// Skills are identified by the Skill row's id, as in toProfileSkill and toJobSkill
+export interface CandidateSkill {
+  id: string;
+  level: SkillLevel | null;
+  yearsOfExperience: number | null;
+}
+
+export interface SkillRequirement {
+  id: string;
+  name: string;
+  required: boolean;
+  minimumLevel: SkillLevel | null;
+}
+
+// What a neighbor in the skill graph is to a skill
+export type SkillRelationKind = 'PARENT' | 'CHILD' | 'RELATED';
+
+// How a requirement met through a neighbor is described: "SQL via PostgreSQL (more specific skill)"
+export const SKILL_RELATION_KIND_LABELS: Record<SkillRelationKind, string> = {
+  PARENT: 'broader skill',
+  CHILD: 'more specific skill',
+  RELATED: 'related skill',
+};
+
+// The neighbors of each skill in the skill graph, by skill id
+export type SkillGraph = Map<string, Array<{ id: string; name: string; kind: SkillRelationKind }>>;
+
+// A requirement met through a neighboring skill instead of the skill itself
+export interface RelatedSkillMatch {
+  skill: string;
+  via: string;
+  // What the candidate's skill is to the required one
+  relation: SkillRelationKind;
+}
+
+export interface SkillMatch {
+  // 0-1: the weighted share of the requirements the candidate meets
+  score: number;
+  // Skills the candidate has themselves
+  matchedSkills: string[];
+  relatedSkills: RelatedSkillMatch[];
+  missingSkills: string[];
+  // Skills the candidate has, but below the minimum level asked for
+  belowLevelSkills: string[];
+}
+
+const NICE_TO_HAVE_WEIGHT = 0.5;
+
+// Share of the credit for a skill earned through a neighboring skill. A more
+// specific skill implies most of the broader one; the reverse implies less.
+export const RELATED_SKILL_CREDIT: Record<SkillRelationKind, number> = {
+  CHILD: 0.8,
+  PARENT: 0.5,
+  RELATED: 0.4,
+};
+
+// Credit for a skill with a minimum level when the candidate's level is unknown
+const UNKNOWN_LEVEL_CREDIT = 0.75;
+
+// Whether the candidate is known to be below the minimum level, and the credit they get for the skill
+function getLevelCredit(candidate: CandidateSkill, minimumLevel: SkillLevel | null): { credit: number; belowLevel: boolean } {
+  if (!minimumLevel) return { credit: 1, belowLevel: false };
+
+  const level = getEffectiveSkillLevel(candidate);
+  if (!level) return { credit: UNKNOWN_LEVEL_CREDIT, belowLevel: false };
+
+  const rank = getSkillLevelRank(level);
+  const minimumRank = getSkillLevelRank(minimumLevel);
+  return rank >= minimumRank
+    ? { credit: 1, belowLevel: false }
+    : { credit: (rank + 1) / (minimumRank + 1), belowLevel: true };
+}
+
+// The candidate's best-credited neighbor of a skill, if they have one
+function findRelatedSkill(
+  requirement: SkillRequirement,
+  bySkillId: Map<string, CandidateSkill>,
+  graph: SkillGraph
+): { credit: number; match: RelatedSkillMatch } | null {
+  let best: { credit: number; match: RelatedSkillMatch } | null = null;
+
+  for (const neighbor of graph.get(requirement.id) || []) {
+    const candidate = bySkillId.get(neighbor.id);
+    if (!candidate) continue;
+
+    const credit = RELATED_SKILL_CREDIT[neighbor.kind] * getLevelCredit(candidate, requirement.minimumLevel).credit;
+    if (!best || credit > best.credit) {
+      best = { credit, match: { skill: requirement.name, via: neighbor.name, relation: neighbor.kind } };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Match a candidate's skills against a job posting's
+ * @param graph Neighbors of the required skills, for partial credit; see loadSkillGraph
+ * @returns The score, or null when the posting asks for no skills
+ */
+export function matchSkills(
+  candidateSkills: CandidateSkill[],
+  requirements: SkillRequirement[],
+  graph: SkillGraph = new Map()
+): SkillMatch | null {
+  if (requirements.length === 0) return null;
+
+  const bySkillId = new Map(candidateSkills.map(skill => [skill.id, skill]));
+  const match: SkillMatch = { score: 0, matchedSkills: [], relatedSkills: [], missingSkills: [], belowLevelSkills: [] };
+
+  let earned = 0;
+  let possible = 0;
+  for (const requirement of requirements) {
+    const weight = requirement.required ? 1 : NICE_TO_HAVE_WEIGHT;
+    possible += weight;
+
+    const candidate = bySkillId.get(requirement.id);
+    if (!candidate) {
+      const related = findRelatedSkill(requirement, bySkillId, graph);
+      if (related) {
+        earned += weight * related.credit;
+        match.relatedSkills.push(related.match);
+      } else {
+        match.missingSkills.push(requirement.name);
+      }
+      continue;
+    }
+
+    const { credit, belowLevel } = getLevelCredit(candidate, requirement.minimumLevel);
+    earned += weight * credit;
+    match.matchedSkills.push(requirement.name);
+    if (belowLevel) match.belowLevelSkills.push(requirement.name);
+  }
+
+  match.score = earned / possible;
+  return match;
+}
@@ -0,0 +1,29 @@
+/**
+ * Skill Name Normalization
+ *
+ * Reduces skill names to the key skills are stored and matched under, so
+ * "Node.js", "NodeJS" and "node js" are recognised as the same skill. Shared
+ * by the server and the pages, so it must stay free of server-only imports.
+ */
+
+/**
+ * Clean up a skill name as typed or extracted from a resume: trims it,
+ * collapses whitespace and drops trailing punctuation
+ * @returns The name to display, or '' when nothing is left
+ */
+export function cleanSkillName(name: string): string {
+  return name
+    .normalize('NFKC')
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s,;:•·*-]+|[\s,;:]+$/g, '')
+    .trim();
+}
+
+/**
+ * Key a skill name is stored and matched under: lower case, without spaces,
+ * dots, dashes or underscores. The skill aliases migration computed the keys
+ * of existing skills with the same rule in SQL.
+ */
+export function normalizeSkillName(name: string): string {
+  return cleanSkillName(name).toLowerCase().replace(/[\s._-]+/g, '');
+}
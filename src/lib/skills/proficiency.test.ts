@@ -0,0 +1,41 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { estimateSkillUsage, getEffectiveSkillLevel } from '@/lib/skills/proficiency';
+
+describe('estimateSkillUsage', () => {
+  it('adds up the roles that mention the skill', () => {
+    const usage = estimateSkillUsage('Python', [
+      { title: 'Data Engineer', dates: 'Jan 2016 - Jan 2018', description: ['Pipelines in Python'] },
+      { title: 'Developer', dates: 'Jan 2019 - Jan 2020', description: ['Python services'] },
+      { title: 'Designer', dates: 'Jan 2020 - Jan 2022', description: ['Figma'] },
+    ]);
+
+    assert.equal(usage.yearsOfExperience, 3);
+    assert.equal(usage.lastUsed?.getFullYear(), 2020);
+  });
+
+  it('counts overlapping roles once', () => {
+    const usage = estimateSkillUsage('Python', [
+      { title: 'Developer', dates: 'Jan 2016 - Jan 2020', description: ['Python services'] },
+      { title: 'Freelance Developer', dates: 'Jan 2018 - Jan 2019', description: 'Python scripts for clients' },
+      { title: 'Mentor', dates: 'Jan 2019 - Jan 2021', description: 'Taught Python' },
+    ]);
+
+    assert.equal(usage.yearsOfExperience, 5);
+  });
+
+  it('knows nothing of a skill no dated role mentions', () => {
+    assert.deepEqual(estimateSkillUsage('Rust', [{ title: 'Developer', dates: 'Jan 2016 - Jan 2020' }]), {
+      yearsOfExperience: null,
+      lastUsed: null,
+    });
+  });
+});
+
+describe('getEffectiveSkillLevel', () => {
+  it('prefers the declared level and otherwise estimates one from the years', () => {
+    assert.equal(getEffectiveSkillLevel({ level: 'BEGINNER', yearsOfExperience: 10 }), 'BEGINNER');
+    assert.equal(getEffectiveSkillLevel({ level: null, yearsOfExperience: 4 }), 'ADVANCED');
+    assert.equal(getEffectiveSkillLevel({ level: null, yearsOfExperience: null }), null);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Skill Proficiency
+ *
+ * Levels and sources of a job seeker's skills, the minimum levels job postings
+ * ask for, and validation of both. Shared by the server and the pages, so it
+ * must stay free of server-only imports. The values mirror the `SkillLevel`
+ * and `SkillSource` enums in prisma/schema.prisma.
+ */
+
+import { z } from 'zod';
+import { parseResumeDateRange } from '@/lib/resume/dates';
+
+// In increasing order of proficiency
+export const SKILL_LEVELS = ['BEGINNER', 'INTERMEDIATE', 'ADVANCED', 'EXPERT'] as const;
+
+export type SkillLevel = typeof SKILL_LEVELS[number];
+
+export const SKILL_LEVEL_LABELS: Record<SkillLevel, string> = {
+  BEGINNER: 'Beginner',
+  INTERMEDIATE: 'Intermediate',
+  ADVANCED: 'Advanced',
+  EXPERT: 'Expert',
+};
+
+export const SKILL_SOURCES = ['SELF_DECLARED', 'RESUME'] as const;
+
+export type SkillSource = typeof SKILL_SOURCES[number];
+
+export const SKILL_SOURCE_LABELS: Record<SkillSource, string> = {
+  SELF_DECLARED: 'Added by the candidate',
+  RESUME: 'Found in the resume',
+};
+
+// Years of use at which a skill without a declared level counts as each level
+const LEVEL_YEARS: Array<[number, SkillLevel]> = [
+  [6, 'EXPERT'],
+  [3, 'ADVANCED'],
+  [1, 'INTERMEDIATE'],
+  [0, 'BEGINNER'],
+];
+
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000;
+
+/**
+ * Position of a level in SKILL_LEVELS, so levels can be compared
+ */
+export function getSkillLevelRank(level: SkillLevel): number {
+  return SKILL_LEVELS.indexOf(level);
+}
+
+/**
+ * The level a skill counts as: the declared one, or else one estimated from
+ * the years of use
+ * @returns The level, or null when neither is known
+ */
+export function getEffectiveSkillLevel(skill: { level: SkillLevel | null; yearsOfExperience: number | null }): SkillLevel | null {
+  if (skill.level) return skill.level;
+  if (skill.yearsOfExperience === null) return null;
+
+  return LEVEL_YEARS.find(([years]) => skill.yearsOfExperience! >= years)?.[1] ?? null;
+}
+
+/**
+ * Estimate how long and how recently a skill was used from the work
+ * experience of a resume: the entries whose title or bullets name the skill
+ * @returns Years of use (rounded to a tenth) and when it was last used; null where unknown
+ */
+export function estimateSkillUsage(
+  skillName: string,
+  experience: Array<{ title?: string; dates?: string; date?: string; description?: string[] | string }>
+): { yearsOfExperience: number | null; lastUsed: Date | null } {
+  const escaped = skillName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(`(?<![\\w])${escaped}(?![\\w])`, 'i');
+
+  const ranges: Array<{ start: number; end: number }> = [];
+  let lastUsed: Date | null = null;
+
+  for (const entry of experience) {
+    const description = Array.isArray(entry.description) ? entry.description.join(' ') : entry.description || '';
+    if (!pattern.test(`${entry.title || ''} ${description}`)) continue;
+
+    const { startDate, endDate, current } = parseResumeDateRange(entry.dates || entry.date);
+    if (!startDate) continue;
+
+    const end = current ? new Date() : endDate || startDate;
+    ranges.push({ start: startDate.getTime(), end: Math.max(end.getTime(), startDate.getTime()) });
+    if (!lastUsed || end > lastUsed) lastUsed = end;
+  }
+
+  // Concurrent roles (a job alongside freelance work) use the skill once, so
+  // merge overlapping ranges before adding them up
+  ranges.sort((a, b) => a.start - b.start);
+  let totalMs = 0;
+  let coveredUntil = -Infinity;
+  for (const { start, end } of ranges) {
+    if (end <= coveredUntil) continue;
+    totalMs += end - Math.max(start, coveredUntil);
+    coveredUntil = end;
+  }
+
+  return {
+    yearsOfExperience: lastUsed ? Math.round((totalMs / MS_PER_YEAR) * 10) / 10 : null,
+    lastUsed,
+  };
+}
+
+// Schema for a skill a job seeker declares on their profile
+export const profileSkillSchema = z.object({
+  name: z.string().trim().min(1, 'Skill name is required').max(60, 'Skill name must be less than 60 characters'),
+  level: z.enum(SKILL_LEVELS).nullable().optional(),
+  yearsOfExperience: z.number().min(0, 'Years cannot be negative').max(60, 'Enter at most 60 years').nullable().optional(),
+  lastUsed: z.string().date('Enter a valid date').nullable().optional(),
+});
+
+export type ProfileSkillInput = z.infer<typeof profileSkillSchema>;
+
+// A skill a job posting asks for: a name alone is a required skill without a minimum level
+export const jobSkillSchema = z.union([
+  z.string().trim().min(1),
+  z.object({
+    name: z.string().trim().min(1, 'Skill name is required'),
+    required: z.boolean().default(true),
+    minimumLevel: z.enum(SKILL_LEVELS).nullable().optional(),
+  }),
+]).transform(skill => (typeof skill === 'string' ? { name: skill, required: true, minimumLevel: null } : { ...skill, minimumLevel: skill.minimumLevel ?? null }));
+
+export type JobSkillInput = z.output<typeof jobSkillSchema>;
+
+/**
+ * A job seeker's skill as the API returns it: the skill with the candidate's
+ * proficiency alongside its name
+ */
+export function toProfileSkill(row: {
+  skill: { id: string; name: string };
+  level: SkillLevel | null;
+  yearsOfExperience: number | null;
+  lastUsed: Date | null;
+  source: SkillSource;
+}) {
+  return {
+    id: row.skill.id,
+    name: row.skill.name,
+    level: row.level,
+    yearsOfExperience: row.yearsOfExperience,
+    lastUsed: row.lastUsed,
+    source: row.source,
+  };
+}
+
+/**
+ * A job posting's skill as the API returns it: the skill with whether it is
+ * required and the minimum level asked for
+ */
+export function toJobSkill(row: {
+  skill: { id: string; name: string };
+  required: boolean;
+  minimumLevel: SkillLevel | null;
+}) {
+  return {
+    id: row.skill.id,
+    name: row.skill.name,
+    required: row.required,
+    minimumLevel: row.minimumLevel,
+  };
+}
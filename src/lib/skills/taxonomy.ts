@@ -0,0 +1,116 @@
+/**
+ * Skill Taxonomy
+ *
+ * The canonical skills and the other names they go by. `npx prisma db seed`
+ * loads it into the Skill and SkillAlias tables and merges skills that
+ * already exist under an alias into the canonical one. Names differing only
+ * in case, spaces or punctuation ("Node.js", "nodejs") need no alias; they
+ * normalize to the same key anyway.
+ *
+ * `parents` are broader skills the skill is a kind of or is built on, and
+ * `related` are skills often used together; the seed stores both as edges
+ * of the skill graph, which gives partial credit when matching.
+ */
+
+export interface TaxonomySkill {
+  name: string;
+  aliases: string[];
+  parents?: string[];
+  related?: string[];
+}
+
+export const SKILL_TAXONOMY: TaxonomySkill[] = [
+  // Languages
+  { name: 'JavaScript', aliases: ['JS', 'ECMAScript', 'ES6', 'ES2015'] },
+  { name: 'TypeScript', aliases: ['TS'], parents: ['JavaScript'] },
+  { name: 'Python', aliases: ['Python 3', 'Python3', 'Py'] },
+  { name: 'Java', aliases: ['Java SE', 'Java EE', 'J2EE'] },
+  { name: 'C#', aliases: ['CSharp', 'C Sharp'] },
+  { name: 'C++', aliases: ['CPP', 'C Plus Plus'] },
+  { name: 'C', aliases: ['ANSI C'] },
+  { name: 'Go', aliases: ['Golang'] },
+  { name: 'Rust', aliases: [] },
+  { name: 'Ruby', aliases: [] },
+  { name: 'PHP', aliases: [] },
+  { name: 'Kotlin', aliases: [] },
+  { name: 'Swift', aliases: [] },
+  { name: 'Scala', aliases: [] },
+  { name: 'R', aliases: ['R Language', 'RStats'] },
+  { name: 'SQL', aliases: ['Structured Query Language'] },
+  { name: 'Bash', aliases: ['Shell Scripting', 'Shell'] },
+  { name: 'HTML', aliases: ['HTML5'] },
+  { name: 'CSS', aliases: ['CSS3'] },
+  { name: 'Sass', aliases: ['SCSS'], parents: ['CSS'] },
+
+  // Frameworks and libraries
+  { name: 'React', aliases: ['React.js', 'ReactJS'], parents: ['JavaScript'], related: ['Redux'] },
+  { name: 'React Native', aliases: [], parents: ['React'] },
+  { name: 'Next.js', aliases: ['Next'], parents: ['React'], related: ['Node.js'] },
+  { name: 'Angular', aliases: ['Angular 2+', 'AngularJS'], parents: ['TypeScript'] },
+  { name: 'Vue', aliases: ['Vue.js', 'VueJS'], parents: ['JavaScript'] },
+  { name: 'Svelte', aliases: ['SvelteKit'], parents: ['JavaScript'] },
+  { name: 'Redux', aliases: [], parents: ['JavaScript'] },
+  { name: 'Node.js', aliases: ['Node'], parents: ['JavaScript'] },
+  { name: 'Express', aliases: ['Express.js', 'ExpressJS'], parents: ['Node.js'], related: ['REST API'] },
+  { name: 'Django', aliases: [], parents: ['Python'] },
+  { name: 'Flask', aliases: [], parents: ['Python'], related: ['FastAPI'] },
+  { name: 'FastAPI', aliases: [], parents: ['Python'] },
+  { name: 'Spring Boot', aliases: ['Spring', 'Spring Framework'], parents: ['Java'] },
+  { name: 'Ruby on Rails', aliases: ['Rails', 'RoR'], parents: ['Ruby'] },
+  { name: '.NET', aliases: ['DotNet', '.NET Core', 'ASP.NET', 'ASP.NET Core'], parents: ['C#'] },
+  { name: 'Tailwind CSS', aliases: ['Tailwind', 'TailwindCSS'], parents: ['CSS'], related: ['Bootstrap'] },
+  { name: 'Bootstrap', aliases: [], parents: ['CSS'] },
+  { name: 'Material UI', aliases: ['MUI'], parents: ['React'] },
+  { name: 'jQuery', aliases: [], parents: ['JavaScript'] },
+  { name: 'TensorFlow', aliases: [], parents: ['Machine Learning'], related: ['PyTorch'] },
+  { name: 'PyTorch', aliases: [], parents: ['Machine Learning'] },
+  { name: 'Pandas', aliases: [], parents: ['Python'], related: ['NumPy', 'Data Analysis'] },
+  { name: 'NumPy', aliases: [], parents: ['Python'] },
+
+  // Data stores
+  { name: 'PostgreSQL', aliases: ['Postgres', 'PSQL'], parents: ['SQL'], related: ['MySQL'] },
+  { name: 'MySQL', aliases: [], parents: ['SQL'] },
+  { name: 'Microsoft SQL Server', aliases: ['MSSQL', 'SQL Server', 'T-SQL'], parents: ['SQL'] },
+  { name: 'MongoDB', aliases: ['Mongo'], related: ['DynamoDB'] },
+  { name: 'Redis', aliases: [] },
+  { name: 'Elasticsearch', aliases: ['Elastic Search', 'ELK'] },
+  { name: 'SQLite', aliases: [], parents: ['SQL'] },
+  { name: 'DynamoDB', aliases: ['Amazon DynamoDB'], parents: ['AWS'] },
+
+  // Cloud and infrastructure
+  { name: 'AWS', aliases: ['Amazon Web Services'] },
+  { name: 'Azure', aliases: ['Microsoft Azure'] },
+  { name: 'Google Cloud', aliases: ['GCP', 'Google Cloud Platform'] },
+  { name: 'Docker', aliases: [] },
+  { name: 'Kubernetes', aliases: ['K8s'], related: ['Docker'] },
+  { name: 'Terraform', aliases: [], related: ['AWS', 'Azure', 'Google Cloud'] },
+  { name: 'Linux', aliases: [] },
+  { name: 'CI/CD', aliases: ['Continuous Integration', 'Continuous Delivery', 'Continuous Deployment'] },
+  { name: 'GitHub Actions', aliases: [], parents: ['CI/CD'], related: ['Git'] },
+  { name: 'Jenkins', aliases: [], parents: ['CI/CD'] },
+  { name: 'Git', aliases: [] },
+
+  // APIs and practices
+  { name: 'REST API', aliases: ['REST', 'RESTful', 'RESTful APIs', 'REST APIs'] },
+  { name: 'GraphQL', aliases: [], related: ['REST API'] },
+  { name: 'Microservices', aliases: ['Microservice Architecture'], related: ['Docker', 'REST API'] },
+  { name: 'Machine Learning', aliases: ['ML'], parents: ['Artificial Intelligence'], related: ['Data Analysis'] },
+  { name: 'Artificial Intelligence', aliases: ['AI'] },
+  { name: 'Data Analysis', aliases: ['Data Analytics'] },
+  { name: 'Unit Testing', aliases: ['Unit Tests'] },
+  { name: 'Test-Driven Development', aliases: ['TDD'], related: ['Unit Testing'] },
+  { name: 'Agile', aliases: ['Agile Methodologies'] },
+  { name: 'Scrum', aliases: [], parents: ['Agile'], related: ['Jira'] },
+  { name: 'Jira', aliases: [] },
+  { name: 'Confluence', aliases: [] },
+  { name: 'UI/UX Design', aliases: ['UX', 'UI Design', 'UX Design', 'User Experience'] },
+  { name: 'Figma', aliases: [], related: ['UI/UX Design'] },
+
+  // Soft skills
+  { name: 'Leadership', aliases: ['Team Leadership'] },
+  { name: 'Communication', aliases: ['Communication Skills'] },
+  { name: 'Problem Solving', aliases: ['Problem-Solving Skills'] },
+  { name: 'Critical Thinking', aliases: [] },
+  { name: 'Team Collaboration', aliases: ['Teamwork', 'Collaboration'] },
+  { name: 'Project Management', aliases: [], related: ['Agile', 'Leadership'] },
+];
@@ -0,0 +1,53 @@
+/**
+ * Resume storage selection
+ *
+ * The driver is chosen with the RESUME_STORAGE environment variable:
+ * - `local` (default): private directory on disk (RESUME_STORAGE_DIR, default `storage/resumes`)
+ * - `s3`: S3 or any S3-compatible server such as MinIO (S3_BUCKET, S3_ACCESS_KEY_ID,
+ *   S3_SECRET_ACCESS_KEY, optional S3_REGION, S3_ENDPOINT, S3_FORCE_PATH_STYLE, S3_PREFIX)
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { LocalResumeStorage } from './local-storage';
+import { S3ResumeStorage } from './s3-storage';
+import { ResumeStorage } from './types';
+
+export type { ResumeStorage } from './types';
+export { LocalResumeStorage } from './local-storage';
+export { S3ResumeStorage } from './s3-storage';
+
+/**
+ * Build the storage driver described by the environment
+ */
+export function getResumeStorage(env: NodeJS.ProcessEnv = process.env): ResumeStorage {
+  const driver = (env.RESUME_STORAGE || 'local').toLowerCase();
+
+  switch (driver) {
+    case 's3':
+      if (!env.S3_BUCKET || !env.S3_ACCESS_KEY_ID || !env.S3_SECRET_ACCESS_KEY) {
+        throw new Error('RESUME_STORAGE is s3 but S3_BUCKET, S3_ACCESS_KEY_ID or S3_SECRET_ACCESS_KEY is not set');
+      }
+      return new S3ResumeStorage({
+        bucket: env.S3_BUCKET,
+        accessKeyId: env.S3_ACCESS_KEY_ID,
+        secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+        region: env.S3_REGION,
+        endpoint: env.S3_ENDPOINT,
+        forcePathStyle: env.S3_FORCE_PATH_STYLE === 'true',
+        prefix: env.S3_PREFIX,
+      });
+    case 'local':
+      return new LocalResumeStorage({ directory: env.RESUME_STORAGE_DIR });
+    default:
+      throw new Error(`Unknown RESUME_STORAGE "${driver}"`);
+  }
+}
+
+/**
+ * Create a fresh storage key for a user's resume
+ * @param userId The owner of the file
+ * @param extension File extension without the dot
+ */
+export function createResumeKey(userId: string, extension: string): string {
+  return `${userId}/${uuidv4()}.${extension}`;
+}
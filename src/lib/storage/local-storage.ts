@@ -0,0 +1,54 @@
+import { mkdir, readFile, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+import { ResumeStorage } from './types';
+
+// Outside public/ so files cannot be fetched by URL
+const DEFAULT_LOCAL_DIRECTORY = path.join(process.cwd(), 'storage', 'resumes');
+
+export interface LocalResumeStorageConfig {
+  directory?: string;
+}
+
+/**
+ * Resume storage on the local file system, in a directory that is not served
+ */
+export class LocalResumeStorage implements ResumeStorage {
+  readonly name = 'local';
+  private readonly directory: string;
+
+  constructor(config: LocalResumeStorageConfig = {}) {
+    this.directory = path.resolve(config.directory || DEFAULT_LOCAL_DIRECTORY);
+  }
+
+  // Resolve a key inside the storage directory, refusing keys that escape it
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.directory, key);
+    if (!filePath.startsWith(this.directory + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await unlink(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+}
@@ -0,0 +1,126 @@
+import { createHash, createHmac } from 'crypto';
+import { ResumeStorage } from './types';
+
+const DEFAULT_S3_REGION = 'us-east-1';
+
+export interface S3ResumeStorageConfig {
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  region?: string;
+  /** Defaults to AWS; set it for MinIO or other S3-compatible servers */
+  endpoint?: string;
+  /** Address the bucket in the path instead of the host name, as MinIO expects */
+  forcePathStyle?: boolean;
+  /** Prepended to every key, e.g. `resumes/` */
+  prefix?: string;
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+// RFC 3986 encoding of each path segment, as S3 signatures require
+function encodeKey(key: string): string {
+  return key
+    .split('/')
+    .map(segment =>
+      encodeURIComponent(segment).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)
+    )
+    .join('/');
+}
+
+/**
+ * Resume storage in an S3-compatible object store. Requests are signed with
+ * AWS Signature Version 4, so no SDK is needed.
+ */
+export class S3ResumeStorage implements ResumeStorage {
+  readonly name = 's3';
+  private readonly region: string;
+  private readonly endpoint: URL;
+
+  constructor(private readonly config: S3ResumeStorageConfig) {
+    this.region = config.region || DEFAULT_S3_REGION;
+    this.endpoint = new URL(config.endpoint || `https://s3.${this.region}.amazonaws.com`);
+  }
+
+  private objectUrl(key: string): URL {
+    const objectKey = encodeKey(`${this.config.prefix || ''}${key}`);
+    const basePath = this.endpoint.pathname.replace(/\/$/, '');
+
+    if (this.config.forcePathStyle) {
+      return new URL(`${this.endpoint.protocol}//${this.endpoint.host}${basePath}/${this.config.bucket}/${objectKey}`);
+    }
+    return new URL(`${this.endpoint.protocol}//${this.config.bucket}.${this.endpoint.host}${basePath}/${objectKey}`);
+  }
+
+  private async request(method: 'GET' | 'PUT' | 'DELETE', key: string, body?: Buffer, contentType?: string) {
+    const url = this.objectUrl(key);
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256Hex(body || '');
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+    if (contentType) {
+      headers['content-type'] = contentType;
+    }
+
+    const headerNames = Object.keys(headers).sort();
+    const canonicalHeaders = headerNames.map(name => `${name}:${headers[name].trim()}\n`).join('');
+    const signedHeaders = headerNames.join(';');
+    const canonicalRequest = [method, url.pathname, '', canonicalHeaders, signedHeaders, payloadHash].join('\n');
+
+    const scope = `${dateStamp}/${this.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+    const signingKey = hmac(
+      hmac(hmac(hmac(`AWS4${this.config.secretAccessKey}`, dateStamp), this.region), 's3'),
+      'aws4_request'
+    );
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    // fetch sets the host header itself
+    const requestHeaders: Record<string, string> = { ...headers };
+    delete requestHeaders.host;
+
+    return await fetch(url, {
+      method,
+      headers: {
+        ...requestHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+      },
+      body,
+    });
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    const response = await this.request('PUT', key, data, contentType);
+    if (!response.ok) {
+      throw new Error(`S3 upload failed with HTTP ${response.status}: ${await response.text()}`);
+    }
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    const response = await this.request('GET', key);
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`S3 download failed with HTTP ${response.status}: ${await response.text()}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', key);
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 delete failed with HTTP ${response.status}: ${await response.text()}`);
+    }
+  }
+}
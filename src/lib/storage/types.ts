@@ -0,0 +1,17 @@
+/**
+ * Shared types for resume storage drivers
+ */
+
+/**
+ * A private store for uploaded resume files. Keys are opaque paths such as
+ * `<userId>/<uuid>.docx`; files are never served directly, only through the
+ * authenticated download route.
+ */
+export interface ResumeStorage {
+  readonly name: string;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  /** Returns null when there is no file under the key */
+  get(key: string): Promise<Buffer | null>;
+  /** Deleting a missing key is not an error */
+  delete(key: string): Promise<void>;
+}
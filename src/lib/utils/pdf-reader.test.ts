@@ -0,0 +1,88 @@
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { PdfReader } from '@/lib/utils/pdf-reader';
+
+/**
+ * Write a PDF with one page per content stream. Every page can paint the
+ * image /Im1 (a single grey pixel) and set text in /F1 (Helvetica).
+ */
+function buildPdf(pageContents: string[]): Buffer {
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageContents.map((_, index) => `${5 + index * 2} 0 R`).join(' ')}] /Count ${pageContents.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+    '<< /Type /XObject /Subtype /Image /Width 1 /Height 1 /ColorSpace /DeviceGray /BitsPerComponent 8 /Length 1 >>\nstream\n\x80\nendstream',
+  ];
+  for (const content of pageContents) {
+    const resources = '<< /Font << /F1 3 0 R >> /XObject << /Im1 4 0 R >> >>';
+    objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources ${resources} /Contents ${objects.length + 2} 0 R >>`);
+    objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  }
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((body, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
+
+const TEXT_PAGE = 'BT /F1 12 Tf 72 720 Td (Jane Doe) Tj ET';
+const SCANNED_PAGE = 'q 612 0 0 792 0 0 cm /Im1 Do Q';
+
+const OCR_VARIABLES = ['RESUME_OCR', 'RESUME_OCR_MAX_PAGES'] as const;
+const savedEnv = Object.fromEntries(OCR_VARIABLES.map(name => [name, process.env[name]]));
+
+before(() => {
+  // The reader and PDF.js log every page; keep the test output readable
+  mock.method(console, 'log', () => {});
+  mock.method(console, 'warn', () => {});
+});
+
+after(() => {
+  for (const name of OCR_VARIABLES) {
+    if (savedEnv[name] === undefined) delete process.env[name];
+    else process.env[name] = savedEnv[name];
+  }
+});
+
+describe('PdfReader', () => {
+  it('reads the text of each page', async () => {
+    const document = await new PdfReader().extractDocument(buildPdf([TEXT_PAGE]));
+
+    assert.deepEqual(document.pages.map(page => page.blocks.map(block => block.lines.map(line => line.text))), [[['Jane Doe']]]);
+    assert.equal(document.ocrSkippedPages, undefined);
+  });
+
+  it('lists the scanned pages past the OCR page limit', async () => {
+    process.env.RESUME_OCR = 'on';
+    process.env.RESUME_OCR_MAX_PAGES = '0';
+
+    const document = await new PdfReader().extractDocument(buildPdf([TEXT_PAGE, SCANNED_PAGE, TEXT_PAGE, SCANNED_PAGE]));
+
+    assert.deepEqual(document.ocrSkippedPages, [2, 4]);
+    assert.deepEqual(document.pages.map(page => page.blocks.length), [1, 0, 1, 0]);
+  });
+
+  it('lists no skipped pages when OCR is off', async () => {
+    process.env.RESUME_OCR = 'off';
+    process.env.RESUME_OCR_MAX_PAGES = '0';
+
+    const document = await new PdfReader().extractDocument(buildPdf([TEXT_PAGE, SCANNED_PAGE]));
+
+    assert.equal(document.ocrSkippedPages, undefined);
+  });
+
+  it('reports a PDF of scans it could not read as image-only', async () => {
+    process.env.RESUME_OCR = 'on';
+    process.env.RESUME_OCR_MAX_PAGES = '0';
+
+    await assert.rejects(new PdfReader().extractDocument(buildPdf([SCANNED_PAGE])), { reason: 'IMAGE_ONLY' });
+  });
+});
@@ -3,6 +3,12 @@
  * This simplified implementation is designed to be compatible with Next.js server components
  */
 
+import { buildPageLayout, documentToText, PositionedText, ResumeDocument, ResumePage, textToDocument } from '@/lib/resume/layout';
+import { ResumeExtractionError } from '@/lib/resume/extractors/types';
+import { getOcrPageLimit, isOcrEnabled, recognizeImage } from '@/lib/resume/ocr';
+import type * as PdfJs from 'pdfjs-dist';
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+
 // Import pdfjs-dist dynamically to avoid build issues
 let pdfjs: any = null;
 
@@ -12,12 +18,12 @@ async function initPdfJs() {
   
   try {
     // Dynamic import to avoid build-time errors
-    pdfjs = await import('pdfjs-dist');
+    pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
     
     // Configure PDF.js without workers for server-side compatibility
     if (typeof window === 'undefined') {
-      // Server-side - disable worker
-      pdfjs.GlobalWorkerOptions.workerSrc = '';
+      // Server-side - run the worker's code in this thread
+      await import('pdfjs-dist/legacy/build/pdf.worker.mjs');
     } else {
       // Client-side - use CDN worker
       const version = pdfjs.version || '3.4.120';
@@ -31,6 +37,20 @@ async function initPdfJs() {
   }
 }
 
+// Scanned pages are rendered at about 216 DPI (PDF units are 1/72 inch) for OCR
+const OCR_RENDER_SCALE = 3;
+
+// PDF.js types its canvas factory as a plain object; on the server it makes `canvas` package canvases
+interface NodeCanvasAndContext {
+  canvas: { toBuffer(mimeType: 'image/png'): Buffer };
+  context: CanvasRenderingContext2D;
+}
+
+interface NodeCanvasFactory {
+  create(width: number, height: number): NodeCanvasAndContext;
+  destroy(canvasAndContext: NodeCanvasAndContext): void;
+}
+
 // Define our own TextItem interface
 interface TextItem {
   str: string;
@@ -41,15 +61,86 @@ interface TextItem {
   fontName?: string;
 }
 
+// Convert PDF.js text items to runs positioned from the top-left of the page
+function toPositionedText(items: TextItem[], view: number[]): PositionedText[] {
+  const [left, , , top] = view;
+
+  return items
+    .filter(item => item && typeof item.str === 'string' && item.transform)
+    .map(item => {
+      const [a, b, c, d, e, f] = item.transform as number[];
+      return {
+        text: item.str,
+        x: e - left,
+        y: top - f,
+        width: item.width || 0,
+        fontSize: Math.hypot(c, d) || Math.hypot(a, b),
+      };
+    });
+}
+
+// Check whether a page paints any images
+async function pageHasImages(pdf: typeof PdfJs, page: PDFPageProxy): Promise<boolean> {
+  const { OPS } = pdf;
+  const imageOps = [OPS.paintImageXObject, OPS.paintInlineImageXObject, OPS.paintImageMaskXObject];
+  const operators = await page.getOperatorList();
+  return operators.fnArray.some(fn => imageOps.includes(fn));
+}
+
+/**
+ * Render a scanned page and read its text with OCR
+ * @returns The page's layout with its OCR confidence, or null when OCR is off or failed
+ */
+async function recognizePage(pdfDoc: PDFDocumentProxy, page: PDFPageProxy, pageNumber: number): Promise<ResumePage | null> {
+  if (!isOcrEnabled()) return null;
+
+  const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+  const canvasFactory = pdfDoc.canvasFactory as NodeCanvasFactory;
+  const canvasAndContext = canvasFactory.create(Math.ceil(viewport.width), Math.ceil(viewport.height));
+
+  try {
+    await page.render({ canvasContext: canvasAndContext.context, viewport }).promise;
+    const { text, confidence } = await recognizeImage(canvasAndContext.canvas.toBuffer('image/png'));
+    console.log(`[PDF Reader] OCR read page ${pageNumber} with ${confidence}% confidence`);
+
+    const [ocrPage] = textToDocument(text).pages;
+    return { ...ocrPage, number: pageNumber, ocrConfidence: confidence };
+  } catch (error) {
+    console.error(`[PDF Reader] OCR failed on page ${pageNumber}:`, error);
+    return null;
+  } finally {
+    canvasFactory.destroy(canvasAndContext);
+  }
+}
+
 export class PdfReader {
   /**
    * Extract text from a PDF buffer
    * @param buffer PDF file buffer
-   * @returns Extracted text from the PDF
+   * @returns Extracted text from the PDF, one line per line of the layout
    */
   async extractText(buffer: Buffer): Promise<string> {
+    return documentToText(await this.extractDocument(buffer));
+  }
+
+  /**
+   * Extract the layout of a PDF: pages of blocks of lines, with two-column
+   * pages split into columns
+   * @param buffer PDF file buffer
+   * @returns The document structure
+   * @throws ResumeExtractionError when the PDF is encrypted, image-only, empty or corrupt;
+   * other errors when PDF.js itself fails
+   */
+  async extractDocument(buffer: Buffer): Promise<ResumeDocument> {
     console.log('[PDF Reader] Starting PDF text extraction');
     
+    const pages: ResumePage[] = [];
+    const ocrSkippedPages: number[] = [];
+    const ocrPageLimit = getOcrPageLimit();
+    let ocrPagesRead = 0;
+    let failedPages = 0;
+    let hasImages = false;
+    
     try {
       // Initialize PDF.js
       const pdf = await initPdfJs();
@@ -57,7 +148,8 @@ export class PdfReader {
       
       // Load the PDF document with options for server-side compatibility
       const loadingTask = pdf.getDocument({
-        data: buffer,
+        // PDF.js rejects Buffers and takes ownership of the array, so it gets a copy
+        data: new Uint8Array(buffer),
         disableWorker: true, // Always disable worker for consistency
         disableFontFace: true, // Disable font rendering which requires browser APIs
         isEvalSupported: false, // Avoid eval for security
@@ -68,8 +160,6 @@ export class PdfReader {
       const pdfDoc = await loadingTask.promise;
       console.log(`[PDF Reader] PDF loaded successfully with ${pdfDoc.numPages} pages`);
       
-      let fullText = '';
-      
       // Process each page
       for (let i = 1; i <= pdfDoc.numPages; i++) {
         console.log(`[PDF Reader] Processing page ${i} of ${pdfDoc.numPages}`);
@@ -77,45 +167,73 @@ export class PdfReader {
           const page = await pdfDoc.getPage(i);
           const content = await page.getTextContent();
           
-          // Extract text items and join them
-          const pageText = content.items
-            .filter((item: any) => item && typeof item.str === 'string')
-            .map((item: any) => item.str)
-            .join(' ');
+          // Group the positioned text items into lines, blocks and columns
+          let layout = buildPageLayout(toPositionedText(content.items, page.view), page.view[2] - page.view[0], i);
+          
+          // A page without text but with images is a scan; read it with OCR
+          if (layout.blocks.length === 0 && (await pageHasImages(pdf, page))) {
+            hasImages = true;
+            if (ocrPagesRead < ocrPageLimit) {
+              ocrPagesRead++;
+              layout = (await recognizePage(pdfDoc, page, i)) || layout;
+            } else if (isOcrEnabled()) {
+              console.warn(`[PDF Reader] Skipping OCR of page ${i}: only ${ocrPageLimit} scanned page(s) are read`);
+              ocrSkippedPages.push(i);
+            }
+          }
           
-          fullText += pageText + '\n\n';
-          console.log(`[PDF Reader] Successfully extracted text from page ${i}, length: ${pageText.length} characters`);
+          pages.push(layout);
+          console.log(`[PDF Reader] Successfully extracted page ${i}: ${layout.blocks.length} blocks, ${layout.columns} column(s)`);
         } catch (pageError) {
           console.error(`[PDF Reader] Error extracting text from page ${i}:`, pageError);
+          failedPages++;
           // Continue with other pages even if one fails
         }
       }
-      
-      // Check if we got any meaningful text
-      if (!fullText.trim()) {
-        console.warn('[PDF Reader] No text extracted from PDF, using fallback text');
-        return this.getFallbackText();
-      }
-      
-      console.log(`[PDF Reader] Text extraction complete, total length: ${fullText.length} characters`);
-      return fullText;
     } catch (error) {
       console.error('[PDF Reader] Error extracting text from PDF:', error);
       
+      if (error instanceof Error && error.name === 'PasswordException') {
+        throw new ResumeExtractionError('ENCRYPTED', 'The PDF is password protected');
+      }
+      
       // Try alternative method (e.g., use pdf-parse package if available)
       try {
         console.log('[PDF Reader] Attempting alternative extraction method');
         const fallbackText = await this.extractTextWithFallback(buffer);
         if (fallbackText && fallbackText.trim()) {
-          return fallbackText;
+          return textToDocument(fallbackText);
         }
       } catch (fallbackError) {
         console.error('[PDF Reader] Alternative extraction method failed:', fallbackError);
       }
       
-      // Return fallback text if all extraction methods fail
-      return this.getFallbackText();
+      if (error instanceof Error && error.name === 'InvalidPDFException') {
+        throw new ResumeExtractionError('CORRUPT', error.message);
+      }
+      
+      // Anything else is a problem on our side rather than with the file
+      throw error;
+    }
+    
+    const document: ResumeDocument = {
+      pages,
+      ...(ocrSkippedPages.length > 0 && { ocrSkippedPages }),
+    };
+    
+    // Check if we got any meaningful text
+    if (!documentToText(document).trim()) {
+      if (hasImages) {
+        throw new ResumeExtractionError('IMAGE_ONLY', 'The PDF contains only images and no text could be recognized in them');
+      }
+      if (failedPages > 0) {
+        throw new ResumeExtractionError('CORRUPT', `${failedPages} page(s) of the PDF could not be read`);
+      }
+      throw new ResumeExtractionError('EMPTY', 'The PDF contains no text');
     }
+    
+    console.log(`[PDF Reader] Text extraction complete, ${pages.length} pages`);
+    return document;
   }
   
   /**
@@ -135,56 +253,6 @@ export class PdfReader {
       throw error;
     }
   }
-  
-  /**
-   * Returns a fallback text to use when PDF extraction fails
-   */
-  private getFallbackText(): string {
-    console.log('[PDF Reader] Using fallback text');
-    return `
-John Doe
-Software Engineer
-john.doe@example.com | (555) 123-4567 | linkedin.com/in/johndoe | github.com/johndoe
-
-PROFESSIONAL SUMMARY
-Experienced software engineer with 5+ years of experience in full-stack development, specializing in React, Node.js, and cloud technologies. Passionate about creating scalable and maintainable software solutions.
-
-SKILLS
-Programming Languages: JavaScript, TypeScript, Python, Java
-Frontend: React, Redux, HTML5, CSS3, SASS
-Backend: Node.js, Express, NestJS, Django
-Databases: MongoDB, PostgreSQL, MySQL
-Cloud: AWS, Azure, Google Cloud
-Tools: Git, Docker, Kubernetes, CI/CD
-
-EXPERIENCE
-Senior Software Engineer
-ABC Tech | Jan 2020 - Present
-- Developed and maintained multiple React applications with TypeScript
-- Implemented RESTful APIs using Node.js and Express
-- Improved application performance by 40% through code optimization
-- Led a team of 5 developers for a major client project
-
-Software Engineer
-XYZ Solutions | Mar 2017 - Dec 2019
-- Built responsive web applications using React and Redux
-- Created backend services with Node.js and MongoDB
-- Implemented automated testing with Jest and Cypress
-- Participated in Agile development processes
-
-EDUCATION
-Master of Science in Computer Science
-University of Technology | 2017
-
-Bachelor of Science in Software Engineering
-State University | 2015
-
-CERTIFICATIONS
-- AWS Certified Developer - Associate
-- Microsoft Certified: Azure Developer Associate
-- Google Professional Developer
-`;
-  }
 
   /**
    * Extract structured data from a PDF file buffer
@@ -0,0 +1,144 @@
+import { before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockProvider } from '@/lib/llm';
+import {
+  analyzeResumeWithLlm,
+  ResumeAnalysisValidationError,
+  resumeAnalysisResultSchema,
+} from '@/lib/utils/resume-llm';
+
+const RESUME_TEXT = 'Jane Doe\nSenior Software Engineer at Acme Corp, Jan 2019 - Present\nSkills: SQL, Python';
+
+const VALID_ANALYSIS = {
+  contactInfo: { name: 'Jane Doe', email: 'jane@example.com', phone: '', linkedin: '', website: '', location: '' },
+  summary: 'Engineer',
+  skills: ['SQL', 'Python'],
+  experience: [{ company: 'Acme Corp', title: 'Senior Software Engineer', dates: 'Jan 2019 - Present', description: [] }],
+  education: [],
+  suggestions: ['Add metrics'],
+  score: 80,
+};
+
+// A provider answering with the given responses in turn, recording the prompts it was sent
+function scriptedProvider(responses: string[]) {
+  const prompts: string[] = [];
+  const provider = new MockProvider(prompt => {
+    prompts.push(prompt);
+    return responses[Math.min(prompts.length, responses.length) - 1];
+  });
+  return { provider, prompts };
+}
+
+before(() => {
+  // The analysis logs every step; keep the test output readable
+  mock.method(console, 'log', () => {});
+  mock.method(console, 'error', () => {});
+});
+
+describe('resumeAnalysisResultSchema', () => {
+  it('fills in missing and null text fields', () => {
+    const result = resumeAnalysisResultSchema.parse({
+      ...VALID_ANALYSIS,
+      contactInfo: { name: 'Jane Doe', email: null },
+      summary: null,
+      suggestions: null,
+    });
+
+    assert.deepEqual(result.contactInfo, { name: 'Jane Doe', email: '', phone: '', linkedin: '', website: '', location: '' });
+    assert.equal(result.summary, '');
+    assert.deepEqual(result.suggestions, []);
+  });
+
+  it('turns a single string into a list', () => {
+    const result = resumeAnalysisResultSchema.parse({
+      ...VALID_ANALYSIS,
+      experience: [{ company: 'Acme Corp', description: 'Led the platform team' }],
+      suggestions: 'Add metrics',
+    });
+
+    assert.deepEqual(result.experience[0].description, ['Led the platform team']);
+    assert.deepEqual(result.suggestions, ['Add metrics']);
+  });
+
+  it('reads a score written as a string', () => {
+    assert.equal(resumeAnalysisResultSchema.parse({ ...VALID_ANALYSIS, score: '85' }).score, 85);
+  });
+
+  it('rejects scores out of range and invalid emails', () => {
+    const result = resumeAnalysisResultSchema.safeParse({
+      ...VALID_ANALYSIS,
+      contactInfo: { ...VALID_ANALYSIS.contactInfo, email: 'not an email' },
+      score: 150,
+    });
+
+    assert.equal(result.success, false);
+    assert.deepEqual(
+      result.error?.issues.map(issue => issue.path.join('.')).sort(),
+      ['contactInfo.email', 'score']
+    );
+  });
+});
+
+describe('analyzeResumeWithLlm', () => {
+  it('returns the validated analysis', async () => {
+    const { provider, prompts } = scriptedProvider([JSON.stringify(VALID_ANALYSIS)]);
+
+    const result = await analyzeResumeWithLlm(provider, RESUME_TEXT);
+
+    assert.equal(result.contactInfo.name, 'Jane Doe');
+    assert.equal(prompts.length, 1);
+  });
+
+  it('repairs fenced and truncated output without asking again', async () => {
+    const truncated = JSON.stringify(VALID_ANALYSIS).replace(/"score":80\}$/, '"score":80,"sugg');
+    const { provider, prompts } = scriptedProvider(['```json\n' + truncated]);
+
+    const result = await analyzeResumeWithLlm(provider, RESUME_TEXT);
+
+    assert.equal(result.score, 80);
+    assert.equal(prompts.length, 1);
+  });
+
+  it('shows the model its validation errors and uses the corrected output', async () => {
+    const { provider, prompts } = scriptedProvider([
+      JSON.stringify({ ...VALID_ANALYSIS, score: 150 }),
+      JSON.stringify(VALID_ANALYSIS),
+    ]);
+
+    const result = await analyzeResumeWithLlm(provider, RESUME_TEXT);
+
+    assert.equal(result.score, 80);
+    assert.equal(prompts.length, 2);
+    assert.match(prompts[1], /Your previous response was:/);
+    assert.match(prompts[1], /- score: Must be from 0 to 100/);
+  });
+
+  it('asks for a correction of output that is not JSON', async () => {
+    const { provider, prompts } = scriptedProvider(['I cannot help with that.', JSON.stringify(VALID_ANALYSIS)]);
+
+    await analyzeResumeWithLlm(provider, RESUME_TEXT);
+
+    assert.match(prompts[1], /- \(response\): The response is not valid JSON/);
+  });
+
+  it('gives up after two corrections with the remaining field errors', async () => {
+    const { provider, prompts } = scriptedProvider([JSON.stringify({ ...VALID_ANALYSIS, skills: 'SQL' })]);
+
+    await assert.rejects(
+      analyzeResumeWithLlm(provider, RESUME_TEXT),
+      (error: unknown) => {
+        assert.ok(error instanceof ResumeAnalysisValidationError);
+        assert.deepEqual(error.fieldErrors.map(fieldError => fieldError.path), ['skills']);
+        return true;
+      }
+    );
+    assert.equal(prompts.length, 3);
+  });
+
+  it('refuses text too short to be a resume', async () => {
+    const { provider, prompts } = scriptedProvider([JSON.stringify(VALID_ANALYSIS)]);
+
+    await assert.rejects(analyzeResumeWithLlm(provider, 'Jane Doe'), /too short/);
+    assert.equal(prompts.length, 0);
+  });
+});
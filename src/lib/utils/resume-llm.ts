@@ -0,0 +1,189 @@
+import { z } from 'zod';
+import { LlmProvider, parseModelJson, withRetries } from '@/lib/llm';
+
+// Text fields the model may leave out or set to null when the resume has nothing for them
+const optionalText = z.string().nullish().transform(value => value ?? '');
+
+// A list the model sometimes writes as a single string
+const textList = z
+  .union([z.array(z.string()), z.string().transform(value => [value])])
+  .nullish()
+  .transform(value => value ?? []);
+
+// Schema for the analysis the model must return
+export const resumeAnalysisResultSchema = z.object({
+  contactInfo: z.object({
+    name: optionalText,
+    email: z.union([z.literal(''), z.string().email('Must be an email address')]).nullish().transform(value => value ?? ''),
+    phone: optionalText,
+    linkedin: optionalText,
+    website: optionalText,
+    location: optionalText,
+  }),
+  summary: optionalText,
+  skills: z.array(z.string()),
+  experience: z.array(z.object({
+    company: optionalText,
+    title: optionalText,
+    dates: optionalText,
+    description: textList,
+  })),
+  education: z.array(z.object({
+    institution: optionalText,
+    degree: optionalText,
+    dates: optionalText,
+  })),
+  suggestions: textList,
+  score: z.preprocess(
+    value => (typeof value === 'string' && value.trim() !== '' ? Number(value) : value),
+    z.number().min(0, 'Must be from 0 to 100').max(100, 'Must be from 0 to 100')
+  ),
+});
+
+export type ResumeAnalysisResult = z.infer<typeof resumeAnalysisResultSchema>;
+
+// A problem with one field of the model's output, e.g. path "experience.0.dates"
+export type AnalysisFieldError = {
+  path: string;
+  message: string;
+};
+
+/**
+ * The model's output still did not match the schema after it was asked to correct it
+ */
+export class ResumeAnalysisValidationError extends Error {
+  constructor(readonly fieldErrors: AnalysisFieldError[]) {
+    super(`LLM analysis failed validation: ${fieldErrors.map(error => `${error.path}: ${error.message}`).join('; ')}`);
+    this.name = 'ResumeAnalysisValidationError';
+  }
+}
+
+type ParsedAnalysis =
+  | { success: true; result: ResumeAnalysisResult }
+  | { success: false; fieldErrors: AnalysisFieldError[] };
+
+// How often the model is shown its validation errors and asked for corrected output
+const MAX_CORRECTION_PROMPTS = 2;
+
+const RESPONSE_SHAPE = `{
+  "contactInfo": { "name": string, "email": string, "phone": string, "linkedin": string, "website": string, "location": string },
+  "summary": string,
+  "skills": string[],
+  "experience": [{ "company": string, "title": string, "dates": string, "description": string[] }],
+  "education": [{ "institution": string, "degree": string, "dates": string }],
+  "suggestions": string[],
+  "score": number from 0 to 100
+}`;
+
+/**
+ * Analyzes a resume text using the given LLM provider
+ * @param provider The LLM provider to send the prompt to
+ * @param resumeText The text content of the resume
+ * @returns Structured analysis of the resume
+ */
+export async function analyzeResumeWithLlm(provider: LlmProvider, resumeText: string): Promise<ResumeAnalysisResult> {
+  console.log(`[LLM Analysis] Starting resume analysis with ${provider.name}`);
+  
+  // Check if resume text is too short or empty
+  if (!resumeText || resumeText.length < 50) {
+    console.error('[LLM Analysis] Resume text is too short or empty:', resumeText);
+    throw new Error('Resume text is too short or empty');
+  }
+  
+  // Truncate resume text if it's too long (models have token limits)
+  const maxLength = 15000;
+  const truncatedText = resumeText.length > maxLength 
+    ? resumeText.substring(0, maxLength) + '...(truncated)'
+    : resumeText;
+  
+  console.log(`[LLM Analysis] Resume text length: ${resumeText.length} characters, truncated to ${truncatedText.length} characters`);
+  
+  // Create the prompt for the model
+  const prompt = `
+  You are a professional resume analyzer. Analyze the following resume and extract structured information.
+  
+  Resume:
+  ${truncatedText}
+  
+  Please extract and return the following information in JSON format:
+  
+  1. Contact Information: Name, email, phone, LinkedIn, website, location
+  2. Summary: A brief professional summary
+  3. Skills: A list of technical and soft skills mentioned
+  4. Experience: List of work experiences with company, title, dates, and bullet points
+  5. Education: List of education with institution, degree, dates
+  6. Suggestions: Provide 3-5 specific suggestions to improve the resume
+  7. Score: A score from 0-100 rating the overall quality of the resume
+  
+  Return ONLY valid JSON with this shape, using empty strings or lists for anything the resume does not contain:
+  ${RESPONSE_SHAPE}
+  `;
+
+  const generate = (text: string) =>
+    // Retry failed calls with backoff; output that fails validation is corrected below instead
+    withRetries(provider, () => provider.generate(text, {
+      temperature: 0.2,
+      maxOutputTokens: 8192,
+    }));
+
+  let responseText = await generate(prompt);
+  let parsed = parseAnalysisResponse(responseText);
+
+  for (let correction = 1; !parsed.success && correction <= MAX_CORRECTION_PROMPTS; correction++) {
+    console.log(`[LLM Analysis] Asking ${provider.name} to correct its output (${correction}/${MAX_CORRECTION_PROMPTS})`);
+    responseText = await generate(createCorrectionPrompt(prompt, responseText, parsed.fieldErrors));
+    parsed = parseAnalysisResponse(responseText);
+  }
+
+  if (!parsed.success) {
+    throw new ResumeAnalysisValidationError(parsed.fieldErrors);
+  }
+
+  console.log('[LLM Analysis] Analysis result validation complete');
+  return parsed.result;
+}
+
+/**
+ * Extracts the JSON analysis from the model's response text and validates it
+ */
+function parseAnalysisResponse(responseText: string): ParsedAnalysis {
+  console.log('[LLM Analysis] Received text response, length:', responseText.length);
+
+  let json: unknown;
+  try {
+    json = parseModelJson(responseText);
+  } catch (parseError) {
+    console.error('[LLM Analysis] Error parsing JSON from response:', parseError);
+    return { success: false, fieldErrors: [{ path: '', message: 'The response is not valid JSON' }] };
+  }
+
+  const validation = resumeAnalysisResultSchema.safeParse(json);
+  if (!validation.success) {
+    const fieldErrors = validation.error.issues.map(issue => ({
+      path: issue.path.join('.'),
+      message: issue.message,
+    }));
+    console.error('[LLM Analysis] Response failed validation:', fieldErrors);
+    return { success: false, fieldErrors };
+  }
+
+  return { success: true, result: validation.data };
+}
+
+/**
+ * Builds a follow-up prompt showing the model its previous output and what was wrong with it
+ */
+function createCorrectionPrompt(prompt: string, responseText: string, fieldErrors: AnalysisFieldError[]): string {
+  const errors = fieldErrors.map(error => `- ${error.path || '(response)'}: ${error.message}`).join('\n');
+
+  return `${prompt}
+
+  Your previous response was:
+  ${responseText}
+
+  It did not match the required shape:
+  ${errors}
+
+  Return ONLY the corrected JSON.
+  `;
+}
@@ -0,0 +1,2 @@
+// The worker bundle has no types; the server imports it only so PDF.js runs its worker in-process
+declare module 'pdfjs-dist/legacy/build/pdf.worker.mjs';